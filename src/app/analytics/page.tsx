@@ -0,0 +1,177 @@
+"use client"
+
+import React, { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, BarChart3, RefreshCw } from 'lucide-react'
+import { ADMIN_PAYMENT_METHODS } from '@/types/orders'
+import {
+  getPaymentMethodSplit,
+  getRevenueByDay,
+  getRevenueByHour,
+  getTopItems,
+  summarizeSales
+} from '@/lib/analytics'
+import { BROWSER_TIME_ZONE, DateRange, getPresetRange } from '@/lib/date-ranges'
+import { canAccessRoute } from '@/lib/auth'
+import { BarChart } from '@/components/analytics/bar-chart'
+import { DateRangePicker } from '@/components/analytics/date-range-picker'
+import { ThroughputReport } from '@/components/analytics/throughput-report'
+import { StaffMenu } from '@/components/auth/staff-menu'
+import { Toaster } from '@/components/ui/toaster'
+import { useOrderRange } from '@/hooks/use-order-range'
+import { useStaffSession } from '@/hooks/use-staff-session'
+import { useStoreSettings } from '@/hooks/use-store-settings'
+import { cn } from '@/lib/utils'
+
+const formatMoney = (amount: number) => `Rs ${amount.toLocaleString(undefined, { maximumFractionDigits: 2 })}`
+
+const paymentMethodLabel = (method: string) =>
+  ADMIN_PAYMENT_METHODS.find(option => option.value === method)?.label
+    ?? method.replace(/[_-]+/g, ' ').replace(/^\w/, letter => letter.toUpperCase())
+
+const cardClass = "bg-white dark:bg-slate-800 rounded-xl p-6 shadow-lg border border-slate-200 dark:border-slate-700"
+
+export default function AnalyticsPage() {
+  const { profile, role, signOut } = useStaffSession()
+  const { settings } = useStoreSettings()
+  const timeZone = settings?.timezone ?? BROWSER_TIME_ZONE
+  // The default range follows the store's days once its time zone has loaded
+  const [pickedRange, setRange] = useState<DateRange | null>(null)
+  const range = useMemo(() => pickedRange ?? getPresetRange('last_7_days', timeZone), [pickedRange, timeZone])
+  const { orders, loading, refresh } = useOrderRange(range.from, range.to)
+
+  const summary = useMemo(() => summarizeSales(orders), [orders])
+  const byDay = useMemo(() => getRevenueByDay(orders, range), [orders, range])
+  const byHour = useMemo(() => getRevenueByHour(orders), [orders])
+  const topItems = useMemo(() => getTopItems(orders), [orders])
+  const paymentSplit = useMemo(() => getPaymentMethodSplit(orders), [orders])
+
+  const stats = [
+    { label: 'Revenue', value: formatMoney(summary.revenue) },
+    { label: 'Orders', value: String(summary.orderCount - summary.cancelledCount) },
+    { label: 'Average Order', value: formatMoney(summary.averageOrderValue) },
+    { label: 'Tax Collected', value: formatMoney(summary.taxTotal) },
+    { label: 'Delivery Fees', value: formatMoney(summary.deliveryFeeTotal) },
+    {
+      label: 'Cancelled',
+      value: `${(summary.cancellationRate * 100).toFixed(1)}%`,
+      detail: `${summary.cancelledCount} of ${summary.orderCount}`
+    }
+  ]
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            {canAccessRoute('/orders', role) && (
+              <Link href="/orders" className="p-2 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+                <ArrowLeft className="w-5 h-5 text-slate-600 dark:text-slate-300" />
+              </Link>
+            )}
+            <BarChart3 className="w-8 h-8 text-blue-600" />
+            <h1 className="text-3xl font-bold text-slate-900 dark:text-slate-100">Analytics</h1>
+          </div>
+          <StaffMenu profile={profile} onSignOut={signOut} />
+        </div>
+
+        <div className={cn(cardClass, "flex flex-col md:flex-row md:items-center justify-between gap-3 p-4")}>
+          <DateRangePicker range={range} onChange={setRange} timeZone={timeZone} defaultPreset="last_7_days" />
+          <button
+            onClick={refresh}
+            disabled={loading}
+            className="flex items-center space-x-2 px-3 py-1 rounded-lg bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-50 transition-colors text-sm"
+          >
+            <RefreshCw className={cn("w-4 h-4", loading && "animate-spin")} />
+            <span>Refresh</span>
+          </button>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+          {stats.map(stat => (
+            <div key={stat.label} className={cn(cardClass, "p-4")}>
+              <p className="text-sm text-slate-600 dark:text-slate-400">{stat.label}</p>
+              <p className="text-2xl font-bold text-slate-900 dark:text-slate-100">{stat.value}</p>
+              {stat.detail && <p className="text-xs text-slate-500">{stat.detail}</p>}
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className={cardClass}>
+            <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-4">Revenue by Day</h2>
+            <BarChart
+              data={byDay.map(day => ({ label: day.label, value: day.revenue, detail: `${formatMoney(day.revenue)}, ${day.orders} orders` }))}
+            />
+          </div>
+          <div className={cardClass}>
+            <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-4">Revenue by Hour</h2>
+            <BarChart
+              barClassName="bg-purple-500"
+              data={byHour.map(hour => ({ label: hour.label, value: hour.revenue, detail: `${formatMoney(hour.revenue)}, ${hour.orders} orders` }))}
+            />
+          </div>
+
+          <div className={cardClass}>
+            <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-4">Top Items</h2>
+            {topItems.length === 0 ? (
+              <p className="py-6 text-center text-sm text-slate-500 dark:text-slate-400">No items sold in this range</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-500 dark:text-slate-400">
+                    <th className="pb-2 font-medium">Item</th>
+                    <th className="pb-2 font-medium text-right">Qty</th>
+                    <th className="pb-2 font-medium text-right">Revenue</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {topItems.map(item => (
+                    <tr key={item.name} className="border-t border-slate-100 dark:border-slate-700 text-slate-900 dark:text-slate-100">
+                      <td className="py-2">{item.name}</td>
+                      <td className="py-2 text-right font-medium">{item.quantity}</td>
+                      <td className="py-2 text-right">{formatMoney(item.revenue)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className={cardClass}>
+            <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-4">Payment Methods</h2>
+            {paymentSplit.length === 0 ? (
+              <p className="py-6 text-center text-sm text-slate-500 dark:text-slate-400">No payments in this range</p>
+            ) : (
+              <div className="space-y-3">
+                {paymentSplit.map(entry => (
+                  <div key={entry.method} className="space-y-1">
+                    <div className="flex justify-between text-sm text-slate-900 dark:text-slate-100">
+                      <span>{paymentMethodLabel(entry.method)}</span>
+                      <span>
+                        {formatMoney(entry.revenue)}
+                        <span className="ml-2 text-slate-500">{entry.orders} orders</span>
+                      </span>
+                    </div>
+                    <div className="h-2 rounded-full bg-slate-100 dark:bg-slate-700 overflow-hidden">
+                      <div
+                        className="h-full bg-green-500"
+                        style={{ width: `${summary.revenue > 0 ? (entry.revenue / summary.revenue) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <ThroughputReport orders={orders} />
+      </div>
+
+      <Toaster />
+    </div>
+  )
+}
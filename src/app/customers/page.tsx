@@ -0,0 +1,327 @@
+"use client"
+
+import React, { Suspense, useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { format, formatDistanceToNow } from 'date-fns'
+import { ArrowLeft, Loader2, MapPin, Save, Search, StickyNote, Users } from 'lucide-react'
+import { ORDER_STATUS_COLORS, ORDER_STATUS_LABELS } from '@/types/orders'
+import { Customer, CustomerNote } from '@/types/customers'
+import { findCustomerNote, searchCustomers } from '@/lib/customers'
+import { saveCustomerNote } from '@/lib/customers-api'
+import { isOrdersBackendConfigured } from '@/lib/orders-api'
+import { canAccessRoute } from '@/lib/auth'
+import { formInputClass } from '@/components/orders/order-form-fields'
+import { StaffMenu } from '@/components/auth/staff-menu'
+import { Toaster } from '@/components/ui/toaster'
+import { useCustomers } from '@/hooks/use-customers'
+import { useCustomerNotes } from '@/hooks/use-customer-notes'
+import { useStaffSession } from '@/hooks/use-staff-session'
+import { useToast } from '@/hooks/use-toast'
+import { cn } from '@/lib/utils'
+
+const cardClass = "bg-white dark:bg-slate-800 rounded-xl p-6 shadow-lg border border-slate-200 dark:border-slate-700"
+
+const money = (amount: number) => `Rs ${amount.toFixed(2)}`
+
+interface CustomerNotesCardProps {
+  customer: Customer
+  note: CustomerNote | null
+  actor: string | null
+  onSaved: (customer: Customer, note: CustomerNote | null) => void
+}
+
+function CustomerNotesCard({ customer, note, actor, onSaved }: CustomerNotesCardProps) {
+  const [draft, setDraft] = useState(note?.notes ?? '')
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      // A note found under an older key is moved to the customer's current one
+      const saved = await saveCustomerNote(customer.key, draft, actor)
+      if (note && note.customer_key !== customer.key) await saveCustomerNote(note.customer_key, '')
+      onSaved(customer, saved)
+      toast({ title: "Note Saved", description: `Note for ${customer.name} updated`, variant: "success" })
+    } catch (error) {
+      console.error('Error saving customer note:', error)
+      toast({
+        title: "Error",
+        description: "Failed to save the note. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className={cn(cardClass, "space-y-3")}>
+      <h2 className="flex items-center space-x-2 text-lg font-semibold text-slate-900 dark:text-slate-100">
+        <StickyNote className="w-5 h-5 text-amber-500" />
+        <span>Notes</span>
+      </h2>
+      <textarea
+        rows={3}
+        placeholder="e.g. allergic to nuts, ring the bell twice"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        className={`${formInputClass} w-full`}
+      />
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-slate-500">
+          {note && `Updated ${formatDistanceToNow(new Date(note.updated_at), { addSuffix: true })}${note.updated_by ? ` by ${note.updated_by}` : ''}`}
+        </span>
+        <button
+          onClick={handleSave}
+          disabled={saving || draft.trim() === (note?.notes ?? '') || !isOrdersBackendConfigured}
+          className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-50 transition-colors text-sm font-medium"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          <span>Save</span>
+        </button>
+      </div>
+    </div>
+  )
+}
+
+function CustomerDetail({ customer, note, actor, onNoteSaved }: {
+  customer: Customer
+  note: CustomerNote | null
+  actor: string | null
+  onNoteSaved: (customer: Customer, note: CustomerNote | null) => void
+}) {
+  const stats = [
+    { label: 'Orders', value: String(customer.order_count) },
+    { label: 'Lifetime Spend', value: money(customer.lifetime_spend) },
+    { label: 'Average Order', value: money(customer.order_count > 0 ? customer.lifetime_spend / customer.order_count : 0) },
+    { label: 'Last Order', value: formatDistanceToNow(new Date(customer.last_order_at), { addSuffix: true }) }
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className={cardClass}>
+        <h2 className="text-2xl font-bold text-slate-900 dark:text-slate-100">{customer.name}</h2>
+        <p className="text-slate-600 dark:text-slate-400">
+          {[customer.phone, customer.email, customer.company].filter(Boolean).join(' • ')}
+        </p>
+        <p className="text-sm text-slate-500 mt-1">
+          Customer since {format(new Date(customer.first_order_at), 'MMM d, yyyy')}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {stats.map(stat => (
+          <div key={stat.label} className={cn(cardClass, "p-4")}>
+            <p className="text-sm text-slate-600 dark:text-slate-400">{stat.label}</p>
+            <p className="text-xl font-bold text-slate-900 dark:text-slate-100">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <CustomerNotesCard
+        key={`${customer.key}:${note?.updated_at ?? ''}`}
+        customer={customer}
+        note={note}
+        actor={actor}
+        onSaved={onNoteSaved}
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className={cardClass}>
+          <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-3">Favourite Items</h2>
+          {customer.favourite_items.length === 0 ? (
+            <p className="text-sm text-slate-500">No items yet</p>
+          ) : (
+            <div className="space-y-1 text-sm">
+              {customer.favourite_items.map(item => (
+                <div key={item.name} className="flex justify-between text-slate-900 dark:text-slate-100">
+                  <span>{item.name}</span>
+                  <span className="text-slate-500">×{item.quantity}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className={cardClass}>
+          <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-3">Saved Addresses</h2>
+          {customer.addresses.length === 0 ? (
+            <p className="text-sm text-slate-500">Pickup only</p>
+          ) : (
+            <div className="space-y-2 text-sm">
+              {customer.addresses.map((address, index) => (
+                <div key={index} className="flex items-start space-x-2 text-slate-900 dark:text-slate-100">
+                  <MapPin className="w-4 h-4 text-slate-500 mt-0.5 flex-shrink-0" />
+                  <span>{[address.street, address.city, address.zipCode].filter(Boolean).join(', ')}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className={cardClass}>
+        <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-3">Order History</h2>
+        <div className="divide-y divide-slate-200 dark:divide-slate-700">
+          {customer.orders.map(order => (
+            <div key={order.id} className="flex items-center justify-between py-2 text-sm">
+              <div>
+                <p className="font-medium text-slate-900 dark:text-slate-100">#{order.order_number}</p>
+                <p className="text-xs text-slate-500">
+                  {format(new Date(order.created_at), 'MMM d, yyyy HH:mm')} • {order.items.map(item => `${item.quantity}× ${item.item_name}`).join(', ')}
+                </p>
+              </div>
+              <div className="flex items-center space-x-3 flex-shrink-0 ml-2">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ORDER_STATUS_COLORS[order.order_status]}`}>
+                  {ORDER_STATUS_LABELS[order.order_status]}
+                </span>
+                <span className="font-semibold text-slate-900 dark:text-slate-100">{money(order.total_amount)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function CustomerDirectory() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const selectedKey = searchParams.get('key')
+  const { profile, role, signOut } = useStaffSession()
+  const { customers, loading } = useCustomers()
+  const { notes, setNotes } = useCustomerNotes()
+  const [query, setQuery] = useState('')
+
+  const visibleCustomers = useMemo(() => searchCustomers(customers, query), [customers, query])
+  const selectedCustomer = selectedKey ? customers.find(customer => customer.keys.includes(selectedKey)) ?? null : null
+
+  // Start with the best customer selected on wide screens
+  useEffect(() => {
+    if (!selectedKey && customers.length > 0 && window.matchMedia('(min-width: 1024px)').matches) {
+      router.replace(`/customers?key=${encodeURIComponent(customers[0].key)}`)
+    }
+  }, [selectedKey, customers, router])
+
+  const handleNoteSaved = (customer: Customer, saved: CustomerNote | null) => {
+    setNotes(prev => [
+      ...prev.filter(note => !customer.keys.includes(note.customer_key)),
+      ...(saved ? [saved] : [])
+    ])
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          {canAccessRoute('/orders', role) && (
+            <Link href="/orders" className="p-2 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+              <ArrowLeft className="w-5 h-5 text-slate-600 dark:text-slate-300" />
+            </Link>
+          )}
+          <Users className="w-8 h-8 text-blue-600" />
+          <h1 className="text-3xl font-bold text-slate-900 dark:text-slate-100">Customers</h1>
+        </div>
+        <StaffMenu profile={profile} onSignOut={signOut} />
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-blue-600 mx-auto" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Directory */}
+          <div className={cn(cardClass, "p-4 space-y-3 lg:h-[calc(100vh-10rem)] flex flex-col", selectedCustomer && "hidden lg:flex")}>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-4 h-4" />
+              <input
+                type="text"
+                placeholder="Name, phone, email..."
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                className={`${formInputClass} w-full pl-9 py-2`}
+              />
+            </div>
+            <p className="text-xs text-slate-500">{visibleCustomers.length} customers, by lifetime spend</p>
+            <div className="flex-1 overflow-y-auto space-y-1">
+              {visibleCustomers.map(customer => {
+                const note = findCustomerNote(notes, customer.keys)
+                return (
+                  <button
+                    key={customer.key}
+                    onClick={() => router.replace(`/customers?key=${encodeURIComponent(customer.key)}`)}
+                    className={cn(
+                      "w-full text-left p-3 rounded-lg transition-colors",
+                      selectedCustomer?.key === customer.key
+                        ? "bg-blue-50 dark:bg-blue-900/30"
+                        : "hover:bg-slate-50 dark:hover:bg-slate-700"
+                    )}
+                  >
+                    <div className="flex justify-between">
+                      <span className="font-medium text-slate-900 dark:text-slate-100 truncate">{customer.name}</span>
+                      <span className="text-sm font-semibold text-green-600 flex-shrink-0 ml-2">{money(customer.lifetime_spend)}</span>
+                    </div>
+                    <div className="flex justify-between text-xs text-slate-500">
+                      <span className="truncate">{customer.phone || customer.email}</span>
+                      <span className="flex-shrink-0 ml-2">{customer.order_count} order{customer.order_count === 1 ? '' : 's'}</span>
+                    </div>
+                    {note && (
+                      <p className="flex items-center space-x-1 text-xs text-amber-600 dark:text-amber-400 mt-1 truncate">
+                        <StickyNote className="w-3 h-3 flex-shrink-0" />
+                        <span className="truncate">{note.notes}</span>
+                      </p>
+                    )}
+                  </button>
+                )
+              })}
+            </div>
+          </div>
+
+          {/* Detail */}
+          <div className="lg:col-span-2">
+            {selectedCustomer ? (
+              <>
+                <button
+                  onClick={() => router.replace('/customers')}
+                  className="lg:hidden mb-4 flex items-center space-x-1 text-sm text-blue-600 dark:text-blue-400"
+                >
+                  <ArrowLeft className="w-4 h-4" />
+                  <span>All customers</span>
+                </button>
+                <CustomerDetail
+                  customer={selectedCustomer}
+                  note={findCustomerNote(notes, selectedCustomer.keys)}
+                  actor={profile?.full_name ?? null}
+                  onNoteSaved={handleNoteSaved}
+                />
+              </>
+            ) : (
+              <div className={cn(cardClass, "hidden lg:flex items-center justify-center h-64")}>
+                <p className="text-slate-500">
+                  {selectedKey ? 'No orders found for this customer' : 'Select a customer'}
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function CustomersPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+      {/* useSearchParams needs a Suspense boundary to prerender */}
+      <Suspense>
+        <CustomerDirectory />
+      </Suspense>
+      <Toaster />
+    </div>
+  )
+}
@@ -0,0 +1,286 @@
+"use client"
+
+import React, { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { AlertTriangle, ArrowLeft, Loader2, Lock, Printer, Wallet } from 'lucide-react'
+import { DaySummary, PaymentBreakdownLine } from '@/types/day-close'
+import { buildZReport, getExpectedCash, summarizeDay } from '@/lib/day-close'
+import { closeDay } from '@/lib/day-close-api'
+import { BROWSER_TIME_ZONE, formatStoreDateTime, getStoreDayRange, toStoreDate } from '@/lib/date-ranges'
+import { OrderTransitionError, isOrdersBackendConfigured } from '@/lib/orders-api'
+import { canAccessRoute } from '@/lib/auth'
+import { ReceiptView } from '@/components/print/order-print'
+import { formInputClass } from '@/components/orders/order-form-fields'
+import { StaffMenu } from '@/components/auth/staff-menu'
+import { Toaster } from '@/components/ui/toaster'
+import { useDayClose, useRefundRange } from '@/hooks/use-day-close'
+import { useOrderRange } from '@/hooks/use-order-range'
+import { useStaffSession } from '@/hooks/use-staff-session'
+import { useStoreSettings } from '@/hooks/use-store-settings'
+import { useToast } from '@/hooks/use-toast'
+import { cn } from '@/lib/utils'
+
+const cardClass = "bg-white dark:bg-slate-800 rounded-xl p-6 shadow-lg border border-slate-200 dark:border-slate-700"
+
+const money = (amount: number) => `Rs ${amount.toFixed(2)}`
+
+function BreakdownTable({ title, lines }: { title: string; lines: PaymentBreakdownLine[] }) {
+  return (
+    <div className={cardClass}>
+      <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-3">{title}</h2>
+      {lines.length === 0 ? (
+        <p className="text-sm text-slate-500">No orders</p>
+      ) : (
+        <div className="space-y-1 text-sm">
+          {lines.map(line => (
+            <div key={line.key} className="flex justify-between text-slate-900 dark:text-slate-100">
+              <span className="capitalize">{line.key.replace(/_/g, ' ')} <span className="text-slate-500">({line.orders})</span></span>
+              <span className="font-medium">{money(line.amount)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+type SummaryFigures = Pick<DaySummary, 'order_count' | 'cancelled_count' | 'gross_sales' | 'tax_total' | 'delivery_fee_total' | 'refund_total'>
+
+function SummaryStats({ summary }: { summary: SummaryFigures }) {
+  const stats = [
+    { label: 'Orders', value: String(summary.order_count - summary.cancelled_count) },
+    { label: 'Gross Sales', value: money(summary.gross_sales) },
+    { label: 'Tax Collected', value: money(summary.tax_total) },
+    { label: 'Delivery Fees', value: money(summary.delivery_fee_total) },
+    { label: 'Refunds', value: money(summary.refund_total) },
+    { label: 'Cancelled', value: String(summary.cancelled_count) }
+  ]
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+      {stats.map(stat => (
+        <div key={stat.label} className={cn(cardClass, "p-4")}>
+          <p className="text-sm text-slate-600 dark:text-slate-400">{stat.label}</p>
+          <p className="text-2xl font-bold text-slate-900 dark:text-slate-100">{stat.value}</p>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default function DayClosePage() {
+  const { profile, role, signOut } = useStaffSession()
+  const { settings } = useStoreSettings()
+  // Days start at midnight on the store's clock, as close_day counts them
+  const timeZone = settings?.timezone ?? BROWSER_TIME_ZONE
+  const today = toStoreDate(new Date(), timeZone)
+  const [pickedDate, setBusinessDate] = useState<string | null>(null)
+  const businessDate = pickedDate ?? today
+  const period = useMemo(() => getStoreDayRange(businessDate, timeZone), [businessDate, timeZone])
+  const { orders, loading: ordersLoading } = useOrderRange(period.from, period.to)
+  const { refunds, loading: refundsLoading } = useRefundRange(period.from, period.to)
+  const { dayClose, setDayClose, loading: closeLoading } = useDayClose(businessDate)
+  const [openingFloat, setOpeningFloat] = useState(0)
+  const [countedCash, setCountedCash] = useState(NaN)
+  const [notes, setNotes] = useState('')
+  const [closing, setClosing] = useState(false)
+  const { toast } = useToast()
+
+  const summary = useMemo(() => summarizeDay(orders, refunds), [orders, refunds])
+  const floatAmount = Number.isFinite(openingFloat) ? openingFloat : 0
+  const expectedCash = getExpectedCash(summary, floatAmount)
+  const hasCount = Number.isFinite(countedCash)
+  const discrepancy = hasCount ? Math.round((countedCash - expectedCash) * 100) / 100 : null
+  const loading = ordersLoading || refundsLoading || closeLoading
+
+  // The saved report once closed, otherwise a draft from the live figures
+  const report = dayClose ?? {
+    business_date: businessDate,
+    ...summary,
+    opening_float: floatAmount,
+    expected_cash: expectedCash,
+    counted_cash: hasCount ? countedCash : 0,
+    discrepancy: discrepancy ?? 0,
+    notes: notes.trim() || null
+  }
+
+  const handleClose = async () => {
+    if (!hasCount || !Number.isFinite(openingFloat)) return
+    const warning = summary.open_count > 0
+      ? `${summary.open_count} order${summary.open_count === 1 ? ' is' : 's are'} still open. Close the day anyway?`
+      : `Close ${businessDate}? The report cannot be changed afterwards.`
+    if (!window.confirm(warning)) return
+
+    try {
+      setClosing(true)
+      const closed = await closeDay({
+        businessDate,
+        openingFloat,
+        countedCash,
+        notes
+      })
+      setDayClose(closed)
+      toast({ title: "Day Closed", description: `${businessDate} is closed`, variant: "success" })
+    } catch (error) {
+      console.error('Error closing day:', error)
+      toast({
+        title: "Error",
+        description: error instanceof OrderTransitionError
+          ? error.message
+          : "Failed to close the day. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setClosing(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            {canAccessRoute('/orders', role) && (
+              <Link href="/orders" className="p-2 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+                <ArrowLeft className="w-5 h-5 text-slate-600 dark:text-slate-300" />
+              </Link>
+            )}
+            <Wallet className="w-8 h-8 text-green-600" />
+            <h1 className="text-3xl font-bold text-slate-900 dark:text-slate-100">Day Close</h1>
+          </div>
+          <div className="flex items-center space-x-4">
+            <input
+              type="date"
+              value={businessDate}
+              max={today}
+              onChange={(e) => e.target.value && setBusinessDate(e.target.value)}
+              className={formInputClass}
+            />
+            <button
+              onClick={() => window.print()}
+              disabled={loading}
+              className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-50 transition-colors"
+            >
+              <Printer className="w-4 h-4" />
+              <span>Print</span>
+            </button>
+            <StaffMenu profile={profile} onSignOut={signOut} />
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-blue-600 mx-auto" />
+          </div>
+        ) : (
+          <>
+            {dayClose ? (
+              <div className="flex items-center space-x-2 p-4 rounded-xl bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-800 dark:text-green-300">
+                <Lock className="w-5 h-5" />
+                <span>
+                  Closed {formatStoreDateTime(new Date(dayClose.closed_at), timeZone)}
+                  {dayClose.closed_by ? ` by ${dayClose.closed_by}` : ''}. These figures were frozen at close.
+                </span>
+              </div>
+            ) : summary.open_count > 0 && (
+              <div className="flex items-center space-x-2 p-4 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-300">
+                <AlertTriangle className="w-5 h-5" />
+                <span>{summary.open_count} order{summary.open_count === 1 ? ' is' : 's are'} not delivered or cancelled yet</span>
+              </div>
+            )}
+
+            <SummaryStats summary={report} />
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <BreakdownTable title="By Payment Method" lines={report.breakdown.by_payment_method} />
+              <BreakdownTable title="By Payment Status" lines={report.breakdown.by_payment_status} />
+
+              {/* Cash Drawer */}
+              <div className={cn(cardClass, "space-y-3")}>
+                <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Cash Drawer</h2>
+                <label className="flex items-center justify-between text-sm text-slate-600 dark:text-slate-400">
+                  <span>Opening float</span>
+                  {dayClose ? (
+                    <span className="font-medium text-slate-900 dark:text-slate-100">{money(dayClose.opening_float)}</span>
+                  ) : (
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={Number.isFinite(openingFloat) ? openingFloat : ''}
+                      onChange={(e) => setOpeningFloat(e.target.valueAsNumber)}
+                      className={`${formInputClass} w-28`}
+                    />
+                  )}
+                </label>
+                <div className="flex justify-between text-sm text-slate-600 dark:text-slate-400">
+                  <span>Expected cash</span>
+                  <span className="font-medium text-slate-900 dark:text-slate-100">{money(report.expected_cash)}</span>
+                </div>
+                <label className="flex items-center justify-between text-sm text-slate-600 dark:text-slate-400">
+                  <span>Counted cash</span>
+                  {dayClose ? (
+                    <span className="font-medium text-slate-900 dark:text-slate-100">{money(dayClose.counted_cash)}</span>
+                  ) : (
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={hasCount ? countedCash : ''}
+                      onChange={(e) => setCountedCash(e.target.valueAsNumber)}
+                      className={`${formInputClass} w-28`}
+                    />
+                  )}
+                </label>
+                {(dayClose || discrepancy !== null) && (
+                  <div
+                    className={cn(
+                      "flex justify-between text-sm font-bold border-t border-slate-200 dark:border-slate-600 pt-2",
+                      report.discrepancy === 0
+                        ? "text-green-600 dark:text-green-400"
+                        : "text-red-600 dark:text-red-400"
+                    )}
+                  >
+                    <span>{report.discrepancy < 0 ? 'Short' : report.discrepancy > 0 ? 'Over' : 'Balanced'}</span>
+                    <span>{money(Math.abs(report.discrepancy))}</span>
+                  </div>
+                )}
+                {dayClose ? (
+                  dayClose.notes && <p className="text-sm text-slate-600 dark:text-slate-400">{dayClose.notes}</p>
+                ) : (
+                  <>
+                    <textarea
+                      rows={2}
+                      placeholder="Notes, e.g. why the drawer is short"
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      className={`${formInputClass} w-full`}
+                    />
+                    <button
+                      onClick={handleClose}
+                      disabled={closing || !hasCount || !Number.isFinite(openingFloat) || !isOrdersBackendConfigured}
+                      className="w-full flex items-center justify-center space-x-2 px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-50 transition-colors font-medium"
+                    >
+                      {closing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Lock className="w-4 h-4" />}
+                      <span>Close Day</span>
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Print Output */}
+      <div className="print-area">
+        <div className="print-page">
+          <ReceiptView receipt={buildZReport(report, timeZone)} />
+        </div>
+      </div>
+
+      <Toaster />
+    </div>
+  )
+}
@@ -0,0 +1,394 @@
+"use client"
+
+import React, { useState, useMemo, useCallback } from 'react'
+import Link from 'next/link'
+import { format, formatDistanceStrict } from 'date-fns'
+import { ArrowLeft, Banknote, Bike, MapPin, Plus, Truck, CheckCircle, Package } from 'lucide-react'
+import { Order, canTakePayments } from '@/types/orders'
+import { DeliveryRun, Rider, DELIVERY_RUN_STATUS_LABELS } from '@/types/dispatch'
+import {
+  assignDeliveryRun,
+  createRider,
+  departDeliveryRun,
+  returnDeliveryRun
+} from '@/lib/dispatch-api'
+import { OrderTransitionError } from '@/lib/orders-api'
+import { getStatusEnteredAt } from '@/lib/sla'
+import { canAccessRoute } from '@/lib/auth'
+import { ConnectionStatus } from '@/components/orders/connection-status'
+import { StaffMenu } from '@/components/auth/staff-menu'
+import { SessionLoading } from '@/components/auth/session-loading'
+import { Toaster } from '@/components/ui/toaster'
+import { useOrders } from '@/hooks/use-orders'
+import { useDispatch } from '@/hooks/use-dispatch'
+import { useSlaConfig } from '@/hooks/use-sla-config'
+import { useSlaEscalation } from '@/hooks/use-sla-escalation'
+import { useStaffSession } from '@/hooks/use-staff-session'
+import { useToast } from '@/hooks/use-toast'
+import { useNow } from '@/hooks/use-now'
+import { cn } from '@/lib/utils'
+
+function getDeliveryArea(order: Order) {
+  const { city, zipCode } = order.delivery_address ?? {}
+  return [city, zipCode].filter(Boolean).join(' ') || 'Unknown area'
+}
+
+export default function DispatchPage() {
+  const { profile, role, loading: sessionLoading, signOut } = useStaffSession()
+  const { orders, setOrders, realtimeStatus, markOrderPaid } = useOrders({ staffId: profile?.id ?? null, role })
+  const { slaConfig } = useSlaConfig()
+  useSlaEscalation({ orders, slaConfig, setOrders })
+  const { riders, runs, refresh } = useDispatch()
+  const [selectedOrderIds, setSelectedOrderIds] = useState<Set<string>>(new Set())
+  const [selectedRiderId, setSelectedRiderId] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [newRiderName, setNewRiderName] = useState('')
+  const [newRiderPhone, setNewRiderPhone] = useState('')
+  const { toast } = useToast()
+  const now = useNow()
+
+  const activeRunIds = useMemo(
+    () => new Set(runs.filter(run => run.status !== 'returned').map(run => run.id)),
+    [runs]
+  )
+
+  // Ready orders that are not already waiting on a rider
+  const readyByArea = useMemo(() => {
+    const groups = new Map<string, Order[]>()
+    orders
+      .filter(order => order.order_status === 'ready' && order.fulfillment_type !== 'pickup')
+      .filter(order => !order.delivery_run_id || !activeRunIds.has(order.delivery_run_id))
+      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+      .forEach(order => {
+        const area = getDeliveryArea(order)
+        groups.set(area, [...(groups.get(area) ?? []), order])
+      })
+    return [...groups.entries()].sort(([a], [b]) => a.localeCompare(b))
+  }, [orders, activeRunIds])
+
+  const ordersByRun = useMemo(() => {
+    const map = new Map<string, Order[]>()
+    orders.forEach(order => {
+      if (order.delivery_run_id) {
+        map.set(order.delivery_run_id, [...(map.get(order.delivery_run_id) ?? []), order])
+      }
+    })
+    return map
+  }, [orders])
+
+  const toggleOrder = (orderId: string) => {
+    setSelectedOrderIds(prev => {
+      const next = new Set(prev)
+      if (next.has(orderId)) {
+        next.delete(orderId)
+      } else {
+        next.add(orderId)
+      }
+      return next
+    })
+  }
+
+  const toggleArea = (areaOrders: Order[]) => {
+    const allSelected = areaOrders.every(order => selectedOrderIds.has(order.id))
+    setSelectedOrderIds(prev => {
+      const next = new Set(prev)
+      areaOrders.forEach(order => allSelected ? next.delete(order.id) : next.add(order.id))
+      return next
+    })
+  }
+
+  const runAction = useCallback(async (action: () => Promise<unknown>, success: string) => {
+    try {
+      setBusy(true)
+      await action()
+      await refresh()
+      toast({ title: "Dispatch Updated", description: success, variant: "success" })
+      return true
+    } catch (error) {
+      console.error('Error updating dispatch:', error)
+      toast({
+        title: "Error",
+        description: error instanceof OrderTransitionError
+          ? error.message
+          : "Failed to update dispatch. Please try again.",
+        variant: "destructive",
+      })
+      return false
+    } finally {
+      setBusy(false)
+    }
+  }, [refresh, toast])
+
+  const handleAssign = async () => {
+    const rider = riders.find(r => r.id === selectedRiderId)
+    if (!rider || selectedOrderIds.size === 0) return
+    const orderIds = [...selectedOrderIds]
+    const assigned = await runAction(
+      () => assignDeliveryRun(rider.id, orderIds),
+      `${orderIds.length} order${orderIds.length === 1 ? '' : 's'} assigned to ${rider.name}`
+    )
+    if (assigned) setSelectedOrderIds(new Set())
+  }
+
+  const handleAddRider = async () => {
+    if (!newRiderName.trim()) return
+    const added = await runAction(
+      () => createRider(newRiderName.trim(), newRiderPhone.trim() || null),
+      `${newRiderName.trim()} added`
+    )
+    if (added) {
+      setNewRiderName('')
+      setNewRiderPhone('')
+    }
+  }
+
+  if (sessionLoading) return <SessionLoading />
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center space-x-4">
+            {canAccessRoute('/orders', role) && (
+              <Link href="/orders" className="p-2 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+                <ArrowLeft className="w-5 h-5 text-slate-600 dark:text-slate-300" />
+              </Link>
+            )}
+            <Truck className="w-8 h-8 text-purple-600" />
+            <h1 className="text-3xl font-bold text-slate-900 dark:text-slate-100">Dispatch</h1>
+          </div>
+          <div className="flex items-center space-x-4">
+            <StaffMenu profile={profile} onSignOut={signOut} />
+            <ConnectionStatus status={realtimeStatus} />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Ready Orders by Area */}
+          <div className="lg:col-span-2 space-y-4">
+            <div className="bg-white dark:bg-slate-800 rounded-xl p-4 shadow-lg border border-slate-200 dark:border-slate-700 flex flex-col md:flex-row gap-3 md:items-center justify-between">
+              <p className="text-sm text-slate-600 dark:text-slate-400">
+                {selectedOrderIds.size} selected
+              </p>
+              <div className="flex items-center space-x-2">
+                <select
+                  value={selectedRiderId}
+                  onChange={(e) => setSelectedRiderId(e.target.value)}
+                  className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Choose rider...</option>
+                  {riders.map(rider => (
+                    <option key={rider.id} value={rider.id}>{rider.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleAssign}
+                  disabled={busy || !selectedRiderId || selectedOrderIds.size === 0}
+                  className="px-4 py-2 rounded-lg bg-blue-500 text-white hover:bg-blue-600 transition-colors disabled:opacity-50"
+                >
+                  Assign
+                </button>
+              </div>
+            </div>
+
+            {readyByArea.map(([area, areaOrders]) => (
+              <div key={area} className="bg-white dark:bg-slate-800 rounded-xl shadow-lg border border-slate-200 dark:border-slate-700 overflow-hidden">
+                <button
+                  onClick={() => toggleArea(areaOrders)}
+                  className="w-full px-4 py-3 flex items-center justify-between bg-slate-50 dark:bg-slate-700 text-left"
+                >
+                  <span className="flex items-center space-x-2 font-semibold text-slate-900 dark:text-slate-100">
+                    <MapPin className="w-4 h-4 text-slate-500" />
+                    <span>{area}</span>
+                  </span>
+                  <span className="text-sm text-slate-500">{areaOrders.length} ready</span>
+                </button>
+                <div className="divide-y divide-slate-200 dark:divide-slate-700">
+                  {areaOrders.map(order => (
+                    <label key={order.id} className="flex items-center px-4 py-3 space-x-3 cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-700/50">
+                      <input
+                        type="checkbox"
+                        checked={selectedOrderIds.has(order.id)}
+                        onChange={() => toggleOrder(order.id)}
+                        className="w-5 h-5"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-slate-900 dark:text-slate-100">
+                          #{order.order_number} • {order.customer_name}
+                        </p>
+                        <p className="text-sm text-slate-500 truncate">{order.delivery_address.street}</p>
+                      </div>
+                      <div className="text-right text-sm">
+                        <p className="font-semibold text-slate-900 dark:text-slate-100">Rs {order.total_amount}</p>
+                        <p className="text-slate-500">
+                          ready {formatDistanceStrict(getStatusEnteredAt(order), now)}
+                        </p>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            {readyByArea.length === 0 && (
+              <div className="text-center py-12">
+                <Package className="w-16 h-16 text-slate-400 mx-auto mb-4" />
+                <h3 className="text-xl font-semibold text-slate-600 dark:text-slate-400 mb-2">
+                  Nothing to dispatch
+                </h3>
+                <p className="text-slate-500 dark:text-slate-500">
+                  Orders marked ready will appear here grouped by area.
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Riders */}
+          <div className="space-y-4">
+            {riders.map(rider => (
+              <RiderCard
+                key={rider.id}
+                rider={rider}
+                runs={runs.filter(run => run.rider_id === rider.id)}
+                ordersByRun={ordersByRun}
+                busy={busy}
+                onDepart={(run) => runAction(() => departDeliveryRun(run.id), `${rider.name} has left`)}
+                onReturn={(run) => runAction(() => returnDeliveryRun(run.id), `${rider.name} is back`)}
+                onMarkPaid={canTakePayments(role) ? markOrderPaid : undefined}
+              />
+            ))}
+
+            {/* Add Rider */}
+            <div className="bg-white dark:bg-slate-800 rounded-xl p-4 shadow-lg border border-slate-200 dark:border-slate-700 space-y-2">
+              <input
+                type="text"
+                placeholder="Rider name"
+                value={newRiderName}
+                onChange={(e) => setNewRiderName(e.target.value)}
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <input
+                type="tel"
+                placeholder="Phone (optional)"
+                value={newRiderPhone}
+                onChange={(e) => setNewRiderPhone(e.target.value)}
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <button
+                onClick={handleAddRider}
+                disabled={busy || !newRiderName.trim()}
+                className="w-full flex items-center justify-center space-x-2 px-4 py-2 rounded-lg bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add Rider</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <Toaster />
+    </div>
+  )
+}
+
+// Rider Card Component
+interface RiderCardProps {
+  rider: Rider
+  runs: DeliveryRun[]
+  ordersByRun: Map<string, Order[]>
+  busy: boolean
+  onDepart: (run: DeliveryRun) => void
+  onReturn: (run: DeliveryRun) => void
+  // Cash collected by the rider; omitted when the signed-in role cannot take payments
+  onMarkPaid?: (order: Order) => Promise<boolean>
+}
+
+function RiderCard({ rider, runs, ordersByRun, busy, onDepart, onReturn, onMarkPaid }: RiderCardProps) {
+  const activeRuns = runs.filter(run => run.status !== 'returned')
+  const load = activeRuns.reduce((sum, run) => sum + (ordersByRun.get(run.id)?.length ?? 0), 0)
+  const isOut = activeRuns.some(run => run.status === 'out')
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl p-4 shadow-lg border border-slate-200 dark:border-slate-700">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <Bike className={cn("w-5 h-5", isOut ? "text-purple-600" : "text-slate-400")} />
+          <div>
+            <p className="font-semibold text-slate-900 dark:text-slate-100">{rider.name}</p>
+            {rider.phone && <p className="text-xs text-slate-500">{rider.phone}</p>}
+          </div>
+        </div>
+        <span
+          className={cn(
+            "px-2 py-1 rounded-full text-xs font-medium",
+            load === 0 ? "bg-green-100 text-green-800" : "bg-purple-100 text-purple-800"
+          )}
+        >
+          {load === 0 ? 'Available' : `${load} order${load === 1 ? '' : 's'}`}
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        {runs.map(run => {
+          const runOrders = ordersByRun.get(run.id) ?? []
+          return (
+            <div key={run.id} className="p-3 bg-slate-50 dark:bg-slate-700 rounded-lg text-sm">
+              <div className="flex items-center justify-between mb-1">
+                <span className="font-medium text-slate-700 dark:text-slate-300">
+                  {DELIVERY_RUN_STATUS_LABELS[run.status]}
+                </span>
+                <span className="text-xs text-slate-500">
+                  {run.departed_at && `Left ${format(new Date(run.departed_at), 'HH:mm')}`}
+                  {run.returned_at && ` • Back ${format(new Date(run.returned_at), 'HH:mm')}`}
+                </span>
+              </div>
+              <p className="text-xs text-slate-600 dark:text-slate-400">
+                {runOrders.map(order => `#${order.order_number}`).join(', ') || 'No orders'}
+              </p>
+              {onMarkPaid && run.status !== 'assigned' && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {runOrders
+                    .filter(order => order.payment_status === 'pending')
+                    .map(order => (
+                      <button
+                        key={order.id}
+                        onClick={() => onMarkPaid(order)}
+                        disabled={busy}
+                        title={`Rs ${order.total_amount.toFixed(2)} collected`}
+                        className="flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium border bg-yellow-100 text-yellow-800 border-yellow-200 hover:bg-yellow-200 transition-colors disabled:opacity-50"
+                      >
+                        <Banknote className="w-3 h-3" />
+                        <span>#{order.order_number} paid</span>
+                      </button>
+                    ))}
+                </div>
+              )}
+              {run.status === 'assigned' && (
+                <button
+                  onClick={() => onDepart(run)}
+                  disabled={busy}
+                  className="mt-2 w-full flex items-center justify-center space-x-1 px-3 py-1.5 rounded-lg bg-purple-500 text-white hover:bg-purple-600 transition-colors disabled:opacity-50"
+                >
+                  <Truck className="w-4 h-4" />
+                  <span>Depart</span>
+                </button>
+              )}
+              {run.status === 'out' && (
+                <button
+                  onClick={() => onReturn(run)}
+                  disabled={busy}
+                  className="mt-2 w-full flex items-center justify-center space-x-1 px-3 py-1.5 rounded-lg bg-green-500 text-white hover:bg-green-600 transition-colors disabled:opacity-50"
+                >
+                  <CheckCircle className="w-4 h-4" />
+                  <span>Returned</span>
+                </button>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,215 @@
+"use client"
+
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react'
+import Link from 'next/link'
+import { AnimatePresence } from 'framer-motion'
+import { ArrowLeft, ChefHat, Keyboard } from 'lucide-react'
+import { Order, OrderStatus, NEXT_STATUS } from '@/types/orders'
+import { KitchenTicket } from '@/components/kitchen/kitchen-ticket'
+import { ConnectionStatus } from '@/components/orders/connection-status'
+import { StaffMenu } from '@/components/auth/staff-menu'
+import { SessionLoading } from '@/components/auth/session-loading'
+import { Toaster } from '@/components/ui/toaster'
+import { useOrders } from '@/hooks/use-orders'
+import { useStaffSession } from '@/hooks/use-staff-session'
+import { useSlaConfig } from '@/hooks/use-sla-config'
+import { useSlaEscalation } from '@/hooks/use-sla-escalation'
+import { useDoneItems } from '@/hooks/use-done-items'
+import { useNow } from '@/hooks/use-now'
+import { useNotificationSound } from '@/hooks/use-sound'
+import { cn } from '@/lib/utils'
+import { canAccessRoute } from '@/lib/auth'
+import { isShortcutIgnored } from '@/lib/order-shortcuts'
+
+const KITCHEN_STATUSES: OrderStatus[] = ['confirmed', 'preparing']
+
+// Oldest first, urgent orders jump the queue
+function compareTickets(a: Order, b: Order) {
+  if ((a.priority === 'urgent') !== (b.priority === 'urgent')) return a.priority === 'urgent' ? -1 : 1
+  return new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+}
+
+export default function KitchenPage() {
+  const { profile, role, loading: sessionLoading, signOut } = useStaffSession()
+  const { slaConfig } = useSlaConfig()
+  const { orders, setOrders, loading, realtimeStatus, queuedChanges, syncing, updatingOrder, updateOrderStatus } = useOrders({
+    actor: profile?.full_name ?? null,
+    staffId: profile?.id ?? null,
+    role
+  })
+  useSlaEscalation({ orders, slaConfig, setOrders })
+  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null)
+  const [autoScroll, setAutoScroll] = useState(true)
+  const [showHelp, setShowHelp] = useState(false)
+  const { play: playNotificationSound } = useNotificationSound()
+  const now = useNow(15 * 1000)
+  const ticketRefs = useRef(new Map<string, HTMLDivElement>())
+  const knownTicketIds = useRef<Set<string> | null>(null)
+
+  const tickets = useMemo(
+    () => orders.filter(order => KITCHEN_STATUSES.includes(order.order_status)).sort(compareTickets),
+    [orders]
+  )
+  const { doneItems, toggleItem } = useDoneItems(
+    tickets.flatMap(order => order.items.map(item => item.id))
+  )
+
+  const selectedIndex = tickets.findIndex(order => order.id === selectedOrderId)
+  const selectedTicket = selectedIndex === -1 ? null : tickets[selectedIndex]
+
+  const scrollToTicket = useCallback((orderId: string) => {
+    ticketRefs.current.get(orderId)?.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'nearest' })
+  }, [])
+
+  const bump = useCallback((order: Order) => {
+    const nextStatus = NEXT_STATUS[order.order_status]
+    if (!nextStatus || updatingOrder) return
+    updateOrderStatus(order.id, nextStatus)
+  }, [updateOrderStatus, updatingOrder])
+
+  // Keep a ticket selected so the keyboard always has something to act on
+  useEffect(() => {
+    if (!selectedTicket && tickets.length > 0) {
+      setSelectedOrderId(tickets[Math.min(Math.max(selectedIndex, 0), tickets.length - 1)].id)
+    }
+  }, [tickets, selectedTicket, selectedIndex])
+
+  // Announce and scroll to tickets that arrive while the screen is open
+  useEffect(() => {
+    if (loading) return
+    const ids = new Set(tickets.map(order => order.id))
+    if (knownTicketIds.current) {
+      const arrived = tickets.filter(order => !knownTicketIds.current?.has(order.id))
+      if (arrived.length > 0) {
+        playNotificationSound()
+        if (autoScroll) scrollToTicket(arrived[arrived.length - 1].id)
+      }
+    }
+    knownTicketIds.current = ids
+  }, [tickets, loading, autoScroll, playNotificationSound, scrollToTicket])
+
+  useEffect(() => {
+    if (autoScroll && selectedOrderId) scrollToTicket(selectedOrderId)
+  }, [selectedOrderId, autoScroll, scrollToTicket])
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey || isShortcutIgnored(event)) return
+      if (tickets.length === 0) return
+
+      if (event.key === 'ArrowRight' || event.key === 'ArrowDown') {
+        event.preventDefault()
+        setSelectedOrderId(tickets[Math.min(selectedIndex + 1, tickets.length - 1)].id)
+      } else if (event.key === 'ArrowLeft' || event.key === 'ArrowUp') {
+        event.preventDefault()
+        setSelectedOrderId(tickets[Math.max(selectedIndex - 1, 0)].id)
+      } else if ((event.key === 'Enter' || event.key === ' ') && selectedTicket) {
+        event.preventDefault()
+        bump(selectedTicket)
+      } else if (/^[1-9]$/.test(event.key)) {
+        const ticket = tickets[Number(event.key) - 1]
+        if (ticket) setSelectedOrderId(ticket.id)
+      } else if (event.key === '?') {
+        setShowHelp(prev => !prev)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [tickets, selectedIndex, selectedTicket, bump])
+
+  if (sessionLoading) return <SessionLoading />
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-white flex flex-col">
+      {/* Header */}
+      <div className="flex items-center justify-between px-6 py-4 border-b border-slate-700">
+        <div className="flex items-center space-x-4">
+          {canAccessRoute('/orders', role) && (
+            <Link href="/orders" className="p-2 rounded-lg hover:bg-slate-800 transition-colors">
+              <ArrowLeft className="w-5 h-5" />
+            </Link>
+          )}
+          <ChefHat className="w-7 h-7 text-orange-400" />
+          <h1 className="text-2xl font-bold">Kitchen</h1>
+          <span className="text-slate-400">
+            {tickets.filter(order => order.order_status === 'confirmed').length} waiting •{' '}
+            {tickets.filter(order => order.order_status === 'preparing').length} preparing
+          </span>
+        </div>
+        <div className="flex items-center space-x-3">
+          <StaffMenu profile={profile} onSignOut={signOut} className="text-slate-200 dark:text-slate-200" />
+          <ConnectionStatus status={realtimeStatus} pendingChanges={queuedChanges.length} syncing={syncing} />
+          <button
+            onClick={() => setAutoScroll(!autoScroll)}
+            className={cn(
+              "px-3 py-1.5 rounded-lg text-sm font-medium transition-colors",
+              autoScroll ? "bg-blue-600 hover:bg-blue-500" : "bg-slate-700 hover:bg-slate-600"
+            )}
+          >
+            Auto-scroll {autoScroll ? 'on' : 'off'}
+          </button>
+          <button
+            onClick={() => setShowHelp(!showHelp)}
+            className="p-2 rounded-lg bg-slate-700 hover:bg-slate-600 transition-colors"
+          >
+            <Keyboard className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {showHelp && (
+        <div className="px-6 py-3 bg-slate-800 border-b border-slate-700 text-sm text-slate-300 flex flex-wrap gap-x-6 gap-y-1">
+          <span><kbd className="font-mono text-white">← →</kbd> select ticket</span>
+          <span><kbd className="font-mono text-white">Enter</kbd> / <kbd className="font-mono text-white">Space</kbd> bump selected</span>
+          <span><kbd className="font-mono text-white">1–9</kbd> select ticket by position</span>
+          <span><kbd className="font-mono text-white">?</kbd> toggle this help</span>
+        </div>
+      )}
+
+      {/* Tickets */}
+      <div className="flex-1 flex space-x-4 overflow-x-auto p-6 items-stretch">
+        <AnimatePresence>
+          {tickets.map((order, index) => (
+            <KitchenTicket
+              key={order.id}
+              ref={(element) => {
+                if (element) {
+                  ticketRefs.current.set(order.id, element)
+                } else {
+                  ticketRefs.current.delete(order.id)
+                }
+              }}
+              order={order}
+              position={index + 1}
+              now={now}
+              slaConfig={slaConfig}
+              isSelected={order.id === selectedOrderId}
+              isUpdating={updatingOrder === order.id}
+              doneItems={doneItems}
+              onToggleItem={toggleItem}
+              onBump={() => bump(order)}
+              onSelect={() => setSelectedOrderId(order.id)}
+            />
+          ))}
+        </AnimatePresence>
+
+        {tickets.length === 0 && !loading && (
+          <div className="flex-1 flex flex-col items-center justify-center text-slate-500">
+            <ChefHat className="w-20 h-20 mb-4" />
+            <p className="text-2xl font-semibold">No tickets</p>
+            <p>Confirmed orders will appear here</p>
+          </div>
+        )}
+
+        {loading && (
+          <div className="flex-1 flex items-center justify-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-400"></div>
+          </div>
+        )}
+      </div>
+
+      <Toaster />
+    </div>
+  )
+}
@@ -0,0 +1,107 @@
+"use client"
+
+import React, { Suspense, useEffect, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { Lock, Loader2 } from 'lucide-react'
+import { supabase, syncAccessTokenCookie } from '@/lib/supabase'
+import { fetchStaffProfile, getHomeRoute, getSafeRedirect, signInStaff, StaffAuthError } from '@/lib/auth'
+
+function LoginForm() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const next = getSafeRedirect(searchParams.get('next'))
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+
+  // A stored session only needs its cookie restored, e.g. after the browser was closed
+  useEffect(() => {
+    const client = supabase
+    if (!client) {
+      router.replace(next ?? '/orders')
+      return
+    }
+
+    client.auth.getSession().then(async ({ data: { session } }) => {
+      if (!session) return
+      const profile = await fetchStaffProfile(client, session.user.id).catch(() => null)
+      if (!profile) return
+      syncAccessTokenCookie(session)
+      router.replace(next ?? getHomeRoute(profile.role))
+    })
+  }, [router, next])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setSubmitting(true)
+
+    try {
+      const profile = await signInStaff(email.trim(), password)
+      router.replace(next ?? getHomeRoute(profile.role))
+    } catch (err) {
+      console.error('Error signing in:', err)
+      setError(err instanceof StaffAuthError ? err.message : 'Failed to sign in. Please try again.')
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="w-full max-w-sm bg-white dark:bg-slate-800 rounded-2xl shadow-xl border border-slate-200 dark:border-slate-700 p-8 space-y-5"
+    >
+      <div className="text-center">
+        <div className="inline-flex p-3 rounded-full bg-orange-100 dark:bg-orange-900/30 mb-3">
+          <Lock className="w-6 h-6 text-orange-600 dark:text-orange-400" />
+        </div>
+        <h1 className="text-2xl font-bold text-slate-900 dark:text-slate-100">Boss Pizza Admin</h1>
+        <p className="text-sm text-slate-600 dark:text-slate-400">Sign in with your staff account</p>
+      </div>
+
+      <input
+        type="email"
+        placeholder="Email"
+        autoComplete="email"
+        required
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+      <input
+        type="password"
+        placeholder="Password"
+        autoComplete="current-password"
+        required
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      <button
+        type="submit"
+        disabled={submitting}
+        className="w-full flex items-center justify-center space-x-2 px-4 py-2 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-500 disabled:opacity-50 transition-colors"
+      >
+        {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+        <span>Sign in</span>
+      </button>
+    </form>
+  )
+}
+
+export default function LoginPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800 flex items-center justify-center px-4">
+      {/* useSearchParams needs a Suspense boundary to prerender */}
+      <Suspense>
+        <LoginForm />
+      </Suspense>
+    </div>
+  )
+}
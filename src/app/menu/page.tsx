@@ -0,0 +1,317 @@
+"use client"
+
+import React, { useCallback, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Check, Pencil, Plus, Trash2, UtensilsCrossed, X } from 'lucide-react'
+import { MenuItem } from '@/types/menu'
+import {
+  MenuItemInput,
+  createMenuCategory,
+  deleteMenuCategory,
+  deleteMenuItem,
+  renameMenuCategory,
+  saveMenuItem,
+  setMenuItemAvailability
+} from '@/lib/menu-api'
+import { isOrdersBackendConfigured } from '@/lib/orders-api'
+import { canAccessRoute } from '@/lib/auth'
+import { MenuItemForm } from '@/components/menu/menu-item-form'
+import { formInputClass } from '@/components/orders/order-form-fields'
+import { StaffMenu } from '@/components/auth/staff-menu'
+import { Toaster } from '@/components/ui/toaster'
+import { useMenu } from '@/hooks/use-menu'
+import { useStaffSession } from '@/hooks/use-staff-session'
+import { useToast } from '@/hooks/use-toast'
+import { cn } from '@/lib/utils'
+
+function formatPrices(item: MenuItem) {
+  if (item.sizes.length === 0) return `Rs ${item.base_price}`
+  return item.sizes.map(size => `${size.name} Rs ${size.price}`).join(' · ')
+}
+
+export default function MenuPage() {
+  const { profile, role, signOut } = useStaffSession()
+  const { categories, items, loading, refresh } = useMenu()
+  const [selectedCategoryId, setSelectedCategoryId] = useState<string | null>(null)
+  const [newCategoryName, setNewCategoryName] = useState('')
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null)
+  // null while closed; an empty object opens the form for a new item
+  const [editingItem, setEditingItem] = useState<{ item?: MenuItem } | null>(null)
+  const [busy, setBusy] = useState(false)
+  const { toast } = useToast()
+
+  const visibleItems = useMemo(
+    () => selectedCategoryId ? items.filter(item => item.category_id === selectedCategoryId) : items,
+    [items, selectedCategoryId]
+  )
+  const outOfStockCount = items.filter(item => !item.is_available).length
+
+  const runAction = useCallback(async (action: () => Promise<unknown>, success: string) => {
+    try {
+      setBusy(true)
+      await action()
+      await refresh()
+      toast({ title: "Menu Updated", description: success, variant: "success" })
+      return true
+    } catch (error) {
+      console.error('Error updating menu:', error)
+      toast({
+        title: "Error",
+        description: "Failed to update the menu. Please try again.",
+        variant: "destructive",
+      })
+      return false
+    } finally {
+      setBusy(false)
+    }
+  }, [refresh, toast])
+
+  const handleAddCategory = async () => {
+    const name = newCategoryName.trim()
+    if (!name) return
+    const added = await runAction(() => createMenuCategory(name, categories.length), `${name} added`)
+    if (added) setNewCategoryName('')
+  }
+
+  const handleRename = async () => {
+    if (!renaming || !renaming.name.trim()) return
+    const renamed = await runAction(() => renameMenuCategory(renaming.id, renaming.name.trim()), 'Category renamed')
+    if (renamed) setRenaming(null)
+  }
+
+  const handleDeleteCategory = async (categoryId: string, name: string) => {
+    if (items.some(item => item.category_id === categoryId)) {
+      toast({
+        title: "Error",
+        description: `Move or delete the items in ${name} first.`,
+        variant: "destructive",
+      })
+      return
+    }
+    if (!window.confirm(`Delete the ${name} category?`)) return
+    const deleted = await runAction(() => deleteMenuCategory(categoryId), `${name} deleted`)
+    if (deleted && selectedCategoryId === categoryId) setSelectedCategoryId(null)
+  }
+
+  const handleSaveItem = (input: MenuItemInput) =>
+    runAction(() => saveMenuItem(input), `${input.name.trim()} saved`)
+
+  const handleToggleAvailability = (item: MenuItem) =>
+    runAction(
+      () => setMenuItemAvailability(item.id, !item.is_available),
+      `${item.name} marked ${item.is_available ? 'out of stock' : 'in stock'}`
+    )
+
+  const handleDeleteItem = async (item: MenuItem) => {
+    if (!window.confirm(`Delete ${item.name} from the menu?`)) return
+    await runAction(() => deleteMenuItem(item.id), `${item.name} deleted`)
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center space-x-4">
+            {canAccessRoute('/orders', role) && (
+              <Link href="/orders" className="p-2 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+                <ArrowLeft className="w-5 h-5 text-slate-600 dark:text-slate-300" />
+              </Link>
+            )}
+            <UtensilsCrossed className="w-8 h-8 text-orange-600" />
+            <div>
+              <h1 className="text-3xl font-bold text-slate-900 dark:text-slate-100">Menu</h1>
+              <p className="text-sm text-slate-600 dark:text-slate-400">
+                {items.length} items{outOfStockCount > 0 ? `, ${outOfStockCount} out of stock` : ''}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => setEditingItem({})}
+              disabled={!isOrdersBackendConfigured || categories.length === 0}
+              title={categories.length === 0 ? 'Add a category first' : undefined}
+              className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-50 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              <span>New Item</span>
+            </button>
+            <StaffMenu profile={profile} onSignOut={signOut} />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* Categories */}
+          <div className="bg-white dark:bg-slate-800 rounded-xl p-4 shadow-lg border border-slate-200 dark:border-slate-700 space-y-2 h-fit">
+            <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Categories</h2>
+            <button
+              onClick={() => setSelectedCategoryId(null)}
+              className={cn(
+                "w-full text-left px-3 py-2 rounded-lg text-sm transition-colors",
+                selectedCategoryId === null
+                  ? "bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 font-medium"
+                  : "text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"
+              )}
+            >
+              All items
+            </button>
+            {categories.map(category => renaming?.id === category.id ? (
+              <div key={category.id} className="flex items-center space-x-1">
+                <input
+                  type="text"
+                  value={renaming.name}
+                  onChange={(e) => setRenaming({ ...renaming, name: e.target.value })}
+                  onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+                  autoFocus
+                  className={`${formInputClass} flex-1 min-w-0`}
+                />
+                <button onClick={handleRename} disabled={busy} className="p-1 text-green-600 hover:text-green-700">
+                  <Check className="w-4 h-4" />
+                </button>
+                <button onClick={() => setRenaming(null)} className="p-1 text-slate-400 hover:text-slate-600">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ) : (
+              <div key={category.id} className="group flex items-center">
+                <button
+                  onClick={() => setSelectedCategoryId(category.id)}
+                  className={cn(
+                    "flex-1 text-left px-3 py-2 rounded-lg text-sm transition-colors",
+                    selectedCategoryId === category.id
+                      ? "bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 font-medium"
+                      : "text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"
+                  )}
+                >
+                  {category.name}
+                  <span className="ml-2 text-xs text-slate-400">
+                    {items.filter(item => item.category_id === category.id).length}
+                  </span>
+                </button>
+                <button
+                  onClick={() => setRenaming({ id: category.id, name: category.name })}
+                  title="Rename"
+                  className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 opacity-0 group-hover:opacity-100"
+                >
+                  <Pencil className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => handleDeleteCategory(category.id, category.name)}
+                  title="Delete"
+                  className="p-1 text-slate-400 hover:text-red-500 opacity-0 group-hover:opacity-100"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+            <div className="flex items-center space-x-2 pt-2 border-t border-slate-200 dark:border-slate-700">
+              <input
+                type="text"
+                placeholder="New category"
+                value={newCategoryName}
+                onChange={(e) => setNewCategoryName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddCategory()}
+                className={`${formInputClass} flex-1 min-w-0`}
+              />
+              <button
+                onClick={handleAddCategory}
+                disabled={busy || !newCategoryName.trim() || !isOrdersBackendConfigured}
+                className="p-1.5 rounded-lg bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-50 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          {/* Items */}
+          <div className="lg:col-span-3 grid grid-cols-1 md:grid-cols-2 gap-4 h-fit">
+            {!loading && visibleItems.length === 0 && (
+              <div className="md:col-span-2 text-center py-12 text-slate-500 dark:text-slate-400">
+                {isOrdersBackendConfigured ? 'No items yet' : 'Connect Supabase to manage the menu'}
+              </div>
+            )}
+            {visibleItems.map(item => (
+              <div
+                key={item.id}
+                className={cn(
+                  "bg-white dark:bg-slate-800 rounded-xl p-4 shadow-lg border border-slate-200 dark:border-slate-700 space-y-3",
+                  !item.is_available && "opacity-60"
+                )}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <h3 className="font-semibold text-slate-900 dark:text-slate-100">{item.name}</h3>
+                    {item.description && (
+                      <p className="text-sm text-slate-600 dark:text-slate-400">{item.description}</p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => handleToggleAvailability(item)}
+                    disabled={busy}
+                    className={cn(
+                      "flex-shrink-0 px-2 py-1 rounded-full text-xs font-medium transition-colors disabled:opacity-50",
+                      item.is_available
+                        ? "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300 hover:bg-green-200"
+                        : "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300 hover:bg-red-200"
+                    )}
+                  >
+                    {item.is_available ? 'In stock' : 'Out of stock'}
+                  </button>
+                </div>
+
+                <p className="text-sm font-medium text-slate-900 dark:text-slate-100">{formatPrices(item)}</p>
+
+                {item.options.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {item.options.map(option => (
+                      <span
+                        key={option.id}
+                        title={option.group_name}
+                        className={cn(
+                          "px-2 py-0.5 rounded text-xs bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300",
+                          !option.is_available && "line-through opacity-60"
+                        )}
+                      >
+                        {option.name}{option.price > 0 ? ` +${option.price}` : ''}
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                <div className="flex justify-end space-x-2">
+                  <button
+                    onClick={() => setEditingItem({ item })}
+                    className="flex items-center space-x-1 px-3 py-1 rounded-lg text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+                  >
+                    <Pencil className="w-3 h-3" />
+                    <span>Edit</span>
+                  </button>
+                  <button
+                    onClick={() => handleDeleteItem(item)}
+                    disabled={busy}
+                    className="flex items-center space-x-1 px-3 py-1 rounded-lg text-sm text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50 transition-colors"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                    <span>Delete</span>
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {editingItem && (
+        <MenuItemForm
+          item={editingItem.item}
+          categories={categories}
+          defaultCategoryId={selectedCategoryId ?? undefined}
+          onSave={handleSaveItem}
+          onClose={() => setEditingItem(null)}
+        />
+      )}
+
+      <Toaster />
+    </div>
+  )
+}
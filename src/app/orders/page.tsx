@@ -1,134 +1,351 @@
 "use client"
 
-import React, { useState, useEffect, useCallback } from 'react'
-import { supabase } from '@/lib/supabase'
-import { Order, OrderStatus, ORDER_STATUS_LABELS, ORDER_STATUS_COLORS } from '@/types/orders'
-import { MapPin, Package, ChevronRight, MessageSquare } from 'lucide-react'
+import React, { Suspense, useState, useCallback, useEffect, useRef } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { ReceiptLayout } from '@/lib/receipts'
+import { OrderEditDraft, isOrderEditable } from '@/lib/order-edits'
+import { NewOrderDraft } from '@/lib/order-entry'
+import { checkItemAgainstMenu } from '@/lib/menu'
+import { findCustomerNote, getCustomerKeys } from '@/lib/customers'
+import { isOrdersBackendConfigured } from '@/lib/orders-api'
+import { canAccessRoute } from '@/lib/auth'
+import { STATUS_FILTER_SHORTCUTS, isShortcutIgnored } from '@/lib/order-shortcuts'
+import { Order, OrderStatus, ORDER_STATUS_LABELS, ORDER_STATUS_COLORS, NEXT_STATUS, canSetPriority, canEditOrders, canTakePayments, canRecordRefunds, validateTransition } from '@/types/orders'
+import { MapPin, Package, ChevronRight, MessageSquare, ChefHat, Pencil, Plus, Truck, Printer, UtensilsCrossed, AlertTriangle, BarChart3, Wallet, Users, StickyNote, Keyboard, Zap, Eye, ArrowRight, CheckSquare, Search, FilterX } from 'lucide-react'
+import { MenuItem } from '@/types/menu'
+import { CustomerNote } from '@/types/customers'
 import { AnimatedGridPattern } from '@/components/magicui/animated-grid-pattern'
 import { TextAnimate } from '@/components/magicui/text-animate'
 import { OrderCardEnhanced } from '@/components/orders/order-card-enhanced'
-import { PriorityManager } from '@/components/orders/priority-manager'
+import { PriorityManager, PriorityManagerHandle } from '@/components/orders/priority-manager'
+import { NotificationCenter } from '@/components/orders/notification-center'
+import { OrderTimeline } from '@/components/orders/order-timeline'
+import { ConnectionStatus } from '@/components/orders/connection-status'
+import { OrderEditor } from '@/components/orders/order-editor'
+import { NewOrderDialog } from '@/components/orders/new-order-dialog'
+import { OrderPayment } from '@/components/orders/order-payment'
+import { CustomizationList } from '@/components/orders/customization-list'
+import { BulkActionBar } from '@/components/orders/bulk-action-bar'
+import { CommandPalette, PaletteCommand } from '@/components/orders/command-palette'
+import { ShortcutHelp } from '@/components/orders/shortcut-help'
+import { StaffMenu } from '@/components/auth/staff-menu'
+import { SessionLoading } from '@/components/auth/session-loading'
+import { PrintArea } from '@/components/print/order-print'
+import { OrderPrintActions } from '@/components/print/order-print-actions'
 import { Toaster } from '@/components/ui/toaster'
 import { useToast } from '@/hooks/use-toast'
+import { useOrders } from '@/hooks/use-orders'
+import { BulkResult, useBulkOrderActions } from '@/hooks/use-bulk-order-actions'
+import { usePrint } from '@/hooks/use-print'
+import { useStaffSession } from '@/hooks/use-staff-session'
+import { useMenu } from '@/hooks/use-menu'
+import { useCustomerNotes } from '@/hooks/use-customer-notes'
+import { useSlaConfig } from '@/hooks/use-sla-config'
+import { useStoreSettings } from '@/hooks/use-store-settings'
+import { useSlaEscalation } from '@/hooks/use-sla-escalation'
+
+// Pages linked from the header and the command palette, shown when the role can open them
+const NAV_PAGES = [
+  { href: '/kitchen', label: 'Kitchen', icon: ChefHat },
+  { href: '/dispatch', label: 'Dispatch', icon: Truck },
+  { href: '/menu', label: 'Menu', icon: UtensilsCrossed },
+  { href: '/analytics', label: 'Analytics', icon: BarChart3 },
+  { href: '/day-close', label: 'Day Close', icon: Wallet },
+  { href: '/customers', label: 'Customers', icon: Users }
+]
 
 export default function OrdersPage() {
-  const [orders, setOrders] = useState<Order[]>([])
   const [filteredOrders, setFilteredOrders] = useState<Order[]>([])
-  const [loading, setLoading] = useState(true)
-  const [updatingOrder, setUpdatingOrder] = useState<string | null>(null)
-  const [selectedOrder, setSelectedOrder] = useState<Order | null>(null)
-  const [urgentOrders, setUrgentOrders] = useState<Set<string>>(new Set())
+  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null)
+  const [showNewOrder, setShowNewOrder] = useState(false)
+  // Orders ticked for bulk actions, and the last one ticked as the anchor for shift-click ranges
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(new Set())
+  const lastCheckedId = useRef<string | null>(null)
+  // The keyboard cursor, moved with the arrow keys; separate from the order open in the detail panel
+  const [focusedOrderId, setFocusedOrderId] = useState<string | null>(null)
+  const [showPalette, setShowPalette] = useState(false)
+  const [showShortcutHelp, setShowShortcutHelp] = useState(false)
+  const priorityManagerRef = useRef<PriorityManagerHandle>(null)
+  const router = useRouter()
   const { toast } = useToast()
+  const { profile, role, loading: sessionLoading, signOut } = useStaffSession()
+  const actor = profile?.full_name ?? null
+  const {
+    orders,
+    setOrders,
+    loading,
+    loadingMore,
+    hasMore,
+    loadMoreOrders,
+    loadOrdersSince,
+    realtimeStatus,
+    queuedChanges,
+    syncing,
+    updatingOrder,
+    updateOrderStatus,
+    updateOrderPriority,
+    saveOrderEdit,
+    placeOrder,
+    markOrderPaid,
+    recordRefund
+  } = useOrders({ actor, staffId: profile?.id ?? null, role })
+  const { items: menuItems } = useMenu()
+  const { settings: storeSettings } = useStoreSettings()
+  const { notes: customerNotes } = useCustomerNotes()
+  const { printJob, printOrders, finishPrint, autoPrint, setAutoPrint } = usePrint()
+  const { slaConfig, setSlaConfig } = useSlaConfig()
+  const { running: bulkRunning, advanceOrders, cancelOrders, markOrdersUrgent, assignOrdersToRider } = useBulkOrderActions({ setOrders, role })
 
-  const fetchOrders = useCallback(async () => {
-    if (!supabase) {
-      setLoading(false)
-      return
+  // Derived from orders so realtime changes show up in the open detail panel
+  const selectedOrder = orders.find(order => order.id === selectedOrderId) ?? null
+
+  const handleStatusUpdate = useCallback(async (orderId: string, newStatus: OrderStatus, notes?: string) => {
+    const updated = await updateOrderStatus(orderId, newStatus, notes)
+    const order = orders.find(o => o.id === orderId)
+    if (updated && order && newStatus === 'confirmed' && autoPrint) {
+      printOrders([{ ...order, order_status: newStatus }], ['kitchen'])
     }
+    return updated
+  }, [updateOrderStatus, orders, autoPrint, printOrders])
+
+  const handleNewOrder = useCallback(async (draft: NewOrderDraft) => {
+    const order = await placeOrder(draft)
+    if (order) setSelectedOrderId(order.id)
+    return order !== null
+  }, [placeOrder])
+
+  useSlaEscalation({ orders, slaConfig, setOrders })
+
+  const handleOrdersFiltered = useCallback((filtered: Order[]) => {
+    setFilteredOrders(filtered)
+  }, [])
+
+  // Checked orders hidden by the filters are left out of bulk actions
+  const checkedOrders = filteredOrders.filter(order => checkedIds.has(order.id))
+
+  const handleCheck = useCallback((orderId: string, shiftKey: boolean) => {
+    const anchorIndex = filteredOrders.findIndex(order => order.id === lastCheckedId.current)
+    const index = filteredOrders.findIndex(order => order.id === orderId)
+
+    setCheckedIds(prev => {
+      const next = new Set(prev)
+      const checked = !prev.has(orderId)
+      // Shift-click gives every card between the anchor and this one the same state
+      const range = shiftKey && anchorIndex !== -1
+        ? filteredOrders.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+        : filteredOrders.slice(index, index + 1)
+      range.forEach(order => checked ? next.add(order.id) : next.delete(order.id))
+      return next
+    })
+    lastCheckedId.current = orderId
+  }, [filteredOrders])
+
+  const selectAllFiltered = useCallback(() => {
+    setCheckedIds(new Set(filteredOrders.map(order => order.id)))
+  }, [filteredOrders])
 
-    try {
-      setLoading(true)
-      const { data: ordersData, error } = await supabase
-        .from('orders')
-        .select('*')
-        .order('created_at', { ascending: false })
-
-      if (error) throw error
-
-      const ordersWithItems = await Promise.all(
-        ordersData.map(async (order) => {
-          if (!supabase) return { ...order, items: [] }
-          
-          const { data: items, error: itemsError } = await supabase
-            .from('order_items')
-            .select('*')
-            .eq('order_id', order.id)
-
-          if (itemsError) throw itemsError
-
-          return { ...order, items: items || [] }
-        })
-      )
-
-      setOrders(ordersWithItems)
-    } catch (error) {
-      console.error('Error fetching orders:', error)
-      toast({
-        title: "Error",
-        description: "Failed to fetch orders. Please try again.",
-        variant: "destructive",
-      })
-    } finally {
-      setLoading(false)
+  const clearChecked = useCallback(() => {
+    setCheckedIds(new Set())
+    lastCheckedId.current = null
+  }, [])
+
+  // Only orders that went through leave the selection. Failed ones stay checked so the
+  // action can be retried once they are fixed, and so do orders a run never reached
+  // (offline, or hidden by the filters).
+  const keepFailedChecked = useCallback(({ succeeded }: BulkResult) => {
+    setCheckedIds(prev => {
+      const next = new Set(prev)
+      succeeded.forEach(order => next.delete(order.id))
+      return next
+    })
+  }, [])
+
+  const handleBulkAdvance = useCallback(async () => {
+    const result = await advanceOrders(checkedOrders)
+    const confirmed = result.succeeded.filter(order => order.order_status === 'pending')
+    if (autoPrint && confirmed.length > 0) {
+      printOrders(confirmed.map(order => ({ ...order, order_status: 'confirmed' as const })), ['kitchen'])
     }
+    keepFailedChecked(result)
+  }, [advanceOrders, checkedOrders, autoPrint, printOrders, keepFailedChecked])
+
+  const focusedOrder = filteredOrders.find(order => order.id === focusedOrderId) ?? null
+
+  const moveFocus = useCallback((step: number) => {
+    if (filteredOrders.length === 0) return
+    const index = filteredOrders.findIndex(order => order.id === focusedOrderId)
+    const nextIndex = index === -1
+      ? (step > 0 ? 0 : filteredOrders.length - 1)
+      : Math.min(Math.max(index + step, 0), filteredOrders.length - 1)
+    setFocusedOrderId(filteredOrders[nextIndex].id)
+  }, [filteredOrders, focusedOrderId])
+
+  const rejectShortcut = useCallback((description: string) => {
+    toast({ title: "Error", description, variant: "destructive" })
   }, [toast])
 
-  useEffect(() => {
-    fetchOrders()
-  }, [fetchOrders])
-
-  const updateOrderStatus = useCallback(async (orderId: string, newStatus: OrderStatus) => {
-    if (!supabase) return
-
-    try {
-      setUpdatingOrder(orderId)
-      
-      const { error } = await supabase
-        .from('orders')
-        .update({ 
-          order_status: newStatus,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', orderId)
-
-      if (error) throw error
-
-      setOrders(prev => prev.map(order => 
-        order.id === orderId 
-          ? { ...order, order_status: newStatus, updated_at: new Date().toISOString() }
-          : order
-      ))
-
-      toast({
-        title: "Order Updated",
-        description: `Order status changed to ${ORDER_STATUS_LABELS[newStatus]}`,
-      })
-    } catch (error) {
-      console.error('Error updating order:', error)
-      toast({
-        title: "Error",
-        description: "Failed to update order status. Please try again.",
-        variant: "destructive",
-      })
-    } finally {
-      setUpdatingOrder(null)
+  const advanceOrder = useCallback((order: Order) => {
+    const nextStatus = NEXT_STATUS[order.order_status]
+    if (!nextStatus) {
+      rejectShortcut(`${ORDER_STATUS_LABELS[order.order_status]} orders cannot move on`)
+      return
     }
-  }, [toast])
+    const invalidReason = validateTransition(order.order_status, nextStatus, { role })
+    if (invalidReason) {
+      rejectShortcut(invalidReason)
+      return
+    }
+    handleStatusUpdate(order.id, nextStatus)
+  }, [handleStatusUpdate, rejectShortcut, role])
 
-  const handleToggleUrgent = useCallback((orderId: string) => {
-    setUrgentOrders(prev => {
-      const newSet = new Set(prev)
-      if (newSet.has(orderId)) {
-        newSet.delete(orderId)
-        toast({
-          title: "Order Removed",
-          description: "Order removed from urgent list",
-        })
-      } else {
-        newSet.add(orderId)
-        toast({
-          title: "Order Marked Urgent",
-          description: "Order added to urgent list",
-        })
+  const toggleUrgent = useCallback((order: Order) => {
+    if (!canSetPriority(role)) {
+      rejectShortcut('Your role cannot change priority')
+      return
+    }
+    updateOrderPriority(order.id, order.priority === 'urgent' ? 'normal' : 'urgent')
+  }, [updateOrderPriority, rejectShortcut, role])
+
+  const openOrder = useCallback((order: Order) => {
+    setFocusedOrderId(order.id)
+    setSelectedOrderId(order.id)
+  }, [])
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // The new order dialog and the palette handle their own keys
+      if (showNewOrder) return
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault()
+        setShowPalette(prev => !prev)
+        return
+      }
+      if (showPalette) return
+      if (showShortcutHelp) {
+        if (event.key === 'Escape' || event.key === '?') setShowShortcutHelp(false)
+        return
+      }
+      if (event.ctrlKey || event.metaKey || event.altKey || isShortcutIgnored(event)) return
+
+      const statusShortcut = STATUS_FILTER_SHORTCUTS.find(shortcut => shortcut.key === event.key)
+      if (statusShortcut) {
+        priorityManagerRef.current?.updateFilters({ status: statusShortcut.status })
+        return
+      }
+
+      // Letters work with caps lock on
+      switch (event.key.length === 1 ? event.key.toLowerCase() : event.key) {
+        case 'ArrowDown':
+        case 'ArrowRight':
+        case 'j':
+          event.preventDefault()
+          moveFocus(1)
+          break
+        case 'ArrowUp':
+        case 'ArrowLeft':
+        case 'k':
+          event.preventDefault()
+          moveFocus(-1)
+          break
+        case 'Enter':
+          if (focusedOrder) {
+            event.preventDefault()
+            advanceOrder(focusedOrder)
+          }
+          break
+        case 'u':
+          if (focusedOrder) toggleUrgent(focusedOrder)
+          break
+        case 'o':
+        case ' ':
+          if (focusedOrder) {
+            event.preventDefault()
+            setSelectedOrderId(focusedOrder.id)
+          }
+          break
+        case 'x':
+          if (focusedOrder && isOrdersBackendConfigured) handleCheck(focusedOrder.id, false)
+          break
+        case 'Escape':
+          setSelectedOrderId(null)
+          break
+        case '/':
+          event.preventDefault()
+          priorityManagerRef.current?.focusSearch()
+          break
+        case 'n':
+          if (canEditOrders(role) && isOrdersBackendConfigured) setShowNewOrder(true)
+          break
+        case '?':
+          setShowShortcutHelp(true)
+          break
       }
-      return newSet
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [showPalette, showNewOrder, showShortcutHelp, focusedOrder, moveFocus, advanceOrder, toggleUrgent, handleCheck, role])
+
+  const handleBulkPrint = useCallback(() => {
+    printOrders(checkedOrders, ['kitchen'])
+    toast({
+      title: "Printing Tickets",
+      description: `${checkedOrders.length} kitchen ticket${checkedOrders.length === 1 ? '' : 's'} sent to the printer`,
+      variant: "success",
     })
-  }, [toast])
+  }, [printOrders, checkedOrders, toast])
 
-  const handleOrdersFiltered = useCallback((filtered: Order[]) => {
-    setFilteredOrders(filtered)
-  }, [])
+  const navPages = NAV_PAGES.filter(page => canAccessRoute(page.href, role))
 
+  const paletteCommands: PaletteCommand[] = [
+    ...(focusedOrder ? buildOrderCommands(focusedOrder) : []),
+    ...STATUS_FILTER_SHORTCUTS.map(({ key, status, label }): PaletteCommand => ({
+      id: `filter-${status}`,
+      label: `Show ${label}`,
+      group: 'Filters',
+      shortcut: [key],
+      run: () => priorityManagerRef.current?.updateFilters({ status })
+    })),
+    { id: 'clear-filters', label: 'Clear all filters', group: 'Filters', icon: FilterX, run: () => priorityManagerRef.current?.clearFilters() },
+    { id: 'search', label: 'Search orders', group: 'Filters', icon: Search, shortcut: ['/'], run: () => priorityManagerRef.current?.focusSearch() },
+    ...(canEditOrders(role) && isOrdersBackendConfigured
+      ? [{ id: 'new-order', label: 'New order', group: 'Actions', icon: Plus, shortcut: ['N'], run: () => setShowNewOrder(true) }]
+      : []),
+    { id: 'select-all', label: `Select all ${filteredOrders.length} orders`, group: 'Actions', icon: CheckSquare, run: selectAllFiltered },
+    { id: 'auto-print', label: autoPrint ? 'Turn off auto-print' : 'Turn on auto-print', group: 'Actions', icon: Printer, run: () => setAutoPrint(!autoPrint) },
+    { id: 'shortcuts', label: 'Keyboard shortcuts', group: 'Actions', icon: Keyboard, shortcut: ['?'], run: () => setShowShortcutHelp(true) },
+    ...navPages.map(({ href, label, icon }): PaletteCommand => ({ id: `go-${href}`, label, group: 'Go to', icon, run: () => router.push(href) }))
+  ]
+
+  function buildOrderCommands(order: Order): PaletteCommand[] {
+    const group = `Order #${order.order_number}`
+    const nextStatus = NEXT_STATUS[order.order_status]
+    return [
+      ...(nextStatus
+        ? [{ id: 'advance', label: `Advance to ${ORDER_STATUS_LABELS[nextStatus]}`, group, icon: ArrowRight, shortcut: ['Enter'], run: () => advanceOrder(order) }]
+        : []),
+      {
+        id: 'urgent',
+        label: order.priority === 'urgent' ? 'Clear urgent' : 'Mark urgent',
+        group,
+        icon: Zap,
+        shortcut: ['U'],
+        run: () => toggleUrgent(order)
+      },
+      { id: 'open', label: 'Open details', group, icon: Eye, shortcut: ['O'], run: () => setSelectedOrderId(order.id) },
+      {
+        id: 'check',
+        label: checkedIds.has(order.id) ? 'Remove from selection' : 'Select for bulk actions',
+        group,
+        icon: CheckSquare,
+        shortcut: ['X'],
+        run: () => handleCheck(order.id, false)
+      }
+    ]
+  }
+
+  if (sessionLoading) return <SessionLoading />
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
@@ -144,7 +361,36 @@ export default function OrdersPage() {
 
       <div className="relative z-10 container mx-auto px-4 py-8">
         {/* Header */}
-        <div className="text-center mb-8">
+        <div className="relative text-center mb-8">
+          <div className="absolute left-0 top-0 z-20 flex flex-col md:flex-row gap-2">
+            {canEditOrders(role) && isOrdersBackendConfigured && (
+              <button
+                onClick={() => setShowNewOrder(true)}
+                className="flex items-center space-x-2 px-4 py-3 rounded-full bg-blue-600 shadow-lg hover:bg-blue-500 hover:shadow-xl transition-all duration-200 text-sm font-medium text-white"
+              >
+                <Plus className="w-5 h-5" />
+                <span className="hidden md:inline">New Order</span>
+              </button>
+            )}
+            {navPages.map(({ href, label, icon: Icon }) => (
+              <Link
+                key={href}
+                href={href}
+                className="flex items-center space-x-2 px-4 py-3 rounded-full bg-white dark:bg-slate-800 shadow-lg border border-slate-200 dark:border-slate-700 hover:shadow-xl transition-all duration-200 text-sm font-medium text-slate-700 dark:text-slate-300"
+              >
+                <Icon className="w-5 h-5" />
+                <span className="hidden md:inline">{label}</span>
+              </Link>
+            ))}
+          </div>
+          <div className="absolute right-0 top-0 z-20">
+            <NotificationCenter
+              orders={orders}
+              slaConfig={slaConfig}
+              staffId={profile?.id ?? null}
+              onOrderSelect={setSelectedOrderId}
+            />
+          </div>
           <TextAnimate
             className="text-4xl md:text-6xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent mb-4"
           >
@@ -153,33 +399,81 @@ export default function OrdersPage() {
           <p className="text-slate-600 dark:text-slate-400 text-lg">
             Order Management Dashboard
           </p>
+          <ConnectionStatus
+            status={realtimeStatus}
+            pendingChanges={queuedChanges.length}
+            syncing={syncing}
+            className="mt-3"
+          />
+          <div className="flex items-center justify-center space-x-4 mt-3">
+            <StaffMenu profile={profile} onSignOut={signOut} />
+            <label className="flex items-center space-x-1.5 text-sm text-slate-600 dark:text-slate-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={autoPrint}
+                onChange={(e) => setAutoPrint(e.target.checked)}
+              />
+              <Printer className="w-4 h-4" />
+              <span>Auto-print tickets</span>
+            </label>
+            <button
+              onClick={() => setShowShortcutHelp(true)}
+              title="Keyboard shortcuts (?)"
+              className="flex items-center space-x-1.5 text-sm text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-100 transition-colors"
+            >
+              <Keyboard className="w-4 h-4" />
+              <span className="hidden md:inline">Ctrl K</span>
+            </button>
+          </div>
         </div>
 
-        {/* Priority Manager */}
-        <PriorityManager
-          orders={orders}
-          onOrdersFiltered={handleOrdersFiltered}
-          onToggleUrgent={handleToggleUrgent}
-          urgentOrders={urgentOrders}
-        />
+        {/* Priority Manager; its filters live in the URL, and useSearchParams needs a Suspense boundary to prerender */}
+        <Suspense>
+          <PriorityManager
+            ref={priorityManagerRef}
+            orders={orders}
+            onOrdersFiltered={handleOrdersFiltered}
+            slaConfig={slaConfig}
+            onSlaConfigChange={setSlaConfig}
+            hasMore={hasMore}
+            loadingMore={loadingMore}
+            onLoadMore={loadMoreOrders}
+            onLoadSince={loadOrdersSince}
+            timeZone={storeSettings?.timezone}
+          />
+        </Suspense>
 
 
         {/* Responsive Layout */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Orders List - Full width on mobile, 2/3 on desktop */}
           <div className="lg:col-span-2">
+            {filteredOrders.length > 0 && isOrdersBackendConfigured && (
+              <label className="flex items-center space-x-2 mb-3 text-sm text-slate-600 dark:text-slate-400 cursor-pointer w-fit">
+                <input
+                  type="checkbox"
+                  checked={checkedOrders.length === filteredOrders.length}
+                  onChange={(e) => e.target.checked ? selectAllFiltered() : clearChecked()}
+                />
+                <span>Select all {filteredOrders.length} orders</span>
+              </label>
+            )}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {filteredOrders.map((order, index) => (
                 <OrderCardEnhanced 
                   key={order.id} 
                   order={order} 
-                  onStatusUpdate={updateOrderStatus}
+                  onStatusUpdate={handleStatusUpdate}
                   isUpdating={updatingOrder === order.id}
-                  onSelect={() => setSelectedOrder(order)}
+                  onSelect={() => setSelectedOrderId(order.id)}
                   index={index}
-                  isUrgent={urgentOrders.has(order.id)}
-                  onToggleUrgent={handleToggleUrgent}
+                  onPriorityChange={canSetPriority(role) ? updateOrderPriority : undefined}
+                  role={role}
                   isSelected={selectedOrder?.id === order.id}
+                  isFocused={focusedOrder?.id === order.id}
+                  isPendingSync={queuedChanges.some(change => change.order_id === order.id)}
+                  isChecked={checkedIds.has(order.id)}
+                  onCheck={isOrdersBackendConfigured ? (shiftKey) => handleCheck(order.id, shiftKey) : undefined}
                 />
               ))}
             </div>
@@ -199,6 +493,19 @@ export default function OrdersPage() {
               </div>
             )}
 
+            {/* Load More */}
+            {hasMore && !loading && (
+              <div className="text-center mt-6">
+                <button
+                  onClick={loadMoreOrders}
+                  disabled={loadingMore}
+                  className="px-4 py-2 rounded-lg bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors disabled:opacity-50"
+                >
+                  {loadingMore ? 'Loading...' : 'Load older orders'}
+                </button>
+              </div>
+            )}
+
             {/* Loading State */}
             {loading && (
               <div className="text-center py-12">
@@ -212,8 +519,16 @@ export default function OrdersPage() {
           <div className="hidden lg:block lg:col-span-1">
             {selectedOrder ? (
               <OrderDetailPanel
+                key={selectedOrder.id}
                 order={selectedOrder}
-                onClose={() => setSelectedOrder(null)}
+                onClose={() => setSelectedOrderId(null)}
+                onPrint={(layouts) => printOrders([selectedOrder], layouts)}
+                onSaveEdit={canEditOrders(role) ? saveOrderEdit : undefined}
+                onMarkPaid={canTakePayments(role) ? markOrderPaid : undefined}
+                onRefund={canRecordRefunds(role) ? recordRefund : undefined}
+                menuItems={menuItems}
+                customerNote={findCustomerNote(customerNotes, getCustomerKeys(selectedOrder))}
+                isSaving={updatingOrder === selectedOrder.id}
               />
             ) : (
               <div className="bg-white dark:bg-slate-800 rounded-xl p-6 shadow-lg border border-slate-200 dark:border-slate-700 h-[calc(100vh-8rem)] flex items-center justify-center">
@@ -235,211 +550,318 @@ export default function OrdersPage() {
         {selectedOrder && (
           <div 
             className="lg:hidden fixed inset-0 bg-black/50 flex items-end justify-center p-0 z-50"
-            onClick={() => setSelectedOrder(null)}
+            onClick={() => setSelectedOrderId(null)}
           >
             <div 
               className="bg-white dark:bg-slate-800 w-full h-[90vh] rounded-t-xl overflow-hidden flex flex-col"
               onClick={(e) => e.stopPropagation()}
             >
               <OrderDetailMobileModal
+                key={selectedOrder.id}
                 order={selectedOrder}
-                onClose={() => setSelectedOrder(null)}
+                onClose={() => setSelectedOrderId(null)}
+                onPrint={(layouts) => printOrders([selectedOrder], layouts)}
+                onSaveEdit={canEditOrders(role) ? saveOrderEdit : undefined}
+                onMarkPaid={canTakePayments(role) ? markOrderPaid : undefined}
+                onRefund={canRecordRefunds(role) ? recordRefund : undefined}
+                menuItems={menuItems}
+                customerNote={findCustomerNote(customerNotes, getCustomerKeys(selectedOrder))}
+                isSaving={updatingOrder === selectedOrder.id}
               />
             </div>
           </div>
         )}
       </div>
 
+      {showNewOrder && (
+        <NewOrderDialog
+          orders={orders}
+          menuItems={menuItems}
+          settings={storeSettings}
+          onSubmit={handleNewOrder}
+          onClose={() => setShowNewOrder(false)}
+        />
+      )}
+
+      <BulkActionBar
+        selectedOrders={checkedOrders}
+        filteredCount={filteredOrders.length}
+        onSelectAll={selectAllFiltered}
+        onClear={clearChecked}
+        onAdvance={handleBulkAdvance}
+        onCancel={async (reason) => keepFailedChecked(await cancelOrders(checkedOrders, reason))}
+        onMarkUrgent={canSetPriority(role) ? async () => keepFailedChecked(await markOrdersUrgent(checkedOrders)) : undefined}
+        onAssignRider={async (rider) => keepFailedChecked(await assignOrdersToRider(checkedOrders, rider))}
+        onPrint={handleBulkPrint}
+        running={bulkRunning}
+      />
+
+      {showPalette && (
+        <CommandPalette
+          commands={paletteCommands}
+          orders={orders}
+          onOpenOrder={openOrder}
+          onClose={() => setShowPalette(false)}
+        />
+      )}
+
+      {showShortcutHelp && <ShortcutHelp onClose={() => setShowShortcutHelp(false)} />}
+
       {/* Toast Notifications */}
       <Toaster />
+
+      {/* Print Output */}
+      <PrintArea job={printJob} onPrinted={finishPrint} />
     </div>
   )
 }
 
+// Flags items whose name, stock or price no longer match the menu
+function MenuMismatch({ item, menuItems }: { item: Order['items'][number]; menuItems: MenuItem[] }) {
+  const warning = checkItemAgainstMenu(item, menuItems)
+  if (!warning) return null
+
+  return (
+    <p className="flex items-center space-x-1 text-xs text-amber-600 dark:text-amber-400 mt-1">
+      <AlertTriangle className="w-3 h-3" />
+      <span>{warning}</span>
+    </p>
+  )
+}
+
+// Opens the customer's page in the directory
+function CustomerLink({ order }: { order: Order }) {
+  const key = getCustomerKeys(order)[0]
+  if (!key) return null
+
+  return (
+    <Link
+      href={`/customers?key=${encodeURIComponent(key)}`}
+      className="flex items-center space-x-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+    >
+      <Users className="w-4 h-4" />
+      <span>History</span>
+    </Link>
+  )
+}
+
 // Order Detail Panel Component
 interface OrderDetailPanelProps {
   order: Order
   onClose: () => void
+  onPrint: (layouts: ReceiptLayout[]) => void
+  // Omitted when the signed-in role cannot edit orders
+  onSaveEdit?: (baseOrder: Order, draft: OrderEditDraft) => Promise<boolean>
+  // Omitted when the signed-in role cannot take payments or record refunds
+  onMarkPaid?: (order: Order) => Promise<boolean>
+  onRefund?: (order: Order, amount: number, reason: string) => Promise<boolean>
+  isSaving?: boolean
+  // Catalog items the order's items are checked against
+  menuItems: MenuItem[]
+  // Staff note on the customer, e.g. an allergy
+  customerNote?: CustomerNote | null
 }
 
-function OrderDetailPanel({ order, onClose }: OrderDetailPanelProps) {
+function OrderDetailPanel({ order, onClose, onPrint, onSaveEdit, onMarkPaid, onRefund, isSaving, menuItems, customerNote }: OrderDetailPanelProps) {
+  const [editing, setEditing] = useState(false)
+  const canEdit = !!onSaveEdit && isOrderEditable(order)
+
   return (
     <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg border border-slate-200 dark:border-slate-700 h-[calc(100vh-8rem)] sticky top-6 flex flex-col">
       <div className="flex items-center justify-between mb-6 p-6 pb-0">
         <h2 className="text-xl font-bold text-slate-900 dark:text-slate-100">
           Order #{order.order_number}
         </h2>
-        <button
-          onClick={onClose}
-          className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
-        >
-          <ChevronRight className="w-5 h-5 text-slate-500" />
-        </button>
-      </div>
-
-      <div className="flex-1 overflow-y-auto p-6 pt-0 space-y-6">
-        {/* Order Status */}
-        <div className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-700 rounded-lg">
-          <span className="text-sm font-medium text-slate-600 dark:text-slate-400">
-            Status
-          </span>
-          <span
-            className={`px-3 py-1 rounded-full text-sm font-medium ${ORDER_STATUS_COLORS[order.order_status]}`}
+        <div className="flex items-center">
+          {canEdit && !editing && (
+            <button
+              onClick={() => setEditing(true)}
+              title="Edit order"
+              className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+            >
+              <Pencil className="w-5 h-5 text-slate-500" />
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
           >
-            {ORDER_STATUS_LABELS[order.order_status]}
-          </span>
+            <ChevronRight className="w-5 h-5 text-slate-500" />
+          </button>
         </div>
+      </div>
 
-        {/* Customer Info */}
-        <div className="space-y-4">
-          <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
-            Customer Information
-          </h3>
-          <div className="space-y-3">
-            <div className="p-3 bg-slate-50 dark:bg-slate-700 rounded-lg">
-              <p className="text-sm text-slate-600 dark:text-slate-400">Name</p>
-              <p className="font-medium text-slate-900 dark:text-slate-100">
-                {order.customer_name}
-              </p>
-            </div>
-            <div className="p-3 bg-slate-50 dark:bg-slate-700 rounded-lg">
-              <p className="text-sm text-slate-600 dark:text-slate-400">Phone</p>
-              <p className="font-medium text-slate-900 dark:text-slate-100">
-                {order.customer_phone}
-              </p>
-            </div>
+      <div className="flex-1 overflow-y-auto p-6 pt-0 space-y-6">
+        {editing && onSaveEdit ? (
+          <OrderEditor
+            order={order}
+            onSave={onSaveEdit}
+            onCancel={() => setEditing(false)}
+            isSaving={isSaving}
+            menuItems={menuItems}
+          />
+        ) : (
+          <>
+          {/* Order Status */}
+          <div className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-700 rounded-lg">
+            <span className="text-sm font-medium text-slate-600 dark:text-slate-400">
+              Status
+            </span>
+            <span
+              className={`px-3 py-1 rounded-full text-sm font-medium ${ORDER_STATUS_COLORS[order.order_status]}`}
+            >
+              {ORDER_STATUS_LABELS[order.order_status]}
+            </span>
           </div>
-        </div>
 
-        {/* Order Items */}
-        <div className="space-y-4">
-          <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
-            Order Items
-          </h3>
-          <div className="space-y-2 max-h-60 overflow-y-auto">
-            {order.items?.map((item, index) => (
-              <div
-                key={index}
-                className="p-3 bg-slate-50 dark:bg-slate-700 rounded-lg"
-              >
-                <div className="flex justify-between items-start">
-                  <div className="flex-1">
-                    <p className="font-medium text-slate-900 dark:text-slate-100 text-sm">
-                      {item.item_name}
-                    </p>
-                    <p className="text-xs text-slate-600 dark:text-slate-400">
-                      Type: {item.item_type} • Qty: {item.quantity}
-                    </p>
-                    {item.customizations && Object.keys(item.customizations).length > 0 && (
-                      <p className="text-xs text-slate-500 dark:text-slate-500 mt-1">
-                        Customizations: {JSON.stringify(item.customizations)}
-                      </p>
-                    )}
-                  </div>
-                  <p className="font-semibold text-slate-900 dark:text-slate-100 text-sm ml-2">
-                    Rs {item.total_price}
-                  </p>
-                </div>
-              </div>
-            ))}
-          </div>
-        </div>
+          {/* Print */}
+          <OrderPrintActions order={order} onPrint={onPrint} />
 
-        {/* Order Summary */}
-        <div className="space-y-4">
-          <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
-            Order Summary
-          </h3>
-          <div className="space-y-2">
-            <div className="flex justify-between text-sm">
-              <span className="text-slate-600 dark:text-slate-400">Subtotal</span>
-              <span className="font-medium">Rs {order.subtotal}</span>
-            </div>
-            <div className="flex justify-between text-sm">
-              <span className="text-slate-600 dark:text-slate-400">Delivery Fee</span>
-              <span className="font-medium">Rs {order.delivery_fee}</span>
-            </div>
-            <div className="flex justify-between text-sm">
-              <span className="text-slate-600 dark:text-slate-400">Tax</span>
-              <span className="font-medium">Rs {order.tax_amount}</span>
+          {/* Customer Info */}
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
+                Customer Information
+              </h3>
+              <CustomerLink order={order} />
             </div>
-            <div className="flex justify-between text-base font-bold border-t border-slate-200 dark:border-slate-600 pt-2">
-              <span>Total</span>
-              <span>Rs {order.total_amount}</span>
+            <div className="space-y-3">
+              <div className="p-3 bg-slate-50 dark:bg-slate-700 rounded-lg">
+                <p className="text-sm text-slate-600 dark:text-slate-400">Name</p>
+                <p className="font-medium text-slate-900 dark:text-slate-100">
+                  {order.customer_name}
+                </p>
+              </div>
+              <div className="p-3 bg-slate-50 dark:bg-slate-700 rounded-lg">
+                <p className="text-sm text-slate-600 dark:text-slate-400">Phone</p>
+                <p className="font-medium text-slate-900 dark:text-slate-100">
+                  {order.customer_phone}
+                </p>
+              </div>
+              {customerNote && (
+                <div className="flex items-start space-x-2 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800">
+                  <StickyNote className="w-4 h-4 text-amber-600 mt-0.5 flex-shrink-0" />
+                  <p className="text-sm text-amber-800 dark:text-amber-300">{customerNote.notes}</p>
+                </div>
+              )}
             </div>
           </div>
-        </div>
 
-        {/* Delivery Address */}
-        {order.delivery_address && (
+          {/* Order Items */}
           <div className="space-y-4">
             <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
-              Delivery Address
+              Order Items
             </h3>
-            <div className="p-3 bg-slate-50 dark:bg-slate-700 rounded-lg">
-              <div className="flex items-start space-x-2">
-                <MapPin className="w-4 h-4 text-slate-500 mt-0.5 flex-shrink-0" />
-                <div className="text-sm">
-                  <p className="font-medium text-slate-900 dark:text-slate-100">
-                    {order.delivery_address.street}
-                  </p>
-                  <p className="text-slate-600 dark:text-slate-400">
-                    {order.delivery_address.city}, {order.delivery_address.state}
-                  </p>
-                  <p className="text-slate-600 dark:text-slate-400">
-                    {order.delivery_address.zipCode}, {order.delivery_address.country}
-                  </p>
-                  {(() => {
-                    const address = order.delivery_address as Record<string, unknown>
-                    return address.landmark ? (
-                      <p className="text-xs text-slate-500 dark:text-slate-500 mt-1">
-                        Landmark: {String(address.landmark)}
+            <div className="space-y-2 max-h-60 overflow-y-auto">
+              {order.items?.map((item, index) => (
+                <div
+                  key={index}
+                  className="p-3 bg-slate-50 dark:bg-slate-700 rounded-lg"
+                >
+                  <div className="flex justify-between items-start">
+                    <div className="flex-1">
+                      <p className="font-medium text-slate-900 dark:text-slate-100 text-sm">
+                        {item.item_name}
+                      </p>
+                      <p className="text-xs text-slate-600 dark:text-slate-400">
+                        Type: {item.item_type} • Qty: {item.quantity}
                       </p>
-                    ) : null
-                  })()}
+                      <CustomizationList customizations={item.customizations} className="mt-1" />
+                      <MenuMismatch item={item} menuItems={menuItems} />
+                    </div>
+                    <p className="font-semibold text-slate-900 dark:text-slate-100 text-sm ml-2">
+                      Rs {item.total_price}
+                    </p>
+                  </div>
                 </div>
-              </div>
+              ))}
             </div>
           </div>
-        )}
 
-        {/* Order Notes */}
-        {order.order_notes && (
+          {/* Order Summary */}
           <div className="space-y-4">
             <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
-              Order Notes
+              Order Summary
             </h3>
-            <div className="p-3 bg-slate-50 dark:bg-slate-700 rounded-lg">
-              <div className="flex items-start space-x-2">
-                <MessageSquare className="w-4 h-4 text-slate-500 mt-0.5 flex-shrink-0" />
-                <p className="text-sm text-slate-700 dark:text-slate-300">{order.order_notes}</p>
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-600 dark:text-slate-400">Subtotal</span>
+                <span className="font-medium">Rs {order.subtotal}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-600 dark:text-slate-400">Delivery Fee</span>
+                <span className="font-medium">Rs {order.delivery_fee}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-600 dark:text-slate-400">Tax</span>
+                <span className="font-medium">Rs {order.tax_amount}</span>
+              </div>
+              <div className="flex justify-between text-base font-bold border-t border-slate-200 dark:border-slate-600 pt-2">
+                <span>Total</span>
+                <span>Rs {order.total_amount}</span>
               </div>
             </div>
           </div>
-        )}
 
-        {/* Order Timestamps */}
-        <div className="space-y-4">
-          <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
-            Order Timeline
-          </h3>
-          <div className="space-y-2">
-            <div className="flex justify-between text-xs">
-              <span className="text-slate-600 dark:text-slate-400">Ordered</span>
-              <span className="font-medium">
-                {new Date(order.created_at).toLocaleString()}
-              </span>
+          <OrderPayment order={order} onMarkPaid={onMarkPaid} onRefund={onRefund} isSaving={isSaving} />
+
+          {/* Delivery Address */}
+          {order.fulfillment_type !== 'pickup' && order.delivery_address && (
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
+                Delivery Address
+              </h3>
+              <div className="p-3 bg-slate-50 dark:bg-slate-700 rounded-lg">
+                <div className="flex items-start space-x-2">
+                  <MapPin className="w-4 h-4 text-slate-500 mt-0.5 flex-shrink-0" />
+                  <div className="text-sm">
+                    <p className="font-medium text-slate-900 dark:text-slate-100">
+                      {order.delivery_address.street}
+                    </p>
+                    <p className="text-slate-600 dark:text-slate-400">
+                      {order.delivery_address.city}, {order.delivery_address.state}
+                    </p>
+                    <p className="text-slate-600 dark:text-slate-400">
+                      {order.delivery_address.zipCode}, {order.delivery_address.country}
+                    </p>
+                    {(() => {
+                      const address = order.delivery_address as Record<string, unknown>
+                      return address.landmark ? (
+                        <p className="text-xs text-slate-500 dark:text-slate-500 mt-1">
+                          Landmark: {String(address.landmark)}
+                        </p>
+                      ) : null
+                    })()}
+                  </div>
+                </div>
+              </div>
             </div>
-            {order.updated_at !== order.created_at && (
-              <div className="flex justify-between text-xs">
-                <span className="text-slate-600 dark:text-slate-400">Last Updated</span>
-                <span className="font-medium">
-                  {new Date(order.updated_at).toLocaleString()}
-                </span>
+          )}
+
+          {/* Order Notes */}
+          {order.order_notes && (
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
+                Order Notes
+              </h3>
+              <div className="p-3 bg-slate-50 dark:bg-slate-700 rounded-lg">
+                <div className="flex items-start space-x-2">
+                  <MessageSquare className="w-4 h-4 text-slate-500 mt-0.5 flex-shrink-0" />
+                  <p className="text-sm text-slate-700 dark:text-slate-300">{order.order_notes}</p>
+                </div>
               </div>
-            )}
+            </div>
+          )}
+
+          {/* Order Timeline */}
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
+              Order Timeline
+            </h3>
+            <OrderTimeline order={order} />
           </div>
-        </div>
+          </>
+        )}
       </div>
     </div>
   )
@@ -449,9 +871,23 @@ function OrderDetailPanel({ order, onClose }: OrderDetailPanelProps) {
 interface OrderDetailMobileModalProps {
   order: Order
   onClose: () => void
+  onPrint: (layouts: ReceiptLayout[]) => void
+  // Omitted when the signed-in role cannot edit orders
+  onSaveEdit?: (baseOrder: Order, draft: OrderEditDraft) => Promise<boolean>
+  // Omitted when the signed-in role cannot take payments or record refunds
+  onMarkPaid?: (order: Order) => Promise<boolean>
+  onRefund?: (order: Order, amount: number, reason: string) => Promise<boolean>
+  isSaving?: boolean
+  // Catalog items the order's items are checked against
+  menuItems: MenuItem[]
+  // Staff note on the customer, e.g. an allergy
+  customerNote?: CustomerNote | null
 }
 
-function OrderDetailMobileModal({ order, onClose }: OrderDetailMobileModalProps) {
+function OrderDetailMobileModal({ order, onClose, onPrint, onSaveEdit, onMarkPaid, onRefund, isSaving, menuItems, customerNote }: OrderDetailMobileModalProps) {
+  const [editing, setEditing] = useState(false)
+  const canEdit = !!onSaveEdit && isOrderEditable(order)
+
   return (
     <div className="flex flex-col h-full w-full">
       {/* Header - Fixed */}
@@ -459,179 +895,200 @@ function OrderDetailMobileModal({ order, onClose }: OrderDetailMobileModalProps)
         <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100">
           Order #{order.order_number}
         </h2>
-        <button
-          onClick={onClose}
-          className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
-        >
-          <ChevronRight className="w-5 h-5 text-slate-500 rotate-90" />
-        </button>
+        <div className="flex items-center">
+          {canEdit && !editing && (
+            <button
+              onClick={() => setEditing(true)}
+              title="Edit order"
+              className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+            >
+              <Pencil className="w-5 h-5 text-slate-500" />
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <ChevronRight className="w-5 h-5 text-slate-500 rotate-90" />
+          </button>
+        </div>
       </div>
 
       {/* Scrollable Content */}
       <div className="flex-1 overflow-y-auto overscroll-contain" style={{ maxHeight: 'calc(90vh - 80px)' }}>
         <div className="p-4 space-y-6">
-        {/* Order Status */}
-        <div className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-700 rounded-lg">
-          <span className="text-sm font-medium text-slate-600 dark:text-slate-400">
-            Status
-          </span>
-          <span
-            className={`px-3 py-1 rounded-full text-sm font-medium ${ORDER_STATUS_COLORS[order.order_status]}`}
-          >
-            {ORDER_STATUS_LABELS[order.order_status]}
-          </span>
-        </div>
-
-        {/* Customer Info */}
-        <div className="space-y-4">
-          <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
-            Customer Information
-          </h3>
-          <div className="grid grid-cols-1 gap-3">
-            <div className="p-3 bg-slate-50 dark:bg-slate-700 rounded-lg">
-              <p className="text-sm text-slate-600 dark:text-slate-400">Name</p>
-              <p className="font-medium text-slate-900 dark:text-slate-100">
-                {order.customer_name}
-              </p>
-            </div>
-            <div className="p-3 bg-slate-50 dark:bg-slate-700 rounded-lg">
-              <p className="text-sm text-slate-600 dark:text-slate-400">Phone</p>
-              <p className="font-medium text-slate-900 dark:text-slate-100">
-                {order.customer_phone}
-              </p>
-            </div>
+        {editing && onSaveEdit ? (
+          <OrderEditor
+            order={order}
+            onSave={onSaveEdit}
+            onCancel={() => setEditing(false)}
+            isSaving={isSaving}
+            menuItems={menuItems}
+          />
+        ) : (
+          <>
+          {/* Order Status */}
+          <div className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-700 rounded-lg">
+            <span className="text-sm font-medium text-slate-600 dark:text-slate-400">
+              Status
+            </span>
+            <span
+              className={`px-3 py-1 rounded-full text-sm font-medium ${ORDER_STATUS_COLORS[order.order_status]}`}
+            >
+              {ORDER_STATUS_LABELS[order.order_status]}
+            </span>
           </div>
-        </div>
 
-        {/* Order Items */}
-        <div className="space-y-4">
-          <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
-            Order Items
-          </h3>
-          <div className="space-y-3">
-            {order.items?.map((item, index) => (
-              <div
-                key={index}
-                className="p-4 bg-slate-50 dark:bg-slate-700 rounded-lg"
-              >
-                <div className="flex justify-between items-start">
-                  <div className="flex-1">
-                    <p className="font-medium text-slate-900 dark:text-slate-100">
-                      {item.item_name}
-                    </p>
-                    <p className="text-sm text-slate-600 dark:text-slate-400">
-                      Type: {item.item_type} • Qty: {item.quantity}
-                    </p>
-                    {item.customizations && Object.keys(item.customizations).length > 0 && (
-                      <p className="text-xs text-slate-500 dark:text-slate-500 mt-2">
-                        Customizations: {JSON.stringify(item.customizations)}
-                      </p>
-                    )}
-                  </div>
-                  <p className="font-semibold text-slate-900 dark:text-slate-100 ml-3">
-                    Rs {item.total_price}
-                  </p>
-                </div>
-              </div>
-            ))}
-          </div>
-        </div>
+          {/* Print */}
+          <OrderPrintActions order={order} onPrint={onPrint} />
 
-        {/* Order Summary */}
-        <div className="space-y-4">
-          <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
-            Order Summary
-          </h3>
-          <div className="p-4 bg-slate-50 dark:bg-slate-700 rounded-lg space-y-3">
-            <div className="flex justify-between text-sm">
-              <span className="text-slate-600 dark:text-slate-400">Subtotal</span>
-              <span className="font-medium">Rs {order.subtotal}</span>
-            </div>
-            <div className="flex justify-between text-sm">
-              <span className="text-slate-600 dark:text-slate-400">Delivery Fee</span>
-              <span className="font-medium">Rs {order.delivery_fee}</span>
-            </div>
-            <div className="flex justify-between text-sm">
-              <span className="text-slate-600 dark:text-slate-400">Tax</span>
-              <span className="font-medium">Rs {order.tax_amount}</span>
+          {/* Customer Info */}
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
+                Customer Information
+              </h3>
+              <CustomerLink order={order} />
             </div>
-            <div className="flex justify-between text-lg font-bold border-t border-slate-200 dark:border-slate-600 pt-3">
-              <span>Total</span>
-              <span className="text-green-600">Rs {order.total_amount}</span>
+            <div className="grid grid-cols-1 gap-3">
+              <div className="p-3 bg-slate-50 dark:bg-slate-700 rounded-lg">
+                <p className="text-sm text-slate-600 dark:text-slate-400">Name</p>
+                <p className="font-medium text-slate-900 dark:text-slate-100">
+                  {order.customer_name}
+                </p>
+              </div>
+              <div className="p-3 bg-slate-50 dark:bg-slate-700 rounded-lg">
+                <p className="text-sm text-slate-600 dark:text-slate-400">Phone</p>
+                <p className="font-medium text-slate-900 dark:text-slate-100">
+                  {order.customer_phone}
+                </p>
+              </div>
+              {customerNote && (
+                <div className="flex items-start space-x-2 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800">
+                  <StickyNote className="w-4 h-4 text-amber-600 mt-0.5 flex-shrink-0" />
+                  <p className="text-sm text-amber-800 dark:text-amber-300">{customerNote.notes}</p>
+                </div>
+              )}
             </div>
           </div>
-        </div>
 
-        {/* Delivery Address */}
-        {order.delivery_address && (
+          {/* Order Items */}
           <div className="space-y-4">
             <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
-              Delivery Address
+              Order Items
             </h3>
-            <div className="p-4 bg-slate-50 dark:bg-slate-700 rounded-lg">
-              <div className="flex items-start space-x-3">
-                <MapPin className="w-5 h-5 text-slate-500 mt-0.5 flex-shrink-0" />
-                <div>
-                  <p className="font-medium text-slate-900 dark:text-slate-100">
-                    {order.delivery_address.street}
-                  </p>
-                  <p className="text-slate-600 dark:text-slate-400">
-                    {order.delivery_address.city}, {order.delivery_address.state}
-                  </p>
-                  <p className="text-slate-600 dark:text-slate-400">
-                    {order.delivery_address.zipCode}, {order.delivery_address.country}
-                  </p>
-                  {(() => {
-                    const address = order.delivery_address as Record<string, unknown>
-                    return address.landmark ? (
-                      <p className="text-sm text-slate-500 dark:text-slate-500 mt-1">
-                        Landmark: {String(address.landmark)}
+            <div className="space-y-3">
+              {order.items?.map((item, index) => (
+                <div
+                  key={index}
+                  className="p-4 bg-slate-50 dark:bg-slate-700 rounded-lg"
+                >
+                  <div className="flex justify-between items-start">
+                    <div className="flex-1">
+                      <p className="font-medium text-slate-900 dark:text-slate-100">
+                        {item.item_name}
+                      </p>
+                      <p className="text-sm text-slate-600 dark:text-slate-400">
+                        Type: {item.item_type} • Qty: {item.quantity}
                       </p>
-                    ) : null
-                  })()}
+                      <CustomizationList customizations={item.customizations} className="mt-2" />
+                      <MenuMismatch item={item} menuItems={menuItems} />
+                    </div>
+                    <p className="font-semibold text-slate-900 dark:text-slate-100 ml-3">
+                      Rs {item.total_price}
+                    </p>
+                  </div>
                 </div>
-              </div>
+              ))}
             </div>
           </div>
-        )}
 
-        {/* Order Notes */}
-        {order.order_notes && (
+          {/* Order Summary */}
           <div className="space-y-4">
             <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
-              Order Notes
+              Order Summary
             </h3>
-            <div className="p-4 bg-slate-50 dark:bg-slate-700 rounded-lg">
-              <div className="flex items-start space-x-3">
-                <MessageSquare className="w-5 h-5 text-slate-500 mt-0.5 flex-shrink-0" />
-                <p className="text-slate-700 dark:text-slate-300">{order.order_notes}</p>
+            <div className="p-4 bg-slate-50 dark:bg-slate-700 rounded-lg space-y-3">
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-600 dark:text-slate-400">Subtotal</span>
+                <span className="font-medium">Rs {order.subtotal}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-600 dark:text-slate-400">Delivery Fee</span>
+                <span className="font-medium">Rs {order.delivery_fee}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-600 dark:text-slate-400">Tax</span>
+                <span className="font-medium">Rs {order.tax_amount}</span>
+              </div>
+              <div className="flex justify-between text-lg font-bold border-t border-slate-200 dark:border-slate-600 pt-3">
+                <span>Total</span>
+                <span className="text-green-600">Rs {order.total_amount}</span>
               </div>
             </div>
           </div>
-        )}
 
-        {/* Order Timeline */}
-        <div className="space-y-4 pb-6">
-          <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
-            Order Timeline
-          </h3>
-          <div className="p-4 bg-slate-50 dark:bg-slate-700 rounded-lg space-y-2">
-            <div className="flex justify-between text-sm">
-              <span className="text-slate-600 dark:text-slate-400">Ordered</span>
-              <span className="font-medium">
-                {new Date(order.created_at).toLocaleString()}
-              </span>
+          <OrderPayment order={order} onMarkPaid={onMarkPaid} onRefund={onRefund} isSaving={isSaving} />
+
+          {/* Delivery Address */}
+          {order.fulfillment_type !== 'pickup' && order.delivery_address && (
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
+                Delivery Address
+              </h3>
+              <div className="p-4 bg-slate-50 dark:bg-slate-700 rounded-lg">
+                <div className="flex items-start space-x-3">
+                  <MapPin className="w-5 h-5 text-slate-500 mt-0.5 flex-shrink-0" />
+                  <div>
+                    <p className="font-medium text-slate-900 dark:text-slate-100">
+                      {order.delivery_address.street}
+                    </p>
+                    <p className="text-slate-600 dark:text-slate-400">
+                      {order.delivery_address.city}, {order.delivery_address.state}
+                    </p>
+                    <p className="text-slate-600 dark:text-slate-400">
+                      {order.delivery_address.zipCode}, {order.delivery_address.country}
+                    </p>
+                    {(() => {
+                      const address = order.delivery_address as Record<string, unknown>
+                      return address.landmark ? (
+                        <p className="text-sm text-slate-500 dark:text-slate-500 mt-1">
+                          Landmark: {String(address.landmark)}
+                        </p>
+                      ) : null
+                    })()}
+                  </div>
+                </div>
+              </div>
             </div>
-            {order.updated_at !== order.created_at && (
-              <div className="flex justify-between text-sm">
-                <span className="text-slate-600 dark:text-slate-400">Last Updated</span>
-                <span className="font-medium">
-                  {new Date(order.updated_at).toLocaleString()}
-                </span>
+          )}
+
+          {/* Order Notes */}
+          {order.order_notes && (
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
+                Order Notes
+              </h3>
+              <div className="p-4 bg-slate-50 dark:bg-slate-700 rounded-lg">
+                <div className="flex items-start space-x-3">
+                  <MessageSquare className="w-5 h-5 text-slate-500 mt-0.5 flex-shrink-0" />
+                  <p className="text-slate-700 dark:text-slate-300">{order.order_notes}</p>
+                </div>
               </div>
-            )}
+            </div>
+          )}
+
+          {/* Order Timeline */}
+          <div className="space-y-4 pb-6">
+            <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
+              Order Timeline
+            </h3>
+            <div className="p-4 bg-slate-50 dark:bg-slate-700 rounded-lg">
+              <OrderTimeline order={order} />
+            </div>
           </div>
-        </div>
+          </>
+        )}
         </div>
       </div>
     </div>
@@ -0,0 +1,47 @@
+"use client"
+
+import React from 'react'
+
+export interface BarChartDatum {
+  label: string
+  value: number
+  // Shown on hover; defaults to the value
+  detail?: string
+}
+
+interface BarChartProps {
+  data: BarChartDatum[]
+  // Tailwind background class for the bars
+  barClassName?: string
+  emptyMessage?: string
+}
+
+// Column chart drawn with plain divs, scaled to the largest value
+export function BarChart({ data, barClassName = 'bg-blue-500', emptyMessage = 'No data for this range' }: BarChartProps) {
+  const max = Math.max(0, ...data.map(datum => datum.value))
+
+  if (max === 0) {
+    return <p className="py-12 text-center text-sm text-slate-500 dark:text-slate-400">{emptyMessage}</p>
+  }
+
+  // Keep labels readable when there are many columns
+  const labelEvery = Math.ceil(data.length / 12)
+
+  return (
+    <div className="flex items-end h-48 gap-1">
+      {data.map((datum, index) => (
+        <div key={datum.label} className="flex-1 min-w-0 h-full flex flex-col items-center" title={`${datum.label}: ${datum.detail ?? datum.value}`}>
+          <div className="flex-1 w-full flex items-end">
+            <div
+              className={`w-full rounded-t ${barClassName}`}
+              style={{ height: `${(datum.value / max) * 100}%` }}
+            />
+          </div>
+          <span className="mt-1 h-4 text-[10px] text-slate-500 dark:text-slate-400 truncate">
+            {index % labelEvery === 0 ? datum.label : ''}
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+"use client"
+
+import React, { useState } from 'react'
+import {
+  DATE_RANGE_PRESET_LABELS,
+  DateRange,
+  DateRangePreset,
+  fromDateInputs,
+  getPresetRange,
+  toDateInputs
+} from '@/lib/date-ranges'
+import { cn } from '@/lib/utils'
+
+interface DateRangePickerProps {
+  range: DateRange
+  onChange: (range: DateRange) => void
+  // Store time zone the dates are days in
+  timeZone: string
+  // Preset the initial range came from, highlighted until the range changes
+  defaultPreset?: DateRangePreset
+}
+
+const inputClass = "px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+
+export function DateRangePicker({ range, onChange, timeZone, defaultPreset }: DateRangePickerProps) {
+  const [preset, setPreset] = useState<DateRangePreset | null>(defaultPreset ?? null)
+  const inputs = toDateInputs(range, timeZone)
+
+  const choosePreset = (value: DateRangePreset) => {
+    setPreset(value)
+    onChange(getPresetRange(value, timeZone))
+  }
+
+  const changeInputs = (from: string, to: string) => {
+    const next = fromDateInputs(from, to, timeZone)
+    if (!next) return
+    setPreset(null)
+    onChange(next)
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {(Object.keys(DATE_RANGE_PRESET_LABELS) as DateRangePreset[]).map(value => (
+        <button
+          key={value}
+          onClick={() => choosePreset(value)}
+          className={cn(
+            "px-3 py-1 rounded-full text-sm transition-colors",
+            preset === value
+              ? "bg-blue-600 text-white"
+              : "bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600"
+          )}
+        >
+          {DATE_RANGE_PRESET_LABELS[value]}
+        </button>
+      ))}
+      <div className="flex items-center space-x-1 text-sm text-slate-600 dark:text-slate-400">
+        <input
+          type="date"
+          value={inputs.from}
+          max={inputs.to}
+          onChange={(e) => changeInputs(e.target.value, inputs.to)}
+          className={inputClass}
+        />
+        <span>to</span>
+        <input
+          type="date"
+          value={inputs.to}
+          min={inputs.from}
+          onChange={(e) => changeInputs(inputs.from, e.target.value)}
+          className={inputClass}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+"use client"
+
+import React, { useMemo } from 'react'
+import { Order, ORDER_STATUS_LABELS } from '@/types/orders'
+import {
+  GroupedStageStats,
+  PercentileStats,
+  THROUGHPUT_STATUSES,
+  getOrderTiming,
+  getSlowestOrders,
+  getStageStats,
+  getStageStatsByHour,
+  getStageStatsByStaff
+} from '@/lib/prep-times'
+
+interface ThroughputReportProps {
+  orders: Order[]
+}
+
+const cardClass = "bg-white dark:bg-slate-800 rounded-xl p-6 shadow-lg border border-slate-200 dark:border-slate-700"
+
+const formatMinutes = (minutes: number) => minutes < 60
+  ? `${Math.round(minutes)}m`
+  : `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m`
+
+const formatStats = (stats?: PercentileStats) => stats ? `${formatMinutes(stats.p50)} / ${formatMinutes(stats.p90)}` : '—'
+
+function StageTable({ title, keyLabel, rows }: { title: string; keyLabel: string; rows: GroupedStageStats[] }) {
+  return (
+    <div className={cardClass}>
+      <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">{title}</h2>
+      <p className="text-xs text-slate-500 mb-4">Median / 90th percentile</p>
+      {rows.length === 0 ? (
+        <p className="py-6 text-center text-sm text-slate-500 dark:text-slate-400">No status changes in this range</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-500 dark:text-slate-400">
+                <th className="pb-2 font-medium">{keyLabel}</th>
+                <th className="pb-2 font-medium text-right">Orders</th>
+                {THROUGHPUT_STATUSES.map(status => (
+                  <th key={status} className="pb-2 font-medium text-right whitespace-nowrap">{ORDER_STATUS_LABELS[status]}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.key} className="border-t border-slate-100 dark:border-slate-700 text-slate-900 dark:text-slate-100">
+                  <td className="py-2">{row.key}</td>
+                  <td className="py-2 text-right">{row.orders}</td>
+                  {THROUGHPUT_STATUSES.map(status => (
+                    <td key={status} className="py-2 text-right whitespace-nowrap">{formatStats(row.stages[status])}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Time orders spend in each status, from order_status_history
+export function ThroughputReport({ orders }: ThroughputReportProps) {
+  const timings = useMemo(() => orders.map(getOrderTiming), [orders])
+  const overall = useMemo(() => getStageStats(timings), [timings])
+  const byHour = useMemo(() => getStageStatsByHour(timings), [timings])
+  const byStaff = useMemo(() => getStageStatsByStaff(orders), [orders])
+  const slowest = useMemo(() => getSlowestOrders(timings), [timings])
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-slate-900 dark:text-slate-100">Kitchen Throughput</h2>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {THROUGHPUT_STATUSES.map(status => {
+          const stats = overall[status]
+          return (
+            <div key={status} className={`${cardClass} p-4`}>
+              <p className="text-sm text-slate-600 dark:text-slate-400">{ORDER_STATUS_LABELS[status]}</p>
+              <p className="text-2xl font-bold text-slate-900 dark:text-slate-100">{stats ? formatMinutes(stats.p50) : '—'}</p>
+              {stats && (
+                <p className="text-xs text-slate-500">
+                  p90 {formatMinutes(stats.p90)} · max {formatMinutes(stats.max)} · {stats.count} orders
+                </p>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <StageTable title="By Hour Placed" keyLabel="Hour" rows={byHour} />
+        <StageTable title="By Staff Member" keyLabel="Moved on by" rows={byStaff} />
+      </div>
+
+      <div className={cardClass}>
+        <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-4">Slowest Orders</h2>
+        {slowest.length === 0 ? (
+          <p className="py-6 text-center text-sm text-slate-500 dark:text-slate-400">No delivered orders in this range</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 dark:text-slate-400">
+                  <th className="pb-2 font-medium">Order</th>
+                  <th className="pb-2 font-medium text-right">Total</th>
+                  {THROUGHPUT_STATUSES.map(status => (
+                    <th key={status} className="pb-2 font-medium text-right whitespace-nowrap">{ORDER_STATUS_LABELS[status]}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {slowest.map(timing => (
+                  <tr key={timing.order.id} className="border-t border-slate-100 dark:border-slate-700 text-slate-900 dark:text-slate-100">
+                    <td className="py-2">
+                      <span className="font-medium">#{timing.order.order_number}</span>
+                      <span className="ml-2 text-slate-500">{timing.order.customer_name}</span>
+                    </td>
+                    <td className="py-2 text-right font-medium">{formatMinutes(timing.totalMinutes)}</td>
+                    {THROUGHPUT_STATUSES.map(status => {
+                      const minutes = timing.minutes[status]
+                      return (
+                        <td key={status} className="py-2 text-right">{minutes === undefined ? '—' : formatMinutes(minutes)}</td>
+                      )
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
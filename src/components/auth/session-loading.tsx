@@ -0,0 +1,13 @@
+"use client"
+
+import React from 'react'
+import { Loader2 } from 'lucide-react'
+
+// Shown until the staff profile loads, since the actions on offer depend on its role
+export function SessionLoading() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+      <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+    </div>
+  )
+}
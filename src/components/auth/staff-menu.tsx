@@ -0,0 +1,33 @@
+"use client"
+
+import React from 'react'
+import { User, LogOut } from 'lucide-react'
+import { StaffProfile, STAFF_ROLE_LABELS } from '@/types/auth'
+import { cn } from '@/lib/utils'
+
+interface StaffMenuProps {
+  profile: StaffProfile | null
+  onSignOut: () => void
+  className?: string
+}
+
+export function StaffMenu({ profile, onSignOut, className }: StaffMenuProps) {
+  if (!profile) return null
+
+  return (
+    <div className={cn("flex items-center space-x-2 text-sm text-slate-700 dark:text-slate-300", className)}>
+      <User className="w-4 h-4 text-slate-400" />
+      <span className="font-medium">{profile.full_name}</span>
+      <span className="px-2 py-0.5 rounded-full text-xs bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-400">
+        {STAFF_ROLE_LABELS[profile.role]}
+      </span>
+      <button
+        onClick={onSignOut}
+        title="Sign out"
+        className="p-1.5 rounded-lg text-slate-500 hover:text-slate-700 hover:bg-slate-100 dark:hover:text-slate-200 dark:hover:bg-slate-700 transition-colors"
+      >
+        <LogOut className="w-4 h-4" />
+      </button>
+    </div>
+  )
+}
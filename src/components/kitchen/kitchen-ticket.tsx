@@ -0,0 +1,146 @@
+"use client"
+
+import React, { forwardRef } from 'react'
+import { motion } from 'framer-motion'
+import { Check, ChevronRight, MessageSquare, Zap } from 'lucide-react'
+import { format } from 'date-fns'
+import { Order, ORDER_STATUS_LABELS, NEXT_STATUS } from '@/types/orders'
+import { SlaConfig, getSlaBreach, getStatusEnteredAt } from '@/lib/sla'
+import { CustomizationList } from '@/components/orders/customization-list'
+import { cn } from '@/lib/utils'
+
+interface KitchenTicketProps {
+  order: Order
+  position: number
+  now: Date
+  slaConfig: SlaConfig
+  isSelected: boolean
+  isUpdating: boolean
+  doneItems: Set<string>
+  onToggleItem: (itemId: string) => void
+  onBump: () => void
+  onSelect: () => void
+}
+
+export const KitchenTicket = forwardRef<HTMLDivElement, KitchenTicketProps>(function KitchenTicket({
+  order,
+  position,
+  now,
+  slaConfig,
+  isSelected,
+  isUpdating,
+  doneItems,
+  onToggleItem,
+  onBump,
+  onSelect
+}, ref) {
+  const nextStatus = NEXT_STATUS[order.order_status]
+  const minutesInStatus = Math.floor((now.getTime() - getStatusEnteredAt(order).getTime()) / 60000)
+  const isLate = getSlaBreach(order, slaConfig, now) !== null
+  const allDone = order.items.length > 0 && order.items.every(item => doneItems.has(item.id))
+
+  return (
+    <motion.div
+      ref={ref}
+      layout
+      initial={{ opacity: 0, scale: 0.9 }}
+      animate={{ opacity: 1, scale: 1 }}
+      exit={{ opacity: 0, scale: 0.9 }}
+      onClick={onSelect}
+      className={cn(
+        "flex-shrink-0 w-80 flex flex-col rounded-xl bg-slate-800 border-4 overflow-hidden",
+        isSelected ? "border-blue-500" : "border-slate-700",
+        order.priority === 'urgent' && !isSelected && "border-red-500"
+      )}
+    >
+      {/* Ticket Header */}
+      <div
+        className={cn(
+          "px-4 py-3 flex items-center justify-between",
+          order.order_status === 'confirmed' ? "bg-blue-600" : "bg-orange-600",
+          isLate && "bg-red-600 animate-pulse"
+        )}
+      >
+        <div>
+          <p className="text-xs font-medium text-white/80">
+            {position <= 9 ? `[${position}] ` : ''}{ORDER_STATUS_LABELS[order.order_status]}
+          </p>
+          <p className="text-2xl font-bold text-white">#{order.order_number}</p>
+        </div>
+        <div className="text-right text-white">
+          <p className="text-2xl font-bold">{minutesInStatus}m</p>
+          <p className="text-xs text-white/80">{format(new Date(order.created_at), 'HH:mm')}</p>
+        </div>
+      </div>
+
+      {order.priority !== 'normal' && (
+        <div className="px-4 py-1 bg-red-500 text-white text-sm font-bold flex items-center space-x-1">
+          <Zap className="w-4 h-4" />
+          <span>{order.priority.toUpperCase()}</span>
+        </div>
+      )}
+
+      {/* Items */}
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {order.items.map(item => {
+          const isDone = doneItems.has(item.id)
+          return (
+            <button
+              key={item.id}
+              onClick={(e) => {
+                e.stopPropagation()
+                onToggleItem(item.id)
+              }}
+              className={cn(
+                "w-full text-left p-3 rounded-lg flex items-start space-x-3 transition-colors",
+                isDone ? "bg-slate-700/50 opacity-60" : "bg-slate-700"
+              )}
+            >
+              <span
+                className={cn(
+                  "mt-1 w-6 h-6 flex-shrink-0 rounded border-2 flex items-center justify-center",
+                  isDone ? "bg-green-500 border-green-500" : "border-slate-400"
+                )}
+              >
+                {isDone && <Check className="w-4 h-4 text-white" />}
+              </span>
+              <span className="flex-1">
+                <span className={cn("block text-lg font-semibold text-white", isDone && "line-through")}>
+                  <span className="text-yellow-300">{item.quantity}×</span> {item.item_name}
+                </span>
+                <CustomizationList customizations={item.customizations} theme="kitchen" className="mt-1" />
+              </span>
+            </button>
+          )
+        })}
+
+        {order.order_notes && (
+          <div className="p-3 rounded-lg bg-yellow-500/20 border border-yellow-500/40 flex items-start space-x-2">
+            <MessageSquare className="w-4 h-4 text-yellow-300 mt-0.5 flex-shrink-0" />
+            <p className="text-sm text-yellow-100">{order.order_notes}</p>
+          </div>
+        )}
+      </div>
+
+      {/* Bump */}
+      {nextStatus && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation()
+            onBump()
+          }}
+          disabled={isUpdating}
+          className={cn(
+            "py-5 text-xl font-bold text-white flex items-center justify-center space-x-2 transition-colors disabled:opacity-50",
+            allDone || order.order_status === 'confirmed'
+              ? "bg-green-600 hover:bg-green-500 active:bg-green-700"
+              : "bg-slate-600 hover:bg-slate-500 active:bg-slate-700"
+          )}
+        >
+          <span>{isUpdating ? 'Updating...' : ORDER_STATUS_LABELS[nextStatus]}</span>
+          <ChevronRight className="w-6 h-6" />
+        </button>
+      )}
+    </motion.div>
+  )
+})
@@ -0,0 +1,260 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Loader2, Plus, X } from 'lucide-react'
+import { MenuCategory, MenuItem } from '@/types/menu'
+import { MenuItemInput } from '@/lib/menu-api'
+import { formInputClass } from '@/components/orders/order-form-fields'
+
+interface MenuItemFormProps {
+  // Missing when adding a new item
+  item?: MenuItem
+  categories: MenuCategory[]
+  defaultCategoryId?: string
+  onSave: (input: MenuItemInput) => Promise<boolean>
+  onClose: () => void
+}
+
+function createInput(item: MenuItem | undefined, categoryId: string): MenuItemInput {
+  return {
+    id: item?.id,
+    category_id: item?.category_id ?? categoryId,
+    name: item?.name ?? '',
+    description: item?.description ?? '',
+    base_price: item?.base_price ?? 0,
+    is_available: item?.is_available ?? true,
+    sizes: item?.sizes.map(({ name, price }) => ({ name, price })) ?? [],
+    options: item?.options.map(({ group_name, name, price, is_available }) => ({ group_name, name, price, is_available })) ?? []
+  }
+}
+
+// Returns why the item cannot be saved, or null when it can
+function validateInput(input: MenuItemInput): string | null {
+  if (!input.name.trim()) return 'The item needs a name'
+  if (!input.category_id) return 'Choose a category'
+  const prices = [input.base_price, ...input.sizes.map(s => s.price), ...input.options.map(o => o.price)]
+  if (prices.some(price => !Number.isFinite(price) || price < 0)) return 'Prices cannot be negative'
+  if (input.sizes.some(size => !size.name.trim())) return 'Every size needs a name'
+  if (input.options.some(option => !option.name.trim() || !option.group_name.trim())) {
+    return 'Every option needs a group and a name'
+  }
+  return null
+}
+
+export function MenuItemForm({ item, categories, defaultCategoryId, onSave, onClose }: MenuItemFormProps) {
+  const [input, setInput] = useState(() => createInput(item, defaultCategoryId ?? categories[0]?.id ?? ''))
+  const [saving, setSaving] = useState(false)
+  const error = validateInput(input)
+
+  const update = (changes: Partial<MenuItemInput>) => setInput(prev => ({ ...prev, ...changes }))
+
+  const handleSave = async () => {
+    if (error) return
+    setSaving(true)
+    const saved = await onSave(input)
+    setSaving(false)
+    if (saved) onClose()
+  }
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-end md:items-center justify-center p-0 md:p-6 z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-slate-800 w-full md:max-w-xl max-h-[90vh] rounded-t-xl md:rounded-xl overflow-hidden flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex-shrink-0 flex items-center justify-between p-4 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100">{item ? 'Edit Item' : 'New Item'}</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto overscroll-contain p-4 space-y-6">
+          {/* Details */}
+          <div className="space-y-2">
+            <input
+              type="text"
+              placeholder="Name"
+              value={input.name}
+              onChange={(e) => update({ name: e.target.value })}
+              className={`${formInputClass} w-full`}
+            />
+            <textarea
+              rows={2}
+              placeholder="Description (optional)"
+              value={input.description ?? ''}
+              onChange={(e) => update({ description: e.target.value })}
+              className={`${formInputClass} w-full`}
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <select
+                value={input.category_id}
+                onChange={(e) => update({ category_id: e.target.value })}
+                className={formInputClass}
+              >
+                <option value="" disabled>Category…</option>
+                {categories.map(category => (
+                  <option key={category.id} value={category.id}>{category.name}</option>
+                ))}
+              </select>
+              <label className="flex items-center space-x-2 text-sm text-slate-600 dark:text-slate-400">
+                <span>Rs</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={Number.isFinite(input.base_price) ? input.base_price : ''}
+                  onChange={(e) => update({ base_price: e.target.valueAsNumber })}
+                  disabled={input.sizes.length > 0}
+                  title={input.sizes.length > 0 ? 'Priced by size' : undefined}
+                  className={`${formInputClass} flex-1 min-w-0 disabled:opacity-50`}
+                />
+              </label>
+            </div>
+            <label className="flex items-center space-x-2 text-sm text-slate-600 dark:text-slate-400">
+              <input
+                type="checkbox"
+                checked={input.is_available}
+                onChange={(e) => update({ is_available: e.target.checked })}
+                className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>In stock</span>
+            </label>
+          </div>
+
+          {/* Sizes */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Sizes</h3>
+              <button
+                onClick={() => update({ sizes: [...input.sizes, { name: '', price: input.base_price || 0 }] })}
+                className="flex items-center space-x-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add size</span>
+              </button>
+            </div>
+            {input.sizes.length === 0 && (
+              <p className="text-xs text-slate-500">No sizes, the item sells at its base price</p>
+            )}
+            {input.sizes.map((size, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  placeholder="Size"
+                  value={size.name}
+                  onChange={(e) => update({
+                    sizes: input.sizes.map((s, i) => i === index ? { ...s, name: e.target.value } : s)
+                  })}
+                  className={`${formInputClass} flex-1 min-w-0`}
+                />
+                <span className="text-sm text-slate-500">Rs</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={Number.isFinite(size.price) ? size.price : ''}
+                  onChange={(e) => update({
+                    sizes: input.sizes.map((s, i) => i === index ? { ...s, price: e.target.valueAsNumber } : s)
+                  })}
+                  className={`${formInputClass} w-24`}
+                />
+                <button
+                  onClick={() => update({ sizes: input.sizes.filter((_, i) => i !== index) })}
+                  className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Options */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Toppings &amp; Options</h3>
+              <button
+                onClick={() => update({
+                  options: [
+                    ...input.options,
+                    { group_name: input.options[input.options.length - 1]?.group_name ?? 'Toppings', name: '', price: 0, is_available: true }
+                  ]
+                })}
+                className="flex items-center space-x-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add option</span>
+              </button>
+            </div>
+            {input.options.map((option, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  placeholder="Group"
+                  value={option.group_name}
+                  onChange={(e) => update({
+                    options: input.options.map((o, i) => i === index ? { ...o, group_name: e.target.value } : o)
+                  })}
+                  className={`${formInputClass} w-1/4 min-w-0`}
+                />
+                <input
+                  type="text"
+                  placeholder="Option"
+                  value={option.name}
+                  onChange={(e) => update({
+                    options: input.options.map((o, i) => i === index ? { ...o, name: e.target.value } : o)
+                  })}
+                  className={`${formInputClass} flex-1 min-w-0`}
+                />
+                <span className="text-sm text-slate-500">+Rs</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={Number.isFinite(option.price) ? option.price : ''}
+                  onChange={(e) => update({
+                    options: input.options.map((o, i) => i === index ? { ...o, price: e.target.valueAsNumber } : o)
+                  })}
+                  className={`${formInputClass} w-20`}
+                />
+                <input
+                  type="checkbox"
+                  title="In stock"
+                  checked={option.is_available}
+                  onChange={(e) => update({
+                    options: input.options.map((o, i) => i === index ? { ...o, is_available: e.target.checked } : o)
+                  })}
+                  className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                />
+                <button
+                  onClick={() => update({ options: input.options.filter((_, i) => i !== index) })}
+                  className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-shrink-0 p-4 border-t border-slate-200 dark:border-slate-700 space-y-2">
+          {error && <p className="text-sm text-slate-500 dark:text-slate-400">{error}</p>}
+          <button
+            onClick={handleSave}
+            disabled={saving || !!error}
+            className="w-full flex items-center justify-center space-x-2 px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-50 transition-colors font-medium"
+          >
+            {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+            <span>{item ? 'Save Item' : 'Add Item'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,206 @@
+"use client"
+
+import React, { useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { ArrowRight, Bike, CheckSquare, Download, Loader2, Printer, X, XCircle, Zap } from 'lucide-react'
+import { Order } from '@/types/orders'
+import { Rider } from '@/types/dispatch'
+import { OrderExport } from '@/components/orders/order-export'
+import { formInputClass } from '@/components/orders/order-form-fields'
+import { useDispatch } from '@/hooks/use-dispatch'
+import { cn } from '@/lib/utils'
+
+interface BulkActionBarProps {
+  // The checked orders that are still on screen
+  selectedOrders: Order[]
+  filteredCount: number
+  onSelectAll: () => void
+  onClear: () => void
+  onAdvance: () => void
+  onCancel: (reason: string) => Promise<unknown>
+  // Omitted when the signed-in role cannot flag orders
+  onMarkUrgent?: () => void
+  onAssignRider: (rider: Rider) => Promise<unknown>
+  onPrint: () => void
+  running: boolean
+}
+
+type OpenPanel = 'cancel' | 'rider' | 'export' | null
+
+const actionButtonClass = "flex items-center space-x-1.5 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+const neutralButtonClass = `${actionButtonClass} bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600`
+const popoverClass = "absolute bottom-full mb-2 left-0 w-72 bg-white dark:bg-slate-800 rounded-xl shadow-2xl border border-slate-200 dark:border-slate-700 p-4 space-y-3"
+
+// Floats over the grid while orders are checked
+export function BulkActionBar({
+  selectedOrders,
+  filteredCount,
+  onSelectAll,
+  onClear,
+  onAdvance,
+  onCancel,
+  onMarkUrgent,
+  onAssignRider,
+  onPrint,
+  running
+}: BulkActionBarProps) {
+  const [openPanel, setOpenPanel] = useState<OpenPanel>(null)
+  const [reason, setReason] = useState('')
+  const count = selectedOrders.length
+
+  const togglePanel = (panel: OpenPanel) => setOpenPanel(prev => prev === panel ? null : panel)
+
+  const confirmCancel = async () => {
+    if (!reason.trim()) return
+    await onCancel(reason)
+    setReason('')
+    setOpenPanel(null)
+  }
+
+  return (
+    <AnimatePresence>
+      {count > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 40 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 40 }}
+          transition={{ duration: 0.2 }}
+          className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-4xl"
+        >
+          <div className="relative flex flex-wrap items-center gap-2 px-4 py-3 bg-white dark:bg-slate-800 rounded-xl shadow-2xl border border-slate-200 dark:border-slate-700">
+            <div className="flex items-center space-x-2 mr-2">
+              <CheckSquare className="w-4 h-4 text-blue-600" />
+              <span className="text-sm font-semibold text-slate-900 dark:text-slate-100">
+                {count} selected
+              </span>
+              {count < filteredCount && (
+                <button onClick={onSelectAll} className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+                  Select all {filteredCount}
+                </button>
+              )}
+            </div>
+
+            <button onClick={onAdvance} disabled={running} className={cn(actionButtonClass, "bg-blue-600 text-white hover:bg-blue-500")}>
+              {running ? <Loader2 className="w-4 h-4 animate-spin" /> : <ArrowRight className="w-4 h-4" />}
+              <span>Advance</span>
+            </button>
+            <button onClick={() => togglePanel('cancel')} disabled={running} className={neutralButtonClass}>
+              <XCircle className="w-4 h-4" />
+              <span>Cancel</span>
+            </button>
+            {onMarkUrgent && (
+              <button onClick={onMarkUrgent} disabled={running} className={neutralButtonClass}>
+                <Zap className="w-4 h-4" />
+                <span>Mark Urgent</span>
+              </button>
+            )}
+            <button onClick={() => togglePanel('rider')} disabled={running} className={neutralButtonClass}>
+              <Bike className="w-4 h-4" />
+              <span>Assign Rider</span>
+            </button>
+            <button onClick={onPrint} className={neutralButtonClass}>
+              <Printer className="w-4 h-4" />
+              <span>Print Tickets</span>
+            </button>
+            <button onClick={() => togglePanel('export')} className={neutralButtonClass}>
+              <Download className="w-4 h-4" />
+              <span>Export</span>
+            </button>
+
+            <button
+              onClick={onClear}
+              title="Clear selection"
+              className="ml-auto p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+
+            {openPanel === 'cancel' && (
+              <div className={popoverClass}>
+                <p className="text-sm font-medium text-slate-900 dark:text-slate-100">
+                  Cancel {count} order{count === 1 ? '' : 's'}
+                </p>
+                <input
+                  type="text"
+                  autoFocus
+                  placeholder="Reason (required)"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') confirmCancel()
+                    if (e.key === 'Escape') setOpenPanel(null)
+                  }}
+                  className={`${formInputClass} w-full`}
+                />
+                <button
+                  onClick={confirmCancel}
+                  disabled={running || !reason.trim()}
+                  className={cn(actionButtonClass, "w-full justify-center bg-red-600 text-white hover:bg-red-500")}
+                >
+                  Cancel Orders
+                </button>
+              </div>
+            )}
+
+            {openPanel === 'rider' && (
+              <RiderPicker
+                running={running}
+                onAssign={async (rider) => {
+                  await onAssignRider(rider)
+                  setOpenPanel(null)
+                }}
+              />
+            )}
+
+            <AnimatePresence>
+              {openPanel === 'export' && (
+                <OrderExport
+                  key="export"
+                  orders={selectedOrders}
+                  onClose={() => setOpenPanel(null)}
+                  showDateRange={false}
+                  className="top-auto bottom-full mt-0 mb-2"
+                />
+              )}
+            </AnimatePresence>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
+
+// Mounted only while open, so riders are not loaded until someone assigns one
+function RiderPicker({ running, onAssign }: { running: boolean; onAssign: (rider: Rider) => void }) {
+  const { riders, loading } = useDispatch()
+  const [riderId, setRiderId] = useState('')
+  const activeRiders = riders.filter(rider => rider.is_active)
+  const rider = activeRiders.find(r => r.id === riderId)
+
+  return (
+    <div className={popoverClass}>
+      <p className="text-sm font-medium text-slate-900 dark:text-slate-100">Assign to rider</p>
+      <p className="text-xs text-slate-500 dark:text-slate-400">
+        Ready delivery orders go out on one run; the rest are reported as not assigned.
+      </p>
+      <select
+        value={riderId}
+        onChange={(e) => setRiderId(e.target.value)}
+        disabled={loading}
+        className={`${formInputClass} w-full`}
+      >
+        <option value="" disabled>{loading ? 'Loading riders…' : 'Choose a rider'}</option>
+        {activeRiders.map(r => (
+          <option key={r.id} value={r.id}>{r.name}</option>
+        ))}
+      </select>
+      <button
+        onClick={() => rider && onAssign(rider)}
+        disabled={running || !rider}
+        className={cn(actionButtonClass, "w-full justify-center bg-blue-600 text-white hover:bg-blue-500")}
+      >
+        Assign
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,190 @@
+"use client"
+
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { motion } from 'framer-motion'
+import { Command, Package, Search } from 'lucide-react'
+import type { LucideIcon } from 'lucide-react'
+import { Order, ORDER_STATUS_COLORS, ORDER_STATUS_LABELS } from '@/types/orders'
+import { cn } from '@/lib/utils'
+
+export interface PaletteCommand {
+  id: string
+  label: string
+  group: string
+  icon?: LucideIcon
+  // Keycaps shown on the right, e.g. ['U']
+  shortcut?: string[]
+  run: () => void
+}
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[]
+  // Orders that can be jumped to by number or customer name
+  orders: Order[]
+  onOpenOrder: (order: Order) => void
+  onClose: () => void
+}
+
+interface PaletteEntry {
+  id: string
+  group: string
+  run: () => void
+  command?: PaletteCommand
+  order?: Order
+}
+
+const MAX_ORDER_RESULTS = 6
+
+// Every word of the query must appear somewhere in the text
+const matchesQuery = (text: string, words: string[]) => {
+  const haystack = text.toLowerCase()
+  return words.every(word => haystack.includes(word))
+}
+
+export function CommandPalette({ commands, orders, onOpenOrder, onClose }: CommandPaletteProps) {
+  const [query, setQuery] = useState('')
+  const [activeIndex, setActiveIndex] = useState(0)
+  const listRef = useRef<HTMLDivElement>(null)
+
+  const entries = useMemo<PaletteEntry[]>(() => {
+    const words = query.toLowerCase().replace(/#/g, ' ').split(/\s+/).filter(Boolean)
+
+    // Orders only show up once something is typed, so the palette opens on the commands
+    const orderEntries: PaletteEntry[] = words.length === 0 ? [] : orders
+      .filter(order => matchesQuery(`${order.order_number} ${order.customer_name}`, words))
+      .slice(0, MAX_ORDER_RESULTS)
+      .map(order => ({ id: `order-${order.id}`, group: 'Orders', order, run: () => onOpenOrder(order) }))
+
+    const commandEntries: PaletteEntry[] = commands
+      .filter(command => matchesQuery(`${command.group} ${command.label}`, words))
+      .map(command => ({ id: command.id, group: command.group, command, run: command.run }))
+
+    return [...orderEntries, ...commandEntries]
+  }, [query, orders, commands, onOpenOrder])
+
+  useEffect(() => {
+    setActiveIndex(0)
+  }, [query])
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' })
+  }, [activeIndex])
+
+  const runEntry = (entry: PaletteEntry | undefined) => {
+    if (!entry) return
+    onClose()
+    entry.run()
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault()
+      setActiveIndex(prev => Math.min(prev + 1, entries.length - 1))
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault()
+      setActiveIndex(prev => Math.max(prev - 1, 0))
+    } else if (event.key === 'Enter') {
+      event.preventDefault()
+      runEntry(entries[activeIndex])
+    } else if (event.key === 'Escape') {
+      event.preventDefault()
+      onClose()
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-start justify-center p-4 pt-[15vh] z-50"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: -10 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        transition={{ duration: 0.15 }}
+        className="w-full max-w-xl bg-white dark:bg-slate-800 rounded-xl shadow-2xl border border-slate-200 dark:border-slate-700 overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center space-x-3 px-4 border-b border-slate-200 dark:border-slate-700">
+          <Search className="w-5 h-5 text-slate-400 flex-shrink-0" />
+          <input
+            type="text"
+            autoFocus
+            placeholder="Type an order number or a command…"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            className="w-full py-4 bg-transparent text-slate-900 dark:text-slate-100 placeholder:text-slate-400 focus:outline-none"
+          />
+        </div>
+
+        <div ref={listRef} className="max-h-[50vh] overflow-y-auto py-2">
+          {entries.length === 0 && (
+            <p className="px-4 py-6 text-center text-sm text-slate-500">No matching orders or commands</p>
+          )}
+          {entries.map((entry, index) => {
+            const Icon = entry.order ? Package : entry.command?.icon ?? Command
+            const showGroup = index === 0 || entries[index - 1].group !== entry.group
+            return (
+              <React.Fragment key={entry.id}>
+                {showGroup && (
+                  <p className="px-4 pt-2 pb-1 text-xs font-semibold uppercase tracking-wide text-slate-400">
+                    {entry.group}
+                  </p>
+                )}
+                <button
+                  data-index={index}
+                  onClick={() => runEntry(entry)}
+                  onMouseMove={() => setActiveIndex(index)}
+                  className={cn(
+                    "w-full flex items-center space-x-3 px-4 py-2 text-left text-sm transition-colors",
+                    index === activeIndex
+                      ? "bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300"
+                      : "text-slate-700 dark:text-slate-300"
+                  )}
+                >
+                  <Icon className="w-4 h-4 flex-shrink-0" />
+                  {entry.order ? (
+                    <>
+                      <span className="font-medium">#{entry.order.order_number}</span>
+                      <span className="flex-1 truncate text-slate-500 dark:text-slate-400">{entry.order.customer_name}</span>
+                      <span className={cn("px-2 py-0.5 rounded-full text-xs font-medium", ORDER_STATUS_COLORS[entry.order.order_status])}>
+                        {ORDER_STATUS_LABELS[entry.order.order_status]}
+                      </span>
+                    </>
+                  ) : (
+                    <>
+                      <span className="flex-1 truncate">{entry.command?.label}</span>
+                      {entry.command?.shortcut && <Keycaps keys={entry.command.shortcut} />}
+                    </>
+                  )}
+                </button>
+              </React.Fragment>
+            )
+          })}
+        </div>
+
+        <div className="flex items-center justify-between px-4 py-2 border-t border-slate-200 dark:border-slate-700 text-xs text-slate-500">
+          <span><Keycaps keys={['↑', '↓']} /> to move, <Keycaps keys={['Enter']} /> to run</span>
+          <span><Keycaps keys={['Esc']} /> to close</span>
+        </div>
+      </motion.div>
+    </div>
+  )
+}
+
+export function Keycaps({ keys }: { keys: string[] }) {
+  return (
+    <span className="inline-flex items-center space-x-1">
+      {keys.map(key => (
+        <kbd
+          key={key}
+          className="px-1.5 py-0.5 rounded border border-slate-300 dark:border-slate-600 bg-slate-50 dark:bg-slate-700 font-mono text-xs text-slate-600 dark:text-slate-300"
+        >
+          {key}
+        </kbd>
+      ))}
+    </span>
+  )
+}
@@ -0,0 +1,49 @@
+"use client"
+
+import React from 'react'
+import { RefreshCw, Wifi, WifiOff } from 'lucide-react'
+import { RealtimeStatus } from '@/hooks/use-realtime-orders'
+import { cn } from '@/lib/utils'
+
+const REALTIME_STATUS_LABELS: Record<RealtimeStatus, string> = {
+  connecting: 'Connecting...',
+  live: 'Live',
+  reconnecting: 'Reconnecting...',
+  offline: 'Offline'
+}
+
+interface ConnectionStatusProps {
+  status: RealtimeStatus
+  // Changes made offline that have not reached the server yet
+  pendingChanges?: number
+  syncing?: boolean
+  className?: string
+}
+
+export function ConnectionStatus({ status, pendingChanges = 0, syncing = false, className }: ConnectionStatusProps) {
+  const pendingLabel = `${pendingChanges} change${pendingChanges === 1 ? '' : 's'}`
+
+  return (
+    <div
+      className={cn(
+        "inline-flex items-center space-x-1.5 px-3 py-1 rounded-full text-xs font-medium",
+        syncing
+          ? "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300"
+          : status === 'live'
+          ? "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300"
+          : status === 'offline'
+            ? "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300"
+            : "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300",
+        className
+      )}
+    >
+      {syncing
+        ? <RefreshCw className="w-3 h-3 animate-spin" />
+        : status === 'offline' ? <WifiOff className="w-3 h-3" /> : <Wifi className="w-3 h-3" />}
+      <span>
+        {syncing ? `Syncing ${pendingLabel}...` : REALTIME_STATUS_LABELS[status]}
+        {!syncing && pendingChanges > 0 && ` • ${pendingLabel} waiting to sync`}
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+"use client"
+
+import React from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { CustomizationTone, describeCustomizations, parseCustomizations } from '@/lib/customizations'
+import { cn } from '@/lib/utils'
+
+interface CustomizationListProps {
+  customizations: Record<string, unknown> | null | undefined
+  // The kitchen display is always dark
+  theme?: 'default' | 'kitchen'
+  className?: string
+}
+
+const TONE_CLASSES: Record<'default' | 'kitchen', Record<CustomizationTone, string>> = {
+  default: {
+    normal: 'text-slate-900 dark:text-slate-100',
+    added: 'text-green-700 dark:text-green-400',
+    removed: 'text-red-600 dark:text-red-400 line-through decoration-1',
+    alert: 'text-amber-700 dark:text-amber-300 font-semibold',
+    unknown: 'text-slate-500 italic'
+  },
+  kitchen: {
+    normal: 'text-white',
+    added: 'text-green-300',
+    removed: 'text-red-300 line-through decoration-1',
+    alert: 'text-yellow-300 font-semibold',
+    unknown: 'text-slate-400 italic'
+  }
+}
+
+// An order item's customizations as labelled lines, with allergens called out first
+export function CustomizationList({ customizations, theme = 'default', className }: CustomizationListProps) {
+  const parsed = parseCustomizations(customizations)
+  const lines = describeCustomizations(parsed)
+  if (lines.length === 0 && parsed.allergens.length === 0) return null
+
+  return (
+    <span className={cn("block space-y-0.5 text-xs", theme === 'kitchen' && "text-sm", className)}>
+      {parsed.allergens.length > 0 && (
+        <span
+          className={cn(
+            "inline-flex items-center space-x-1 px-1.5 py-0.5 rounded font-bold uppercase",
+            theme === 'kitchen' ? "bg-red-500 text-white" : "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300"
+          )}
+        >
+          <AlertTriangle className="w-3 h-3" />
+          <span>Allergen: {parsed.allergens.join(', ')}</span>
+        </span>
+      )}
+      {/* Labels can repeat, e.g. two unknown keys that read the same */}
+      {lines.map((line, index) => (
+        <span key={`${index}:${line.label}`} className="block">
+          <span className={theme === 'kitchen' ? "text-slate-300" : "text-slate-500 dark:text-slate-400"}>
+            {line.label}{line.tone === 'unknown' && ' (?)'}:
+          </span>{' '}
+          <span className={cn("font-medium", TONE_CLASSES[theme][line.tone ?? 'normal'])}>{line.value}</span>
+        </span>
+      ))}
+    </span>
+  )
+}
@@ -0,0 +1,272 @@
+"use client"
+
+import React, { useMemo, useState } from 'react'
+import { X, Search, Loader2, Phone, Store, Truck, ShoppingBag } from 'lucide-react'
+import { ADMIN_PAYMENT_METHODS, FulfillmentType, Order } from '@/types/orders'
+import {
+  NewOrderDraft,
+  calculateNewOrderTotals,
+  createNewOrderDraft,
+  getDeliveryFee,
+  getRecentItems,
+  validateNewOrder
+} from '@/lib/order-entry'
+import { findCustomerByPhone } from '@/lib/orders-api'
+import { checkItemAgainstMenu, getMenuSuggestions } from '@/lib/menu'
+import { MenuItem } from '@/types/menu'
+import { StoreSettings } from '@/types/settings'
+import {
+  DeliveryAddressFields,
+  ItemRow,
+  OrderItemsEditor,
+  formInputClass,
+  toItemDraft
+} from '@/components/orders/order-form-fields'
+import { useToast } from '@/hooks/use-toast'
+import { cn } from '@/lib/utils'
+
+interface NewOrderDialogProps {
+  // Recent orders, used for the quick-add picker
+  orders: Order[]
+  // Catalog items; when there are none the picker falls back to recent orders
+  menuItems: MenuItem[]
+  // Tax rate and delivery fee for the totals preview; null while loading
+  settings: StoreSettings | null
+  onSubmit: (draft: NewOrderDraft) => Promise<boolean>
+  onClose: () => void
+}
+
+const toggleClass = (active: boolean) => cn(
+  "flex-1 flex items-center justify-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium border transition-colors",
+  active
+    ? "bg-blue-600 border-blue-600 text-white"
+    : "bg-white dark:bg-slate-700 border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-600"
+)
+
+export function NewOrderDialog({ orders, menuItems, settings, onSubmit, onClose }: NewOrderDialogProps) {
+  const suggestions = useMemo(
+    () => menuItems.length > 0 ? getMenuSuggestions(menuItems) : getRecentItems(orders),
+    [menuItems, orders]
+  )
+  const [draft, setDraft] = useState<Omit<NewOrderDraft, 'items'>>(() => createNewOrderDraft())
+  const [items, setItems] = useState<ItemRow[]>([])
+  const [lookupState, setLookupState] = useState<'idle' | 'searching' | 'found' | 'new'>('idle')
+  const [submitting, setSubmitting] = useState(false)
+  const { toast } = useToast()
+
+  const fullDraft: NewOrderDraft = useMemo(() => ({ ...draft, items: items.map(toItemDraft) }), [draft, items])
+  const totals = settings ? calculateNewOrderTotals(fullDraft, settings) : null
+  const error = validateNewOrder(fullDraft)
+
+  const update = (changes: Partial<NewOrderDraft>) => setDraft(prev => ({ ...prev, ...changes }))
+
+  const lookUpCustomer = async () => {
+    const phone = draft.customer_phone.trim()
+    if (!phone) return
+
+    try {
+      setLookupState('searching')
+      const customer = await findCustomerByPhone(phone)
+      if (customer) {
+        update({
+          customer_name: customer.customer_name,
+          customer_email: customer.customer_email ?? '',
+          delivery_address: { ...draft.delivery_address, ...customer.delivery_address }
+        })
+      }
+      setLookupState(customer ? 'found' : 'new')
+    } catch (err) {
+      console.error('Error looking up customer:', err)
+      setLookupState('idle')
+      toast({
+        title: "Error",
+        description: "Failed to look up the customer. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleSubmit = async () => {
+    if (error) return
+    setSubmitting(true)
+    const created = await onSubmit(fullDraft)
+    setSubmitting(false)
+    if (created) onClose()
+  }
+
+  const setFulfillment = (fulfillment_type: FulfillmentType) => update({ fulfillment_type })
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-end md:items-center justify-center p-0 md:p-6 z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-slate-800 w-full md:max-w-2xl h-[90vh] rounded-t-xl md:rounded-xl overflow-hidden flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex-shrink-0 flex items-center justify-between p-4 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100">New Order</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto overscroll-contain p-4 space-y-6">
+          {/* Source */}
+          <div className="flex space-x-2">
+            <button onClick={() => update({ order_source: 'phone' })} className={toggleClass(draft.order_source === 'phone')}>
+              <Phone className="w-4 h-4" />
+              <span>Phone</span>
+            </button>
+            <button onClick={() => update({ order_source: 'walk_in' })} className={toggleClass(draft.order_source === 'walk_in')}>
+              <Store className="w-4 h-4" />
+              <span>Walk-in</span>
+            </button>
+          </div>
+
+          {/* Customer */}
+          <div className="space-y-3">
+            <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Customer</h3>
+            <div className="flex space-x-2">
+              <input
+                type="tel"
+                placeholder="Phone number"
+                value={draft.customer_phone}
+                onChange={(e) => {
+                  update({ customer_phone: e.target.value })
+                  setLookupState('idle')
+                }}
+                onKeyDown={(e) => e.key === 'Enter' && lookUpCustomer()}
+                className={`${formInputClass} flex-1`}
+              />
+              <button
+                onClick={lookUpCustomer}
+                disabled={!draft.customer_phone.trim() || lookupState === 'searching'}
+                className="flex items-center space-x-1 px-3 py-1 rounded-lg bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-50 transition-colors text-sm"
+              >
+                {lookupState === 'searching' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+                <span>Look up</span>
+              </button>
+            </div>
+            {lookupState === 'found' && (
+              <p className="text-xs text-green-600 dark:text-green-400">Returning customer, details filled in from their last order</p>
+            )}
+            {lookupState === 'new' && (
+              <p className="text-xs text-slate-500">No previous orders for this number</p>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              <input
+                type="text"
+                placeholder="Name"
+                value={draft.customer_name}
+                onChange={(e) => update({ customer_name: e.target.value })}
+                className={formInputClass}
+              />
+              <input
+                type="email"
+                placeholder="Email (optional)"
+                value={draft.customer_email}
+                onChange={(e) => update({ customer_email: e.target.value })}
+                className={formInputClass}
+              />
+            </div>
+          </div>
+
+          {/* Fulfillment */}
+          <div className="space-y-3">
+            <div className="flex space-x-2">
+              <button onClick={() => setFulfillment('delivery')} className={toggleClass(draft.fulfillment_type === 'delivery')}>
+                <Truck className="w-4 h-4" />
+                <span>Delivery</span>
+              </button>
+              <button onClick={() => setFulfillment('pickup')} className={toggleClass(draft.fulfillment_type === 'pickup')}>
+                <ShoppingBag className="w-4 h-4" />
+                <span>Pickup</span>
+              </button>
+            </div>
+            {draft.fulfillment_type === 'delivery' && (
+              <DeliveryAddressFields
+                address={draft.delivery_address}
+                onChange={(delivery_address) => update({ delivery_address })}
+              />
+            )}
+          </div>
+
+          <OrderItemsEditor
+            items={items}
+            onChange={setItems}
+            suggestions={suggestions}
+            checkItem={(item) => checkItemAgainstMenu(item, menuItems)}
+          />
+
+          {/* Payment */}
+          <div className="space-y-3">
+            <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Payment</h3>
+            <select
+              value={draft.payment_method}
+              onChange={(e) => update({ payment_method: e.target.value })}
+              className={`${formInputClass} w-full`}
+            >
+              {ADMIN_PAYMENT_METHODS.map(method => (
+                <option key={method.value} value={method.value}>{method.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Notes */}
+          <div className="space-y-3">
+            <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Order Notes</h3>
+            <textarea
+              rows={2}
+              value={draft.order_notes}
+              onChange={(e) => update({ order_notes: e.target.value })}
+              className={`${formInputClass} w-full`}
+            />
+          </div>
+
+          {/* Totals, as create_order will charge them */}
+          {settings && totals ? (
+            <div className="p-3 bg-slate-50 dark:bg-slate-700 rounded-lg space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-slate-600 dark:text-slate-400">Subtotal</span>
+                <span className="font-medium">Rs {totals.subtotal.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-slate-600 dark:text-slate-400">Delivery Fee</span>
+                <span className="font-medium">Rs {getDeliveryFee(fullDraft, settings).toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-slate-600 dark:text-slate-400">Tax</span>
+                <span className="font-medium">Rs {totals.tax_amount.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between font-bold border-t border-slate-200 dark:border-slate-600 pt-1">
+                <span>Total</span>
+                <span>Rs {totals.total_amount.toFixed(2)}</span>
+              </div>
+            </div>
+          ) : (
+            <p className="p-3 bg-slate-50 dark:bg-slate-700 rounded-lg text-sm text-slate-600 dark:text-slate-400">
+              Tax and delivery fee are added from the store settings when the order is placed
+            </p>
+          )}
+        </div>
+
+        <div className="flex-shrink-0 p-4 border-t border-slate-200 dark:border-slate-700 space-y-2">
+          {error && <p className="text-sm text-slate-500 dark:text-slate-400">{error}</p>}
+          <button
+            onClick={handleSubmit}
+            disabled={submitting || !!error}
+            className="w-full flex items-center justify-center space-x-2 px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-50 transition-colors font-medium"
+          >
+            {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+            <span>Create Order</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,88 +1,139 @@
 "use client"
 
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useRef, useCallback } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Bell, X, CheckCircle, AlertCircle, Clock, Package, Truck, Check } from 'lucide-react'
-import { Order, OrderStatus } from '@/types/orders'
+import { Bell, X, CheckCircle, AlertCircle, Clock, Package, CreditCard } from 'lucide-react'
+import { Order } from '@/types/orders'
+import { NOTIFICATIONS_STORAGE_KEY, OrderEvent, diffOrderEvents, findOverdueEvents } from '@/lib/order-events'
+import { SlaConfig } from '@/lib/sla'
 import { useToast } from '@/hooks/use-toast'
 import { useNotificationSound, useSuccessSound } from '@/hooks/use-sound'
 import { cn } from '@/lib/utils'
 
-interface Notification {
-  id: string
-  type: 'new_order' | 'status_update' | 'urgent' | 'completed'
-  title: string
-  message: string
-  orderId?: string
-  timestamp: Date
+interface Notification extends OrderEvent {
   read: boolean
 }
 
 interface NotificationCenterProps {
   orders: Order[]
+  slaConfig: SlaConfig
+  // Status changes this staff member made are not announced back to them
+  staffId?: string | null
   onOrderSelect?: (orderId: string) => void
 }
 
-export function NotificationCenter({ orders, onOrderSelect }: NotificationCenterProps) {
+const MAX_NOTIFICATIONS = 20
+// Remembered separately so events evicted from the list are not raised again after a reload
+const MAX_SEEN_EVENTS = 500
+const OVERDUE_CHECK_INTERVAL = 60 * 1000
+
+interface StoredNotifications {
+  notifications: (Omit<Notification, 'timestamp'> & { timestamp: string })[]
+  seen: string[]
+}
+
+function loadStoredNotifications(): { notifications: Notification[]; seen: string[] } {
+  try {
+    const raw = window.localStorage.getItem(NOTIFICATIONS_STORAGE_KEY)
+    if (!raw) return { notifications: [], seen: [] }
+    const stored = JSON.parse(raw) as StoredNotifications
+    return {
+      notifications: stored.notifications.map(notif => ({ ...notif, timestamp: new Date(notif.timestamp) })),
+      seen: stored.seen
+    }
+  } catch (error) {
+    console.warn('Could not restore notifications:', error)
+    return { notifications: [], seen: [] }
+  }
+}
+
+function isAlert(type: Notification['type']) {
+  return type === 'payment_failed' || type === 'overdue'
+}
+
+export function NotificationCenter({ orders, slaConfig, staffId = null, onOrderSelect }: NotificationCenterProps) {
   const [notifications, setNotifications] = useState<Notification[]>([])
   const [isOpen, setIsOpen] = useState(false)
-  const [unreadCount, setUnreadCount] = useState(0)
+  const [isRestored, setIsRestored] = useState(false)
   const { toast } = useToast()
-  const notificationSound = useNotificationSound()
-  const successSound = useSuccessSound()
+  const { play: playNotificationSound } = useNotificationSound()
+  const { play: playSuccessSound } = useSuccessSound()
+  const unreadCount = notifications.filter(notif => !notif.read).length
 
-  // Track order changes and generate notifications
+  const mountedAt = useRef(new Date())
+  const previousOrders = useRef<Order[]>([])
+  const seenEvents = useRef<string[]>([])
+
+  // Restore after mount; localStorage is not available during server rendering
   useEffect(() => {
-    const previousOrders = new Map<string, Order>()
-    
-    // Initialize with current orders
-    orders.forEach(order => {
-      previousOrders.set(order.id, order)
-    })
+    const stored = loadStoredNotifications()
+    setNotifications(stored.notifications)
+    seenEvents.current = stored.seen
+    setIsRestored(true)
+  }, [])
 
-    // This would typically be handled by real-time subscriptions
-    // For demo purposes, we'll simulate notifications
-    const interval = setInterval(() => {
-      // Simulate new order notification
-      if (Math.random() < 0.1) { // 10% chance every interval
-        const newNotification: Notification = {
-          id: Date.now().toString(),
-          type: 'new_order',
-          title: 'New Order Received',
-          message: `Order #${Math.floor(Math.random() * 10000)} has been placed`,
-          timestamp: new Date(),
-          read: false
-        }
-        
-        addNotification(newNotification)
+  useEffect(() => {
+    if (!isRestored) return
+    try {
+      const stored: StoredNotifications = {
+        notifications: notifications.map(notif => ({ ...notif, timestamp: notif.timestamp.toISOString() })),
+        seen: seenEvents.current
       }
-    }, 10000) // Check every 10 seconds
+      window.localStorage.setItem(NOTIFICATIONS_STORAGE_KEY, JSON.stringify(stored))
+    } catch (error) {
+      console.warn('Could not persist notifications:', error)
+    }
+  }, [notifications, isRestored])
 
-    return () => clearInterval(interval)
-  }, [orders])
+  const addNotifications = useCallback((events: OrderEvent[]) => {
+    const fresh = events.filter(event => !seenEvents.current.includes(event.id))
+    if (fresh.length === 0) return
+
+    seenEvents.current = [...fresh.map(event => event.id), ...seenEvents.current].slice(0, MAX_SEEN_EVENTS)
+    setNotifications(prev => [
+      ...fresh.map(event => ({ ...event, read: false })),
+      ...prev
+    ].slice(0, MAX_NOTIFICATIONS))
 
-  const addNotification = (notification: Notification) => {
-    setNotifications(prev => [notification, ...prev.slice(0, 9)]) // Keep last 10
-    setUnreadCount(prev => prev + 1)
-    
     // Play sound (only if available)
     try {
-      if (notification.type === 'urgent') {
-        notificationSound.play()
+      if (fresh.some(event => isAlert(event.type))) {
+        playNotificationSound()
       } else {
-        successSound.play()
+        playSuccessSound()
       }
     } catch (error) {
       console.warn('Could not play notification sound:', error)
     }
 
     // Show toast
-    toast({
-      title: notification.title,
-      description: notification.message,
-      variant: notification.type === 'urgent' ? 'warning' : 'success'
+    fresh.forEach(event => {
+      toast({
+        title: event.title,
+        description: event.message,
+        variant: isAlert(event.type) ? 'warning' : 'success'
+      })
     })
-  }
+  }, [playNotificationSound, playSuccessSound, toast])
+
+  // Diff each orders snapshot against the previous one
+  useEffect(() => {
+    if (!isRestored) return
+    const events = diffOrderEvents(previousOrders.current, orders, mountedAt.current, staffId)
+    previousOrders.current = orders
+    addNotifications(events)
+  }, [orders, staffId, isRestored, addNotifications])
+
+  // Overdue is a function of time rather than of a change, so poll for it
+  useEffect(() => {
+    if (!isRestored) return
+    addNotifications(findOverdueEvents(orders, slaConfig))
+    const interval = setInterval(() => {
+      addNotifications(findOverdueEvents(orders, slaConfig))
+    }, OVERDUE_CHECK_INTERVAL)
+
+    return () => clearInterval(interval)
+  }, [orders, slaConfig, isRestored, addNotifications])
 
   const markAsRead = (notificationId: string) => {
     setNotifications(prev => 
@@ -90,12 +141,10 @@ export function NotificationCenter({ orders, onOrderSelect }: NotificationCenter
         notif.id === notificationId ? { ...notif, read: true } : notif
       )
     )
-    setUnreadCount(prev => Math.max(0, prev - 1))
   }
 
   const markAllAsRead = () => {
     setNotifications(prev => prev.map(notif => ({ ...notif, read: true })))
-    setUnreadCount(0)
   }
 
   const removeNotification = (notificationId: string) => {
@@ -108,7 +157,9 @@ export function NotificationCenter({ orders, onOrderSelect }: NotificationCenter
         return <Package className="w-5 h-5 text-blue-500" />
       case 'status_update':
         return <Clock className="w-5 h-5 text-orange-500" />
-      case 'urgent':
+      case 'payment_failed':
+        return <CreditCard className="w-5 h-5 text-red-500" />
+      case 'overdue':
         return <AlertCircle className="w-5 h-5 text-red-500" />
       case 'completed':
         return <CheckCircle className="w-5 h-5 text-green-500" />
@@ -123,7 +174,8 @@ export function NotificationCenter({ orders, onOrderSelect }: NotificationCenter
         return 'border-l-blue-500 bg-blue-50 dark:bg-blue-900/20'
       case 'status_update':
         return 'border-l-orange-500 bg-orange-50 dark:bg-orange-900/20'
-      case 'urgent':
+      case 'payment_failed':
+      case 'overdue':
         return 'border-l-red-500 bg-red-50 dark:bg-red-900/20'
       case 'completed':
         return 'border-l-green-500 bg-green-50 dark:bg-green-900/20'
@@ -207,7 +259,7 @@ export function NotificationCenter({ orders, onOrderSelect }: NotificationCenter
                       animate={{ opacity: 1, x: 0 }}
                       transition={{ delay: index * 0.1 }}
                       className={cn(
-                        "p-4 border-l-4 hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors cursor-pointer",
+                        "group p-4 border-l-4 hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors cursor-pointer",
                         getNotificationColor(notification.type),
                         !notification.read && "bg-opacity-50"
                       )}
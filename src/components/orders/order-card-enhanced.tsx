@@ -1,22 +1,45 @@
 "use client"
 
-import React, { useState } from 'react'
+import React, { useEffect, useRef, useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Clock, MapPin, Phone, ChevronRight, Eye, Star, Zap } from 'lucide-react'
+import { Clock, CloudOff, MapPin, Phone, ChevronRight, Eye, Star, Zap, Undo2, XCircle } from 'lucide-react'
 import { format } from 'date-fns'
-import { Order, OrderStatus, ORDER_STATUS_LABELS, ORDER_STATUS_COLORS, NEXT_STATUS } from '@/types/orders'
+import {
+  Order,
+  OrderStatus,
+  OrderPriority,
+  StaffRole,
+  StatusTransition,
+  ORDER_STATUS_LABELS,
+  ORDER_STATUS_COLORS,
+  ORDER_PRIORITY_LABELS,
+  PAYMENT_STATUS_COLORS,
+  PAYMENT_STATUS_LABELS,
+  NEXT_PRIORITY,
+  NEXT_STATUS,
+  getAvailableTransitions,
+  validateTransition
+} from '@/types/orders'
 import { ShimmerButton } from '@/components/magicui/shimmer-button'
+import { CustomizationList } from '@/components/orders/customization-list'
 import { cn } from '@/lib/utils'
 
 interface OrderCardEnhancedProps {
   order: Order
-  onStatusUpdate: (orderId: string, status: OrderStatus) => Promise<void>
+  onStatusUpdate: (orderId: string, status: OrderStatus, notes?: string) => Promise<boolean>
   isUpdating: boolean
   onSelect: () => void
   index: number
-  isUrgent?: boolean
-  onToggleUrgent?: (orderId: string) => void
+  onPriorityChange?: (orderId: string, priority: OrderPriority) => void
   isSelected?: boolean
+  role?: StaffRole | null
+  // Multi-select for bulk actions; shift-click extends the selection from the last checked card
+  isChecked?: boolean
+  onCheck?: (shiftKey: boolean) => void
+  // The keyboard cursor is on this card
+  isFocused?: boolean
+  // A change made offline is shown but not saved yet
+  isPendingSync?: boolean
 }
 
 export function OrderCardEnhanced({ 
@@ -25,17 +48,53 @@ export function OrderCardEnhanced({
   isUpdating, 
   onSelect, 
   index,
-  isUrgent = false,
-  onToggleUrgent,
-  isSelected = false
+  onPriorityChange,
+  isSelected = false,
+  role,
+  isChecked = false,
+  onCheck,
+  isFocused = false,
+  isPendingSync = false
 }: OrderCardEnhancedProps) {
   const [isHovered, setIsHovered] = useState(false)
   const [showDetails, setShowDetails] = useState(false)
+  const [pendingTransition, setPendingTransition] = useState<StatusTransition | null>(null)
+  const [reason, setReason] = useState('')
+  const [transitionError, setTransitionError] = useState<string | null>(null)
+  const cardRef = useRef<HTMLDivElement>(null)
   const nextStatus = NEXT_STATUS[order.order_status]
-  const canAdvance = nextStatus !== null
+  const canAdvance = nextStatus !== null && validateTransition(order.order_status, nextStatus, { role }) === null
+  const transitions = getAvailableTransitions(order.order_status, role)
+  const revertTransition = transitions.find(transition => transition.kind === 'revert')
+  const cancelTransition = transitions.find(transition => transition.kind === 'cancel')
+
+  useEffect(() => {
+    if (isFocused) cardRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' })
+  }, [isFocused])
+
+  const openTransition = (transition: StatusTransition) => {
+    setPendingTransition(transition)
+    setReason('')
+    setTransitionError(null)
+  }
+
+  const confirmTransition = async () => {
+    if (!pendingTransition) return
+    const error = validateTransition(order.order_status, pendingTransition.to, { reason, role })
+    if (error) {
+      setTransitionError(error)
+      return
+    }
+    if (await onStatusUpdate(order.id, pendingTransition.to, reason.trim())) {
+      setPendingTransition(null)
+    }
+  }
+
+  const isFlagged = order.priority !== 'normal'
 
   const getPriorityColor = () => {
-    if (isUrgent) return 'border-red-500 bg-red-50 dark:bg-red-900/20'
+    if (order.priority === 'urgent') return 'border-red-500 bg-red-50 dark:bg-red-900/20'
+    if (order.priority === 'high') return 'border-orange-400 bg-orange-50 dark:bg-orange-900/20'
     if (order.order_status === 'pending') return 'border-yellow-500 bg-yellow-50 dark:bg-yellow-900/20'
     return 'border-slate-200 dark:border-slate-700'
   }
@@ -55,6 +114,7 @@ export function OrderCardEnhanced({
 
   return (
     <motion.div
+      ref={cardRef}
       initial={{ opacity: 0, y: 20 }}
       animate={{ opacity: 1, y: 0 }}
       transition={{ delay: index * 0.1, duration: 0.3 }}
@@ -64,20 +124,30 @@ export function OrderCardEnhanced({
       className={cn(
         "bg-white dark:bg-slate-800 rounded-xl shadow-lg overflow-hidden transition-all duration-300 transform relative group cursor-pointer",
         getPriorityColor(),
-        isSelected && "ring-2 ring-blue-500 shadow-xl"
+        isSelected && "ring-2 ring-blue-500 shadow-xl",
+        isChecked && "ring-2 ring-blue-400",
+        isFocused && "ring-2 ring-purple-500 ring-offset-2 dark:ring-offset-slate-900"
       )}
       onClick={() => setShowDetails(!showDetails)}
     >
-      {/* Urgent Badge */}
-      {isUrgent && (
+      {/* Priority Badge */}
+      {isFlagged && (
         <motion.div
           initial={{ scale: 0 }}
           animate={{ scale: 1 }}
           className="absolute top-2 right-2 z-10"
+          title={order.priority_set_by
+            ? `Flagged by ${order.priority_set_by}${order.priority_set_at ? ` at ${format(new Date(order.priority_set_at), 'HH:mm')}` : ''}`
+            : undefined}
         >
-          <div className="bg-red-500 text-white px-2 py-1 rounded-full text-xs font-bold flex items-center space-x-1 animate-pulse">
+          <div
+            className={cn(
+              "text-white px-2 py-1 rounded-full text-xs font-bold flex items-center space-x-1",
+              order.priority === 'urgent' ? "bg-red-500 animate-pulse" : "bg-orange-500"
+            )}
+          >
             <Zap className="w-3 h-3" />
-            <span>URGENT</span>
+            <span>{ORDER_PRIORITY_LABELS[order.priority].toUpperCase()}</span>
           </div>
         </motion.div>
       )}
@@ -92,7 +162,26 @@ export function OrderCardEnhanced({
       >
         <div className="flex items-center justify-between relative z-10">
           <div className="flex items-center space-x-2">
+            {onCheck && (
+              <input
+                type="checkbox"
+                checked={isChecked}
+                aria-label={`Select order ${order.order_number}`}
+                readOnly
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onCheck(e.shiftKey)
+                }}
+                className="w-4 h-4 cursor-pointer"
+              />
+            )}
             <span>{ORDER_STATUS_LABELS[order.order_status]}</span>
+            {isPendingSync && (
+              <span title="Saved on this device; sent when the connection is back" className="flex items-center space-x-1 text-xs opacity-75">
+                <CloudOff className="w-3 h-3" />
+                <span>Not synced</span>
+              </span>
+            )}
             {order.order_status === 'pending' && (
               <motion.div
                 animate={{ rotate: 360 }}
@@ -130,20 +219,23 @@ export function OrderCardEnhanced({
           <div>
             <h3 className="text-xl font-bold text-slate-900 dark:text-slate-100 flex items-center space-x-2">
               <span>{order.order_number}</span>
-              {onToggleUrgent && (
+              {onPriorityChange && (
                 <motion.button
                   whileHover={{ scale: 1.2 }}
                   whileTap={{ scale: 0.9 }}
                   onClick={(e) => {
                     e.stopPropagation()
-                    onToggleUrgent(order.id)
+                    onPriorityChange(order.id, NEXT_PRIORITY[order.priority])
                   }}
+                  title={`Set ${ORDER_PRIORITY_LABELS[NEXT_PRIORITY[order.priority]].toLowerCase()} priority`}
                   className={cn(
                     "p-1 rounded-full transition-colors",
-                    isUrgent ? "text-red-500" : "text-slate-400 hover:text-yellow-500"
+                    order.priority === 'urgent' && "text-red-500",
+                    order.priority === 'high' && "text-orange-500",
+                    order.priority === 'normal' && "text-slate-400 hover:text-yellow-500"
                   )}
                 >
-                  <Star className={cn("w-4 h-4", isUrgent && "fill-current")} />
+                  <Star className={cn("w-4 h-4", isFlagged && "fill-current")} />
                 </motion.button>
               )}
             </h3>
@@ -161,6 +253,15 @@ export function OrderCardEnhanced({
             <p className="text-sm text-slate-500">
               {order.items.reduce((sum, item) => sum + item.quantity, 0)} items
             </p>
+            <span
+              className={cn(
+                "inline-block mt-1 px-2 py-0.5 rounded-full text-xs font-medium border",
+                PAYMENT_STATUS_COLORS[order.payment_status]
+              )}
+            >
+              {PAYMENT_STATUS_LABELS[order.payment_status] ?? order.payment_status}
+              {order.payment_status === 'paid' && order.refunded_amount > 0 && ` • Rs ${order.refunded_amount.toFixed(2)} refunded`}
+            </span>
           </motion.div>
         </motion.div>
 
@@ -179,7 +280,9 @@ export function OrderCardEnhanced({
           >
             <MapPin className="w-4 h-4 text-slate-400" />
             <span className="text-slate-600 dark:text-slate-400 line-clamp-1">
-              {order.delivery_address.street}, {order.delivery_address.city}
+              {order.fulfillment_type === 'pickup'
+                ? 'Pickup at counter'
+                : `${order.delivery_address.street}, ${order.delivery_address.city}`}
             </span>
           </motion.div>
           {order.estimated_delivery_time && (
@@ -217,6 +320,7 @@ export function OrderCardEnhanced({
                   >
                     <span className="text-slate-600 dark:text-slate-400">
                       {item.quantity}x {item.item_name}
+                      <CustomizationList customizations={item.customizations} className="ml-4" />
                     </span>
                     <span className="text-slate-900 dark:text-slate-100 font-medium">
                       Rs {item.total_price.toFixed(2)}
@@ -252,7 +356,7 @@ export function OrderCardEnhanced({
               <ShimmerButton
                 onClick={(e) => {
                   e.stopPropagation()
-                  onStatusUpdate(order.id, nextStatus)
+                  if (nextStatus) onStatusUpdate(order.id, nextStatus)
                 }}
                 disabled={isUpdating}
                 className="w-full flex items-center justify-center space-x-2"
@@ -268,7 +372,7 @@ export function OrderCardEnhanced({
                   </motion.span>
                 ) : (
                   <>
-                    <span>{ORDER_STATUS_LABELS[nextStatus]}</span>
+                    <span>{nextStatus && ORDER_STATUS_LABELS[nextStatus]}</span>
                     <ChevronRight className="w-4 h-4" />
                   </>
                 )}
@@ -276,6 +380,89 @@ export function OrderCardEnhanced({
             </motion.div>
           )}
         </div>
+
+        {/* Revert / Cancel Actions */}
+        {(revertTransition || cancelTransition) && !pendingTransition && (
+          <div className="flex justify-end space-x-3 mt-3 text-xs">
+            {revertTransition && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  openTransition(revertTransition)
+                }}
+                disabled={isUpdating}
+                className="flex items-center space-x-1 text-slate-500 hover:text-orange-600 transition-colors disabled:opacity-50"
+              >
+                <Undo2 className="w-3 h-3" />
+                <span>Back to {ORDER_STATUS_LABELS[revertTransition.to]}</span>
+              </button>
+            )}
+            {cancelTransition && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  openTransition(cancelTransition)
+                }}
+                disabled={isUpdating}
+                className="flex items-center space-x-1 text-slate-500 hover:text-red-600 transition-colors disabled:opacity-50"
+              >
+                <XCircle className="w-3 h-3" />
+                <span>Cancel order</span>
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Reason Form */}
+        <AnimatePresence>
+          {pendingTransition && (
+            <motion.div
+              initial={{ height: 0, opacity: 0 }}
+              animate={{ height: 'auto', opacity: 1 }}
+              exit={{ height: 0, opacity: 0 }}
+              transition={{ duration: 0.2 }}
+              className="mt-3 overflow-hidden"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <p className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                {pendingTransition.kind === 'cancel'
+                  ? 'Why is this order being cancelled?'
+                  : `Why is this order going back to ${ORDER_STATUS_LABELS[pendingTransition.to]}?`}
+              </p>
+              <textarea
+                value={reason}
+                onChange={(e) => {
+                  setReason(e.target.value)
+                  setTransitionError(null)
+                }}
+                rows={2}
+                autoFocus
+                className="w-full px-3 py-2 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              {transitionError && (
+                <p className="text-xs text-red-600 mt-1">{transitionError}</p>
+              )}
+              <div className="flex justify-end space-x-2 mt-2">
+                <button
+                  onClick={() => setPendingTransition(null)}
+                  className="px-3 py-1.5 text-sm rounded-lg bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+                >
+                  Keep
+                </button>
+                <button
+                  onClick={confirmTransition}
+                  disabled={isUpdating}
+                  className={cn(
+                    "px-3 py-1.5 text-sm rounded-lg text-white transition-colors disabled:opacity-50",
+                    pendingTransition.kind === 'cancel' ? "bg-red-500 hover:bg-red-600" : "bg-orange-500 hover:bg-orange-600"
+                  )}
+                >
+                  {pendingTransition.kind === 'cancel' ? 'Cancel Order' : `Back to ${ORDER_STATUS_LABELS[pendingTransition.to]}`}
+                </button>
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
       </div>
 
       {/* Hover Glow Effect */}
@@ -0,0 +1,128 @@
+"use client"
+
+import React, { useMemo, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Order } from '@/types/orders'
+import { MenuItem } from '@/types/menu'
+import {
+  OrderEditDraft,
+  calculateOrderTotals,
+  createOrderEditDraft,
+  diffOrderEdit,
+  validateOrderEdit
+} from '@/lib/order-edits'
+import { checkItemAgainstMenu, getMenuSuggestions } from '@/lib/menu'
+import {
+  DeliveryAddressFields,
+  ItemRow,
+  OrderItemsEditor,
+  formInputClass,
+  toItemDraft,
+  toItemRow
+} from '@/components/orders/order-form-fields'
+
+interface OrderEditorProps {
+  order: Order
+  // Called with the order as it was when editing started, which the edit is checked against
+  onSave: (baseOrder: Order, draft: OrderEditDraft) => Promise<boolean>
+  onCancel: () => void
+  isSaving?: boolean
+  // Catalog items used for the quick-add picker and price checks
+  menuItems?: MenuItem[]
+}
+
+export function OrderEditor({ order: liveOrder, onSave, onCancel, isSaving = false, menuItems = [] }: OrderEditorProps) {
+  // Realtime updates to the order while the form is open must not shift what is being edited
+  const [order] = useState(liveOrder)
+  const [initialDraft] = useState(() => createOrderEditDraft(liveOrder))
+  const [items, setItems] = useState<ItemRow[]>(() => initialDraft.items.map(toItemRow))
+  const [notes, setNotes] = useState(initialDraft.order_notes)
+  const [address, setAddress] = useState(initialDraft.delivery_address)
+
+  const draft: OrderEditDraft = useMemo(
+    () => ({ items: items.map(toItemDraft), order_notes: notes, delivery_address: address }),
+    [items, notes, address]
+  )
+  const totals = calculateOrderTotals(order, draft.items)
+  const changes = useMemo(() => diffOrderEdit(order, draft), [order, draft])
+  const suggestions = useMemo(() => getMenuSuggestions(menuItems), [menuItems])
+  const isPickup = order.fulfillment_type === 'pickup'
+  const error = validateOrderEdit(draft, { requireAddress: !isPickup })
+
+  const handleSave = async () => {
+    if (error || changes.length === 0) return
+    const saved = await onSave(order, draft)
+    if (saved) onCancel()
+  }
+
+  return (
+    <div className="space-y-6">
+      <OrderItemsEditor
+        items={items}
+        onChange={setItems}
+        suggestions={suggestions}
+        checkItem={(item) => checkItemAgainstMenu(item, menuItems)}
+      />
+
+      {!isPickup && <DeliveryAddressFields address={address} onChange={setAddress} />}
+
+      {/* Notes */}
+      <div className="space-y-3">
+        <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Order Notes</h3>
+        <textarea
+          rows={3}
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          className={`${formInputClass} w-full`}
+        />
+      </div>
+
+      {/* Totals */}
+      <div className="p-3 bg-slate-50 dark:bg-slate-700 rounded-lg space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span className="text-slate-600 dark:text-slate-400">Subtotal</span>
+          <span className="font-medium">Rs {totals.subtotal.toFixed(2)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-slate-600 dark:text-slate-400">Delivery Fee</span>
+          <span className="font-medium">Rs {order.delivery_fee}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-slate-600 dark:text-slate-400">Tax</span>
+          <span className="font-medium">Rs {totals.tax_amount.toFixed(2)}</span>
+        </div>
+        <div className="flex justify-between font-bold border-t border-slate-200 dark:border-slate-600 pt-1">
+          <span>Total</span>
+          <span>
+            {totals.total_amount !== order.total_amount && (
+              <span className="line-through text-slate-400 font-normal mr-2">Rs {order.total_amount}</span>
+            )}
+            Rs {totals.total_amount.toFixed(2)}
+          </span>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="flex space-x-2">
+        <button
+          onClick={onCancel}
+          disabled={isSaving}
+          className="flex-1 px-4 py-2 rounded-lg bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors text-sm"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !!error || changes.length === 0}
+          className="flex-1 flex items-center justify-center space-x-2 px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-50 transition-colors text-sm font-medium"
+        >
+          {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+          <span>
+            Save {changes.length > 0 ? `${changes.length} change${changes.length === 1 ? '' : 's'}` : 'changes'}
+          </span>
+        </button>
+      </div>
+    </div>
+  )
+}
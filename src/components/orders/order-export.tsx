@@ -0,0 +1,163 @@
+"use client"
+
+import React, { useState } from 'react'
+import { motion } from 'framer-motion'
+import { format } from 'date-fns'
+import { X } from 'lucide-react'
+import { Order } from '@/types/orders'
+import {
+  DEFAULT_EXPORT_COLUMN_KEYS,
+  ORDER_EXPORT_COLUMNS,
+  buildOrderExport,
+  downloadBlob,
+  toCsv,
+  toXlsx
+} from '@/lib/order-export'
+import { BROWSER_TIME_ZONE, fromDateInputs } from '@/lib/date-ranges'
+import { fetchAllOrders, isOrdersBackendConfigured } from '@/lib/orders-api'
+import { useToast } from '@/hooks/use-toast'
+import { cn } from '@/lib/utils'
+
+interface OrderExportProps {
+  // The orders as currently filtered and sorted
+  orders: Order[]
+  onClose: () => void
+  // A date range exports the orders placed in it instead; off when exporting a selection
+  showDateRange?: boolean
+  // The active filters, applied to the orders fetched for a date range
+  filterFetched?: (orders: Order[]) => Order[]
+  // Store time zone the range's dates are days in
+  timeZone?: string
+  className?: string
+}
+
+const inputClass = "px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+
+export function OrderExport({ orders, onClose, showDateRange = true, filterFetched, timeZone = BROWSER_TIME_ZONE, className }: OrderExportProps) {
+  const [columnKeys, setColumnKeys] = useState<string[]>(DEFAULT_EXPORT_COLUMN_KEYS)
+  const [includeItems, setIncludeItems] = useState(false)
+  // Blank dates leave that end of the range open; both blank exports the orders shown
+  const [fromDate, setFromDate] = useState('')
+  const [toDate, setToDate] = useState('')
+  const [exporting, setExporting] = useState(false)
+  const { toast } = useToast()
+
+  const hasRange = Boolean(fromDate || toDate)
+  const range = hasRange ? fromDateInputs(fromDate || '1970-01-01', toDate || '9999-12-31', timeZone) : null
+
+  const toggleColumn = (key: string) => {
+    setColumnKeys(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key])
+  }
+
+  const handleExport = async (type: 'csv' | 'xlsx') => {
+    let exportedOrders = orders
+    if (range) {
+      try {
+        setExporting(true)
+        const fetched = await fetchAllOrders({
+          from: fromDate ? range.from : undefined,
+          to: toDate ? range.to : undefined
+        })
+        exportedOrders = filterFetched ? filterFetched(fetched) : fetched
+      } catch (error) {
+        console.error('Error fetching orders for export:', error)
+        toast({
+          title: "Error",
+          description: "Failed to fetch orders. Please try again.",
+          variant: "destructive",
+        })
+        return
+      } finally {
+        setExporting(false)
+      }
+    }
+
+    const rows = buildOrderExport(exportedOrders, { columnKeys, includeItems })
+    const filename = `orders-${format(new Date(), 'yyyy-MM-dd-HHmm')}.${type}`
+    downloadBlob(type === 'csv' ? toCsv(rows) : toXlsx(rows), filename)
+    onClose()
+  }
+
+  const canExport = !exporting
+    && (hasRange ? range !== null : orders.length > 0)
+    && (columnKeys.length > 0 || includeItems)
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95, y: -10 }}
+      animate={{ opacity: 1, scale: 1, y: 0 }}
+      exit={{ opacity: 0, scale: 0.95, y: -10 }}
+      transition={{ duration: 0.2 }}
+      className={cn("absolute right-0 top-full mt-2 w-80 bg-white dark:bg-slate-800 rounded-xl shadow-2xl border border-slate-200 dark:border-slate-700 z-50 p-4", className)}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-100">
+          Export Orders
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-1 hover:bg-slate-100 dark:hover:bg-slate-700 rounded"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        {showDateRange && isOrdersBackendConfigured && (
+          <div className="flex items-center space-x-1 text-sm text-slate-600 dark:text-slate-400">
+            <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className={`${inputClass} flex-1 min-w-0`} />
+            <span>to</span>
+            <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className={`${inputClass} flex-1 min-w-0`} />
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-1 max-h-48 overflow-y-auto">
+          {ORDER_EXPORT_COLUMNS.map(column => (
+            <label key={column.key} className="flex items-center space-x-2 text-sm text-slate-700 dark:text-slate-300">
+              <input
+                type="checkbox"
+                checked={columnKeys.includes(column.key)}
+                onChange={() => toggleColumn(column.key)}
+                className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>{column.label}</span>
+            </label>
+          ))}
+        </div>
+
+        <label className="flex items-center space-x-2 text-sm text-slate-700 dark:text-slate-300">
+          <input
+            type="checkbox"
+            checked={includeItems}
+            onChange={(e) => setIncludeItems(e.target.checked)}
+            className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+          />
+          <span>Add a row per item</span>
+        </label>
+
+        <p className="text-xs text-slate-500">
+          {hasRange
+            ? 'Every order placed in these dates that matches the filters, with a totals row.'
+            : `The ${orders.length} orders shown, with a totals row.`}
+        </p>
+      </div>
+
+      <div className="flex justify-end space-x-2 mt-4">
+        <button
+          onClick={() => handleExport('csv')}
+          disabled={!canExport}
+          className="px-3 py-1.5 text-sm rounded-lg bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-50 transition-colors"
+        >
+          CSV
+        </button>
+        <button
+          onClick={() => handleExport('xlsx')}
+          disabled={!canExport}
+          className="px-3 py-1.5 text-sm rounded-lg bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50 transition-colors"
+        >
+          Excel
+        </button>
+      </div>
+    </motion.div>
+  )
+}
@@ -0,0 +1,142 @@
+"use client"
+
+import React from 'react'
+import { motion } from 'framer-motion'
+import { X } from 'lucide-react'
+import { OrderFilters } from '@/lib/order-filters'
+import { formInputClass } from '@/components/orders/order-form-fields'
+
+interface OrderFilterBuilderProps {
+  filters: OrderFilters
+  onChange: (changes: Partial<OrderFilters>) => void
+  onClear: () => void
+  // Values seen on the loaded orders, offered as choices
+  paymentMethods: string[]
+  cities: string[]
+}
+
+const fieldLabelClass = "block text-xs font-medium text-slate-600 dark:text-slate-400 mb-1"
+
+const toAmount = (value: string) => {
+  const amount = parseFloat(value)
+  return Number.isFinite(amount) ? amount : null
+}
+
+// Conditions on top of the status and payment buttons; every one set must match
+export function OrderFilterBuilder({ filters, onChange, onClear, paymentMethods, cities }: OrderFilterBuilderProps) {
+  return (
+    <motion.div
+      initial={{ height: 0, opacity: 0 }}
+      animate={{ height: 'auto', opacity: 1 }}
+      exit={{ height: 0, opacity: 0 }}
+      transition={{ duration: 0.2 }}
+      className="overflow-hidden"
+    >
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 p-4 bg-slate-50 dark:bg-slate-700/50 rounded-lg">
+        <div>
+          <label className={fieldLabelClass}>From</label>
+          <input
+            type="date"
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={(e) => onChange({ from: e.target.value })}
+            className={`${formInputClass} w-full`}
+          />
+        </div>
+        <div>
+          <label className={fieldLabelClass}>To</label>
+          <input
+            type="date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(e) => onChange({ to: e.target.value })}
+            className={`${formInputClass} w-full`}
+          />
+        </div>
+        <div>
+          <label className={fieldLabelClass}>Min total (Rs)</label>
+          <input
+            type="number"
+            min={0}
+            value={filters.minAmount ?? ''}
+            onChange={(e) => onChange({ minAmount: toAmount(e.target.value) })}
+            className={`${formInputClass} w-full`}
+          />
+        </div>
+        <div>
+          <label className={fieldLabelClass}>Max total (Rs)</label>
+          <input
+            type="number"
+            min={0}
+            value={filters.maxAmount ?? ''}
+            onChange={(e) => onChange({ maxAmount: toAmount(e.target.value) })}
+            className={`${formInputClass} w-full`}
+          />
+        </div>
+        <div>
+          <label className={fieldLabelClass}>Payment method</label>
+          <select
+            value={filters.paymentMethod}
+            onChange={(e) => onChange({ paymentMethod: e.target.value })}
+            className={`${formInputClass} w-full capitalize`}
+          >
+            <option value="">Any</option>
+            {paymentMethods.map(method => (
+              <option key={method} value={method}>{method.replace(/_/g, ' ')}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={fieldLabelClass}>City</label>
+          <input
+            type="text"
+            list="order-filter-cities"
+            value={filters.city}
+            onChange={(e) => onChange({ city: e.target.value })}
+            className={`${formInputClass} w-full`}
+          />
+          <datalist id="order-filter-cities">
+            {cities.map(city => <option key={city} value={city} />)}
+          </datalist>
+        </div>
+        <div>
+          <label className={fieldLabelClass}>Item name</label>
+          <input
+            type="text"
+            placeholder="e.g. Pepperoni"
+            value={filters.item}
+            onChange={(e) => onChange({ item: e.target.value })}
+            className={`${formInputClass} w-full`}
+          />
+        </div>
+        <div className="flex flex-col justify-end space-y-1 text-sm text-slate-700 dark:text-slate-300">
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={filters.hasNotes}
+              onChange={(e) => onChange({ hasNotes: e.target.checked })}
+            />
+            <span>Has notes</span>
+          </label>
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={filters.urgentOnly}
+              onChange={(e) => onChange({ urgentOnly: e.target.checked })}
+            />
+            <span>Urgent only</span>
+          </label>
+        </div>
+        <div className="col-span-2 md:col-span-4 flex justify-end">
+          <button
+            onClick={onClear}
+            className="flex items-center space-x-1 text-sm text-slate-600 dark:text-slate-400 hover:text-red-600 transition-colors"
+          >
+            <X className="w-4 h-4" />
+            <span>Clear all filters</span>
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  )
+}
@@ -0,0 +1,259 @@
+"use client"
+
+import React from 'react'
+import { AlertTriangle, Minus, Plus, Trash2, X } from 'lucide-react'
+import { Order } from '@/types/orders'
+import { OrderItemDraft, createCustomItemDraft } from '@/lib/order-edits'
+import { SIZE_CUSTOMIZATION_KEY } from '@/lib/menu'
+
+// Form pieces shared by the order editor and manual order entry
+
+interface OptionRow {
+  key: string
+  value: string
+  // Value as loaded, kept so untouched non-text options are saved unchanged
+  original?: unknown
+}
+
+export interface ItemRow extends OrderItemDraft {
+  rowKey: string
+  options: OptionRow[]
+}
+
+const displayValue = (value: unknown) => typeof value === 'string' ? value : JSON.stringify(value)
+
+export function toItemRow(item: OrderItemDraft): ItemRow {
+  return {
+    ...item,
+    rowKey: item.id ?? crypto.randomUUID(),
+    options: Object.entries(item.customizations).map(([key, value]) => ({ key, value: displayValue(value), original: value }))
+  }
+}
+
+export function toItemDraft(row: ItemRow): OrderItemDraft {
+  const customizations: Record<string, unknown> = {}
+  row.options
+    .filter(option => option.key.trim())
+    .forEach(option => {
+      const unchanged = option.original !== undefined && option.value === displayValue(option.original)
+      customizations[option.key.trim()] = unchanged ? option.original : option.value
+    })
+  return {
+    id: row.id,
+    item_type: row.item_type,
+    item_id: row.item_id,
+    item_name: row.item_name,
+    item_description: row.item_description,
+    quantity: row.quantity,
+    unit_price: row.unit_price,
+    customizations
+  }
+}
+
+export const formInputClass = "px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+
+
+interface OrderItemsEditorProps {
+  items: ItemRow[]
+  onChange: (items: ItemRow[]) => void
+  // Items offered in the quick-add picker
+  suggestions?: OrderItemDraft[]
+  // Returns a warning shown under the item, e.g. when it does not match the menu
+  checkItem?: (item: OrderItemDraft) => string | null
+}
+
+const suggestionLabel = (suggestion: OrderItemDraft) => {
+  const size = suggestion.customizations[SIZE_CUSTOMIZATION_KEY]
+  return typeof size === 'string' ? `${suggestion.item_name}, ${size}` : suggestion.item_name
+}
+
+export function OrderItemsEditor({ items, onChange, suggestions = [], checkItem }: OrderItemsEditorProps) {
+  const updateItem = (rowKey: string, update: Partial<ItemRow>) => {
+    onChange(items.map(item => item.rowKey === rowKey ? { ...item, ...update } : item))
+  }
+
+  const addItem = () => {
+    onChange([...items, toItemRow(createCustomItemDraft())])
+  }
+
+  const addSuggestion = (index: number) => {
+    const suggestion = suggestions[index]
+    if (suggestion) onChange([...items, toItemRow({ ...suggestion, id: undefined, quantity: 1 })])
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Order Items</h3>
+        {suggestions.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => addSuggestion(Number(e.target.value))}
+            className={`${formInputClass} max-w-[10rem]`}
+          >
+            <option value="" disabled>Quick add…</option>
+            {suggestions.map((suggestion, index) => (
+              <option key={index} value={index}>
+                {suggestionLabel(suggestion)} (Rs {suggestion.unit_price})
+              </option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={addItem}
+          className="flex items-center space-x-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add item</span>
+        </button>
+      </div>
+
+      {items.map(item => {
+        const warning = checkItem?.(toItemDraft(item))
+        return (
+          <div key={item.rowKey} className="p-3 bg-slate-50 dark:bg-slate-700 rounded-lg space-y-2">
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                placeholder="Item name"
+                value={item.item_name}
+                onChange={(e) => updateItem(item.rowKey, { item_name: e.target.value })}
+                className={`${formInputClass} flex-1 min-w-0`}
+              />
+              <button
+                onClick={() => onChange(items.filter(row => row.rowKey !== item.rowKey))}
+                title="Remove item"
+                className="p-1.5 rounded-lg text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            {warning && (
+              <p className="flex items-center space-x-1 text-xs text-amber-600 dark:text-amber-400">
+                <AlertTriangle className="w-3 h-3" />
+                <span>{warning}</span>
+              </p>
+            )}
+
+            <div className="flex items-center justify-between text-sm">
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={() => updateItem(item.rowKey, { quantity: Math.max(1, item.quantity - 1) })}
+                  className="p-1 rounded bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500"
+                >
+                  <Minus className="w-3 h-3" />
+                </button>
+                <span className="w-8 text-center font-medium">{item.quantity}</span>
+                <button
+                  onClick={() => updateItem(item.rowKey, { quantity: item.quantity + 1 })}
+                  className="p-1 rounded bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500"
+                >
+                  <Plus className="w-3 h-3" />
+                </button>
+                <span className="text-slate-500 px-1">×</span>
+                <span className="text-slate-500">Rs</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={Number.isFinite(item.unit_price) ? item.unit_price : ''}
+                  onChange={(e) => updateItem(item.rowKey, { unit_price: e.target.valueAsNumber })}
+                  className={`${formInputClass} w-24`}
+                />
+              </div>
+              <span className="font-semibold text-slate-900 dark:text-slate-100">
+                Rs {(item.quantity * (item.unit_price || 0)).toFixed(2)}
+              </span>
+            </div>
+
+            {/* Customizations */}
+            {item.options.map((option, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  placeholder="Option"
+                  value={option.key}
+                  onChange={(e) => updateItem(item.rowKey, {
+                    options: item.options.map((o, i) => i === index ? { ...o, key: e.target.value } : o)
+                  })}
+                  className={`${formInputClass} w-1/3 text-xs`}
+                />
+                <input
+                  type="text"
+                  placeholder="Value"
+                  value={option.value}
+                  onChange={(e) => updateItem(item.rowKey, {
+                    options: item.options.map((o, i) => i === index ? { ...o, value: e.target.value } : o)
+                  })}
+                  className={`${formInputClass} flex-1 min-w-0 text-xs`}
+                />
+                <button
+                  onClick={() => updateItem(item.rowKey, { options: item.options.filter((_, i) => i !== index) })}
+                  className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => updateItem(item.rowKey, { options: [...item.options, { key: '', value: '' }] })}
+              className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              + Add customization
+            </button>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+interface DeliveryAddressFieldsProps {
+  address: Order['delivery_address']
+  onChange: (address: Order['delivery_address']) => void
+}
+
+export function DeliveryAddressFields({ address, onChange }: DeliveryAddressFieldsProps) {
+  return (
+    <div className="space-y-3">
+      <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Delivery Address</h3>
+      <input
+        type="text"
+        placeholder="Street"
+        value={address.street}
+        onChange={(e) => onChange({ ...address, street: e.target.value })}
+        className={`${formInputClass} w-full`}
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          type="text"
+          placeholder="City"
+          value={address.city}
+          onChange={(e) => onChange({ ...address, city: e.target.value })}
+          className={formInputClass}
+        />
+        <input
+          type="text"
+          placeholder="State"
+          value={address.state}
+          onChange={(e) => onChange({ ...address, state: e.target.value })}
+          className={formInputClass}
+        />
+        <input
+          type="text"
+          placeholder="Zip code"
+          value={address.zipCode}
+          onChange={(e) => onChange({ ...address, zipCode: e.target.value })}
+          className={formInputClass}
+        />
+        <input
+          type="text"
+          placeholder="Country"
+          value={address.country}
+          onChange={(e) => onChange({ ...address, country: e.target.value })}
+          className={formInputClass}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,149 @@
+"use client"
+
+import React, { useState } from 'react'
+import { CheckCircle, Loader2, RotateCcw } from 'lucide-react'
+import {
+  Order,
+  PAYMENT_STATUS_COLORS,
+  PAYMENT_STATUS_LABELS,
+  getRefundableAmount
+} from '@/types/orders'
+import { formInputClass } from '@/components/orders/order-form-fields'
+import { cn } from '@/lib/utils'
+
+interface OrderPaymentProps {
+  order: Order
+  // Omitted when the signed-in role cannot take payments
+  onMarkPaid?: (order: Order) => Promise<boolean>
+  // Omitted when the signed-in role cannot record refunds
+  onRefund?: (order: Order, amount: number, reason: string) => Promise<boolean>
+  isSaving?: boolean
+}
+
+export function OrderPayment({ order, onMarkPaid, onRefund, isSaving }: OrderPaymentProps) {
+  const refundable = getRefundableAmount(order)
+  const [refunding, setRefunding] = useState(false)
+  const [amount, setAmount] = useState(refundable)
+  const [reason, setReason] = useState('')
+
+  const canMarkPaid = !!onMarkPaid && (order.payment_status === 'pending' || order.payment_status === 'failed')
+  const canRefund = !!onRefund && refundable > 0
+  const amountValid = Number.isFinite(amount) && amount > 0 && amount <= refundable
+
+  const startRefund = () => {
+    setAmount(refundable)
+    setReason('')
+    setRefunding(true)
+  }
+
+  const submitRefund = async () => {
+    if (!onRefund || !amountValid || !reason.trim()) return
+    const recorded = await onRefund(order, amount, reason)
+    if (recorded) setRefunding(false)
+  }
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
+        Payment
+      </h3>
+      <div className="p-3 bg-slate-50 dark:bg-slate-700 rounded-lg space-y-2 text-sm">
+        <div className="flex items-center justify-between">
+          <span className="text-slate-600 dark:text-slate-400 capitalize">
+            {order.payment_method.replace(/_/g, ' ')}
+          </span>
+          <span
+            className={cn(
+              "px-2 py-0.5 rounded-full text-xs font-medium border",
+              PAYMENT_STATUS_COLORS[order.payment_status]
+            )}
+          >
+            {PAYMENT_STATUS_LABELS[order.payment_status] ?? order.payment_status}
+          </span>
+        </div>
+        {order.refunded_amount > 0 && (
+          <div className="flex justify-between">
+            <span className="text-slate-600 dark:text-slate-400">Refunded</span>
+            <span className="font-medium text-red-600 dark:text-red-400">Rs {order.refunded_amount.toFixed(2)}</span>
+          </div>
+        )}
+
+        {(canMarkPaid || (canRefund && !refunding)) && (
+          <div className="flex space-x-2 pt-1">
+            {canMarkPaid && (
+              <button
+                onClick={() => onMarkPaid(order)}
+                disabled={isSaving}
+                className="flex-1 flex items-center justify-center space-x-1 px-3 py-1.5 rounded-lg bg-green-500 text-white hover:bg-green-600 transition-colors disabled:opacity-50"
+              >
+                {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+                <span>Mark Paid</span>
+              </button>
+            )}
+            {canRefund && !refunding && (
+              <button
+                onClick={startRefund}
+                disabled={isSaving}
+                className="flex-1 flex items-center justify-center space-x-1 px-3 py-1.5 rounded-lg bg-slate-200 dark:bg-slate-600 text-slate-700 dark:text-slate-200 hover:bg-slate-300 dark:hover:bg-slate-500 transition-colors disabled:opacity-50"
+              >
+                <RotateCcw className="w-4 h-4" />
+                <span>Refund</span>
+              </button>
+            )}
+          </div>
+        )}
+
+        {canRefund && refunding && (
+          <div className="space-y-2 pt-2 border-t border-slate-200 dark:border-slate-600">
+            <div className="flex items-center space-x-2">
+              <span className="text-slate-500">Rs</span>
+              <input
+                type="number"
+                min={0}
+                max={refundable}
+                step="0.01"
+                value={Number.isFinite(amount) ? amount : ''}
+                onChange={(e) => setAmount(e.target.valueAsNumber)}
+                className={`${formInputClass} w-28`}
+              />
+              <button
+                onClick={() => setAmount(refundable)}
+                className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Full (Rs {refundable.toFixed(2)})
+              </button>
+            </div>
+            {!amountValid && (
+              <p className="text-xs text-red-600 dark:text-red-400">
+                Enter an amount up to Rs {refundable.toFixed(2)}
+              </p>
+            )}
+            <input
+              type="text"
+              placeholder="Reason, e.g. missing item"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className={`${formInputClass} w-full`}
+            />
+            <div className="flex space-x-2">
+              <button
+                onClick={() => setRefunding(false)}
+                className="flex-1 px-3 py-1.5 rounded-lg bg-slate-200 dark:bg-slate-600 text-slate-700 dark:text-slate-200 hover:bg-slate-300 dark:hover:bg-slate-500 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={submitRefund}
+                disabled={isSaving || !amountValid || !reason.trim()}
+                className="flex-1 flex items-center justify-center space-x-1 px-3 py-1.5 rounded-lg bg-red-500 text-white hover:bg-red-600 transition-colors disabled:opacity-50"
+              >
+                {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                <span>Record Refund</span>
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+"use client"
+
+import React from 'react'
+import { format, formatDistanceStrict } from 'date-fns'
+import { MessageSquare, Pencil, User } from 'lucide-react'
+import { Order, ORDER_STATUS_LABELS, ORDER_STATUS_COLORS } from '@/types/orders'
+import { cn } from '@/lib/utils'
+
+interface OrderTimelineProps {
+  order: Order
+  className?: string
+}
+
+export function OrderTimeline({ order, className }: OrderTimelineProps) {
+  const history = order.status_history ?? []
+
+  return (
+    <ol className={cn("relative border-l border-slate-200 dark:border-slate-600 ml-2 space-y-4", className)}>
+      <li className="ml-4">
+        <div className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-slate-400 border-2 border-white dark:border-slate-800" />
+        <div className="flex justify-between text-xs">
+          <span className="font-medium text-slate-900 dark:text-slate-100">Ordered</span>
+          <span className="text-slate-600 dark:text-slate-400">
+            {format(new Date(order.created_at), 'MMM d, HH:mm')}
+          </span>
+        </div>
+      </li>
+
+      {history.map((entry, index) => {
+        const previousTime = index === 0 ? order.created_at : history[index - 1].created_at
+        return (
+          <li key={entry.id} className="ml-4">
+            <div className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-blue-500 border-2 border-white dark:border-slate-800" />
+            <div className="flex justify-between items-center text-xs">
+              {entry.changes ? (
+                <span className="flex items-center space-x-1 px-2 py-0.5 rounded-full font-medium border bg-slate-100 text-slate-800 border-slate-200 dark:bg-slate-700 dark:text-slate-200 dark:border-slate-600">
+                  <Pencil className="w-3 h-3" />
+                  <span>Edited</span>
+                </span>
+              ) : (
+                <span className={cn("px-2 py-0.5 rounded-full font-medium border", ORDER_STATUS_COLORS[entry.status])}>
+                  {ORDER_STATUS_LABELS[entry.status]}
+                </span>
+              )}
+              <span className="text-slate-600 dark:text-slate-400">
+                {format(new Date(entry.created_at), 'MMM d, HH:mm')}
+              </span>
+            </div>
+            <p className="text-xs text-slate-500 dark:text-slate-500 mt-1">
+              +{formatDistanceStrict(new Date(entry.created_at), new Date(previousTime))}
+            </p>
+            {entry.created_by && (
+              <p className="flex items-center space-x-1 text-xs text-slate-600 dark:text-slate-400 mt-1">
+                <User className="w-3 h-3" />
+                <span>{entry.created_by}</span>
+              </p>
+            )}
+            {entry.changes && entry.changes.length > 0 && (
+              <ul className="text-xs text-slate-700 dark:text-slate-300 mt-1 space-y-0.5">
+                {entry.changes.map((change, changeIndex) => (
+                  <li key={changeIndex}>
+                    <span className="font-medium">{change.field}:</span>{' '}
+                    {change.before && <span className="line-through text-slate-500">{change.before}</span>}
+                    {change.before && change.after && ' → '}
+                    {change.after}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {entry.notes && !entry.changes && (
+              <p className="flex items-start space-x-1 text-xs text-slate-700 dark:text-slate-300 mt-1">
+                <MessageSquare className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                <span>{entry.notes}</span>
+              </p>
+            )}
+          </li>
+        )
+      })}
+
+      {history.length === 0 && (
+        <li className="ml-4 text-xs text-slate-500 dark:text-slate-500">
+          No status changes recorded yet
+        </li>
+      )}
+    </ol>
+  )
+}
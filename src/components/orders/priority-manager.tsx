@@ -1,95 +1,149 @@
 "use client"
 
-import React, { useState, useEffect, useMemo, useCallback } from 'react'
-import { motion } from 'framer-motion'
-import { Star, Clock, AlertTriangle, Filter, Search, SortAsc, SortDesc, Package, CheckCircle, XCircle } from 'lucide-react'
-import { Order } from '@/types/orders'
+import React, { forwardRef, useState, useEffect, useMemo, useCallback, useImperativeHandle, useRef } from 'react'
+import { useSearchParams } from 'next/navigation'
+import { motion, AnimatePresence } from 'framer-motion'
+import { format } from 'date-fns'
+import { Star, Clock, AlertTriangle, Filter, Search, SortAsc, SortDesc, Package, CheckCircle, XCircle, Zap, Timer, Settings, Download, SlidersHorizontal, Info } from 'lucide-react'
+import { Order, PaymentStatus, PAYMENT_STATUS_LABELS } from '@/types/orders'
+import { SlaConfig } from '@/lib/sla'
+import {
+  DEFAULT_ORDER_FILTERS,
+  OrderFilters,
+  PaymentFilter,
+  SortOption,
+  StatusFilter,
+  countAdvancedFilters,
+  filterOrders,
+  filtersFromSearchParams,
+  filtersToSearchParams,
+  hasActiveFilters,
+  matchesFilters,
+  matchesPaymentFilter,
+  matchesStatusFilter
+} from '@/lib/order-filters'
+import { useNow } from '@/hooks/use-now'
+import { SlaSettings } from '@/components/orders/sla-settings'
+import { OrderExport } from '@/components/orders/order-export'
+import { OrderFilterBuilder } from '@/components/orders/order-filter-builder'
+import { SavedViews } from '@/components/orders/saved-views'
 import { cn } from '@/lib/utils'
 
 interface PriorityManagerProps {
   orders: Order[]
   onOrdersFiltered: (filteredOrders: Order[]) => void
-  onToggleUrgent: (orderId: string) => void
-  urgentOrders: Set<string>
+  slaConfig: SlaConfig
+  onSlaConfigChange: (config: SlaConfig) => void
+  // Filters run over the loaded orders; these let the toolbar fetch the ones it is missing
+  hasMore?: boolean
+  loadingMore?: boolean
+  onLoadMore?: () => void
+  onLoadSince?: (since: Date) => void
+  // Store time zone for the export's date range
+  timeZone?: string
 }
 
-type SortOption = 'time' | 'amount' | 'status' | 'priority'
-type FilterOption = 'all' | 'urgent' | 'pending' | 'confirmed' | 'preparing' | 'ready' | 'out_for_delivery' | 'delivered' | 'cancelled'
+// Lets keyboard shortcuts on the page drive the toolbar
+export interface PriorityManagerHandle {
+  updateFilters: (changes: Partial<OrderFilters>) => void
+  clearFilters: () => void
+  focusSearch: () => void
+}
 
-export function PriorityManager({ 
+export const PriorityManager = forwardRef<PriorityManagerHandle, PriorityManagerProps>(function PriorityManager({ 
   orders, 
-  onOrdersFiltered, 
-  urgentOrders 
-}: PriorityManagerProps) {
-  const [searchTerm, setSearchTerm] = useState('')
-  const [sortBy, setSortBy] = useState<SortOption>('time')
-  const [filterBy, setFilterBy] = useState<FilterOption>('all')
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc')
+  onOrdersFiltered,
+  slaConfig,
+  onSlaConfigChange,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
+  onLoadSince,
+  timeZone
+}, ref) {
+  const searchParams = useSearchParams()
+  // Seeded from the URL so bookmarked and shared links open the same view
+  const [filters, setFilters] = useState<OrderFilters>(() => filtersFromSearchParams(searchParams))
+  const [showFilterBuilder, setShowFilterBuilder] = useState(() => countAdvancedFilters(filtersFromSearchParams(searchParams)) > 0)
+  const [showSlaSettings, setShowSlaSettings] = useState(false)
+  const [showExport, setShowExport] = useState(false)
+  // Overdue depends on the clock, so the filter is re-evaluated as time passes
+  const now = useNow()
+  const query = filtersToSearchParams(filters).toString()
+
+  const searchInputRef = useRef<HTMLInputElement>(null)
+
+  const updateFilters = useCallback((changes: Partial<OrderFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }))
+  }, [])
+
+  // Sorting is a preference rather than a filter, so clearing keeps it
+  const clearFilters = useCallback(() => {
+    setFilters(prev => ({ ...DEFAULT_ORDER_FILTERS, sortBy: prev.sortBy, sortOrder: prev.sortOrder }))
+  }, [])
+
+  useImperativeHandle(ref, () => ({
+    updateFilters,
+    clearFilters,
+    focusSearch: () => searchInputRef.current?.focus()
+  }), [updateFilters, clearFilters])
+
+  // Kept in the address bar without a navigation, so typing in the search box stays cheap
+  useEffect(() => {
+    const url = query ? `${window.location.pathname}?${query}` : window.location.pathname
+    window.history.replaceState(null, '', url)
+  }, [query])
 
   // Filter and sort orders using useMemo to prevent infinite loops
-  const filteredOrders = useMemo(() => {
-    let filtered = [...orders]
-
-    // Apply search filter
-    if (searchTerm) {
-      filtered = filtered.filter(order =>
-        order.order_number.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        order.customer_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        order.customer_phone.includes(searchTerm)
-      )
-    }
-
-    // Apply status filter
-    if (filterBy !== 'all') {
-      if (filterBy === 'urgent') {
-        filtered = filtered.filter(order => urgentOrders.has(order.id))
-      } else {
-        filtered = filtered.filter(order => order.order_status === filterBy)
-      }
-    }
-
-    // Apply sorting
-    filtered.sort((a, b) => {
-      let comparison = 0
-
-      switch (sortBy) {
-        case 'time':
-          comparison = new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-          break
-        case 'amount':
-          comparison = a.total_amount - b.total_amount
-          break
-        case 'status':
-          const statusOrder = ['pending', 'confirmed', 'preparing', 'ready', 'out_for_delivery', 'delivered', 'cancelled']
-          comparison = statusOrder.indexOf(a.order_status) - statusOrder.indexOf(b.order_status)
-          break
-        case 'priority':
-          const aUrgent = urgentOrders.has(a.id) ? 1 : 0
-          const bUrgent = urgentOrders.has(b.id) ? 1 : 0
-          comparison = bUrgent - aUrgent
-          break
-      }
-
-      return sortOrder === 'asc' ? comparison : -comparison
-    })
-
-    return filtered
-  }, [orders, searchTerm, sortBy, filterBy, sortOrder, urgentOrders])
+  const filteredOrders = useMemo(
+    () => filterOrders(orders, filters, { slaConfig, now }),
+    [orders, filters, slaConfig, now]
+  )
 
   // Notify parent component when filtered orders change
   useEffect(() => {
     onOrdersFiltered(filteredOrders)
   }, [filteredOrders, onOrdersFiltered])
 
-  const getFilterCount = useCallback((filter: FilterOption) => {
-    if (filter === 'all') return orders.length
-    if (filter === 'urgent') return urgentOrders.size
-    return orders.filter(order => order.order_status === filter).length
-  }, [orders, urgentOrders])
+  // Counts honour every other condition, so each button shows what it would leave on screen
+  const getFilterCount = useCallback((status: StatusFilter) => {
+    return orders.filter(order =>
+      matchesFilters(order, filters, { slaConfig, now, except: 'status' }) &&
+      matchesStatusFilter(order, status, slaConfig, now)
+    ).length
+  }, [orders, filters, slaConfig, now])
+
+  const getPaymentCount = useCallback((payment: PaymentFilter) => {
+    return orders.filter(order =>
+      matchesFilters(order, filters, { slaConfig, now, except: 'payment' }) &&
+      matchesPaymentFilter(order, payment)
+    ).length
+  }, [orders, filters, slaConfig, now])
+
+  const paymentMethods = useMemo(
+    () => [...new Set(orders.map(order => order.payment_method).filter(Boolean))].sort(),
+    [orders]
+  )
+  const cities = useMemo(
+    () => [...new Set(orders.map(order => order.delivery_address?.city?.trim()).filter((city): city is string => !!city))].sort(),
+    [orders]
+  )
+  const advancedFilterCount = countAdvancedFilters(filters)
+
+  // Older orders are only filtered once loaded. A date range is complete once the
+  // oldest order shown goes back past its start.
+  const rangeStart = filters.from ? new Date(`${filters.from}T00:00`) : null
+  const oldestLoaded = orders.reduce<Date | null>((oldest, order) => {
+    const placed = new Date(order.created_at)
+    return oldest && oldest <= placed ? oldest : placed
+  }, null)
+  const isRangeLoaded = rangeStart !== null && oldestLoaded !== null && oldestLoaded <= rangeStart
+  const showLoadedOnly = hasMore && hasActiveFilters(filters) && !isRangeLoaded
 
   const filterOptions = [
     { value: 'all', label: 'All Orders', icon: Filter, count: getFilterCount('all') },
-  
+    { value: 'urgent', label: 'Urgent', icon: Zap, count: getFilterCount('urgent') },
+    { value: 'overdue', label: 'Overdue', icon: Timer, count: getFilterCount('overdue') },
     { value: 'pending', label: 'Pending', icon: Clock, count: getFilterCount('pending') },
     { value: 'confirmed', label: 'Confirmed', icon: Clock, count: getFilterCount('confirmed') },
     { value: 'preparing', label: 'Preparing', icon: AlertTriangle, count: getFilterCount('preparing') },
@@ -102,31 +156,67 @@ export function PriorityManager({
   return (
     <div className="bg-white dark:bg-slate-800 rounded-xl p-6 shadow-lg border border-slate-200 dark:border-slate-700 mb-6">
       <div className="flex flex-col gap-4">
-        {/* Search Bar - Full Width */}
-        <div className="relative w-full max-w-2xl">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-4 h-4" />
-          <input
-            type="text"
-            placeholder="Search orders, customers, phone..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="w-full pl-10 pr-4 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+        {/* Search Bar, Filter Builder and Saved Views */}
+        <div className="flex flex-col md:flex-row gap-3 md:items-center">
+          <div className="relative w-full max-w-2xl">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-4 h-4" />
+            <input
+              ref={searchInputRef}
+              type="text"
+              placeholder="Search orders, customers, phone..."
+              value={filters.search}
+              onChange={(e) => updateFilters({ search: e.target.value })}
+              className="w-full pl-10 pr-4 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+            />
+          </div>
+          <button
+            onClick={() => setShowFilterBuilder(!showFilterBuilder)}
+            className={cn(
+              "flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors whitespace-nowrap",
+              showFilterBuilder || advancedFilterCount > 0
+                ? "bg-blue-500 text-white"
+                : "bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600"
+            )}
+          >
+            <SlidersHorizontal className="w-4 h-4" />
+            <span>Filters{advancedFilterCount > 0 && ` (${advancedFilterCount})`}</span>
+          </button>
+          <SavedViews
+            currentQuery={query}
+            onApply={(viewQuery) => {
+              const applied = filtersFromSearchParams(new URLSearchParams(viewQuery))
+              setFilters(applied)
+              setShowFilterBuilder(countAdvancedFilters(applied) > 0)
+            }}
           />
         </div>
 
+        <AnimatePresence>
+          {showFilterBuilder && (
+            <OrderFilterBuilder
+              key="filter-builder"
+              filters={filters}
+              onChange={updateFilters}
+              onClear={clearFilters}
+              paymentMethods={paymentMethods}
+              cities={cities}
+            />
+          )}
+        </AnimatePresence>
+
         {/* Controls Row */}
         <div className="flex flex-col lg:flex-row gap-4 items-start lg:items-center justify-between">
           {/* Filter Buttons */}
           <div className="flex flex-wrap gap-2 max-w-full overflow-x-auto pb-2 flex-1">
           {filterOptions.map((option) => {
             const Icon = option.icon
-            const isActive = filterBy === option.value
+            const isActive = filters.status === option.value
             return (
               <motion.button
                 key={option.value}
                 whileHover={{ scale: 1.05 }}
                 whileTap={{ scale: 0.95 }}
-                onClick={() => setFilterBy(option.value as FilterOption)}
+                onClick={() => updateFilters({ status: option.value as StatusFilter })}
                 className={cn(
                   "flex items-center space-x-1.5 px-2.5 py-1.5 rounded-lg text-xs font-medium transition-all duration-200 whitespace-nowrap",
                   isActive
@@ -153,10 +243,24 @@ export function PriorityManager({
           </div>
 
           {/* Sort Options */}
-          <div className="flex items-center space-x-2">
+          <div className="relative flex items-center space-x-2">
+          <select
+            value={filters.payment}
+            onChange={(e) => updateFilters({ payment: e.target.value as PaymentFilter })}
+            title="Payment status"
+            className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="all">All Payments</option>
+            {(Object.keys(PAYMENT_STATUS_LABELS) as PaymentStatus[]).map(status => (
+              <option key={status} value={status}>
+                {PAYMENT_STATUS_LABELS[status]} ({getPaymentCount(status)})
+              </option>
+            ))}
+          </select>
+
           <select
-            value={sortBy}
-            onChange={(e) => setSortBy(e.target.value as SortOption)}
+            value={filters.sortBy}
+            onChange={(e) => updateFilters({ sortBy: e.target.value as SortOption })}
             className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           >
             <option value="time">Time</option>
@@ -168,19 +272,84 @@ export function PriorityManager({
           <motion.button
             whileHover={{ scale: 1.1 }}
             whileTap={{ scale: 0.9 }}
-            onClick={() => setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc')}
+            onClick={() => updateFilters({ sortOrder: filters.sortOrder === 'asc' ? 'desc' : 'asc' })}
             className="p-2 rounded-lg bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
           >
-            {sortOrder === 'asc' ? (
+            {filters.sortOrder === 'asc' ? (
               <SortAsc className="w-4 h-4" />
             ) : (
               <SortDesc className="w-4 h-4" />
             )}
           </motion.button>
+
+          <motion.button
+            whileHover={{ scale: 1.1 }}
+            whileTap={{ scale: 0.9 }}
+            onClick={() => {
+              setShowSlaSettings(!showSlaSettings)
+              setShowExport(false)
+            }}
+            title="Overdue thresholds"
+            className="p-2 rounded-lg bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+          >
+            <Settings className="w-4 h-4" />
+          </motion.button>
+
+          <motion.button
+            whileHover={{ scale: 1.1 }}
+            whileTap={{ scale: 0.9 }}
+            onClick={() => {
+              setShowExport(!showExport)
+              setShowSlaSettings(false)
+            }}
+            title="Export orders"
+            className="p-2 rounded-lg bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+          >
+            <Download className="w-4 h-4" />
+          </motion.button>
+
+          <AnimatePresence>
+            {showSlaSettings && (
+              <SlaSettings
+                key="sla-settings"
+                slaConfig={slaConfig}
+                onSave={onSlaConfigChange}
+                onClose={() => setShowSlaSettings(false)}
+              />
+            )}
+            {showExport && (
+              <OrderExport
+                key="export"
+                orders={filteredOrders}
+                onClose={() => setShowExport(false)}
+                filterFetched={fetched => filterOrders(fetched, filters, { slaConfig, now })}
+                timeZone={timeZone}
+              />
+            )}
+          </AnimatePresence>
           </div>
         </div>
       </div>
 
+      {showLoadedOnly && (
+        <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-2 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800">
+          <div className="flex items-start space-x-2 flex-1">
+            <Info className="w-4 h-4 text-amber-600 mt-0.5 flex-shrink-0" />
+            <p className="text-sm text-amber-800 dark:text-amber-300">
+              Filtering the {orders.length} most recent orders only. Orders placed before{' '}
+              {oldestLoaded ? format(oldestLoaded, 'd MMM yyyy, HH:mm') : 'these'} are not loaded and do not show up.
+            </p>
+          </div>
+          <button
+            onClick={() => rangeStart && onLoadSince ? onLoadSince(rangeStart) : onLoadMore?.()}
+            disabled={loadingMore}
+            className="px-3 py-1.5 text-sm rounded-lg bg-amber-100 dark:bg-amber-800/40 text-amber-900 dark:text-amber-200 hover:bg-amber-200 dark:hover:bg-amber-800/60 disabled:opacity-50 transition-colors whitespace-nowrap"
+          >
+            {loadingMore ? 'Loading...' : rangeStart ? `Load orders since ${format(rangeStart, 'd MMM')}` : 'Load older orders'}
+          </button>
+        </div>
+      )}
+
       {/* Quick Stats */}
       <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-4">
         {[
@@ -203,4 +372,4 @@ export function PriorityManager({
       </div>
     </div>
   )
-}
+})
@@ -0,0 +1,133 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Bookmark, Link2, Loader2, Save, Trash2, X } from 'lucide-react'
+import { deleteSavedView, saveView } from '@/lib/saved-views-api'
+import { isOrdersBackendConfigured } from '@/lib/orders-api'
+import { formInputClass } from '@/components/orders/order-form-fields'
+import { useSavedViews } from '@/hooks/use-saved-views'
+import { useToast } from '@/hooks/use-toast'
+
+interface SavedViewsProps {
+  // The URL query of the filters on screen
+  currentQuery: string
+  onApply: (query: string) => void
+}
+
+const iconButtonClass = "p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50 transition-colors"
+
+export function SavedViews({ currentQuery, onApply }: SavedViewsProps) {
+  const { views, refresh } = useSavedViews()
+  const [naming, setNaming] = useState(false)
+  const [name, setName] = useState('')
+  const [busy, setBusy] = useState(false)
+  const { toast } = useToast()
+
+  const activeView = views.find(view => view.query === currentQuery) ?? null
+
+  const runAction = async (action: () => Promise<unknown>, success: string) => {
+    try {
+      setBusy(true)
+      await action()
+      await refresh()
+      toast({ title: "Views Updated", description: success, variant: "success" })
+      return true
+    } catch (error) {
+      console.error('Error updating saved views:', error)
+      toast({
+        title: "Error",
+        description: "Failed to update saved views. Please try again.",
+        variant: "destructive",
+      })
+      return false
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!name.trim()) return
+    const saved = await runAction(() => saveView(name, currentQuery), `"${name.trim()}" saved`)
+    if (saved) {
+      setNaming(false)
+      setName('')
+    }
+  }
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      toast({ title: "Link Copied", description: "Anyone with access can open this view", variant: "success" })
+    } catch {
+      toast({ title: "Error", description: "Could not copy the link", variant: "destructive" })
+    }
+  }
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Bookmark className="w-4 h-4 text-slate-400 flex-shrink-0" />
+      {naming ? (
+        <>
+          <input
+            type="text"
+            autoFocus
+            placeholder="View name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSave()
+              if (e.key === 'Escape') setNaming(false)
+            }}
+            className={`${formInputClass} w-40`}
+          />
+          <button onClick={handleSave} disabled={busy || !name.trim()} title="Save view" className={iconButtonClass}>
+            {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          </button>
+          <button onClick={() => setNaming(false)} title="Cancel" className={iconButtonClass}>
+            <X className="w-4 h-4" />
+          </button>
+        </>
+      ) : (
+        <>
+          <select
+            value={activeView?.id ?? ''}
+            onChange={(e) => {
+              const view = views.find(v => v.id === e.target.value)
+              if (view) onApply(view.query)
+            }}
+            className={`${formInputClass} w-40`}
+          >
+            <option value="" disabled>{views.length > 0 ? 'Saved views…' : 'No saved views'}</option>
+            {views.map(view => (
+              <option key={view.id} value={view.id}>{view.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => {
+              setName(activeView?.name ?? '')
+              setNaming(true)
+            }}
+            disabled={!isOrdersBackendConfigured}
+            title="Save current filters as a view"
+            className={iconButtonClass}
+          >
+            <Save className="w-4 h-4" />
+          </button>
+          {activeView && (
+            <button
+              onClick={() => runAction(() => deleteSavedView(activeView.id), `"${activeView.name}" deleted`)}
+              disabled={busy}
+              title="Delete view"
+              className={iconButtonClass}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+          <button onClick={copyLink} title="Copy link to these filters" className={iconButtonClass}>
+            <Link2 className="w-4 h-4" />
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
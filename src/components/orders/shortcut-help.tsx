@@ -0,0 +1,52 @@
+"use client"
+
+import React from 'react'
+import { motion } from 'framer-motion'
+import { Keyboard, X } from 'lucide-react'
+import { ORDER_SHORTCUTS } from '@/lib/order-shortcuts'
+import { Keycaps } from '@/components/orders/command-palette'
+
+interface ShortcutHelpProps {
+  onClose: () => void
+}
+
+export function ShortcutHelp({ onClose }: ShortcutHelpProps) {
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        transition={{ duration: 0.15 }}
+        className="w-full max-w-md bg-white dark:bg-slate-800 rounded-xl shadow-2xl border border-slate-200 dark:border-slate-700 p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="flex items-center space-x-2 text-lg font-bold text-slate-900 dark:text-slate-100">
+            <Keyboard className="w-5 h-5" />
+            <span>Keyboard Shortcuts</span>
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-slate-100 dark:hover:bg-slate-700 rounded"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="space-y-2">
+          {ORDER_SHORTCUTS.map(shortcut => (
+            <div key={shortcut.description} className="flex items-center justify-between text-sm">
+              <span className="text-slate-700 dark:text-slate-300">{shortcut.description}</span>
+              <Keycaps keys={shortcut.keys} />
+            </div>
+          ))}
+        </div>
+        <p className="mt-4 text-xs text-slate-500">
+          The highlighted order has a purple outline. Shortcuts are ignored while typing in a field.
+        </p>
+      </motion.div>
+    </div>
+  )
+}
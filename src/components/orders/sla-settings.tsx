@@ -0,0 +1,85 @@
+"use client"
+
+import React, { useState } from 'react'
+import { motion } from 'framer-motion'
+import { X } from 'lucide-react'
+import { ORDER_STATUS_LABELS } from '@/types/orders'
+import { DEFAULT_SLA_MINUTES, SLA_STATUSES, SlaConfig } from '@/lib/sla'
+
+interface SlaSettingsProps {
+  slaConfig: SlaConfig
+  onSave: (config: SlaConfig) => void
+  onClose: () => void
+}
+
+export function SlaSettings({ slaConfig, onSave, onClose }: SlaSettingsProps) {
+  const [draft, setDraft] = useState<Record<string, string>>(() =>
+    Object.fromEntries(SLA_STATUSES.map(status => [status, slaConfig[status]?.toString() ?? '']))
+  )
+
+  const handleSave = () => {
+    const config: SlaConfig = {}
+    SLA_STATUSES.forEach(status => {
+      const minutes = parseInt(draft[status], 10)
+      // Blank or invalid means no limit for that status
+      if (minutes > 0) config[status] = minutes
+    })
+    onSave(config)
+    onClose()
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95, y: -10 }}
+      animate={{ opacity: 1, scale: 1, y: 0 }}
+      exit={{ opacity: 0, scale: 0.95, y: -10 }}
+      transition={{ duration: 0.2 }}
+      className="absolute right-0 top-full mt-2 w-72 bg-white dark:bg-slate-800 rounded-xl shadow-2xl border border-slate-200 dark:border-slate-700 z-50 p-4"
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-100">
+          Overdue After (minutes)
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-1 hover:bg-slate-100 dark:hover:bg-slate-700 rounded"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {SLA_STATUSES.map(status => (
+          <label key={status} className="flex items-center justify-between text-sm">
+            <span className="text-slate-600 dark:text-slate-400">{ORDER_STATUS_LABELS[status]}</span>
+            <input
+              type="number"
+              min={1}
+              placeholder="No limit"
+              value={draft[status]}
+              onChange={(e) => setDraft(prev => ({ ...prev, [status]: e.target.value }))}
+              className="w-24 px-2 py-1 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex justify-between mt-4">
+        <button
+          onClick={() => setDraft(Object.fromEntries(
+            SLA_STATUSES.map(status => [status, DEFAULT_SLA_MINUTES[status]?.toString() ?? ''])
+          ))}
+          className="text-sm text-slate-500 hover:text-slate-700 dark:hover:text-slate-300"
+        >
+          Reset to defaults
+        </button>
+        <button
+          onClick={handleSave}
+          className="px-3 py-1.5 text-sm rounded-lg bg-blue-500 text-white hover:bg-blue-600 transition-colors"
+        >
+          Save
+        </button>
+      </div>
+    </motion.div>
+  )
+}
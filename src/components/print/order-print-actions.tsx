@@ -0,0 +1,37 @@
+"use client"
+
+import React from 'react'
+import { Printer, Receipt, Download } from 'lucide-react'
+import { Order } from '@/types/orders'
+import { ReceiptLayout } from '@/lib/receipts'
+import { downloadEscPos } from '@/hooks/use-print'
+
+interface OrderPrintActionsProps {
+  order: Order
+  onPrint: (layouts: ReceiptLayout[]) => void
+}
+
+export function OrderPrintActions({ order, onPrint }: OrderPrintActionsProps) {
+  const buttonClass = "flex-1 flex items-center justify-center space-x-1.5 px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors text-sm"
+
+  return (
+    <div className="flex space-x-2">
+      <button onClick={() => onPrint(['kitchen'])} className={buttonClass}>
+        <Printer className="w-4 h-4" />
+        <span>Ticket</span>
+      </button>
+      <button onClick={() => onPrint(['customer'])} className={buttonClass}>
+        <Receipt className="w-4 h-4" />
+        <span>Receipt</span>
+      </button>
+      <button
+        onClick={() => downloadEscPos(order, 'customer')}
+        title="Download ESC/POS receipt for a thermal printer"
+        className={buttonClass}
+      >
+        <Download className="w-4 h-4" />
+        <span>ESC/POS</span>
+      </button>
+    </div>
+  )
+}
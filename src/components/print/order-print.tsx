@@ -0,0 +1,86 @@
+"use client"
+
+import React, { useEffect } from 'react'
+import { Order } from '@/types/orders'
+import { Receipt, ReceiptLayout, buildReceipt } from '@/lib/receipts'
+import { cn } from '@/lib/utils'
+
+export interface PrintJob {
+  orders: Order[]
+  layouts: ReceiptLayout[]
+}
+
+interface ReceiptViewProps {
+  receipt: Receipt
+}
+
+export function ReceiptView({ receipt }: ReceiptViewProps) {
+  const isKitchen = receipt.layout === 'kitchen'
+
+  return (
+    <div className="receipt font-mono text-black bg-white">
+      <div className="text-center">
+        <p className={cn("font-bold", isKitchen ? "text-3xl" : "text-xl")}>{receipt.heading}</p>
+        <p className="text-xs">{receipt.subheading}</p>
+      </div>
+
+      {receipt.sections.map((section, index) => (
+        <div key={index} className="border-t border-dashed border-black mt-2 pt-2">
+          {section.title && <p className="text-xs font-bold uppercase">{section.title}</p>}
+          {section.lines.map((line, lineIndex) => (
+            <div
+              key={lineIndex}
+              className={cn(
+                "flex justify-between",
+                line.indent && "pl-3 text-xs",
+                !line.indent && (isKitchen && line.emphasis ? "text-lg" : "text-sm"),
+                line.emphasis && "font-bold"
+              )}
+            >
+              <span>{line.left}</span>
+              {line.right && <span className="ml-2 whitespace-nowrap">{line.right}</span>}
+            </div>
+          ))}
+        </div>
+      ))}
+
+      {receipt.footer && (
+        <p className="border-t border-dashed border-black mt-2 pt-2 text-center text-xs">{receipt.footer}</p>
+      )}
+    </div>
+  )
+}
+
+interface PrintAreaProps {
+  job: PrintJob | null
+  onPrinted: () => void
+}
+
+// Hidden on screen; print CSS in globals.css shows only this area when printing
+export function PrintArea({ job, onPrinted }: PrintAreaProps) {
+  useEffect(() => {
+    if (!job) return
+    window.addEventListener('afterprint', onPrinted, { once: true })
+    // Let the receipts render before the print dialog snapshots the page
+    const timer = setTimeout(() => window.print(), 50)
+
+    return () => {
+      clearTimeout(timer)
+      window.removeEventListener('afterprint', onPrinted)
+    }
+  }, [job, onPrinted])
+
+  if (!job) return null
+
+  return (
+    <div className="print-area">
+      {job.orders.flatMap(order =>
+        job.layouts.map(layout => (
+          <div key={`${order.id}-${layout}`} className="print-page">
+            <ReceiptView receipt={buildReceipt(order, layout)} />
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,187 @@
+"use client"
+
+import { Dispatch, SetStateAction, useCallback, useState } from 'react'
+import { Order, OrderStatus, StaffRole, NEXT_STATUS, ORDER_STATUS_LABELS, validateTransition } from '@/types/orders'
+import { Rider } from '@/types/dispatch'
+import {
+  updateOrderStatus as saveOrderStatus,
+  updateOrderPriority as saveOrderPriority,
+  isOrdersBackendConfigured,
+  OrderTransitionError
+} from '@/lib/orders-api'
+import { assignDeliveryRun } from '@/lib/dispatch-api'
+import { useToast } from '@/hooks/use-toast'
+
+interface UseBulkOrderActionsOptions {
+  setOrders: Dispatch<SetStateAction<Order[]>>
+  role?: StaffRole | null
+}
+
+export interface BulkFailure {
+  order: Order
+  reason: string
+}
+
+export interface BulkResult {
+  succeeded: Order[]
+  failed: BulkFailure[]
+}
+
+// Failures beyond this are summarised as "and N more" so the toast stays readable
+const MAX_LISTED_FAILURES = 3
+
+const describeError = (error: unknown) =>
+  error instanceof OrderTransitionError ? error.message : 'Failed to save the change'
+
+// Bulk changes for the orders grid. Orders are sent one at a time so each keeps its own
+// history row, and a single toast reports which orders went through and which did not.
+export function useBulkOrderActions({ setOrders, role = null }: UseBulkOrderActionsOptions) {
+  const [running, setRunning] = useState(false)
+  const { toast } = useToast()
+
+  const report = useCallback((action: string, total: number, { succeeded, failed }: BulkResult) => {
+    const listed = failed
+      .slice(0, MAX_LISTED_FAILURES)
+      .map(({ order, reason }) => `#${order.order_number}: ${reason}`)
+    if (failed.length > MAX_LISTED_FAILURES) listed.push(`and ${failed.length - MAX_LISTED_FAILURES} more`)
+
+    toast({
+      title: failed.length === 0 ? "Orders Updated" : `${failed.length} Order${failed.length === 1 ? '' : 's'} Not Updated`,
+      description: [`${succeeded.length} of ${total} orders ${action}`, ...listed].join('. '),
+      variant: failed.length > 0 ? "destructive" : undefined,
+    })
+  }, [toast])
+
+  // Bulk changes are not queued offline; one toast beats a failure per order
+  const requireConnection = useCallback(() => {
+    if (navigator.onLine) return true
+    toast({
+      title: "Error",
+      description: "Bulk actions need a connection. Try again once you are back online.",
+      variant: "destructive",
+    })
+    return false
+  }, [toast])
+
+  // Runs `change` on each order in turn; it returns why an order was skipped, or null once saved
+  const runEach = useCallback(async (
+    orders: Order[],
+    action: string,
+    change: (order: Order) => Promise<string | null>
+  ): Promise<BulkResult> => {
+    const result: BulkResult = { succeeded: [], failed: [] }
+    if (!isOrdersBackendConfigured || orders.length === 0 || !requireConnection()) return result
+
+    setRunning(true)
+    try {
+      for (const order of orders) {
+        try {
+          const skipped = await change(order)
+          if (skipped) {
+            result.failed.push({ order, reason: skipped })
+          } else {
+            result.succeeded.push(order)
+          }
+        } catch (error) {
+          console.error(`Error updating order ${order.order_number}:`, error)
+          result.failed.push({ order, reason: describeError(error) })
+        }
+      }
+    } finally {
+      setRunning(false)
+    }
+
+    report(action, orders.length, result)
+    return result
+  }, [report, requireConnection])
+
+  const changeStatus = useCallback(async (order: Order, status: OrderStatus, notes: string | null) => {
+    const invalidReason = validateTransition(order.order_status, status, { reason: notes, role })
+    if (invalidReason) return invalidReason
+
+    const historyEntry = await saveOrderStatus(order.id, status, {
+      from: order.order_status,
+      notes,
+      role
+    })
+    setOrders(prev => prev.map(o =>
+      o.id === order.id
+        ? {
+            ...o,
+            order_status: status,
+            updated_at: historyEntry.created_at,
+            status_history: [
+              ...(o.status_history ?? []).filter(entry => entry.id !== historyEntry.id),
+              historyEntry
+            ]
+          }
+        : o
+    ))
+    return null
+  }, [setOrders, role])
+
+  // Moves each order one step along the usual flow
+  const advanceOrders = useCallback((orders: Order[]) => {
+    return runEach(orders, 'advanced', order => {
+      const next = NEXT_STATUS[order.order_status]
+      if (!next) return Promise.resolve(`${ORDER_STATUS_LABELS[order.order_status]} orders cannot move on`)
+      return changeStatus(order, next, null)
+    })
+  }, [runEach, changeStatus])
+
+  const cancelOrders = useCallback((orders: Order[], reason: string) => {
+    return runEach(orders, 'cancelled', order => changeStatus(order, 'cancelled', reason.trim()))
+  }, [runEach, changeStatus])
+
+  const markOrdersUrgent = useCallback((orders: Order[]) => {
+    return runEach(orders, 'marked urgent', async order => {
+      if (order.priority === 'urgent') return null
+      const changes = await saveOrderPriority(order.id, 'urgent')
+      setOrders(prev => prev.map(o => o.id === order.id ? { ...o, ...changes } : o))
+      return null
+    })
+  }, [runEach, setOrders])
+
+  // One run takes every eligible order, so the rider leaves with all of them or none
+  const assignOrdersToRider = useCallback(async (orders: Order[], rider: Rider) => {
+    const result: BulkResult = { succeeded: [], failed: [] }
+    if (!isOrdersBackendConfigured || orders.length === 0 || !requireConnection()) return result
+
+    const eligible: Order[] = []
+    orders.forEach(order => {
+      if (order.fulfillment_type === 'pickup') {
+        result.failed.push({ order, reason: 'Pickup orders do not need a rider' })
+      } else if (order.order_status !== 'ready') {
+        result.failed.push({ order, reason: 'Only ready orders can be assigned' })
+      } else {
+        eligible.push(order)
+      }
+    })
+
+    if (eligible.length > 0) {
+      setRunning(true)
+      try {
+        const run = await assignDeliveryRun(rider.id, eligible.map(order => order.id))
+        const assignedIds = new Set(eligible.map(order => order.id))
+        setOrders(prev => prev.map(o => assignedIds.has(o.id) ? { ...o, delivery_run_id: run.id } : o))
+        result.succeeded.push(...eligible)
+      } catch (error) {
+        console.error('Error assigning rider:', error)
+        result.failed.push(...eligible.map(order => ({ order, reason: describeError(error) })))
+      } finally {
+        setRunning(false)
+      }
+    }
+
+    report(`assigned to ${rider.name}`, orders.length, result)
+    return result
+  }, [report, requireConnection, setOrders])
+
+  return {
+    running,
+    advanceOrders,
+    cancelOrders,
+    markOrdersUrgent,
+    assignOrdersToRider
+  }
+}
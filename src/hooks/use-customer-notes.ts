@@ -0,0 +1,55 @@
+"use client"
+
+import { useCallback, useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { fetchCustomerNotes } from '@/lib/customers-api'
+import { isOrdersBackendConfigured } from '@/lib/orders-api'
+import { useToast } from '@/hooks/use-toast'
+import { CustomerNote } from '@/types/customers'
+
+// Staff notes on customers, refetched whenever one changes
+export function useCustomerNotes() {
+  const [notes, setNotes] = useState<CustomerNote[]>([])
+  const [loading, setLoading] = useState(true)
+  const { toast } = useToast()
+
+  const refresh = useCallback(async () => {
+    if (!isOrdersBackendConfigured) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      setNotes(await fetchCustomerNotes())
+    } catch (error) {
+      console.error('Error fetching customer notes:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load customer notes. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  useEffect(() => {
+    const client = supabase
+    if (!client) return
+
+    const channel = client
+      .channel('customer-notes-feed')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'customer_notes' }, () => refresh())
+      .subscribe()
+
+    return () => {
+      client.removeChannel(channel)
+    }
+  }, [refresh])
+
+  return { notes, setNotes, loading, refresh }
+}
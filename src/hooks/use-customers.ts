@@ -0,0 +1,43 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Order } from '@/types/orders'
+import { fetchAllOrders, isOrdersBackendConfigured } from '@/lib/orders-api'
+import { buildCustomers } from '@/lib/customers'
+import { useToast } from '@/hooks/use-toast'
+
+// Every customer built from the full order history, loaded once when the directory opens
+export function useCustomers() {
+  const [orders, setOrders] = useState<Order[]>([])
+  const [loading, setLoading] = useState(true)
+  const { toast } = useToast()
+
+  const refresh = useCallback(async () => {
+    if (!isOrdersBackendConfigured) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setOrders(await fetchAllOrders({}))
+    } catch (error) {
+      console.error('Error fetching customers:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load customers. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const customers = useMemo(() => buildCustomers(orders), [orders])
+
+  return { customers, loading, refresh }
+}
@@ -0,0 +1,77 @@
+"use client"
+
+import { useCallback, useEffect, useState } from 'react'
+import { fetchDayClose, fetchRefunds } from '@/lib/day-close-api'
+import { isOrdersBackendConfigured } from '@/lib/orders-api'
+import { useToast } from '@/hooks/use-toast'
+import { DayClose, PeriodRefund } from '@/types/day-close'
+
+// The Z-report for a business date (yyyy-MM-dd), or null while the day is open
+export function useDayClose(businessDate: string) {
+  const [dayClose, setDayClose] = useState<DayClose | null>(null)
+  const [loading, setLoading] = useState(true)
+  const { toast } = useToast()
+
+  const refresh = useCallback(async () => {
+    if (!isOrdersBackendConfigured) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setDayClose(await fetchDayClose(businessDate))
+    } catch (error) {
+      console.error('Error fetching day close:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load the day's report. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [businessDate, toast])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  return { dayClose, setDayClose, loading, refresh }
+}
+
+// Refunds paid out in [from, to), which the Z-report counts whatever day the order was placed on
+export function useRefundRange(from: Date, to: Date) {
+  const [refunds, setRefunds] = useState<PeriodRefund[]>([])
+  const [loading, setLoading] = useState(true)
+  const { toast } = useToast()
+  const fromTime = from.getTime()
+  const toTime = to.getTime()
+
+  const refresh = useCallback(async () => {
+    if (!isOrdersBackendConfigured) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setRefunds(await fetchRefunds({ from: new Date(fromTime), to: new Date(toTime) }))
+    } catch (error) {
+      console.error('Error fetching refunds:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load the day's refunds. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [fromTime, toTime, toast])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  return { refunds, loading, refresh }
+}
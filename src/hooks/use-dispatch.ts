@@ -0,0 +1,64 @@
+"use client"
+
+import { useCallback, useEffect, useState } from 'react'
+import { startOfDay } from 'date-fns'
+import { supabase } from '@/lib/supabase'
+import { fetchDeliveryRuns, fetchRiders } from '@/lib/dispatch-api'
+import { isOrdersBackendConfigured } from '@/lib/orders-api'
+import { useToast } from '@/hooks/use-toast'
+import { DeliveryRun, Rider } from '@/types/dispatch'
+
+// Riders and today's delivery runs, refetched whenever either table changes
+export function useDispatch() {
+  const [riders, setRiders] = useState<Rider[]>([])
+  const [runs, setRuns] = useState<DeliveryRun[]>([])
+  const [loading, setLoading] = useState(true)
+  const { toast } = useToast()
+
+  const refresh = useCallback(async () => {
+    if (!isOrdersBackendConfigured) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      const [ridersData, runsData] = await Promise.all([
+        fetchRiders(),
+        fetchDeliveryRuns(startOfDay(new Date()))
+      ])
+      setRiders(ridersData)
+      setRuns(runsData)
+    } catch (error) {
+      console.error('Error fetching dispatch data:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load riders. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  useEffect(() => {
+    const client = supabase
+    if (!client) return
+
+    // Runs are small, so a full refetch is simpler than merging individual changes
+    const channel = client
+      .channel('dispatch-feed')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'riders' }, () => refresh())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'delivery_runs' }, () => refresh())
+      .subscribe()
+
+    return () => {
+      client.removeChannel(channel)
+    }
+  }, [refresh])
+
+  return { riders, runs, loading, refresh }
+}
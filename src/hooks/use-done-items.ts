@@ -0,0 +1,52 @@
+"use client"
+
+import { useCallback, useEffect, useState } from 'react'
+
+const STORAGE_KEY = 'boss-pizza-admin:kitchen-done-items'
+
+// Per-item "done" ticks on the kitchen display, kept across reloads of the same screen
+export function useDoneItems(activeItemIds: string[]) {
+  const [doneItems, setDoneItems] = useState<Set<string>>(new Set())
+  const [isRestored, setIsRestored] = useState(false)
+
+  useEffect(() => {
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEY)
+      if (raw) setDoneItems(new Set(JSON.parse(raw) as string[]))
+    } catch (error) {
+      console.warn('Could not restore kitchen progress:', error)
+    }
+    setIsRestored(true)
+  }, [])
+
+  // Drop ticks for items whose tickets have left the screen. An empty list is
+  // skipped because it is also what the screen shows before orders have loaded.
+  const activeKey = activeItemIds.join(',')
+  useEffect(() => {
+    if (!isRestored || !activeKey) return
+    const active = new Set(activeKey.split(','))
+    setDoneItems(prev => {
+      const next = new Set([...prev].filter(id => active.has(id)))
+      return next.size === prev.size ? prev : next
+    })
+  }, [activeKey, isRestored])
+
+  useEffect(() => {
+    if (!isRestored) return
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify([...doneItems]))
+  }, [doneItems, isRestored])
+
+  const toggleItem = useCallback((itemId: string) => {
+    setDoneItems(prev => {
+      const next = new Set(prev)
+      if (next.has(itemId)) {
+        next.delete(itemId)
+      } else {
+        next.add(itemId)
+      }
+      return next
+    })
+  }, [])
+
+  return { doneItems, toggleItem }
+}
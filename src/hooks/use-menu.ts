@@ -0,0 +1,61 @@
+"use client"
+
+import { useCallback, useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { fetchMenu } from '@/lib/menu-api'
+import { isOrdersBackendConfigured } from '@/lib/orders-api'
+import { useToast } from '@/hooks/use-toast'
+import { MenuCategory, MenuItem } from '@/types/menu'
+
+// The menu catalog, refetched whenever any of its tables change
+export function useMenu() {
+  const [categories, setCategories] = useState<MenuCategory[]>([])
+  const [items, setItems] = useState<MenuItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const { toast } = useToast()
+
+  const refresh = useCallback(async () => {
+    if (!isOrdersBackendConfigured) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      const menu = await fetchMenu()
+      setCategories(menu.categories)
+      setItems(menu.items)
+    } catch (error) {
+      console.error('Error fetching menu:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load the menu. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  useEffect(() => {
+    const client = supabase
+    if (!client) return
+
+    const channel = client
+      .channel('menu-feed')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'catalog_categories' }, () => refresh())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'catalog_items' }, () => refresh())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'catalog_item_sizes' }, () => refresh())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'catalog_item_options' }, () => refresh())
+      .subscribe()
+
+    return () => {
+      client.removeChannel(channel)
+    }
+  }, [refresh])
+
+  return { categories, items, loading, refresh }
+}
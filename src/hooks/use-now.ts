@@ -0,0 +1,15 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+
+// Current time that re-renders the caller every `intervalMs`, for time-based filters and badges
+export function useNow(intervalMs = 30 * 1000) {
+  const [now, setNow] = useState(() => new Date())
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), intervalMs)
+    return () => clearInterval(interval)
+  }, [intervalMs])
+
+  return now
+}
@@ -0,0 +1,97 @@
+"use client"
+
+import { Dispatch, SetStateAction, useCallback, useEffect, useRef, useState } from 'react'
+import { Order, StaffRole } from '@/types/orders'
+import { QueuedOrderChange } from '@/types/offline'
+import { applyQueuedChange, applyQueuedChanges, replayQueuedChanges } from '@/lib/offline-queue'
+import { isOfflineStoreAvailable, loadQueuedChanges, saveQueuedChange } from '@/lib/offline-store'
+import { useToast } from '@/hooks/use-toast'
+
+interface UseOfflineQueueOptions {
+  setOrders: Dispatch<SetStateAction<Order[]>>
+  // Only this staff member's changes are shown and sent; nothing is until it is known
+  staffId?: string | null
+  // Checked again before each queued change is sent
+  role?: StaffRole | null
+}
+
+// Rejected changes beyond this are summarised as "and N more"
+const MAX_LISTED_DISCARDS = 3
+
+// Status and priority changes made without a connection, kept in IndexedDB until they can be sent
+export function useOfflineQueue({ setOrders, staffId = null, role = null }: UseOfflineQueueOptions) {
+  const [queuedChanges, setQueuedChanges] = useState<QueuedOrderChange[]>([])
+  const [syncing, setSyncing] = useState(false)
+  // Read when fetched orders arrive and while replaying, without waiting for a render
+  const queueRef = useRef<QueuedOrderChange[]>([])
+  const syncingRef = useRef(false)
+  const { toast } = useToast()
+
+  const updateQueue = useCallback((changes: QueuedOrderChange[]) => {
+    queueRef.current = changes
+    setQueuedChanges(changes)
+  }, [])
+
+  // Changes left from an earlier visit show up straight away
+  useEffect(() => {
+    if (!isOfflineStoreAvailable() || !staffId) return
+    loadQueuedChanges(staffId)
+      .then(changes => {
+        updateQueue(changes)
+        setOrders(prev => applyQueuedChanges(prev, changes))
+      })
+      .catch(error => console.error('Error loading queued changes:', error))
+  }, [staffId, updateQueue, setOrders])
+
+  // Stores the change and shows it on the order right away
+  const enqueue = useCallback(async (change: QueuedOrderChange) => {
+    await saveQueuedChange(change)
+    updateQueue([...queueRef.current, change])
+    setOrders(prev => prev.map(order => applyQueuedChange(order, change)))
+  }, [updateQueue, setOrders])
+
+  const applyQueue = useCallback((orders: Order[]) => applyQueuedChanges(orders, queueRef.current), [])
+
+  // Returns whether anything was sent or dropped, so the caller knows to refetch
+  const replay = useCallback(async () => {
+    if (syncingRef.current || !isOfflineStoreAvailable() || !navigator.onLine || !staffId) return false
+    syncingRef.current = true
+
+    try {
+      const changes = await loadQueuedChanges(staffId)
+      if (changes.length === 0) return false
+
+      setSyncing(true)
+      const { synced, discarded } = await replayQueuedChanges(changes, role)
+      const handledIds = new Set([...synced, ...discarded.map(({ change }) => change)].map(change => change.id))
+      updateQueue(queueRef.current.filter(change => !handledIds.has(change.id)))
+
+      if (synced.length > 0) {
+        toast({
+          title: "Offline Changes Synced",
+          description: `${synced.length} change${synced.length === 1 ? '' : 's'} made offline ${synced.length === 1 ? 'was' : 'were'} saved`,
+        })
+      }
+      if (discarded.length > 0) {
+        const listed = discarded
+          .slice(0, MAX_LISTED_DISCARDS)
+          .map(({ change, reason }) => `#${change.order_number}: ${reason}`)
+        if (discarded.length > MAX_LISTED_DISCARDS) listed.push(`and ${discarded.length - MAX_LISTED_DISCARDS} more`)
+        toast({
+          title: `${discarded.length} Offline Change${discarded.length === 1 ? '' : 's'} Not Saved`,
+          description: listed.join('. '),
+          variant: "destructive",
+        })
+      }
+      return handledIds.size > 0
+    } catch (error) {
+      console.error('Error replaying offline changes:', error)
+      return false
+    } finally {
+      syncingRef.current = false
+      setSyncing(false)
+    }
+  }, [staffId, role, updateQueue, toast])
+
+  return { queuedChanges, syncing, enqueue, applyQueue, replay }
+}
@@ -0,0 +1,42 @@
+"use client"
+
+import { useCallback, useEffect, useState } from 'react'
+import { Order } from '@/types/orders'
+import { fetchAllOrders, isOrdersBackendConfigured } from '@/lib/orders-api'
+import { useToast } from '@/hooks/use-toast'
+
+// All orders placed in [from, to), loaded once per range for reports
+export function useOrderRange(from: Date, to: Date) {
+  const [orders, setOrders] = useState<Order[]>([])
+  const [loading, setLoading] = useState(true)
+  const { toast } = useToast()
+  const fromTime = from.getTime()
+  const toTime = to.getTime()
+
+  const refresh = useCallback(async () => {
+    if (!isOrdersBackendConfigured) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setOrders(await fetchAllOrders({ from: new Date(fromTime), to: new Date(toTime) }))
+    } catch (error) {
+      console.error('Error fetching orders:', error)
+      toast({
+        title: "Error",
+        description: "Failed to fetch orders. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [fromTime, toTime, toast])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  return { orders, loading, refresh }
+}
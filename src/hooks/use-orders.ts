@@ -0,0 +1,435 @@
+"use client"
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { Order, OrderPriority, OrderStatus, StaffRole, ORDER_STATUS_LABELS, ORDER_PRIORITY_LABELS } from '@/types/orders'
+import { QueuedOrderChange } from '@/types/offline'
+import {
+  fetchOrders as fetchOrdersPage,
+  updateOrderStatus as saveOrderStatus,
+  updateOrderPriority as saveOrderPriority,
+  editOrder,
+  createOrder,
+  markOrderPaid as saveOrderPaid,
+  recordRefund as saveRefund,
+  isOrdersBackendConfigured,
+  ORDERS_PAGE_SIZE,
+  OrderTransitionError
+} from '@/lib/orders-api'
+import { applyOrdersChange, OrdersChange } from '@/lib/realtime-orders'
+import { diffOrderEdit, OrderEditDraft } from '@/lib/order-edits'
+import { NewOrderDraft } from '@/lib/order-entry'
+import { isNetworkError, queuePriorityChange, queueStatusChange } from '@/lib/offline-queue'
+import { isOfflineStoreAvailable, loadCachedOrders, saveCachedOrders } from '@/lib/offline-store'
+import { useToast } from '@/hooks/use-toast'
+import { useRealtimeOrders } from '@/hooks/use-realtime-orders'
+import { useOfflineQueue } from '@/hooks/use-offline-queue'
+
+interface UseOrdersOptions {
+  // Shown as who raised a priority flag while the change waits to be sent; the server
+  // records the signed-in staff member itself
+  actor?: string | null
+  // Signed-in staff member's id; changes queued offline are only sent by their own session
+  staffId?: string | null
+  // Checked before a change is sent; the database enforces the same rules
+  role?: StaffRole | null
+}
+
+// Orders are written to the device's cache at most this often
+const CACHE_SAVE_DELAY = 1000
+
+// Live orders list shared by the dashboard and the kitchen display
+export function useOrders({ actor = null, staffId = null, role = null }: UseOrdersOptions = {}) {
+  const [orders, setOrders] = useState<Order[]>([])
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [hasMore, setHasMore] = useState(false)
+  const [updatingOrder, setUpdatingOrder] = useState<string | null>(null)
+  const loadedCount = useRef(0)
+  // Set once real orders are on screen, so the empty initial list never overwrites the cache
+  const hasLoadedOrders = useRef(false)
+  const { toast } = useToast()
+  const { queuedChanges, syncing, enqueue, applyQueue, replay } = useOfflineQueue({ setOrders, staffId, role })
+
+  // Without a connection the dashboard keeps running on the last orders this device saw
+  const showCachedOrders = useCallback(async () => {
+    if (!isOfflineStoreAvailable()) return false
+
+    try {
+      const cached = await loadCachedOrders()
+      if (cached.length === 0) return false
+
+      loadedCount.current = cached.length
+      hasLoadedOrders.current = true
+      setHasMore(false)
+      setOrders(applyQueue(cached))
+      return true
+    } catch (error) {
+      console.error('Error reading cached orders:', error)
+      return false
+    }
+  }, [applyQueue])
+
+  // Silent fetches reconcile in the background without swapping the grid for the spinner.
+  // They reload as many orders as are currently shown so "load more" pages are kept.
+  const fetchOrders = useCallback(async ({ silent = false }: { silent?: boolean } = {}) => {
+    if (!isOrdersBackendConfigured) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      if (!silent) setLoading(true)
+      const limit = Math.max(ORDERS_PAGE_SIZE, loadedCount.current)
+      const ordersWithItems = await fetchOrdersPage({ limit })
+
+      loadedCount.current = ordersWithItems.length
+      hasLoadedOrders.current = true
+      setHasMore(ordersWithItems.length === limit)
+      // Changes still waiting to be sent stay visible over the server's copy
+      setOrders(applyQueue(ordersWithItems))
+    } catch (error) {
+      if (isNetworkError(error) && await showCachedOrders()) {
+        if (!silent) {
+          toast({
+            title: "Offline",
+            description: "Showing the orders saved on this device. Changes will be sent when the connection is back.",
+          })
+        }
+        return
+      }
+      console.error('Error fetching orders:', error)
+      toast({
+        title: "Error",
+        description: "Failed to fetch orders. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [toast, applyQueue, showCachedOrders])
+
+  // Fetches pages older than the ones shown and adds them below
+  const appendOlderOrders = useCallback(async (fetchOlder: () => Promise<{ orders: Order[]; hasMore: boolean }>) => {
+    try {
+      setLoadingMore(true)
+      const { orders: olderOrders, hasMore: moreAvailable } = await fetchOlder()
+
+      loadedCount.current += olderOrders.length
+      setHasMore(moreAvailable)
+      setOrders(prev => {
+        const knownIds = new Set(prev.map(order => order.id))
+        return [...prev, ...olderOrders.filter(order => !knownIds.has(order.id))]
+      })
+    } catch (error) {
+      console.error('Error fetching orders:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load older orders. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoadingMore(false)
+    }
+  }, [toast])
+
+  const loadMoreOrders = useCallback(() => appendOlderOrders(async () => {
+    const olderOrders = await fetchOrdersPage({ offset: loadedCount.current })
+    return { orders: olderOrders, hasMore: olderOrders.length === ORDERS_PAGE_SIZE }
+  }), [appendOlderOrders])
+
+  /**
+   * Loads every order placed since `since`, so a date filter on the grid covers the
+   * whole range. Call it only while the oldest order shown is newer than `since`:
+   * the orders shown are then the newest of that range and the offset lines up.
+   */
+  const loadOrdersSince = useCallback((since: Date) => appendOlderOrders(async () => {
+    const olderOrders: Order[] = []
+    for (;;) {
+      const page = await fetchOrdersPage({ from: since, offset: loadedCount.current + olderOrders.length })
+      olderOrders.push(...page)
+      if (page.length < ORDERS_PAGE_SIZE) break
+    }
+    // Orders placed before `since` may still exist
+    return { orders: olderOrders, hasMore: true }
+  }), [appendOlderOrders])
+
+  useEffect(() => {
+    fetchOrders()
+  }, [fetchOrders])
+
+  // Keeps the device's copy current with realtime changes and anything queued
+  useEffect(() => {
+    if (!hasLoadedOrders.current || !isOfflineStoreAvailable()) return
+    const timer = setTimeout(() => {
+      saveCachedOrders(orders).catch(error => console.error('Error caching orders:', error))
+    }, CACHE_SAVE_DELAY)
+    return () => clearTimeout(timer)
+  }, [orders])
+
+  const syncOfflineChanges = useCallback(async () => {
+    if (await replay()) fetchOrders({ silent: true })
+  }, [replay, fetchOrders])
+
+  // Sends changes left from an earlier visit, and anything queued once the browser is back online
+  useEffect(() => {
+    syncOfflineChanges()
+    window.addEventListener('online', syncOfflineChanges)
+    return () => window.removeEventListener('online', syncOfflineChanges)
+  }, [syncOfflineChanges])
+
+  const handleRealtimeChange = useCallback((change: OrdersChange) => {
+    setOrders(prev => applyOrdersChange(prev, change))
+  }, [])
+
+  // The browser may not have noticed the drop, so queued changes are sent here too
+  const handleRealtimeReconnect = useCallback(async () => {
+    await replay()
+    fetchOrders({ silent: true })
+  }, [replay, fetchOrders])
+
+  // Keeps the change on this device, shows it on the order and sends it once the connection is back
+  const queueOfflineChange = useCallback(async (change: QueuedOrderChange, description: string) => {
+    try {
+      await enqueue(change)
+      toast({ title: "Saved Offline", description })
+      return true
+    } catch (error) {
+      console.error('Error queueing offline change:', error)
+      toast({
+        title: "Error",
+        description: "You are offline and the change could not be kept on this device.",
+        variant: "destructive",
+      })
+      return false
+    }
+  }, [enqueue, toast])
+
+  const { status: realtimeStatus } = useRealtimeOrders({
+    onChange: handleRealtimeChange,
+    onReconnect: handleRealtimeReconnect
+  })
+
+  const updateOrderStatus = useCallback(async (orderId: string, newStatus: OrderStatus, notes?: string) => {
+    const order = orders.find(o => o.id === orderId)
+    if (!isOrdersBackendConfigured || !order) return false
+
+    try {
+      setUpdatingOrder(orderId)
+      
+      const historyEntry = await saveOrderStatus(orderId, newStatus, {
+        from: order.order_status,
+        notes: notes?.trim() || null,
+        role
+      })
+
+      // The realtime echo of the same row is deduplicated by id
+      setOrders(prev => prev.map(order => 
+        order.id === orderId 
+          ? {
+              ...order,
+              order_status: newStatus,
+              updated_at: historyEntry.created_at,
+              status_history: [
+                ...(order.status_history ?? []).filter(entry => entry.id !== historyEntry.id),
+                historyEntry
+              ]
+            }
+          : order
+      ))
+
+      toast({
+        title: "Order Updated",
+        description: `Order status changed to ${ORDER_STATUS_LABELS[newStatus]}`,
+      })
+      return true
+    } catch (error) {
+      if (isNetworkError(error)) {
+        return queueOfflineChange(
+          queueStatusChange(order, newStatus, notes?.trim() || null, actor?.trim() || null, staffId),
+          `Order #${order.order_number} will move to ${ORDER_STATUS_LABELS[newStatus]} when the connection is back`
+        )
+      }
+      console.error('Error updating order:', error)
+      toast({
+        title: "Error",
+        description: error instanceof OrderTransitionError
+          ? error.message
+          : "Failed to update order status. Please try again.",
+        variant: "destructive",
+      })
+      return false
+    } finally {
+      setUpdatingOrder(null)
+    }
+  }, [orders, toast, actor, staffId, role, queueOfflineChange])
+
+  const updateOrderPriority = useCallback(async (orderId: string, priority: OrderPriority) => {
+    const order = orders.find(o => o.id === orderId)
+    if (!isOrdersBackendConfigured || !order) return false
+
+    try {
+      const changes = await saveOrderPriority(orderId, priority)
+      setOrders(prev => prev.map(o => o.id === orderId ? { ...o, ...changes } : o))
+
+      toast({
+        title: priority === 'normal' ? "Priority Cleared" : `Marked ${ORDER_PRIORITY_LABELS[priority]} Priority`,
+        description: priority === 'normal'
+          ? "Order returned to normal priority"
+          : `Order flagged as ${ORDER_PRIORITY_LABELS[priority].toLowerCase()} priority`,
+      })
+      return true
+    } catch (error) {
+      if (isNetworkError(error)) {
+        return queueOfflineChange(
+          queuePriorityChange(order, priority, actor?.trim() || null, staffId),
+          `Order #${order.order_number} will be set to ${ORDER_PRIORITY_LABELS[priority].toLowerCase()} priority when the connection is back`
+        )
+      }
+      console.error('Error updating priority:', error)
+      toast({
+        title: "Error",
+        description: error instanceof OrderTransitionError
+          ? error.message
+          : "Failed to update order priority. Please try again.",
+        variant: "destructive",
+      })
+      return false
+    }
+  }, [orders, toast, actor, staffId, queueOfflineChange])
+
+  // `order` is the copy the edit was made against; a newer version on the server rejects the save
+  const saveOrderEdit = useCallback(async (order: Order, draft: OrderEditDraft) => {
+    if (!isOrdersBackendConfigured) return false
+    const orderId = order.id
+
+    const changes = diffOrderEdit(order, draft)
+    if (changes.length === 0) return true
+
+    try {
+      setUpdatingOrder(orderId)
+
+      const updatedOrder = await editOrder(orderId, draft, { expectedUpdatedAt: order.updated_at })
+      setOrders(prev => prev.map(o => o.id === orderId ? updatedOrder : o))
+
+      toast({
+        title: "Order Updated",
+        description: `${changes.length} change${changes.length === 1 ? '' : 's'} saved to order #${order.order_number}`,
+      })
+      return true
+    } catch (error) {
+      console.error('Error editing order:', error)
+      toast({
+        title: "Error",
+        description: error instanceof OrderTransitionError
+          ? error.message
+          : "Failed to save order changes. Please try again.",
+        variant: "destructive",
+      })
+      return false
+    } finally {
+      setUpdatingOrder(null)
+    }
+  }, [toast])
+
+  const placeOrder = useCallback(async (draft: NewOrderDraft) => {
+    if (!isOrdersBackendConfigured) return null
+
+    try {
+      const order = await createOrder(draft)
+      // The realtime insert for the same order is deduplicated by id
+      setOrders(prev => [order, ...prev.filter(o => o.id !== order.id)])
+
+      toast({
+        title: "Order Created",
+        description: `Order #${order.order_number} for ${order.customer_name} is waiting for confirmation`,
+      })
+      return order
+    } catch (error) {
+      console.error('Error creating order:', error)
+      toast({
+        title: "Error",
+        description: error instanceof OrderTransitionError
+          ? error.message
+          : "Failed to create order. Please try again.",
+        variant: "destructive",
+      })
+      return null
+    }
+  }, [toast])
+
+  const markOrderPaid = useCallback(async (order: Order) => {
+    if (!isOrdersBackendConfigured) return false
+
+    try {
+      setUpdatingOrder(order.id)
+      const updatedOrder = await saveOrderPaid(order.id)
+      setOrders(prev => prev.map(o => o.id === order.id ? updatedOrder : o))
+
+      toast({
+        title: "Payment Recorded",
+        description: `Order #${order.order_number} is marked paid`,
+      })
+      return true
+    } catch (error) {
+      console.error('Error marking order paid:', error)
+      toast({
+        title: "Error",
+        description: error instanceof OrderTransitionError
+          ? error.message
+          : "Failed to record the payment. Please try again.",
+        variant: "destructive",
+      })
+      return false
+    } finally {
+      setUpdatingOrder(null)
+    }
+  }, [toast])
+
+  const recordRefund = useCallback(async (order: Order, amount: number, reason: string) => {
+    if (!isOrdersBackendConfigured) return false
+
+    try {
+      setUpdatingOrder(order.id)
+      const updatedOrder = await saveRefund(order.id, amount, reason)
+      setOrders(prev => prev.map(o => o.id === order.id ? updatedOrder : o))
+
+      toast({
+        title: "Refund Recorded",
+        description: `Rs ${amount.toFixed(2)} refunded on order #${order.order_number}`,
+      })
+      return true
+    } catch (error) {
+      console.error('Error recording refund:', error)
+      toast({
+        title: "Error",
+        description: error instanceof OrderTransitionError
+          ? error.message
+          : "Failed to record the refund. Please try again.",
+        variant: "destructive",
+      })
+      return false
+    } finally {
+      setUpdatingOrder(null)
+    }
+  }, [toast])
+
+  return {
+    orders,
+    setOrders,
+    loading,
+    loadingMore,
+    hasMore,
+    loadMoreOrders,
+    loadOrdersSince,
+    realtimeStatus,
+    queuedChanges,
+    syncing,
+    updatingOrder,
+    updateOrderStatus,
+    updateOrderPriority,
+    saveOrderEdit,
+    placeOrder,
+    markOrderPaid,
+    recordRefund
+  }
+}
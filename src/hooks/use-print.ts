@@ -0,0 +1,41 @@
+"use client"
+
+import { useCallback, useEffect, useState } from 'react'
+import { Order } from '@/types/orders'
+import { ReceiptLayout, buildReceipt, renderEscPos } from '@/lib/receipts'
+import { downloadBlob } from '@/lib/order-export'
+import type { PrintJob } from '@/components/print/order-print'
+
+const AUTO_PRINT_KEY = 'boss-pizza-admin:auto-print'
+
+export function usePrint() {
+  const [printJob, setPrintJob] = useState<PrintJob | null>(null)
+  // Kitchen tickets print automatically when an order is confirmed unless turned off on this device
+  const [autoPrint, setAutoPrintState] = useState(true)
+
+  useEffect(() => {
+    setAutoPrintState(window.localStorage.getItem(AUTO_PRINT_KEY) !== 'off')
+  }, [])
+
+  const setAutoPrint = useCallback((enabled: boolean) => {
+    setAutoPrintState(enabled)
+    window.localStorage.setItem(AUTO_PRINT_KEY, enabled ? 'on' : 'off')
+  }, [])
+
+  const printOrders = useCallback((orders: Order[], layouts: ReceiptLayout[]) => {
+    if (orders.length === 0 || layouts.length === 0) return
+    setPrintJob({ orders, layouts })
+  }, [])
+
+  const finishPrint = useCallback(() => {
+    setPrintJob(null)
+  }, [])
+
+  return { printJob, printOrders, finishPrint, autoPrint, setAutoPrint }
+}
+
+// Saves the ESC/POS rendering so it can be sent to a thermal printer (e.g. `cat file > /dev/usb/lp0`)
+export function downloadEscPos(order: Order, layout: ReceiptLayout) {
+  const bytes = renderEscPos(buildReceipt(order, layout))
+  downloadBlob(new Blob([bytes], { type: 'application/octet-stream' }), `order-${order.order_number}-${layout}.escpos`)
+}
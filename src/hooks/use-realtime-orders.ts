@@ -0,0 +1,135 @@
+"use client"
+
+import { useEffect, useRef, useState } from 'react'
+import type { RealtimeChannel } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase'
+import { OrdersChange } from '@/lib/realtime-orders'
+
+export type RealtimeStatus = 'connecting' | 'live' | 'reconnecting' | 'offline'
+
+interface RealtimeOrdersOptions {
+  onChange: (change: OrdersChange) => void
+  // Called after the channel comes back from a drop so missed changes can be refetched
+  onReconnect: () => void
+}
+
+const INITIAL_RETRY_DELAY = 1000
+const MAX_RETRY_DELAY = 30000
+
+function getRetryDelay(attempt: number) {
+  const delay = Math.min(INITIAL_RETRY_DELAY * 2 ** attempt, MAX_RETRY_DELAY)
+  // Jitter so several tablets don't reconnect in lockstep
+  return delay / 2 + Math.random() * (delay / 2)
+}
+
+export function useRealtimeOrders({ onChange, onReconnect }: RealtimeOrdersOptions) {
+  const [status, setStatus] = useState<RealtimeStatus>(supabase ? 'connecting' : 'offline')
+
+  // Keep the latest callbacks without tearing down the channel on every render
+  const onChangeRef = useRef(onChange)
+  const onReconnectRef = useRef(onReconnect)
+  useEffect(() => {
+    onChangeRef.current = onChange
+    onReconnectRef.current = onReconnect
+  }, [onChange, onReconnect])
+
+  useEffect(() => {
+    const client = supabase
+    if (!client) return
+
+    let channel: RealtimeChannel | null = null
+    let retryTimer: ReturnType<typeof setTimeout> | null = null
+    let attempt = 0
+    let isLive = false
+    let hasConnected = false
+    let disposed = false
+
+    const teardown = () => {
+      if (channel) {
+        client.removeChannel(channel)
+        channel = null
+      }
+    }
+
+    const scheduleRetry = () => {
+      if (disposed || retryTimer) return
+      isLive = false
+      teardown()
+      setStatus(navigator.onLine ? 'reconnecting' : 'offline')
+      retryTimer = setTimeout(() => {
+        retryTimer = null
+        connect()
+      }, getRetryDelay(attempt))
+      attempt += 1
+    }
+
+    const connect = () => {
+      if (disposed) return
+      teardown()
+
+      const current = client
+        .channel('orders-feed')
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'orders' }, payload =>
+          onChangeRef.current({ table: 'orders', payload } as OrdersChange)
+        )
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'order_items' }, payload =>
+          onChangeRef.current({ table: 'order_items', payload } as OrdersChange)
+        )
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'order_status_history' }, payload =>
+          onChangeRef.current({ table: 'order_status_history', payload } as OrdersChange)
+        )
+        .subscribe((channelStatus, error) => {
+          // Ignore late callbacks from a channel that has already been replaced
+          if (disposed || channel !== current) return
+
+          switch (channelStatus) {
+            case 'SUBSCRIBED':
+              attempt = 0
+              isLive = true
+              setStatus('live')
+              // Anything that changed while we were disconnected never reached this channel
+              if (hasConnected) onReconnectRef.current()
+              hasConnected = true
+              break
+            case 'CHANNEL_ERROR':
+            case 'TIMED_OUT':
+            case 'CLOSED':
+              if (error) console.warn('Realtime channel dropped:', error)
+              scheduleRetry()
+              break
+          }
+        })
+      channel = current
+    }
+
+    const handleOnline = () => {
+      if (isLive) return
+      // Skip the backoff wait once the browser says the network is back
+      if (retryTimer) {
+        clearTimeout(retryTimer)
+        retryTimer = null
+      }
+      attempt = 0
+      connect()
+    }
+
+    const handleOffline = () => {
+      isLive = false
+      setStatus('offline')
+    }
+
+    connect()
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+
+    return () => {
+      disposed = true
+      if (retryTimer) clearTimeout(retryTimer)
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+      teardown()
+    }
+  }, [])
+
+  return { status }
+}
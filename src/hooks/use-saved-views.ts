@@ -0,0 +1,40 @@
+"use client"
+
+import { useCallback, useEffect, useState } from 'react'
+import { fetchSavedViews } from '@/lib/saved-views-api'
+import { isOrdersBackendConfigured } from '@/lib/orders-api'
+import { useToast } from '@/hooks/use-toast'
+import { SavedOrderView } from '@/types/orders'
+
+// The signed-in staff member's saved order views
+export function useSavedViews() {
+  const [views, setViews] = useState<SavedOrderView[]>([])
+  const [loading, setLoading] = useState(true)
+  const { toast } = useToast()
+
+  const refresh = useCallback(async () => {
+    if (!isOrdersBackendConfigured) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      setViews(await fetchSavedViews())
+    } catch (error) {
+      console.error('Error fetching saved views:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load saved views. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  return { views, loading, refresh }
+}
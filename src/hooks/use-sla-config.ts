@@ -0,0 +1,61 @@
+"use client"
+
+import { useCallback, useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { DEFAULT_SLA_MINUTES, SlaConfig } from '@/lib/sla'
+import { fetchStoreSettings, saveSlaMinutes } from '@/lib/settings-api'
+import { OrderTransitionError, isOrdersBackendConfigured } from '@/lib/orders-api'
+import { useToast } from '@/hooks/use-toast'
+import { StoreSettings } from '@/types/settings'
+
+// Overdue limits from store_settings, kept in step with changes made on other screens
+export function useSlaConfig() {
+  const [slaConfig, setSlaConfigState] = useState<SlaConfig>(DEFAULT_SLA_MINUTES)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (!isOrdersBackendConfigured) return
+    fetchStoreSettings()
+      // Stored as a whole so statuses deliberately left without a limit stay that way
+      .then(settings => setSlaConfigState(settings.sla_minutes))
+      .catch(error => console.error('Error fetching SLA settings:', error))
+  }, [])
+
+  useEffect(() => {
+    const client = supabase
+    if (!client) return
+
+    const channel = client
+      .channel('store-settings-feed')
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'store_settings' }, payload => {
+        setSlaConfigState((payload.new as StoreSettings).sla_minutes)
+      })
+      .subscribe()
+
+    return () => {
+      client.removeChannel(channel)
+    }
+  }, [])
+
+  const setSlaConfig = useCallback(async (config: SlaConfig) => {
+    const previous = slaConfig
+    setSlaConfigState(config)
+
+    try {
+      const settings = await saveSlaMinutes(config)
+      setSlaConfigState(settings.sla_minutes)
+    } catch (error) {
+      console.error('Error saving SLA settings:', error)
+      setSlaConfigState(previous)
+      toast({
+        title: "Error",
+        description: error instanceof OrderTransitionError
+          ? error.message
+          : "Failed to save the overdue limits. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }, [slaConfig, toast])
+
+  return { slaConfig, setSlaConfig }
+}
@@ -0,0 +1,56 @@
+"use client"
+
+import { Dispatch, SetStateAction, useEffect, useRef } from 'react'
+import { Order } from '@/types/orders'
+import { SlaConfig, getSlaBreach } from '@/lib/sla'
+import { escalateOrder, isOrdersBackendConfigured } from '@/lib/orders-api'
+import { useNow } from '@/hooks/use-now'
+
+interface SlaEscalationOptions {
+  orders: Order[]
+  slaConfig: SlaConfig
+  setOrders: Dispatch<SetStateAction<Order[]>>
+}
+
+/**
+ * Flags late orders as urgent, once per order and status so staff can lower it again
+ * by hand. The order records the status it was escalated for, so reloads and other
+ * screens leave it alone too. Every screen showing live orders runs it, so orders are
+ * escalated whichever of them is open; escalate_order checks the order is overdue
+ * before flagging it.
+ */
+export function useSlaEscalation({ orders, slaConfig, setOrders }: SlaEscalationOptions) {
+  // Escalations in flight, and ones that failed and wait for the connection to come back
+  const pending = useRef(new Set<string>())
+  const failed = useRef(new Set<string>())
+  const now = useNow()
+
+  useEffect(() => {
+    const retry = () => failed.current.clear()
+    window.addEventListener('online', retry)
+    return () => window.removeEventListener('online', retry)
+  }, [])
+
+  useEffect(() => {
+    if (!isOrdersBackendConfigured || !navigator.onLine) return
+
+    orders.forEach(order => {
+      const key = `${order.id}:${order.order_status}`
+      if (order.priority === 'urgent' || order.escalated_for_status === order.order_status) return
+      if (pending.current.has(key) || failed.current.has(key)) return
+      if (!getSlaBreach(order, slaConfig, now)) return
+
+      // The overdue notification raised by NotificationCenter covers the sound and toast
+      pending.current.add(key)
+      escalateOrder(order.id, order.order_status)
+        .then(changes => {
+          setOrders(prev => prev.map(o => o.id === order.id ? { ...o, ...changes } : o))
+        })
+        .catch(error => {
+          console.error('Error escalating order:', error)
+          failed.current.add(key)
+        })
+        .finally(() => pending.current.delete(key))
+    })
+  }, [orders, slaConfig, now, setOrders])
+}
@@ -0,0 +1,66 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { supabase } from '@/lib/supabase'
+import { fetchStaffProfile, signOutStaff } from '@/lib/auth'
+import { useToast } from '@/hooks/use-toast'
+import { StaffProfile } from '@/types/auth'
+
+// The signed-in staff member. Their name is recorded against the changes they make
+// and their role decides which actions are offered.
+export function useStaffSession() {
+  const [profile, setProfile] = useState<StaffProfile | null>(null)
+  const [loading, setLoading] = useState(true)
+  // undefined until the first auth event arrives
+  const userId = useRef<string | null | undefined>(undefined)
+  const router = useRouter()
+  const { toast } = useToast()
+
+  useEffect(() => {
+    const client = supabase
+    if (!client) {
+      setLoading(false)
+      return
+    }
+
+    const { data: { subscription } } = client.auth.onAuthStateChange((_event, session) => {
+      const nextUserId = session?.user.id ?? null
+      // Token refreshes fire this too; only reload the profile when the user changes
+      if (nextUserId === userId.current) return
+      userId.current = nextUserId
+
+      if (!nextUserId) {
+        setProfile(null)
+        setLoading(false)
+        router.replace('/login')
+        return
+      }
+
+      // Supabase calls made inside the callback would wait on the auth lock, so defer
+      setTimeout(() => {
+        fetchStaffProfile(client, nextUserId)
+          .then(setProfile)
+          .catch(error => console.error('Error loading staff profile:', error))
+          .finally(() => setLoading(false))
+      }, 0)
+    })
+
+    return () => subscription.unsubscribe()
+  }, [router])
+
+  const signOut = useCallback(async () => {
+    try {
+      await signOutStaff()
+    } catch (error) {
+      console.error('Error signing out:', error)
+      toast({
+        title: "Error",
+        description: "Failed to sign out. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }, [toast])
+
+  return { profile, role: profile?.role ?? null, loading, signOut }
+}
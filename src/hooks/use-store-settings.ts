@@ -0,0 +1,20 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { fetchStoreSettings } from '@/lib/settings-api'
+import { isOrdersBackendConfigured } from '@/lib/orders-api'
+import { StoreSettings } from '@/types/settings'
+
+// Null until loaded, or when the settings could not be read
+export function useStoreSettings() {
+  const [settings, setSettings] = useState<StoreSettings | null>(null)
+
+  useEffect(() => {
+    if (!isOrdersBackendConfigured) return
+    fetchStoreSettings()
+      .then(setSettings)
+      .catch(error => console.error('Error fetching store settings:', error))
+  }, [])
+
+  return { settings }
+}
@@ -0,0 +1,115 @@
+import { eachDayOfInterval, format, subMilliseconds } from 'date-fns'
+import { Order } from '@/types/orders'
+import { DateRange } from '@/lib/date-ranges'
+
+export interface SalesSummary {
+  orderCount: number
+  completedCount: number
+  cancelledCount: number
+  // Share of all orders in the range that were cancelled, 0-1
+  cancellationRate: number
+  revenue: number
+  averageOrderValue: number
+  taxTotal: number
+  deliveryFeeTotal: number
+}
+
+export interface RevenueBucket {
+  label: string
+  revenue: number
+  orders: number
+}
+
+export interface ItemSales {
+  name: string
+  quantity: number
+  revenue: number
+}
+
+export interface PaymentMethodSales {
+  method: string
+  orders: number
+  revenue: number
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100
+
+// Cancelled orders never brought in money, so every revenue figure leaves them out
+export const isRevenueOrder = (order: Order) => order.order_status !== 'cancelled'
+
+export function summarizeSales(orders: Order[]): SalesSummary {
+  const revenueOrders = orders.filter(isRevenueOrder)
+  const sum = (pick: (order: Order) => number) => roundMoney(revenueOrders.reduce((total, order) => total + pick(order), 0))
+  const revenue = sum(order => order.total_amount)
+  const cancelledCount = orders.length - revenueOrders.length
+
+  return {
+    orderCount: orders.length,
+    completedCount: revenueOrders.filter(order => order.order_status === 'delivered').length,
+    cancelledCount,
+    cancellationRate: orders.length > 0 ? cancelledCount / orders.length : 0,
+    revenue,
+    averageOrderValue: revenueOrders.length > 0 ? roundMoney(revenue / revenueOrders.length) : 0,
+    taxTotal: sum(order => order.tax_amount),
+    deliveryFeeTotal: sum(order => order.delivery_fee)
+  }
+}
+
+// One bucket per calendar day in the range, including days without orders
+export function getRevenueByDay(orders: Order[], range: DateRange): RevenueBucket[] {
+  const days = eachDayOfInterval({ start: range.from, end: subMilliseconds(range.to, 1) })
+  const buckets = new Map(days.map(day => [format(day, 'yyyy-MM-dd'), { label: format(day, 'MMM d'), revenue: 0, orders: 0 }]))
+
+  orders.filter(isRevenueOrder).forEach(order => {
+    const bucket = buckets.get(format(new Date(order.created_at), 'yyyy-MM-dd'))
+    if (!bucket) return
+    bucket.revenue = roundMoney(bucket.revenue + order.total_amount)
+    bucket.orders += 1
+  })
+
+  return [...buckets.values()]
+}
+
+// Totals per hour of the day across the whole range, to show the busy hours
+export function getRevenueByHour(orders: Order[]): RevenueBucket[] {
+  const buckets = Array.from({ length: 24 }, (_, hour) => ({ label: `${String(hour).padStart(2, '0')}:00`, revenue: 0, orders: 0 }))
+
+  orders.filter(isRevenueOrder).forEach(order => {
+    const bucket = buckets[new Date(order.created_at).getHours()]
+    bucket.revenue = roundMoney(bucket.revenue + order.total_amount)
+    bucket.orders += 1
+  })
+
+  return buckets
+}
+
+// Items grouped by name, since web and staff orders use different item ids for the same dish
+export function getTopItems(orders: Order[], limit = 10): ItemSales[] {
+  const items = new Map<string, ItemSales>()
+
+  orders.filter(isRevenueOrder).flatMap(order => order.items).forEach(item => {
+    const key = item.item_name.trim().toLowerCase()
+    const entry = items.get(key) ?? { name: item.item_name.trim(), quantity: 0, revenue: 0 }
+    entry.quantity += item.quantity
+    entry.revenue = roundMoney(entry.revenue + item.total_price)
+    items.set(key, entry)
+  })
+
+  return [...items.values()]
+    .sort((a, b) => b.quantity - a.quantity || b.revenue - a.revenue)
+    .slice(0, limit)
+}
+
+export function getPaymentMethodSplit(orders: Order[]): PaymentMethodSales[] {
+  const methods = new Map<string, PaymentMethodSales>()
+
+  orders.filter(isRevenueOrder).forEach(order => {
+    const method = order.payment_method || 'unknown'
+    const entry = methods.get(method) ?? { method, orders: 0, revenue: 0 }
+    entry.orders += 1
+    entry.revenue = roundMoney(entry.revenue + order.total_amount)
+    methods.set(method, entry)
+  })
+
+  return [...methods.values()].sort((a, b) => b.revenue - a.revenue)
+}
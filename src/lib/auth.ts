@@ -0,0 +1,96 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { requireSupabase, syncAccessTokenCookie } from '@/lib/supabase'
+import { clearOfflineStore, isOfflineStoreAvailable } from '@/lib/offline-store'
+import { NOTIFICATIONS_STORAGE_KEY } from '@/lib/order-events'
+import { StaffProfile } from '@/types/auth'
+import { StaffRole } from '@/types/orders'
+
+// Screens each role may open. Routes not listed here are open to any signed-in staff member.
+export const ROUTE_ROLES: Record<string, StaffRole[]> = {
+  '/orders': ['owner', 'manager'],
+  '/kitchen': ['owner', 'manager', 'kitchen'],
+  '/dispatch': ['owner', 'manager', 'dispatcher'],
+  '/menu': ['owner', 'manager'],
+  '/analytics': ['owner', 'manager'],
+  '/day-close': ['owner', 'manager'],
+  '/customers': ['owner', 'manager']
+}
+
+// Where each role lands after signing in
+const HOME_ROUTES: Record<StaffRole, string> = {
+  owner: '/orders',
+  manager: '/orders',
+  kitchen: '/kitchen',
+  dispatcher: '/dispatch'
+}
+
+export function canAccessRoute(pathname: string, role: StaffRole | null): boolean {
+  const route = Object.keys(ROUTE_ROLES).find(prefix => pathname === prefix || pathname.startsWith(`${prefix}/`))
+  if (!route) return true
+  // Without a role (backend not configured) nothing is restricted
+  return !role || ROUTE_ROLES[route].includes(role)
+}
+
+export function getHomeRoute(role: StaffRole): string {
+  return HOME_ROUTES[role]
+}
+
+// Only same-site paths are followed after login
+export function getSafeRedirect(next: string | null): string | null {
+  return next && next.startsWith('/') && !next.startsWith('//') ? next : null
+}
+
+export class StaffAuthError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'StaffAuthError'
+  }
+}
+
+/**
+ * Loads the staff row for the user the client is signed in as. Returns null for
+ * users without an active staff row.
+ */
+export async function fetchStaffProfile(client: SupabaseClient, userId: string): Promise<StaffProfile | null> {
+  const { data, error } = await client
+    .from('staff')
+    .select('*')
+    .eq('id', userId)
+    .eq('is_active', true)
+    .maybeSingle()
+
+  if (error) throw error
+
+  return data as StaffProfile | null
+}
+
+export async function signInStaff(email: string, password: string): Promise<StaffProfile> {
+  const client = requireSupabase()
+  const { data, error } = await client.auth.signInWithPassword({ email, password })
+
+  if (error) throw new StaffAuthError(error.message)
+
+  const profile = await fetchStaffProfile(client, data.user.id)
+  if (!profile) {
+    await client.auth.signOut()
+    throw new StaffAuthError('This account does not have staff access')
+  }
+
+  // Set before navigating so the middleware sees the new session
+  syncAccessTokenCookie(data.session)
+  return profile
+}
+
+export async function signOutStaff() {
+  const { error } = await requireSupabase().auth.signOut()
+  syncAccessTokenCookie(null)
+
+  // Cached orders hold customer details, and queued changes would be sent by whoever signs in next
+  if (isOfflineStoreAvailable()) {
+    await clearOfflineStore().catch(storeError => console.error('Error clearing offline data:', storeError))
+  }
+  // Notifications name customers' orders too
+  window.localStorage.removeItem(NOTIFICATIONS_STORAGE_KEY)
+
+  if (error) throw error
+}
@@ -0,0 +1,42 @@
+import { requireSupabase } from '@/lib/supabase'
+import { CustomerNote } from '@/types/customers'
+
+export async function fetchCustomerNotes(): Promise<CustomerNote[]> {
+  const { data, error } = await requireSupabase()
+    .from('customer_notes')
+    .select('*')
+
+  if (error) throw error
+
+  return data as CustomerNote[]
+}
+
+// Saves the note under the customer's key; an empty note deletes it
+export async function saveCustomerNote(
+  customerKey: string,
+  notes: string,
+  actor: string | null = null
+): Promise<CustomerNote | null> {
+  const client = requireSupabase()
+
+  if (!notes.trim()) {
+    const { error } = await client.from('customer_notes').delete().eq('customer_key', customerKey)
+    if (error) throw error
+    return null
+  }
+
+  const { data, error } = await client
+    .from('customer_notes')
+    .upsert({
+      customer_key: customerKey,
+      notes: notes.trim(),
+      updated_by: actor,
+      updated_at: new Date().toISOString()
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  return data as CustomerNote
+}
@@ -0,0 +1,128 @@
+import { Order } from '@/types/orders'
+import { Customer, CustomerNote, FavouriteItem } from '@/types/customers'
+import { isRevenueOrder } from '@/lib/analytics'
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100
+
+// The last 10 digits, so +92 300 1234567 and 0300-1234567 are the same number
+export function normalizePhone(phone: string | null | undefined): string {
+  return (phone ?? '').replace(/\D/g, '').slice(-10)
+}
+
+export function normalizeEmail(email: string | null | undefined): string {
+  return (email ?? '').trim().toLowerCase()
+}
+
+// The keys an order's customer can be found under, phone first
+export function getCustomerKeys(order: Pick<Order, 'customer_phone' | 'customer_email'>): string[] {
+  const phone = normalizePhone(order.customer_phone)
+  const email = normalizeEmail(order.customer_email)
+  return [phone && `phone:${phone}`, email && `email:${email}`].filter(Boolean)
+}
+
+export function findCustomerNote(notes: CustomerNote[], keys: string[]): CustomerNote | null {
+  return notes.find(note => keys.includes(note.customer_key)) ?? null
+}
+
+const addressKey = (address: Order['delivery_address']) =>
+  [address?.street, address?.city].map(part => (part ?? '').trim().toLowerCase()).join('|')
+
+function getFavouriteItems(orders: Order[], limit: number): FavouriteItem[] {
+  const quantities = new Map<string, FavouriteItem>()
+  orders.forEach(order => order.items.forEach(item => {
+    const name = item.item_name.trim()
+    const entry = quantities.get(name.toLowerCase()) ?? { name, quantity: 0 }
+    entry.quantity += item.quantity
+    quantities.set(name.toLowerCase(), entry)
+  }))
+  return [...quantities.values()].sort((a, b) => b.quantity - a.quantity).slice(0, limit)
+}
+
+function toCustomer(orders: Order[]): Customer {
+  // Newest first, so the latest name, phone and address win
+  const sorted = [...orders].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+  const latest = sorted[0]
+  const counted = sorted.filter(isRevenueOrder)
+  const keys = [...new Set(sorted.flatMap(getCustomerKeys))]
+
+  const addresses = new Map<string, Order['delivery_address']>()
+  sorted
+    .filter(order => order.fulfillment_type !== 'pickup' && order.delivery_address?.street)
+    .forEach(order => {
+      const key = addressKey(order.delivery_address)
+      if (!addresses.has(key)) addresses.set(key, order.delivery_address)
+    })
+
+  return {
+    key: getCustomerKeys(latest)[0] ?? keys[0],
+    keys,
+    name: latest.customer_name,
+    phone: sorted.find(order => order.customer_phone)?.customer_phone ?? '',
+    email: sorted.find(order => order.customer_email)?.customer_email ?? '',
+    company: sorted.find(order => order.company)?.company ?? null,
+    order_count: counted.length,
+    lifetime_spend: roundMoney(counted.reduce((sum, order) => sum + order.total_amount - (order.refunded_amount ?? 0), 0)),
+    first_order_at: sorted[sorted.length - 1].created_at,
+    last_order_at: latest.created_at,
+    favourite_items: getFavouriteItems(counted, 5),
+    addresses: [...addresses.values()],
+    orders: sorted
+  }
+}
+
+/**
+ * Groups orders into customers. Orders sharing a phone number or an email belong
+ * to the same customer, so someone who ordered by phone and later online with
+ * the same email is counted once. Orders with neither are left out.
+ */
+export function buildCustomers(orders: Order[]): Customer[] {
+  // Union-find over order indexes, joined through shared keys
+  const parent = orders.map((_, index) => index)
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]]
+      index = parent[index]
+    }
+    return index
+  }
+
+  const firstOrderByKey = new Map<string, number>()
+  orders.forEach((order, index) => {
+    getCustomerKeys(order).forEach(key => {
+      const other = firstOrderByKey.get(key)
+      if (other === undefined) {
+        firstOrderByKey.set(key, index)
+      } else {
+        parent[find(index)] = find(other)
+      }
+    })
+  })
+
+  const groups = new Map<number, Order[]>()
+  orders.forEach((order, index) => {
+    if (getCustomerKeys(order).length === 0) return
+    const root = find(index)
+    const group = groups.get(root)
+    if (group) {
+      group.push(order)
+    } else {
+      groups.set(root, [order])
+    }
+  })
+
+  return [...groups.values()]
+    .map(toCustomer)
+    .sort((a, b) => b.lifetime_spend - a.lifetime_spend)
+}
+
+export function searchCustomers(customers: Customer[], query: string): Customer[] {
+  const term = query.trim().toLowerCase()
+  if (!term) return customers
+  const digits = term.replace(/\D/g, '')
+  return customers.filter(customer =>
+    customer.name.toLowerCase().includes(term) ||
+    customer.email.toLowerCase().includes(term) ||
+    (customer.company ?? '').toLowerCase().includes(term) ||
+    (digits.length > 0 && normalizePhone(customer.phone).includes(digits))
+  )
+}
@@ -0,0 +1,173 @@
+// How a line is highlighted: additions, removals, things the kitchen must read, and
+// keys outside the schema that are shown as-is
+export type CustomizationTone = 'normal' | 'added' | 'removed' | 'alert' | 'unknown'
+
+export interface CustomizationLine {
+  label: string
+  value: string
+  tone?: CustomizationTone
+}
+
+// The customizations the customer site and the admin record on an order item
+export interface ParsedCustomizations {
+  size?: string
+  crust?: string
+  extraToppings: string[]
+  removedToppings: string[]
+  // Each half described on its own, e.g. ['Pepperoni', 'Veggie']
+  halves?: [string, string]
+  spiceLevel?: string
+  instructions?: string
+  // Allergen names found anywhere in the customizations
+  allergens: string[]
+  // Keys outside the schema
+  unknown: CustomizationLine[]
+}
+
+type SchemaField = 'size' | 'crust' | 'extraToppings' | 'removedToppings' | 'halves' | 'spiceLevel' | 'instructions'
+
+// Keys are compared after normalizeKey, so "extraToppings" and "Extra-Toppings" both match
+const FIELD_KEYS: Record<SchemaField, string[]> = {
+  size: ['size', 'pizza_size'],
+  crust: ['crust', 'crust_type', 'base', 'dough'],
+  extraToppings: ['toppings', 'extra_toppings', 'extras', 'extra', 'add', 'add_ons', 'addons'],
+  removedToppings: ['remove', 'removed', 'removed_toppings', 'without', 'no', 'exclude', 'hold'],
+  halves: ['half_and_half', 'halves', 'half'],
+  spiceLevel: ['spice', 'spice_level', 'spiciness', 'heat'],
+  instructions: ['instructions', 'special_instructions', 'notes', 'note', 'comment', 'comments']
+}
+
+const ALLERGENS: { name: string; pattern: RegExp }[] = [
+  { name: 'Nuts', pattern: /\b(nuts?|peanuts?|almonds?|cashews?|walnuts?|pecans?|pistachios?|hazelnuts?)\b/i },
+  { name: 'Gluten', pattern: /\b(gluten|wheat|coeliac|celiac)\b/i },
+  { name: 'Dairy', pattern: /\b(dairy|lactose|milk)\b/i },
+  { name: 'Egg', pattern: /\beggs?\b/i },
+  { name: 'Shellfish', pattern: /\b(shellfish|shrimps?|prawns?|crab|lobster)\b/i },
+  { name: 'Sesame', pattern: /\bsesame\b/i },
+  { name: 'Soy', pattern: /\b(soy|soya)\b/i },
+  // A mention of an allergy the list above does not name
+  { name: 'Allergy', pattern: /\ballerg/i }
+]
+
+// "extra_toppings" / "extraToppings" -> "Extra toppings"
+function humanizeKey(key: string) {
+  const words = key
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .trim()
+    .toLowerCase()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+const normalizeKey = (key: string) => humanizeKey(key).toLowerCase().replace(/\s+/g, '_')
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (Array.isArray(value)) return value.map(formatValue).filter(Boolean).join(', ')
+  if (typeof value === 'object') {
+    const { name } = value as { name?: unknown }
+    if (typeof name === 'string') return name
+    return Object.entries(value as Record<string, unknown>)
+      .map(([key, nested]) => `${humanizeKey(key)}: ${formatValue(nested)}`)
+      .join('; ')
+  }
+  return String(value)
+}
+
+// Lists may arrive as arrays, comma-separated strings or { name } objects
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.flatMap(toList)
+  if (typeof value === 'string') return value.split(',').map(part => part.trim()).filter(Boolean)
+  const formatted = formatValue(value)
+  return formatted ? [formatted] : []
+}
+
+function toHalves(value: unknown): [string, string] | undefined {
+  let sides: unknown[] = []
+  if (Array.isArray(value)) {
+    sides = value
+  } else if (typeof value === 'string') {
+    sides = value.split(/\s*[/|]\s*/)
+  } else if (value && typeof value === 'object') {
+    sides = Object.values(value as Record<string, unknown>)
+  }
+  const [first, second] = sides.map(side => toList(side).join(', '))
+  return first && second ? [first, second] : undefined
+}
+
+const FIELD_BY_KEY = new Map(
+  (Object.entries(FIELD_KEYS) as [SchemaField, string[]][]).flatMap(([field, keys]) => keys.map(key => [key, field] as const))
+)
+
+/**
+ * Reads an order item's customizations JSON into the typed schema. Nothing is
+ * dropped: keys the schema does not know end up in `unknown`.
+ */
+export function parseCustomizations(customizations: Record<string, unknown> | null | undefined): ParsedCustomizations {
+  const parsed: ParsedCustomizations = { extraToppings: [], removedToppings: [], allergens: [], unknown: [] }
+  if (!customizations) return parsed
+
+  const text: string[] = []
+  Object.entries(customizations).forEach(([key, value]) => {
+    const formatted = formatValue(value)
+    if (formatted === '') return
+    text.push(formatted)
+
+    switch (FIELD_BY_KEY.get(normalizeKey(key))) {
+      case 'size':
+        parsed.size = formatted
+        break
+      case 'crust':
+        parsed.crust = formatted
+        break
+      case 'extraToppings':
+        parsed.extraToppings.push(...toList(value))
+        break
+      case 'removedToppings':
+        parsed.removedToppings.push(...toList(value))
+        break
+      case 'halves':
+        parsed.halves = toHalves(value)
+        if (!parsed.halves) parsed.unknown.push({ label: humanizeKey(key), value: formatted, tone: 'unknown' })
+        break
+      case 'spiceLevel':
+        parsed.spiceLevel = formatted
+        break
+      case 'instructions':
+        parsed.instructions = [parsed.instructions, formatted].filter(Boolean).join('. ')
+        break
+      default:
+        parsed.unknown.push({ label: humanizeKey(key), value: formatted, tone: 'unknown' })
+    }
+  })
+
+  // A removed ingredient is not a risk on its own, but "no nuts" tells the kitchen to take care
+  parsed.allergens = ALLERGENS
+    .filter(allergen => text.some(value => allergen.pattern.test(value)))
+    .map(allergen => allergen.name)
+  if (parsed.allergens.length > 1) parsed.allergens = parsed.allergens.filter(name => name !== 'Allergy')
+
+  return parsed
+}
+
+// The parsed schema as display lines, in the order the kitchen reads them
+export function describeCustomizations(parsed: ParsedCustomizations): CustomizationLine[] {
+  const lines: CustomizationLine[] = []
+  if (parsed.size) lines.push({ label: 'Size', value: parsed.size })
+  if (parsed.crust) lines.push({ label: 'Crust', value: parsed.crust })
+  if (parsed.halves) {
+    lines.push({ label: 'Half 1', value: parsed.halves[0] })
+    lines.push({ label: 'Half 2', value: parsed.halves[1] })
+  }
+  if (parsed.extraToppings.length > 0) lines.push({ label: 'Extra', value: parsed.extraToppings.join(', '), tone: 'added' })
+  if (parsed.removedToppings.length > 0) lines.push({ label: 'No', value: parsed.removedToppings.join(', '), tone: 'removed' })
+  if (parsed.spiceLevel) lines.push({ label: 'Spice', value: parsed.spiceLevel })
+  if (parsed.instructions) lines.push({ label: 'Instructions', value: parsed.instructions, tone: 'alert' })
+  return [...lines, ...parsed.unknown]
+}
+
+// Turns an order item's customizations JSON into readable label/value lines, skipping empty values
+export function formatCustomizations(customizations: Record<string, unknown> | null | undefined): CustomizationLine[] {
+  return describeCustomizations(parseCustomizations(customizations))
+}
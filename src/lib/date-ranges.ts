@@ -0,0 +1,115 @@
+// Half-open range [from, to) as used by fetchOrders
+export interface DateRange {
+  from: Date
+  to: Date
+}
+
+export type DateRangePreset = 'today' | 'yesterday' | 'last_7_days' | 'last_30_days' | 'this_month'
+
+export const DATE_RANGE_PRESET_LABELS: Record<DateRangePreset, string> = {
+  today: 'Today',
+  yesterday: 'Yesterday',
+  last_7_days: 'Last 7 days',
+  last_30_days: 'Last 30 days',
+  this_month: 'This month'
+}
+
+// Used until store_settings has loaded
+export const BROWSER_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone
+
+const STORE_DATE_PATTERN = /^(\d{4,})-(\d{2})-(\d{2})$/
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+// Wall-clock fields of the instant in the zone, as a UTC timestamp
+function wallClockTime(date: Date, timeZone: string): number {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    })
+    formatters.set(timeZone, formatter)
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(date).map(part => [part.type, part.value]))
+  return Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second)
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+const toStoreDateString = (time: number) => {
+  const date = new Date(time)
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`
+}
+
+// The calendar day ('yyyy-MM-dd') the instant falls on in the store's time zone
+export function toStoreDate(date: Date, timeZone: string): string {
+  return toStoreDateString(wallClockTime(date, timeZone))
+}
+
+export function addStoreDays(storeDate: string, days: number): string {
+  const [, year, month, day] = STORE_DATE_PATTERN.exec(storeDate) ?? []
+  return toStoreDateString(Date.UTC(+year, +month - 1, +day + days))
+}
+
+/**
+ * The instant the store's day begins, matching `date::timestamp at time zone` in
+ * the database. The zone's offset is read at the guess and again at the result, so
+ * a clock change on the day is accounted for.
+ */
+export function startOfStoreDay(storeDate: string, timeZone: string): Date {
+  const [, year, month, day] = STORE_DATE_PATTERN.exec(storeDate) ?? []
+  const midnight = Date.UTC(+year, +month - 1, +day)
+  const guess = midnight - (wallClockTime(new Date(midnight), timeZone) - midnight)
+  return new Date(midnight - (wallClockTime(new Date(guess), timeZone) - guess))
+}
+
+// 'yyyy-MM-dd HH:mm' on the store's clock
+export function formatStoreDateTime(date: Date, timeZone: string): string {
+  const time = new Date(wallClockTime(date, timeZone))
+  return `${toStoreDateString(time.getTime())} ${pad(time.getUTCHours())}:${pad(time.getUTCMinutes())}`
+}
+
+export function getStoreDayRange(storeDate: string, timeZone: string): DateRange {
+  return { from: startOfStoreDay(storeDate, timeZone), to: startOfStoreDay(addStoreDays(storeDate, 1), timeZone) }
+}
+
+// Days start at midnight in the store's time zone, whichever zone the device is set to
+export function getPresetRange(preset: DateRangePreset, timeZone: string, now = new Date()): DateRange {
+  const today = toStoreDate(now, timeZone)
+  const range = (fromDate: string, toDate: string) => ({
+    from: startOfStoreDay(fromDate, timeZone),
+    to: startOfStoreDay(addStoreDays(toDate, 1), timeZone)
+  })
+  switch (preset) {
+    case 'today':
+      return range(today, today)
+    case 'yesterday':
+      return range(addStoreDays(today, -1), addStoreDays(today, -1))
+    case 'last_7_days':
+      return range(addStoreDays(today, -6), today)
+    case 'last_30_days':
+      return range(addStoreDays(today, -29), today)
+    case 'this_month':
+      return range(`${today.slice(0, 8)}01`, today)
+  }
+}
+
+// Values for <input type="date">; the end date is shown inclusive
+export function toDateInputs(range: DateRange, timeZone: string) {
+  return {
+    from: toStoreDate(range.from, timeZone),
+    to: toStoreDate(new Date(range.to.getTime() - 1), timeZone)
+  }
+}
+
+export function fromDateInputs(from: string, to: string, timeZone: string): DateRange | null {
+  if (!STORE_DATE_PATTERN.test(from) || !STORE_DATE_PATTERN.test(to) || to < from) return null
+  return { from: startOfStoreDay(from, timeZone), to: startOfStoreDay(addStoreDays(to, 1), timeZone) }
+}
@@ -0,0 +1,64 @@
+import { Database, requireSupabase } from '@/lib/supabase'
+import { OrderTransitionError } from '@/lib/orders-api'
+import { DayClose, PeriodRefund } from '@/types/day-close'
+import { OrderRefund } from '@/types/orders'
+import { DateRange } from '@/lib/date-ranges'
+
+export async function fetchDayClose(businessDate: string): Promise<DayClose | null> {
+  const { data, error } = await requireSupabase()
+    .from('day_closes')
+    .select('*')
+    .eq('business_date', businessDate)
+    .maybeSingle()
+
+  if (error) throw error
+
+  return data as DayClose | null
+}
+
+// Refunds recorded in [from, to), by when they were paid out rather than when the order was placed
+export async function fetchRefunds({ from, to }: DateRange): Promise<PeriodRefund[]> {
+  const { data, error } = await requireSupabase()
+    .from('order_refunds')
+    .select('*, order:orders(payment_method)')
+    .gte('created_at', from.toISOString())
+    .lt('created_at', to.toISOString())
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+
+  return (data as unknown as (OrderRefund & { order: { payment_method: string } | null })[])
+    .map(({ order, ...refund }) => ({ ...refund, payment_method: order?.payment_method ?? '' }))
+}
+
+export interface CloseDayInput {
+  businessDate: string
+  openingFloat: number
+  countedCash: number
+  notes?: string | null
+}
+
+// Records the Z-report through close_day, which takes the business date's midnight to
+// midnight in the store's time zone, works the figures out from that period's orders
+// and refunds and then locks the orders the report covers
+export async function closeDay({
+  businessDate,
+  openingFloat,
+  countedCash,
+  notes = null
+}: CloseDayInput): Promise<DayClose> {
+  const args: Database['public']['Functions']['close_day']['Args'] = {
+    p_business_date: businessDate,
+    p_opening_float: openingFloat,
+    p_counted_cash: countedCash,
+    p_notes: notes?.trim() || null
+  }
+  const { data, error } = await requireSupabase().rpc('close_day', args)
+
+  if (error) {
+    if (error.code === 'P0001') throw new OrderTransitionError(error.message)
+    throw error
+  }
+
+  return data as DayClose
+}
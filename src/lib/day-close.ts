@@ -0,0 +1,108 @@
+import { Order, PaymentStatus } from '@/types/orders'
+import { DayClose, DaySummary, PaymentBreakdownLine, PeriodRefund } from '@/types/day-close'
+import { Receipt, ReceiptLine, SHOP_NAME } from '@/lib/receipts'
+import { formatStoreDateTime } from '@/lib/date-ranges'
+
+// payment_method recorded for cash orders, by the admin and the customer site
+export const CASH_PAYMENT_METHOD = 'cash'
+
+// Payment statuses where the money reached the shop; pending cash-on-delivery has not yet
+const COLLECTED_STATUSES: PaymentStatus[] = ['paid', 'refunded']
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100
+
+function groupBy(orders: Order[], key: (order: Order) => string): PaymentBreakdownLine[] {
+  const lines = new Map<string, PaymentBreakdownLine>()
+  orders.forEach(order => {
+    const name = key(order) || 'unknown'
+    const line = lines.get(name) ?? { key: name, orders: 0, amount: 0 }
+    line.orders += 1
+    line.amount = roundMoney(line.amount + order.total_amount)
+    lines.set(name, line)
+  })
+  return [...lines.values()].sort((a, b) => b.amount - a.amount)
+}
+
+/**
+ * Gross sales leave out cancelled orders; refunds are reported separately rather than
+ * netted. Refunds are the ones paid out during the day, so a refund for an order from
+ * an earlier, closed day lands on the day the money left the drawer. close_day works
+ * out the stored report the same way; this one is the live preview.
+ */
+export function summarizeDay(orders: Order[], refunds: PeriodRefund[]): DaySummary {
+  const sales = orders.filter(order => order.order_status !== 'cancelled')
+  const sum = <T>(list: T[], pick: (row: T) => number) => roundMoney(list.reduce((total, row) => total + pick(row), 0))
+  const isCash = (row: { payment_method: string }) => row.payment_method === CASH_PAYMENT_METHOD
+
+  return {
+    order_count: orders.length,
+    cancelled_count: orders.length - sales.length,
+    open_count: sales.filter(order => order.order_status !== 'delivered').length,
+    gross_sales: sum(sales, order => order.total_amount),
+    tax_total: sum(sales, order => order.tax_amount),
+    delivery_fee_total: sum(sales, order => order.delivery_fee),
+    refund_total: sum(refunds, refund => refund.amount),
+    // Cash taken for the day's orders (a paid order cancelled later is still in the drawer)
+    // less cash refunds paid out of the drawer today, partial ones included
+    cash_sales: roundMoney(
+      sum(orders.filter(order => isCash(order) && COLLECTED_STATUSES.includes(order.payment_status)), order => order.total_amount) -
+      sum(refunds.filter(isCash), refund => refund.amount)
+    ),
+    breakdown: {
+      by_payment_method: groupBy(sales, order => order.payment_method),
+      by_payment_status: groupBy(sales, order => order.payment_status)
+    }
+  }
+}
+
+export const getExpectedCash = (summary: DaySummary, openingFloat: number) =>
+  roundMoney(openingFloat + summary.cash_sales)
+
+const money = (amount: number) => `Rs ${amount.toFixed(2)}`
+
+const breakdownLines = (lines: PaymentBreakdownLine[]): ReceiptLine[] =>
+  lines.map(line => ({ left: `${line.key} (${line.orders})`, right: money(line.amount) }))
+
+/**
+ * The Z-report in the receipt format, so it prints on the same thermal printer.
+ * Pass the counted cash while the day is still open to print a draft. Times are
+ * printed on the store's clock, like the business date.
+ */
+export function buildZReport(
+  close: Omit<DayClose, 'closed_at' | 'period_start' | 'period_end'> & { closed_at?: string },
+  timeZone: string
+): Receipt {
+  return {
+    layout: 'customer',
+    heading: SHOP_NAME,
+    subheading: `${close.closed_at ? 'Z-REPORT' : 'DRAFT Z-REPORT'} ${close.business_date}`,
+    sections: [
+      {
+        title: 'Sales',
+        lines: [
+          { left: 'Orders', right: String(close.order_count - close.cancelled_count) },
+          { left: 'Cancelled', right: String(close.cancelled_count) },
+          { left: 'Gross sales', right: money(close.gross_sales), emphasis: true },
+          { left: 'Tax collected', right: money(close.tax_total) },
+          { left: 'Delivery fees', right: money(close.delivery_fee_total) },
+          { left: 'Refunds', right: money(close.refund_total) }
+        ]
+      },
+      { title: 'By payment method', lines: breakdownLines(close.breakdown.by_payment_method) },
+      { title: 'By payment status', lines: breakdownLines(close.breakdown.by_payment_status) },
+      {
+        title: 'Cash drawer',
+        lines: [
+          { left: 'Opening float', right: money(close.opening_float) },
+          { left: 'Expected', right: money(close.expected_cash) },
+          { left: 'Counted', right: money(close.counted_cash) },
+          { left: close.discrepancy < 0 ? 'Short' : 'Over', right: money(Math.abs(close.discrepancy)), emphasis: true },
+          ...(close.notes ? [{ left: close.notes, indent: true }] : [])
+        ]
+      }
+    ],
+    footer: close.closed_at
+      ? `Closed ${formatStoreDateTime(new Date(close.closed_at), timeZone)}${close.closed_by ? ` by ${close.closed_by}` : ''}`
+      : `Printed ${formatStoreDateTime(new Date(), timeZone)}`
+  }
+}
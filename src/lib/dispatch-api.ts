@@ -0,0 +1,81 @@
+import { requireSupabase, Database } from '@/lib/supabase'
+import { OrderTransitionError } from '@/lib/orders-api'
+import { DeliveryRun, Rider } from '@/types/dispatch'
+
+type Functions = Database['public']['Functions']
+
+// The dispatch RPCs raise P0001 when the orders or run are not in the expected state
+function throwRpcError(error: { code?: string; message: string }): never {
+  if (error.code === 'P0001') throw new OrderTransitionError(error.message)
+  throw error
+}
+
+export async function fetchRiders(): Promise<Rider[]> {
+  const { data, error } = await requireSupabase()
+    .from('riders')
+    .select('*')
+    .eq('is_active', true)
+    .order('name')
+
+  if (error) throw error
+
+  return data as Rider[]
+}
+
+export async function createRider(name: string, phone: string | null = null): Promise<Rider> {
+  const { data, error } = await requireSupabase()
+    .from('riders')
+    .insert({ name, phone })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  return data as Rider
+}
+
+// Runs that have not come back yet, plus those that returned since `returnedSince`
+export async function fetchDeliveryRuns(returnedSince: Date): Promise<DeliveryRun[]> {
+  const { data, error } = await requireSupabase()
+    .from('delivery_runs')
+    .select('*')
+    .or(`status.neq.returned,returned_at.gte.${returnedSince.toISOString()}`)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+
+  return data as DeliveryRun[]
+}
+
+export async function assignDeliveryRun(
+  riderId: string,
+  orderIds: string[]
+): Promise<DeliveryRun> {
+  const args: Functions['assign_delivery_run']['Args'] = {
+    p_rider_id: riderId,
+    p_order_ids: orderIds
+  }
+  const { data, error } = await requireSupabase().rpc('assign_delivery_run', args)
+
+  if (error) throwRpcError(error)
+
+  return data as DeliveryRun
+}
+
+export async function departDeliveryRun(runId: string): Promise<DeliveryRun> {
+  const args: Functions['depart_delivery_run']['Args'] = { p_run_id: runId }
+  const { data, error } = await requireSupabase().rpc('depart_delivery_run', args)
+
+  if (error) throwRpcError(error)
+
+  return data as DeliveryRun
+}
+
+export async function returnDeliveryRun(runId: string): Promise<DeliveryRun> {
+  const args: Functions['return_delivery_run']['Args'] = { p_run_id: runId }
+  const { data, error } = await requireSupabase().rpc('return_delivery_run', args)
+
+  if (error) throwRpcError(error)
+
+  return data as DeliveryRun
+}
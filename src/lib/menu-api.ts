@@ -0,0 +1,136 @@
+import { requireSupabase, Database } from '@/lib/supabase'
+import { MenuCategory, MenuItem } from '@/types/menu'
+
+// Sizes and options are embedded so the whole catalog loads in two requests
+const MENU_ITEM_SELECT = '*, sizes:catalog_item_sizes(*), options:catalog_item_options(*)'
+
+export interface MenuSizeInput {
+  name: string
+  price: number
+}
+
+export interface MenuOptionInput {
+  group_name: string
+  name: string
+  price: number
+  is_available: boolean
+}
+
+export interface MenuItemInput {
+  // Missing for new items
+  id?: string
+  category_id: string
+  name: string
+  description?: string | null
+  base_price: number
+  is_available: boolean
+  sizes: MenuSizeInput[]
+  options: MenuOptionInput[]
+}
+
+function normalizeMenuItem(row: MenuItem): MenuItem {
+  return {
+    ...row,
+    sizes: [...(row.sizes ?? [])].sort((a, b) => a.sort_order - b.sort_order),
+    options: [...(row.options ?? [])].sort((a, b) => a.sort_order - b.sort_order)
+  }
+}
+
+export async function fetchMenu(): Promise<{ categories: MenuCategory[]; items: MenuItem[] }> {
+  const client = requireSupabase()
+  const [categoriesResult, itemsResult] = await Promise.all([
+    client.from('catalog_categories').select('*').order('sort_order').order('name'),
+    client.from('catalog_items').select(MENU_ITEM_SELECT).order('sort_order').order('name')
+  ])
+
+  if (categoriesResult.error) throw categoriesResult.error
+  if (itemsResult.error) throw itemsResult.error
+
+  return {
+    categories: categoriesResult.data as MenuCategory[],
+    items: (itemsResult.data as MenuItem[]).map(normalizeMenuItem)
+  }
+}
+
+export async function createMenuCategory(name: string, sortOrder: number): Promise<MenuCategory> {
+  const { data, error } = await requireSupabase()
+    .from('catalog_categories')
+    .insert({ name, sort_order: sortOrder })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  return data as MenuCategory
+}
+
+export async function renameMenuCategory(categoryId: string, name: string) {
+  const { error } = await requireSupabase()
+    .from('catalog_categories')
+    .update({ name })
+    .eq('id', categoryId)
+
+  if (error) throw error
+}
+
+// Fails while the category still has items
+export async function deleteMenuCategory(categoryId: string) {
+  const { error } = await requireSupabase()
+    .from('catalog_categories')
+    .delete()
+    .eq('id', categoryId)
+
+  if (error) throw error
+}
+
+// Goes through the save_catalog_item RPC so the item, its sizes and its options change together
+export async function saveMenuItem(input: MenuItemInput): Promise<MenuItem> {
+  const args: Database['public']['Functions']['save_catalog_item']['Args'] = {
+    p_item: {
+      id: input.id,
+      category_id: input.category_id,
+      name: input.name.trim(),
+      description: input.description?.trim() || null,
+      base_price: input.base_price,
+      is_available: input.is_available
+    },
+    p_sizes: input.sizes.map(size => ({ name: size.name.trim(), price: size.price })),
+    p_options: input.options.map(option => ({
+      group_name: option.group_name.trim(),
+      name: option.name.trim(),
+      price: option.price,
+      is_available: option.is_available
+    }))
+  }
+  const { data, error } = await requireSupabase().rpc('save_catalog_item', args)
+
+  if (error) throw error
+
+  const { data: item, error: fetchError } = await requireSupabase()
+    .from('catalog_items')
+    .select(MENU_ITEM_SELECT)
+    .eq('id', (data as MenuItem).id)
+    .single()
+
+  if (fetchError) throw fetchError
+
+  return normalizeMenuItem(item as MenuItem)
+}
+
+export async function setMenuItemAvailability(itemId: string, isAvailable: boolean) {
+  const { error } = await requireSupabase()
+    .from('catalog_items')
+    .update({ is_available: isAvailable, updated_at: new Date().toISOString() })
+    .eq('id', itemId)
+
+  if (error) throw error
+}
+
+export async function deleteMenuItem(itemId: string) {
+  const { error } = await requireSupabase()
+    .from('catalog_items')
+    .delete()
+    .eq('id', itemId)
+
+  if (error) throw error
+}
@@ -0,0 +1,83 @@
+import { MENU_ITEM_TYPE, MenuItem } from '@/types/menu'
+import { OrderItemDraft } from '@/lib/order-edits'
+import { parseCustomizations } from '@/lib/customizations'
+
+// Customization key the size of a catalog item is stored under
+export const SIZE_CUSTOMIZATION_KEY = 'size'
+
+const normalizeName = (name: string) => name.trim().toLowerCase()
+
+export function findMenuItem(item: Pick<OrderItemDraft, 'item_type' | 'item_id' | 'item_name'>, menuItems: MenuItem[]) {
+  if (item.item_type === MENU_ITEM_TYPE) {
+    const byId = menuItems.find(menuItem => menuItem.id === item.item_id)
+    if (byId) return byId
+  }
+  const name = normalizeName(item.item_name)
+  return menuItems.find(menuItem => normalizeName(menuItem.name) === name)
+}
+
+/**
+ * Prices the item could have been sold at: the chosen size (or every size when
+ * none is recorded) plus the options added as extra toppings or a crust. Removed
+ * toppings and instructions name ingredients too, but are not charged for.
+ */
+export function getMenuPrices(menuItem: MenuItem, customizations: Record<string, unknown>): number[] {
+  const parsed = parseCustomizations(customizations)
+  const chargeable = [...parsed.extraToppings, parsed.crust ?? ''].map(normalizeName).filter(Boolean)
+  const extras = menuItem.options
+    .filter(option => chargeable.includes(normalizeName(option.name)))
+    .reduce((sum, option) => sum + option.price, 0)
+
+  if (menuItem.sizes.length === 0) return [menuItem.base_price + extras]
+
+  const sizeValue = parsed.size
+  const size = sizeValue
+    ? menuItem.sizes.find(s => normalizeName(s.name) === normalizeName(sizeValue))
+    : undefined
+  const sizes = size ? [size] : menuItem.sizes
+  return sizes.map(s => s.price + extras)
+}
+
+type CheckedItem = Pick<OrderItemDraft, 'item_type' | 'item_id' | 'item_name' | 'unit_price'> & {
+  customizations?: Record<string, unknown> | null
+}
+
+// Returns why the item does not match the catalog, or null when it does. Only a warning
+// here; check_catalog_order_item refuses catalog items that are off the menu, out of
+// stock or in a size the item does not come in, but leaves prices to staff.
+export function checkItemAgainstMenu(item: CheckedItem, menuItems: MenuItem[]): string | null {
+  if (menuItems.length === 0) return null
+
+  const menuItem = findMenuItem(item, menuItems)
+  if (!menuItem) return 'Not on the menu'
+  if (!menuItem.is_available) return 'Marked out of stock'
+
+  const prices = getMenuPrices(menuItem, item.customizations ?? {})
+  if (!prices.some(price => Math.abs(price - item.unit_price) < 0.005)) {
+    return `Menu price is Rs ${prices.map(price => price.toFixed(2)).join(' / ')}`
+  }
+  return null
+}
+
+// Items for the quick-add picker: one entry per available item and size
+export function getMenuSuggestions(menuItems: MenuItem[]): OrderItemDraft[] {
+  return menuItems
+    .filter(menuItem => menuItem.is_available)
+    .flatMap(menuItem => {
+      const base = {
+        item_type: MENU_ITEM_TYPE,
+        item_id: menuItem.id,
+        item_name: menuItem.name,
+        item_description: menuItem.description ?? null,
+        quantity: 1
+      }
+      if (menuItem.sizes.length === 0) {
+        return [{ ...base, unit_price: menuItem.base_price, customizations: {} }]
+      }
+      return menuItem.sizes.map(size => ({
+        ...base,
+        unit_price: size.price,
+        customizations: { [SIZE_CUSTOMIZATION_KEY]: size.name }
+      }))
+    })
+}
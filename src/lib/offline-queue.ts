@@ -0,0 +1,124 @@
+import { Order, OrderPriority, OrderStatus, StaffRole } from '@/types/orders'
+import { QueuedOrderChange, QueuedPriorityChange, QueuedStatusChange } from '@/types/offline'
+import {
+  updateOrderStatus as saveOrderStatus,
+  updateOrderPriority as saveOrderPriority,
+  OrderTransitionError
+} from '@/lib/orders-api'
+import { deleteQueuedChange } from '@/lib/offline-store'
+
+// How Chrome, Firefox and Safari word a fetch that never reached the server; supabase-js passes the message on
+const NETWORK_ERROR_PATTERN = /failed to fetch|networkerror|network request failed|load failed/i
+
+export function isNetworkError(error: unknown): boolean {
+  // Checked before anything is sent, so it says nothing about the connection
+  if (error instanceof OrderTransitionError) return false
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true
+  const message = (error as { message?: unknown } | null)?.message
+  return typeof message === 'string' && NETWORK_ERROR_PATTERN.test(message)
+}
+
+function queuedChangeBase(order: Order, actor: string | null, staffId: string | null) {
+  return {
+    id: crypto.randomUUID(),
+    order_id: order.id,
+    order_number: order.order_number,
+    base_updated_at: order.updated_at,
+    actor,
+    staff_id: staffId,
+    queued_at: new Date().toISOString()
+  }
+}
+
+export function queueStatusChange(
+  order: Order,
+  status: OrderStatus,
+  notes: string | null,
+  actor: string | null,
+  staffId: string | null
+): QueuedStatusChange {
+  return { ...queuedChangeBase(order, actor, staffId), kind: 'status', from: order.order_status, status, notes }
+}
+
+export function queuePriorityChange(
+  order: Order,
+  priority: OrderPriority,
+  actor: string | null,
+  staffId: string | null
+): QueuedPriorityChange {
+  return { ...queuedChangeBase(order, actor, staffId), kind: 'priority', priority }
+}
+
+/**
+ * The order as it will look once the change is saved. updated_at is left alone so
+ * it still identifies the server version the change was made against.
+ */
+export function applyQueuedChange(order: Order, change: QueuedOrderChange): Order {
+  if (change.order_id !== order.id) return order
+  if (change.kind === 'status') return { ...order, order_status: change.status }
+  return {
+    ...order,
+    priority: change.priority,
+    priority_set_by: change.priority === 'normal' ? null : change.actor,
+    priority_set_at: change.priority === 'normal' ? null : change.queued_at
+  }
+}
+
+// Lays the queued changes over orders fetched from the server or read from the cache
+export function applyQueuedChanges(orders: Order[], changes: QueuedOrderChange[]): Order[] {
+  if (changes.length === 0) return orders
+  return orders.map(order => changes.reduce(applyQueuedChange, order))
+}
+
+export interface ReplayResult {
+  synced: QueuedOrderChange[]
+  // Rejected by the server, usually because the order changed elsewhere; these are dropped
+  discarded: { change: QueuedOrderChange; reason: string }[]
+  // The connection dropped again; unsent changes stay queued
+  interrupted: boolean
+}
+
+/**
+ * Sends queued changes oldest first. Each carries the updated_at it was made against,
+ * and the RPCs refuse it if the order has moved on since. A change that is sent or
+ * refused leaves the queue; a network failure stops the replay with the rest kept.
+ */
+export async function replayQueuedChanges(changes: QueuedOrderChange[], role: StaffRole | null): Promise<ReplayResult> {
+  const result: ReplayResult = { synced: [], discarded: [], interrupted: false }
+  // Saving a change moves the order's updated_at on, so later changes to the same order
+  // are checked against the version this replay produced rather than the one they saw
+  const replayedVersions = new Map<string, string>()
+
+  for (const change of changes) {
+    const expectedUpdatedAt = replayedVersions.get(change.order_id) ?? change.base_updated_at
+    try {
+      if (change.kind === 'status') {
+        const entry = await saveOrderStatus(change.order_id, change.status, {
+          from: change.from,
+          notes: change.notes,
+          role,
+          expectedUpdatedAt
+        })
+        // The RPC stamps the order and its history row with the same now()
+        replayedVersions.set(change.order_id, entry.created_at)
+      } else {
+        const saved = await saveOrderPriority(change.order_id, change.priority, expectedUpdatedAt)
+        replayedVersions.set(change.order_id, saved.updated_at)
+      }
+      result.synced.push(change)
+    } catch (error) {
+      if (isNetworkError(error)) {
+        result.interrupted = true
+        break
+      }
+      console.error(`Error replaying change to order ${change.order_number}:`, error)
+      result.discarded.push({
+        change,
+        reason: error instanceof OrderTransitionError ? error.message : 'The server rejected the change'
+      })
+    }
+    await deleteQueuedChange(change.id)
+  }
+
+  return result
+}
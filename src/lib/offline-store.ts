@@ -0,0 +1,86 @@
+import { Order } from '@/types/orders'
+import { QueuedOrderChange } from '@/types/offline'
+
+// One database per browser profile, shared by the dashboard and the kitchen display
+const DB_NAME = 'boss-pizza-admin'
+const DB_VERSION = 1
+const ORDERS_STORE = 'orders'
+const CHANGES_STORE = 'queued_changes'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+export function isOfflineStoreAvailable() {
+  return typeof indexedDB !== 'undefined'
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(ORDERS_STORE)) db.createObjectStore(ORDERS_STORE, { keyPath: 'id' })
+        if (!db.objectStoreNames.contains(CHANGES_STORE)) db.createObjectStore(CHANGES_STORE, { keyPath: 'id' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // A failed open (e.g. private browsing) is tried again on the next call
+    dbPromise.catch(() => {
+      dbPromise = null
+    })
+  }
+  return dbPromise
+}
+
+// Resolves with the request's result once the transaction has committed
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode)
+    const request = work(transaction.objectStore(storeName))
+    transaction.oncomplete = () => resolve(request ? request.result : undefined)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+// Newest first, as the orders API returns them
+export async function loadCachedOrders(): Promise<Order[]> {
+  const orders = await withStore<Order[]>(ORDERS_STORE, 'readonly', store => store.getAll())
+  return (orders ?? []).sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+}
+
+// Replaces the cache with the orders on screen
+export async function saveCachedOrders(orders: Order[]) {
+  await withStore(ORDERS_STORE, 'readwrite', store => {
+    store.clear()
+    orders.forEach(order => store.put(order))
+  })
+}
+
+// The staff member's own changes, oldest first, the order they are replayed in
+export async function loadQueuedChanges(staffId: string): Promise<QueuedOrderChange[]> {
+  const changes = await withStore<QueuedOrderChange[]>(CHANGES_STORE, 'readonly', store => store.getAll())
+  return (changes ?? [])
+    .filter(change => change.staff_id === staffId)
+    .sort((a, b) => a.queued_at.localeCompare(b.queued_at))
+}
+
+export async function saveQueuedChange(change: QueuedOrderChange) {
+  await withStore(CHANGES_STORE, 'readwrite', store => store.put(change))
+}
+
+export async function deleteQueuedChange(id: string) {
+  await withStore(CHANGES_STORE, 'readwrite', store => store.delete(id))
+}
+
+// Forgets the cached orders and any unsent changes, so the next person on the device sees neither
+export async function clearOfflineStore() {
+  await withStore(ORDERS_STORE, 'readwrite', store => store.clear())
+  await withStore(CHANGES_STORE, 'readwrite', store => store.clear())
+}
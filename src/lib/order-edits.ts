@@ -0,0 +1,177 @@
+import { Order, OrderEditChange, OrderStatus } from '@/types/orders'
+import { formatCustomizations } from '@/lib/customizations'
+
+// An item as edited in the form; `id` is missing for items added during the edit
+export interface OrderItemDraft {
+  id?: string
+  item_type: string
+  item_id: string
+  item_name: string
+  item_description?: string | null
+  quantity: number
+  unit_price: number
+  customizations: Record<string, unknown>
+}
+
+export interface OrderEditDraft {
+  items: OrderItemDraft[]
+  order_notes: string
+  delivery_address: Order['delivery_address']
+}
+
+export interface OrderTotals {
+  subtotal: number
+  tax_amount: number
+  total_amount: number
+}
+
+export const EMPTY_ADDRESS: Order['delivery_address'] = {
+  street: '',
+  city: '',
+  state: '',
+  country: '',
+  zipCode: ''
+}
+
+const NON_EDITABLE_STATUSES: OrderStatus[] = ['delivered', 'cancelled']
+
+export function isOrderEditable(order: Order): boolean {
+  return !NON_EDITABLE_STATUSES.includes(order.order_status)
+}
+
+export function createOrderEditDraft(order: Order): OrderEditDraft {
+  return {
+    items: order.items.map(item => ({
+      id: item.id,
+      item_type: item.item_type,
+      item_id: item.item_id,
+      item_name: item.item_name,
+      item_description: item.item_description,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      customizations: item.customizations ?? {}
+    })),
+    order_notes: order.order_notes ?? '',
+    delivery_address: { ...EMPTY_ADDRESS, ...order.delivery_address }
+  }
+}
+
+// Items typed in by staff rather than picked from the menu
+export function createCustomItemDraft(): OrderItemDraft {
+  return {
+    item_type: 'custom',
+    item_id: crypto.randomUUID(),
+    item_name: '',
+    quantity: 1,
+    unit_price: 0,
+    customizations: {}
+  }
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100
+
+// Effective tax rate an order was placed with
+export function getOrderTaxRate(order: Order): number {
+  return order.subtotal > 0 ? order.tax_amount / order.subtotal : 0
+}
+
+export function calculateTotals(items: OrderItemDraft[], taxRate: number, deliveryFee: number): OrderTotals {
+  const subtotal = roundMoney(items.reduce((sum, item) => sum + item.quantity * item.unit_price, 0))
+  const tax_amount = roundMoney(subtotal * taxRate)
+  return { subtotal, tax_amount, total_amount: roundMoney(subtotal + tax_amount + deliveryFee) }
+}
+
+/**
+ * Totals for the edited items, matching the edit_order RPC: the order keeps the
+ * tax rate it was placed with and its delivery fee.
+ */
+export function calculateOrderTotals(order: Order, items: OrderItemDraft[]): OrderTotals {
+  return calculateTotals(items, getOrderTaxRate(order), order.delivery_fee)
+}
+
+// Returns why the items cannot be saved, or null when they can
+export function validateItemDrafts(items: OrderItemDraft[]): string | null {
+  if (items.length === 0) return 'An order needs at least one item'
+  if (items.some(item => !item.item_name.trim())) return 'Every item needs a name'
+  if (items.some(item => !Number.isInteger(item.quantity) || item.quantity < 1)) {
+    return 'Quantities must be whole numbers of at least 1'
+  }
+  if (items.some(item => !Number.isFinite(item.unit_price) || item.unit_price < 0)) {
+    return 'Prices cannot be negative'
+  }
+  return null
+}
+
+export function validateDeliveryAddress(address: Order['delivery_address']): string | null {
+  if (!address.street.trim() || !address.city.trim()) {
+    return 'The delivery address needs a street and city'
+  }
+  return null
+}
+
+/**
+ * Returns why the draft cannot be saved, or null when it can. Pickup orders have
+ * no address to check.
+ */
+export function validateOrderEdit(draft: OrderEditDraft, { requireAddress = true } = {}): string | null {
+  return validateItemDrafts(draft.items) ?? (requireAddress ? validateDeliveryAddress(draft.delivery_address) : null)
+}
+
+const describeCustomizations = (customizations: Record<string, unknown>) =>
+  formatCustomizations(customizations).map(line => `${line.label}: ${line.value}`).join('; ') || null
+
+const ADDRESS_FIELDS: { key: keyof Order['delivery_address']; label: string }[] = [
+  { key: 'street', label: 'Street' },
+  { key: 'city', label: 'City' },
+  { key: 'state', label: 'State' },
+  { key: 'zipCode', label: 'Zip code' },
+  { key: 'country', label: 'Country' }
+]
+
+/**
+ * Human-readable diff of the edit. edit_order builds the copy stored with the
+ * history entry the same way; this one previews the save and skips no-op edits.
+ */
+export function diffOrderEdit(order: Order, draft: OrderEditDraft): OrderEditChange[] {
+  const changes: OrderEditChange[] = []
+  const draftIds = new Set(draft.items.map(item => item.id).filter(Boolean))
+
+  order.items
+    .filter(item => !draftIds.has(item.id))
+    .forEach(item => changes.push({ field: 'Removed item', before: `${item.quantity} x ${item.item_name}`, after: null }))
+
+  draft.items.forEach(item => {
+    const original = item.id ? order.items.find(existing => existing.id === item.id) : undefined
+    if (!original) {
+      changes.push({ field: 'Added item', before: null, after: `${item.quantity} x ${item.item_name.trim()}` })
+      return
+    }
+    const name = original.item_name
+    if (item.item_name.trim() !== original.item_name) {
+      changes.push({ field: 'Item name', before: original.item_name, after: item.item_name.trim() })
+    }
+    if (item.quantity !== original.quantity) {
+      changes.push({ field: `${name} quantity`, before: String(original.quantity), after: String(item.quantity) })
+    }
+    if (item.unit_price !== original.unit_price) {
+      changes.push({ field: `${name} price`, before: String(original.unit_price), after: String(item.unit_price) })
+    }
+    const before = describeCustomizations(original.customizations ?? {})
+    const after = describeCustomizations(item.customizations)
+    if (before !== after) {
+      changes.push({ field: `${name} customizations`, before, after })
+    }
+  })
+
+  if (draft.order_notes.trim() !== (order.order_notes ?? '').trim()) {
+    changes.push({ field: 'Notes', before: order.order_notes || null, after: draft.order_notes.trim() || null })
+  }
+
+  ADDRESS_FIELDS.forEach(({ key, label }) => {
+    const before = order.delivery_address?.[key] ?? ''
+    const after = draft.delivery_address[key].trim()
+    if (before !== after) changes.push({ field: label, before: before || null, after: after || null })
+  })
+
+  return changes
+}
@@ -0,0 +1,95 @@
+import { FulfillmentType, Order, OrderSource } from '@/types/orders'
+import { StoreSettings } from '@/types/settings'
+import {
+  OrderItemDraft,
+  OrderTotals,
+  EMPTY_ADDRESS,
+  calculateTotals,
+  validateDeliveryAddress,
+  validateItemDrafts
+} from '@/lib/order-edits'
+
+// An order being taken by staff over the phone or at the counter
+export interface NewOrderDraft {
+  customer_name: string
+  customer_phone: string
+  customer_email: string
+  fulfillment_type: FulfillmentType
+  order_source: Exclude<OrderSource, 'web'>
+  payment_method: string
+  delivery_address: Order['delivery_address']
+  order_notes: string
+  items: OrderItemDraft[]
+}
+
+// Details remembered from the customer's last order, found by phone number
+export interface CustomerMatch {
+  customer_name: string
+  customer_email: string
+  delivery_address: Order['delivery_address']
+}
+
+export function createNewOrderDraft(): NewOrderDraft {
+  return {
+    customer_name: '',
+    customer_phone: '',
+    customer_email: '',
+    fulfillment_type: 'delivery',
+    order_source: 'phone',
+    payment_method: 'cash',
+    delivery_address: { ...EMPTY_ADDRESS },
+    order_notes: '',
+    items: []
+  }
+}
+
+// Distinct items from the most recent orders, alphabetically, for the quick-add picker
+export function getRecentItems(orders: Order[], limit = 20): OrderItemDraft[] {
+  const seen = new Set<string>()
+  const items: OrderItemDraft[] = []
+  const newestFirst = [...orders].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+
+  newestFirst.forEach(order => order.items.forEach(item => {
+    const key = `${item.item_name}|${item.unit_price}`
+    if (seen.has(key) || items.length >= limit) return
+    seen.add(key)
+    items.push({
+      item_type: item.item_type,
+      item_id: item.item_id,
+      item_name: item.item_name,
+      item_description: item.item_description,
+      quantity: 1,
+      unit_price: item.unit_price,
+      customizations: {}
+    })
+  }))
+
+  return items.sort((a, b) => a.item_name.localeCompare(b.item_name))
+}
+
+/**
+ * Totals as create_order will charge them, from the store's tax rate and
+ * delivery fee.
+ */
+export function calculateNewOrderTotals(draft: NewOrderDraft, settings: StoreSettings): OrderTotals {
+  return calculateTotals(draft.items, settings.tax_rate, getDeliveryFee(draft, settings))
+}
+
+// Pickup orders never carry a delivery fee
+export function getDeliveryFee(draft: NewOrderDraft, settings: StoreSettings): number {
+  return draft.fulfillment_type === 'pickup' ? 0 : settings.delivery_fee
+}
+
+/**
+ * Returns why the order cannot be placed, or null when it can.
+ */
+export function validateNewOrder(draft: NewOrderDraft): string | null {
+  if (!draft.customer_name.trim()) return 'Enter the customer name'
+  if (!draft.customer_phone.trim()) return 'Enter the customer phone number'
+  if (!draft.payment_method) return 'Choose a payment method'
+  if (draft.fulfillment_type === 'delivery') {
+    const addressError = validateDeliveryAddress(draft.delivery_address)
+    if (addressError) return addressError
+  }
+  return validateItemDrafts(draft.items)
+}
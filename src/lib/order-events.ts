@@ -0,0 +1,98 @@
+import { Order, ORDER_STATUS_LABELS } from '@/types/orders'
+import { SlaConfig, getSlaBreach } from '@/lib/sla'
+
+// Where NotificationCenter keeps its list between reloads; cleared on sign-out
+export const NOTIFICATIONS_STORAGE_KEY = 'boss-pizza-admin:notifications'
+
+export type OrderEventType = 'new_order' | 'status_update' | 'payment_failed' | 'overdue' | 'completed'
+
+export interface OrderEvent {
+  // Deterministic so the same event is never raised twice, even across reloads
+  id: string
+  type: OrderEventType
+  orderId: string
+  title: string
+  message: string
+  timestamp: Date
+}
+
+/**
+ * Compares two snapshots of the orders list and returns the events between them.
+ * Orders created before `since` are treated as already known, so the first fetch
+ * after mount does not report the whole backlog as new. Status changes come from
+ * the history entries that appeared since the last snapshot, leaving out the ones
+ * the staff member with id `staffId` made themselves.
+ */
+export function diffOrderEvents(previous: Order[], next: Order[], since: Date, staffId: string | null = null): OrderEvent[] {
+  const previousById = new Map(previous.map(order => [order.id, order]))
+  const events: OrderEvent[] = []
+  const now = new Date()
+
+  for (const order of next) {
+    const before = previousById.get(order.id)
+
+    if (!before) {
+      if (new Date(order.created_at).getTime() >= since.getTime()) {
+        events.push({
+          id: `new_order:${order.id}`,
+          type: 'new_order',
+          orderId: order.id,
+          title: 'New Order Received',
+          message: `Order #${order.order_number} from ${order.customer_name} (Rs ${order.total_amount})`,
+          timestamp: now
+        })
+      }
+      continue
+    }
+
+    const knownEntryIds = new Set((before.status_history ?? []).map(entry => entry.id))
+    const statusEntries = (order.status_history ?? []).filter(entry =>
+      !knownEntryIds.has(entry.id) && !entry.changes && !(staffId && entry.created_by_id === staffId)
+    )
+    for (const entry of statusEntries) {
+      const isCompleted = entry.status === 'delivered'
+      events.push({
+        id: `status_update:${order.id}:${entry.id}`,
+        type: isCompleted ? 'completed' : 'status_update',
+        orderId: order.id,
+        title: isCompleted ? 'Order Delivered' : 'Order Status Changed',
+        message: `Order #${order.order_number} is now ${ORDER_STATUS_LABELS[entry.status]}`,
+        timestamp: now
+      })
+    }
+
+    if (before.payment_status !== 'failed' && order.payment_status === 'failed') {
+      events.push({
+        id: `payment_failed:${order.id}`,
+        type: 'payment_failed',
+        orderId: order.id,
+        title: 'Payment Failed',
+        message: `Payment for order #${order.order_number} (${order.payment_method}) failed`,
+        timestamp: now
+      })
+    }
+  }
+
+  return events
+}
+
+// One event per order and status, so an order that is late again after moving on is reported again
+export function findOverdueEvents(orders: Order[], config: SlaConfig, now: Date = new Date()): OrderEvent[] {
+  const events: OrderEvent[] = []
+
+  for (const order of orders) {
+    const breach = getSlaBreach(order, config, now)
+    if (!breach) continue
+
+    events.push({
+      id: `overdue:${order.id}:${breach.status}`,
+      type: 'overdue',
+      orderId: order.id,
+      title: 'Order Overdue',
+      message: `Order #${order.order_number} has been ${ORDER_STATUS_LABELS[breach.status]} for ${breach.minutesInStatus} min (limit ${breach.limitMinutes} min)`,
+      timestamp: now
+    })
+  }
+
+  return events
+}
@@ -0,0 +1,128 @@
+import { format } from 'date-fns'
+import {
+  FULFILLMENT_TYPE_LABELS,
+  ORDER_SOURCE_LABELS,
+  ORDER_STATUS_LABELS,
+  PAYMENT_STATUS_LABELS,
+  Order,
+  OrderItem
+} from '@/types/orders'
+import { formatCustomizations } from '@/lib/customizations'
+import { SheetCell, createXlsx } from '@/lib/xlsx'
+
+export interface ExportColumn<T> {
+  key: string
+  label: string
+  value: (row: T) => SheetCell
+  // Summed in the totals row
+  total?: boolean
+}
+
+export const ORDER_EXPORT_COLUMNS: ExportColumn<Order>[] = [
+  { key: 'order_number', label: 'Order #', value: order => order.order_number },
+  { key: 'created_at', label: 'Placed', value: order => format(new Date(order.created_at), 'yyyy-MM-dd HH:mm') },
+  { key: 'customer_name', label: 'Customer', value: order => order.customer_name },
+  { key: 'customer_phone', label: 'Phone', value: order => order.customer_phone },
+  { key: 'customer_email', label: 'Email', value: order => order.customer_email },
+  { key: 'address', label: 'Address', value: order => order.fulfillment_type === 'pickup'
+    ? ''
+    : [order.delivery_address?.street, order.delivery_address?.city, order.delivery_address?.zipCode].filter(Boolean).join(', ') },
+  { key: 'order_status', label: 'Status', value: order => ORDER_STATUS_LABELS[order.order_status] },
+  { key: 'fulfillment_type', label: 'Fulfillment', value: order => FULFILLMENT_TYPE_LABELS[order.fulfillment_type] ?? order.fulfillment_type },
+  { key: 'order_source', label: 'Source', value: order => ORDER_SOURCE_LABELS[order.order_source] ?? order.order_source },
+  { key: 'payment_method', label: 'Payment', value: order => order.payment_method },
+  { key: 'payment_status', label: 'Payment Status', value: order => PAYMENT_STATUS_LABELS[order.payment_status] ?? order.payment_status },
+  { key: 'subtotal', label: 'Subtotal', value: order => order.subtotal, total: true },
+  { key: 'tax_amount', label: 'Tax', value: order => order.tax_amount, total: true },
+  { key: 'delivery_fee', label: 'Delivery Fee', value: order => order.delivery_fee, total: true },
+  { key: 'total_amount', label: 'Total', value: order => order.total_amount, total: true },
+  { key: 'refunded_amount', label: 'Refunded', value: order => order.refunded_amount ?? 0, total: true },
+  { key: 'order_notes', label: 'Notes', value: order => order.order_notes ?? '' }
+]
+
+export const ITEM_EXPORT_COLUMNS: ExportColumn<OrderItem>[] = [
+  { key: 'item_name', label: 'Item', value: item => item.item_name },
+  { key: 'quantity', label: 'Qty', value: item => item.quantity, total: true },
+  { key: 'unit_price', label: 'Unit Price', value: item => item.unit_price },
+  { key: 'total_price', label: 'Item Total', value: item => item.total_price, total: true },
+  {
+    key: 'customizations',
+    label: 'Customizations',
+    value: item => formatCustomizations(item.customizations).map(line => `${line.label}: ${line.value}`).join('; ')
+  }
+]
+
+export const DEFAULT_EXPORT_COLUMN_KEYS = ['order_number', 'created_at', 'customer_name', 'order_status', 'payment_method', 'subtotal', 'tax_amount', 'delivery_fee', 'total_amount']
+
+export interface ExportOptions {
+  columnKeys: string[]
+  // Adds one row per item under each order
+  includeItems: boolean
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100
+
+/**
+ * Header, one row per order (and per item when asked) and a totals row. Item rows
+ * leave the order's columns blank apart from its number, so the totals stay correct.
+ */
+export function buildOrderExport(orders: Order[], { columnKeys, includeItems }: ExportOptions): SheetCell[][] {
+  const orderColumns = ORDER_EXPORT_COLUMNS.filter(column => columnKeys.includes(column.key))
+  const itemColumns = includeItems ? ITEM_EXPORT_COLUMNS : []
+  const numberIndex = orderColumns.findIndex(column => column.key === 'order_number')
+
+  const rows: SheetCell[][] = []
+  orders.forEach(order => {
+    rows.push([...orderColumns.map(column => column.value(order)), ...itemColumns.map(() => null)])
+    if (!includeItems) return
+    order.items.forEach(item => {
+      rows.push([
+        ...orderColumns.map((_, index) => index === numberIndex ? order.order_number : null),
+        ...itemColumns.map(column => column.value(item))
+      ])
+    })
+  })
+
+  const columns: ExportColumn<never>[] = [...orderColumns, ...itemColumns]
+  const totals: SheetCell[] = columns.map((column, index) => column.total
+    ? roundMoney(rows.reduce((sum, row) => sum + (typeof row[index] === 'number' ? row[index] as number : 0), 0))
+    : null)
+  totals[0] = totals[0] ?? `Total (${orders.length} orders)`
+
+  return [columns.map(column => column.label), ...rows, totals]
+}
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+// A signed number such as -150 or +2.5 is safe as it is; anything else with a
+// sign in front, phone numbers included, is escaped
+const NUMBER_TEXT = /^[+-]?(\d+(\.\d+)?|\.\d+)$/
+
+const isFormulaLike = (text: string) => FORMULA_PREFIX.test(text) && !NUMBER_TEXT.test(text)
+
+function csvCell(cell: SheetCell): string {
+  if (cell === null) return ''
+  if (typeof cell === 'number') return String(cell)
+  const text = isFormulaLike(cell) ? `'${cell}` : cell
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(rows: SheetCell[][]): Blob {
+  const csv = rows.map(row => row.map(csvCell).join(',')).join('\r\n')
+  // The byte order mark makes Excel read the file as UTF-8
+  return new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' })
+}
+
+export function toXlsx(rows: SheetCell[][]): Blob {
+  return createXlsx('Orders', rows)
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  // Revoking straight after click() can cancel the download before the browser has read the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
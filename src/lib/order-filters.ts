@@ -0,0 +1,208 @@
+import { addDays } from 'date-fns'
+import { Order, OrderStatus, PaymentStatus, ORDER_PRIORITY_RANK } from '@/types/orders'
+import { SlaConfig, isOverdue } from '@/lib/sla'
+
+export type StatusFilter = 'all' | 'urgent' | 'overdue' | OrderStatus
+export type PaymentFilter = 'all' | PaymentStatus
+export type SortOption = 'time' | 'amount' | 'status' | 'priority'
+
+// Everything that narrows or orders the orders list. Empty fields do not filter.
+export interface OrderFilters {
+  search: string
+  status: StatusFilter
+  payment: PaymentFilter
+  // yyyy-MM-dd, both days included
+  from: string
+  to: string
+  minAmount: number | null
+  maxAmount: number | null
+  paymentMethod: string
+  city: string
+  item: string
+  hasNotes: boolean
+  urgentOnly: boolean
+  sortBy: SortOption
+  sortOrder: 'asc' | 'desc'
+}
+
+export const DEFAULT_ORDER_FILTERS: OrderFilters = {
+  search: '',
+  status: 'all',
+  payment: 'all',
+  from: '',
+  to: '',
+  minAmount: null,
+  maxAmount: null,
+  paymentMethod: '',
+  city: '',
+  item: '',
+  hasNotes: false,
+  urgentOnly: false,
+  sortBy: 'time',
+  sortOrder: 'desc'
+}
+
+const STATUS_FILTERS: StatusFilter[] = ['all', 'urgent', 'overdue', 'pending', 'confirmed', 'preparing', 'ready', 'out_for_delivery', 'delivered', 'cancelled']
+const PAYMENT_FILTERS: PaymentFilter[] = ['all', 'pending', 'paid', 'failed', 'refunded']
+const SORT_OPTIONS: SortOption[] = ['time', 'amount', 'status', 'priority']
+const STATUS_ORDER: OrderStatus[] = ['pending', 'confirmed', 'preparing', 'ready', 'out_for_delivery', 'delivered', 'cancelled']
+
+const includesText = (value: string | null | undefined, term: string) =>
+  (value ?? '').toLowerCase().includes(term.trim().toLowerCase())
+
+export function matchesStatusFilter(order: Order, filter: StatusFilter, slaConfig: SlaConfig, now: Date): boolean {
+  if (filter === 'all') return true
+  if (filter === 'urgent') return order.priority === 'urgent'
+  if (filter === 'overdue') return isOverdue(order, slaConfig, now)
+  return order.order_status === filter
+}
+
+// Refunded also matches paid orders with a partial refund
+export function matchesPaymentFilter(order: Order, filter: PaymentFilter): boolean {
+  return filter === 'all' ||
+    order.payment_status === filter ||
+    (filter === 'refunded' && order.refunded_amount > 0)
+}
+
+// Every condition except the status and payment facets, which the toolbar counts separately
+function matchesConditions(order: Order, filters: OrderFilters): boolean {
+  const { search, from, to, minAmount, maxAmount, paymentMethod, city, item, hasNotes, urgentOnly } = filters
+  const createdAt = new Date(order.created_at)
+
+  if (search.trim() && !(
+    includesText(order.order_number, search) ||
+    includesText(order.customer_name, search) ||
+    order.customer_phone.includes(search.trim())
+  )) return false
+  if (from && createdAt < new Date(`${from}T00:00`)) return false
+  if (to && createdAt >= addDays(new Date(`${to}T00:00`), 1)) return false
+  if (minAmount !== null && order.total_amount < minAmount) return false
+  if (maxAmount !== null && order.total_amount > maxAmount) return false
+  if (paymentMethod && order.payment_method !== paymentMethod) return false
+  if (city.trim() && (order.fulfillment_type === 'pickup' || !includesText(order.delivery_address?.city, city))) return false
+  if (item.trim() && !order.items.some(orderItem => includesText(orderItem.item_name, item))) return false
+  if (hasNotes && !order.order_notes?.trim()) return false
+  if (urgentOnly && order.priority !== 'urgent') return false
+  return true
+}
+
+export interface FilterContext {
+  slaConfig: SlaConfig
+  now: Date
+  // Leaves one facet out, which is how the toolbar counts what each status or payment option would show
+  except?: 'status' | 'payment'
+}
+
+export function matchesFilters(order: Order, filters: OrderFilters, { slaConfig, now, except }: FilterContext): boolean {
+  return matchesConditions(order, filters) &&
+    (except === 'status' || matchesStatusFilter(order, filters.status, slaConfig, now)) &&
+    (except === 'payment' || matchesPaymentFilter(order, filters.payment))
+}
+
+export function sortOrders(orders: Order[], { sortBy, sortOrder }: Pick<OrderFilters, 'sortBy' | 'sortOrder'>): Order[] {
+  return [...orders].sort((a, b) => {
+    let comparison = 0
+    switch (sortBy) {
+      case 'time':
+        comparison = new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+        break
+      case 'amount':
+        comparison = a.total_amount - b.total_amount
+        break
+      case 'status':
+        comparison = STATUS_ORDER.indexOf(a.order_status) - STATUS_ORDER.indexOf(b.order_status)
+        break
+      case 'priority':
+        comparison = ORDER_PRIORITY_RANK[a.priority] - ORDER_PRIORITY_RANK[b.priority]
+        break
+    }
+    return sortOrder === 'asc' ? comparison : -comparison
+  })
+}
+
+export function filterOrders(orders: Order[], filters: OrderFilters, context: Omit<FilterContext, 'except'>): Order[] {
+  return sortOrders(orders.filter(order => matchesFilters(order, filters, context)), filters)
+}
+
+// Conditions set in the filter builder, for the badge on its button
+export function countAdvancedFilters(filters: OrderFilters): number {
+  return [
+    filters.from || filters.to,
+    filters.minAmount !== null || filters.maxAmount !== null,
+    filters.paymentMethod,
+    filters.city.trim(),
+    filters.item.trim(),
+    filters.hasNotes,
+    filters.urgentOnly
+  ].filter(Boolean).length
+}
+
+// Whether anything narrows the list; sorting does not
+export function hasActiveFilters(filters: OrderFilters): boolean {
+  return Boolean(
+    filters.search.trim() ||
+    filters.status !== 'all' ||
+    filters.payment !== 'all' ||
+    countAdvancedFilters(filters) > 0
+  )
+}
+
+const parseAmount = (value: string | null) => {
+  if (value === null || value.trim() === '') return null
+  const amount = Number(value)
+  return Number.isFinite(amount) ? amount : null
+}
+
+const parseDate = (value: string | null) => value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : ''
+
+/**
+ * The filters as URL search params, so a view can be bookmarked or shared. Only
+ * fields that differ from the defaults are written.
+ */
+export function filtersToSearchParams(filters: OrderFilters): URLSearchParams {
+  const params = new URLSearchParams()
+  const set = (key: string, value: string | number | null, fallback: string | number | null) => {
+    if (value !== fallback && value !== null && value !== '') params.set(key, String(value))
+  }
+  const defaults = DEFAULT_ORDER_FILTERS
+
+  set('q', filters.search.trim(), defaults.search)
+  set('status', filters.status, defaults.status)
+  set('payment', filters.payment, defaults.payment)
+  set('from', filters.from, defaults.from)
+  set('to', filters.to, defaults.to)
+  set('min', filters.minAmount, defaults.minAmount)
+  set('max', filters.maxAmount, defaults.maxAmount)
+  set('method', filters.paymentMethod, defaults.paymentMethod)
+  set('city', filters.city.trim(), defaults.city)
+  set('item', filters.item.trim(), defaults.item)
+  if (filters.hasNotes) params.set('notes', '1')
+  if (filters.urgentOnly) params.set('urgent', '1')
+  set('sort', filters.sortBy, defaults.sortBy)
+  set('dir', filters.sortOrder, defaults.sortOrder)
+  return params
+}
+
+// Reads filters back from the URL; unknown or malformed values fall back to the defaults
+export function filtersFromSearchParams(params: Pick<URLSearchParams, 'get'>): OrderFilters {
+  const pick = <T extends string>(value: string | null, allowed: readonly T[], fallback: T): T =>
+    allowed.includes(value as T) ? value as T : fallback
+  const defaults = DEFAULT_ORDER_FILTERS
+
+  return {
+    search: params.get('q') ?? defaults.search,
+    status: pick(params.get('status'), STATUS_FILTERS, defaults.status),
+    payment: pick(params.get('payment'), PAYMENT_FILTERS, defaults.payment),
+    from: parseDate(params.get('from')),
+    to: parseDate(params.get('to')),
+    minAmount: parseAmount(params.get('min')),
+    maxAmount: parseAmount(params.get('max')),
+    paymentMethod: params.get('method') ?? defaults.paymentMethod,
+    city: params.get('city') ?? defaults.city,
+    item: params.get('item') ?? defaults.item,
+    hasNotes: params.get('notes') === '1',
+    urgentOnly: params.get('urgent') === '1',
+    sortBy: pick(params.get('sort'), SORT_OPTIONS, defaults.sortBy),
+    sortOrder: pick(params.get('dir'), ['asc', 'desc'] as const, defaults.sortOrder)
+  }
+}
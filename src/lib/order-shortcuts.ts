@@ -0,0 +1,52 @@
+import { ORDER_STATUS_LABELS } from '@/types/orders'
+import { StatusFilter } from '@/lib/order-filters'
+
+export interface OrderShortcut {
+  // Shown as separate keycaps, e.g. ['Ctrl', 'K']
+  keys: string[]
+  description: string
+}
+
+// The number keys pick a status filter, in the order the toolbar shows them
+export const STATUS_FILTER_SHORTCUTS: { key: string; status: StatusFilter; label: string }[] = [
+  { key: '1', status: 'all', label: 'All Orders' },
+  { key: '2', status: 'urgent', label: 'Urgent' },
+  { key: '3', status: 'overdue', label: 'Overdue' },
+  { key: '4', status: 'pending', label: ORDER_STATUS_LABELS.pending },
+  { key: '5', status: 'confirmed', label: ORDER_STATUS_LABELS.confirmed },
+  { key: '6', status: 'preparing', label: ORDER_STATUS_LABELS.preparing },
+  { key: '7', status: 'ready', label: ORDER_STATUS_LABELS.ready },
+  { key: '8', status: 'out_for_delivery', label: ORDER_STATUS_LABELS.out_for_delivery },
+  { key: '9', status: 'delivered', label: ORDER_STATUS_LABELS.delivered },
+  { key: '0', status: 'cancelled', label: ORDER_STATUS_LABELS.cancelled }
+]
+
+export const ORDER_SHORTCUTS: OrderShortcut[] = [
+  { keys: ['Ctrl', 'K'], description: 'Open the command palette' },
+  { keys: ['↓', 'J'], description: 'Next order' },
+  { keys: ['↑', 'K'], description: 'Previous order' },
+  { keys: ['Enter'], description: 'Advance the highlighted order' },
+  { keys: ['U'], description: 'Mark or clear urgent' },
+  { keys: ['O', 'Space'], description: 'Open order details' },
+  { keys: ['X'], description: 'Select for bulk actions' },
+  { keys: ['Esc'], description: 'Close details' },
+  { keys: ['/'], description: 'Search orders' },
+  { keys: ['1', '…', '0'], description: 'Switch status filter' },
+  { keys: ['N'], description: 'New order' },
+  { keys: ['?'], description: 'Show this help' }
+]
+
+/**
+ * Whether a key press belongs to whatever has focus rather than to the dashboard:
+ * anything typed into a field, and Enter or Space on a focused button or link.
+ */
+export function isShortcutIgnored(event: KeyboardEvent): boolean {
+  const target = event.target
+  if (!(target instanceof HTMLElement)) return false
+  if (target.isContentEditable) return true
+  if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) {
+    return true
+  }
+  return (event.key === 'Enter' || event.key === ' ') &&
+    (target instanceof HTMLButtonElement || target instanceof HTMLAnchorElement)
+}
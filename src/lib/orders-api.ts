@@ -0,0 +1,284 @@
+import { supabase, requireSupabase, Database } from '@/lib/supabase'
+import { Order, OrderPriority, OrderStatus, OrderStatusHistory, StaffRole, validateTransition } from '@/types/orders'
+import { EMPTY_ADDRESS, OrderEditDraft, validateItemDrafts } from '@/lib/order-edits'
+import { CustomerMatch, NewOrderDraft, validateNewOrder } from '@/lib/order-entry'
+
+// Items and status history are embedded so a page of orders is a single round trip
+const ORDER_SELECT = '*, items:order_items(*), status_history:order_status_history(*)'
+
+export const ORDERS_PAGE_SIZE = 100
+
+export interface FetchOrdersOptions {
+  // Inclusive lower bound on created_at
+  from?: Date
+  // Exclusive upper bound on created_at
+  to?: Date
+  limit?: number
+  offset?: number
+}
+
+export const isOrdersBackendConfigured = supabase !== null
+
+function normalizeOrder(row: Order): Order {
+  return {
+    ...row,
+    items: row.items ?? [],
+    status_history: [...(row.status_history ?? [])].sort(
+      (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+    )
+  }
+}
+
+export async function fetchOrders({
+  from,
+  to,
+  limit = ORDERS_PAGE_SIZE,
+  offset = 0
+}: FetchOrdersOptions = {}): Promise<Order[]> {
+  let query = requireSupabase()
+    .from('orders')
+    .select(ORDER_SELECT)
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1)
+
+  if (from) query = query.gte('created_at', from.toISOString())
+  if (to) query = query.lt('created_at', to.toISOString())
+
+  const { data, error } = await query
+  if (error) throw error
+
+  return (data as Order[]).map(normalizeOrder)
+}
+
+// Every order in the range, fetched a page at a time; used for reports rather than the live list
+export async function fetchAllOrders({ from, to }: Pick<FetchOrdersOptions, 'from' | 'to'>): Promise<Order[]> {
+  const orders: Order[] = []
+  for (;;) {
+    const page = await fetchOrders({ from, to, offset: orders.length })
+    orders.push(...page)
+    if (page.length < ORDERS_PAGE_SIZE) return orders
+  }
+}
+
+export async function fetchOrder(orderId: string): Promise<Order> {
+  const { data, error } = await requireSupabase()
+    .from('orders')
+    .select(ORDER_SELECT)
+    .eq('id', orderId)
+    .single()
+
+  if (error) throw error
+
+  return normalizeOrder(data as Order)
+}
+
+export class OrderTransitionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'OrderTransitionError'
+  }
+}
+
+export interface StatusChangeOptions {
+  // Status the caller saw; the RPC rejects the change if another device moved the order first
+  from: OrderStatus
+  notes?: string | null
+  role?: StaffRole | null
+  // Set when replaying an offline change: the order's updated_at when the change was made
+  expectedUpdatedAt?: string | null
+}
+
+// Goes through the update_order_status RPC so the status and its history row are written atomically
+export async function updateOrderStatus(
+  orderId: string,
+  status: OrderStatus,
+  { from, notes = null, role = null, expectedUpdatedAt = null }: StatusChangeOptions
+): Promise<OrderStatusHistory> {
+  const invalidReason = validateTransition(from, status, { reason: notes, role })
+  if (invalidReason) throw new OrderTransitionError(invalidReason)
+
+  const args: Database['public']['Functions']['update_order_status']['Args'] = {
+    p_order_id: orderId,
+    p_status: status,
+    p_expected_status: from,
+    p_notes: notes,
+    p_expected_updated_at: expectedUpdatedAt
+  }
+  const { data, error } = await requireSupabase().rpc('update_order_status', args)
+
+  if (error) {
+    // Raised by the RPC when the order moved on in the meantime
+    if (error.code === 'P0001') throw new OrderTransitionError(error.message)
+    throw error
+  }
+
+  return data as OrderStatusHistory
+}
+
+export async function updateOrderPriority(
+  orderId: string,
+  priority: OrderPriority,
+  // As for updateOrderStatus, only set when replaying an offline change
+  expectedUpdatedAt: string | null = null
+): Promise<Pick<Order, 'priority' | 'priority_set_by' | 'priority_set_at' | 'updated_at'>> {
+  // The set_order_priority RPC records the change on the order's timeline
+  const { data, error } = await requireSupabase().rpc('set_order_priority', {
+    p_order_id: orderId,
+    p_priority: priority,
+    p_expected_updated_at: expectedUpdatedAt
+  })
+
+  if (error) {
+    if (error.code === 'P0001') throw new OrderTransitionError(error.message)
+    throw error
+  }
+
+  const order = data as Order
+  return {
+    priority: order.priority,
+    priority_set_by: order.priority_set_by,
+    priority_set_at: order.priority_set_at,
+    updated_at: order.updated_at
+  }
+}
+
+// Flags an overdue order as urgent through escalate_order, which does so once per
+// status, so a flag staff lowered by hand is not raised again by another screen.
+// updated_at is left as it was, so edits made against the order still save.
+export async function escalateOrder(
+  orderId: string,
+  status: OrderStatus
+): Promise<Pick<Order, 'priority' | 'priority_set_by' | 'priority_set_at' | 'escalated_for_status'>> {
+  const args: Database['public']['Functions']['escalate_order']['Args'] = { p_order_id: orderId, p_status: status }
+  const { data, error } = await requireSupabase().rpc('escalate_order', args)
+
+  if (error) {
+    if (error.code === 'P0001') throw new OrderTransitionError(error.message)
+    throw error
+  }
+
+  const order = data as Order
+  return {
+    priority: order.priority,
+    priority_set_by: order.priority_set_by,
+    priority_set_at: order.priority_set_at,
+    escalated_for_status: order.escalated_for_status
+  }
+}
+
+export interface OrderEditOptions {
+  // The order's updated_at when editing started, so concurrent changes are not overwritten
+  expectedUpdatedAt: string
+}
+
+// Replaces the order's items, notes and address through the edit_order RPC, which
+// checks the items, recomputes the totals and logs the diff, then reloads the order
+export async function editOrder(
+  orderId: string,
+  draft: OrderEditDraft,
+  { expectedUpdatedAt }: OrderEditOptions
+): Promise<Order> {
+  const invalidReason = validateItemDrafts(draft.items)
+  if (invalidReason) throw new OrderTransitionError(invalidReason)
+
+  const args: Database['public']['Functions']['edit_order']['Args'] = {
+    p_order_id: orderId,
+    p_expected_updated_at: expectedUpdatedAt,
+    p_items: draft.items.map(item => ({ ...item, item_name: item.item_name.trim() })),
+    p_order_notes: draft.order_notes.trim() || null,
+    p_delivery_address: Object.fromEntries(
+      Object.entries(draft.delivery_address).map(([key, value]) => [key, typeof value === 'string' ? value.trim() : value])
+    )
+  }
+  const { error } = await requireSupabase().rpc('edit_order', args)
+
+  if (error) {
+    if (error.code === 'P0001') throw new OrderTransitionError(error.message)
+    throw error
+  }
+
+  return fetchOrder(orderId)
+}
+
+// Marks a cash-on-delivery (or failed) payment as collected
+export async function markOrderPaid(orderId: string): Promise<Order> {
+  const args: Database['public']['Functions']['mark_order_paid']['Args'] = { p_order_id: orderId }
+  const { error } = await requireSupabase().rpc('mark_order_paid', args)
+
+  if (error) {
+    if (error.code === 'P0001') throw new OrderTransitionError(error.message)
+    throw error
+  }
+
+  return fetchOrder(orderId)
+}
+
+// Records a full or partial refund; the RPC rejects more than what is left to refund
+export async function recordRefund(
+  orderId: string,
+  amount: number,
+  reason: string
+): Promise<Order> {
+  if (!reason.trim()) throw new OrderTransitionError('A reason is required for a refund')
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new OrderTransitionError('The refund amount must be more than zero')
+  }
+
+  const args: Database['public']['Functions']['record_refund']['Args'] = {
+    p_order_id: orderId,
+    p_amount: Math.round(amount * 100) / 100,
+    p_reason: reason.trim()
+  }
+  const { error } = await requireSupabase().rpc('record_refund', args)
+
+  if (error) {
+    if (error.code === 'P0001') throw new OrderTransitionError(error.message)
+    throw error
+  }
+
+  return fetchOrder(orderId)
+}
+
+// The customer's most recent order, used to fill in a phone order for a returning customer
+export async function findCustomerByPhone(phone: string): Promise<CustomerMatch | null> {
+  const { data, error } = await requireSupabase()
+    .from('orders')
+    .select('customer_name, customer_email, delivery_address')
+    .eq('customer_phone', phone)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+
+  return data as CustomerMatch | null
+}
+
+// Inserts the order and its items through the create_order RPC, which numbers the
+// order and prices it from the store settings
+export async function createOrder(draft: NewOrderDraft): Promise<Order> {
+  const invalidReason = validateNewOrder(draft)
+  if (invalidReason) throw new OrderTransitionError(invalidReason)
+
+  const args: Database['public']['Functions']['create_order']['Args'] = {
+    p_order: {
+      customer_name: draft.customer_name.trim(),
+      customer_phone: draft.customer_phone.trim(),
+      customer_email: draft.customer_email.trim(),
+      fulfillment_type: draft.fulfillment_type,
+      order_source: draft.order_source,
+      payment_method: draft.payment_method,
+      delivery_address: draft.fulfillment_type === 'pickup' ? { ...EMPTY_ADDRESS } : { ...draft.delivery_address },
+      order_notes: draft.order_notes.trim() || null
+    },
+    p_items: draft.items.map(item => ({ ...item, item_name: item.item_name.trim() }))
+  }
+  const { data, error } = await requireSupabase().rpc('create_order', args)
+
+  if (error) {
+    if (error.code === 'P0001') throw new OrderTransitionError(error.message)
+    throw error
+  }
+
+  return fetchOrder((data as Order).id)
+}
@@ -0,0 +1,154 @@
+import { Order, OrderStatus } from '@/types/orders'
+
+// Statuses whose time is measured; confirmed is a hand-off between the counter and the kitchen
+export const THROUGHPUT_STATUSES: OrderStatus[] = ['pending', 'preparing', 'ready', 'out_for_delivery']
+
+export interface StatusSpan {
+  status: OrderStatus
+  enteredAt: Date
+  // Missing while the order is still in the status
+  leftAt: Date | null
+  // Staff member who moved the order on, from the next history entry
+  endedBy: string | null
+}
+
+export interface OrderTiming {
+  order: Order
+  // Minutes per status; an order that went back to a status has both visits added up
+  minutes: Partial<Record<OrderStatus, number>>
+  // From placement until the last completed status change
+  totalMinutes: number
+}
+
+export interface PercentileStats {
+  count: number
+  p50: number
+  p90: number
+  max: number
+}
+
+export type StageStats = Partial<Record<OrderStatus, PercentileStats>>
+
+export interface GroupedStageStats {
+  key: string
+  orders: number
+  stages: StageStats
+}
+
+const minutesBetween = (from: Date, to: Date) => (to.getTime() - from.getTime()) / 60000
+
+// The order's status changes as spans, oldest first; edit log entries are skipped
+export function getStatusSpans(order: Order): StatusSpan[] {
+  const entries = (order.status_history ?? [])
+    .filter(entry => !entry.changes)
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+
+  // Orders from the customer site start without a pending history row
+  const starts = entries[0]?.status === 'pending'
+    ? entries
+    : [{ status: 'pending' as OrderStatus, created_at: order.created_at, created_by: null }, ...entries]
+
+  return starts.map((entry, index) => {
+    const next = starts[index + 1]
+    return {
+      status: entry.status,
+      enteredAt: new Date(entry.created_at),
+      leftAt: next ? new Date(next.created_at) : null,
+      endedBy: next?.created_by ?? null
+    }
+  })
+}
+
+export function getOrderTiming(order: Order): OrderTiming {
+  const spans = getStatusSpans(order).filter(span => span.leftAt)
+  const minutes: Partial<Record<OrderStatus, number>> = {}
+  spans.forEach(span => {
+    minutes[span.status] = (minutes[span.status] ?? 0) + minutesBetween(span.enteredAt, span.leftAt!)
+  })
+  const lastChange = spans[spans.length - 1]?.leftAt
+  return {
+    order,
+    minutes,
+    totalMinutes: lastChange ? minutesBetween(new Date(order.created_at), lastChange) : 0
+  }
+}
+
+// Linear interpolation between the closest ranks; values must be sorted ascending
+function percentile(sorted: number[], p: number): number {
+  const rank = (sorted.length - 1) * p
+  const lower = Math.floor(rank)
+  const upper = Math.ceil(rank)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower)
+}
+
+export function getPercentileStats(values: number[]): PercentileStats | undefined {
+  if (values.length === 0) return undefined
+  const sorted = [...values].sort((a, b) => a - b)
+  return {
+    count: sorted.length,
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    max: sorted[sorted.length - 1]
+  }
+}
+
+export function getStageStats(timings: OrderTiming[]): StageStats {
+  return Object.fromEntries(
+    THROUGHPUT_STATUSES
+      .map(status => [status, getPercentileStats(timings.flatMap(timing => timing.minutes[status] ?? []))] as const)
+      .filter(([, stats]) => stats)
+  )
+}
+
+// Grouped by the hour the order was placed, so slow periods of the day stand out
+export function getStageStatsByHour(timings: OrderTiming[]): GroupedStageStats[] {
+  const groups = new Map<number, OrderTiming[]>()
+  timings.forEach(timing => {
+    const hour = new Date(timing.order.created_at).getHours()
+    groups.set(hour, [...(groups.get(hour) ?? []), timing])
+  })
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([hour, group]) => ({
+      key: `${String(hour).padStart(2, '0')}:00`,
+      orders: group.length,
+      stages: getStageStats(group)
+    }))
+}
+
+/**
+ * Time in each status grouped by the staff member who moved the order out of it,
+ * e.g. preparing time is credited to whoever marked the order ready.
+ */
+export function getStageStatsByStaff(orders: Order[]): GroupedStageStats[] {
+  const groups = new Map<string, { orders: Set<string>; minutes: Partial<Record<OrderStatus, number[]>> }>()
+
+  orders.forEach(order => {
+    getStatusSpans(order).forEach(span => {
+      if (!span.leftAt || !span.endedBy || !THROUGHPUT_STATUSES.includes(span.status)) return
+      const group = groups.get(span.endedBy) ?? { orders: new Set(), minutes: {} }
+      group.orders.add(order.id)
+      group.minutes[span.status] = [...(group.minutes[span.status] ?? []), minutesBetween(span.enteredAt, span.leftAt)]
+      groups.set(span.endedBy, group)
+    })
+  })
+
+  return [...groups.entries()]
+    .map(([name, group]) => ({
+      key: name,
+      orders: group.orders.size,
+      stages: Object.fromEntries(
+        Object.entries(group.minutes).map(([status, values]) => [status, getPercentileStats(values)])
+      ) as StageStats
+    }))
+    .sort((a, b) => b.orders - a.orders)
+}
+
+// Completed orders that took longest from placement to their last status change
+export function getSlowestOrders(timings: OrderTiming[], limit = 10): OrderTiming[] {
+  return timings
+    .filter(timing => timing.order.order_status === 'delivered')
+    .sort((a, b) => b.totalMinutes - a.totalMinutes)
+    .slice(0, limit)
+}
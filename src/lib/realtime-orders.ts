@@ -0,0 +1,107 @@
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js'
+import { Database } from '@/lib/supabase'
+import { Order, OrderItem, OrderStatusHistory } from '@/types/orders'
+
+type Tables = Database['public']['Tables']
+type OrderRow = Tables['orders']['Row']
+type OrderItemRow = Tables['order_items']['Row']
+type OrderStatusHistoryRow = Tables['order_status_history']['Row']
+
+export type OrdersChange =
+  | { table: 'orders'; payload: RealtimePostgresChangesPayload<OrderRow> }
+  | { table: 'order_items'; payload: RealtimePostgresChangesPayload<OrderItemRow> }
+  | { table: 'order_status_history'; payload: RealtimePostgresChangesPayload<OrderStatusHistoryRow> }
+
+const byCreatedAtDesc = (a: Order, b: Order) =>
+  new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+
+// Replaces the entry with the same id, or appends it when it is not there yet
+function upsertById<T extends { id: string }>(list: T[], entry: T): T[] {
+  const index = list.findIndex(existing => existing.id === entry.id)
+  if (index === -1) return [...list, entry]
+  const next = [...list]
+  next[index] = entry
+  return next
+}
+
+function rowToOrder(row: OrderRow, previous?: Order): Order {
+  return {
+    ...(row as unknown as Omit<Order, 'items' | 'status_history'>),
+    items: previous?.items ?? [],
+    status_history: previous?.status_history ?? []
+  }
+}
+
+function mergeOrderChange(orders: Order[], payload: RealtimePostgresChangesPayload<OrderRow>): Order[] {
+  switch (payload.eventType) {
+    case 'INSERT': {
+      const existing = orders.find(order => order.id === payload.new.id)
+      return upsertById(orders, rowToOrder(payload.new, existing)).sort(byCreatedAtDesc)
+    }
+    case 'UPDATE': {
+      const existing = orders.find(order => order.id === payload.new.id)
+      // Updates for orders outside the loaded window are ignored; the next refetch picks them up
+      if (!existing) return orders
+      // Realtime can deliver an older row after a newer local write; keep the newest copy
+      if (new Date(payload.new.updated_at).getTime() < new Date(existing.updated_at).getTime()) {
+        return orders
+      }
+      return upsertById(orders, rowToOrder(payload.new, existing))
+    }
+    case 'DELETE':
+      return orders.filter(order => order.id !== payload.old.id)
+  }
+}
+
+function mergeItemChange(orders: Order[], payload: RealtimePostgresChangesPayload<OrderItemRow>): Order[] {
+  if (payload.eventType === 'DELETE') {
+    // Without REPLICA IDENTITY FULL the old record only carries the primary key
+    const itemId = payload.old.id
+    return orders.map(order =>
+      order.items.some(item => item.id === itemId)
+        ? { ...order, items: order.items.filter(item => item.id !== itemId) }
+        : order
+    )
+  }
+
+  const item = payload.new as unknown as OrderItem
+  return orders.map(order =>
+    order.id === item.order_id
+      ? { ...order, items: upsertById(order.items, item) }
+      : order
+  )
+}
+
+function mergeHistoryChange(orders: Order[], payload: RealtimePostgresChangesPayload<OrderStatusHistoryRow>): Order[] {
+  if (payload.eventType === 'DELETE') {
+    const entryId = payload.old.id
+    return orders.map(order =>
+      order.status_history?.some(entry => entry.id === entryId)
+        ? { ...order, status_history: order.status_history.filter(entry => entry.id !== entryId) }
+        : order
+    )
+  }
+
+  const entry = payload.new as unknown as OrderStatusHistory
+  return orders.map(order =>
+    order.id === entry.order_id
+      ? {
+          ...order,
+          status_history: upsertById(order.status_history ?? [], entry).sort(
+            (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+          )
+        }
+      : order
+  )
+}
+
+export function applyOrdersChange(orders: Order[], change: OrdersChange): Order[] {
+  switch (change.table) {
+    case 'orders':
+      return mergeOrderChange(orders, change.payload)
+    case 'order_items':
+      return mergeItemChange(orders, change.payload)
+    case 'order_status_history':
+      return mergeHistoryChange(orders, change.payload)
+  }
+}
@@ -0,0 +1,184 @@
+import { format } from 'date-fns'
+import { Order, OrderItem } from '@/types/orders'
+import { describeCustomizations, parseCustomizations } from '@/lib/customizations'
+
+export type ReceiptLayout = 'kitchen' | 'customer'
+
+export interface ReceiptLine {
+  left: string
+  right?: string
+  emphasis?: boolean
+  // Detail lines under an item, such as customizations
+  indent?: boolean
+}
+
+export interface ReceiptSection {
+  title?: string
+  lines: ReceiptLine[]
+}
+
+export interface Receipt {
+  layout: ReceiptLayout
+  heading: string
+  subheading: string
+  sections: ReceiptSection[]
+  footer?: string
+}
+
+export const SHOP_NAME = 'Boss Pizza'
+
+const formatMoney = (amount: number) => `Rs ${amount.toFixed(2)}`
+
+function addressLines(order: Order): ReceiptLine[] {
+  const address = order.delivery_address as Order['delivery_address'] & { landmark?: string }
+  if (order.fulfillment_type === 'pickup') return [{ left: 'PICKUP AT COUNTER', emphasis: true }]
+  if (!address) return []
+  return [
+    { left: address.street },
+    { left: [address.city, address.state, address.zipCode].filter(Boolean).join(', ') },
+    ...(address.landmark ? [{ left: `Landmark: ${address.landmark}` }] : [])
+  ]
+}
+
+// Removals and instructions stand out on the kitchen ticket, led by any allergen warning
+function customizationLines(item: OrderItem, layout: ReceiptLayout): ReceiptLine[] {
+  const parsed = parseCustomizations(item.customizations)
+  const isKitchen = layout === 'kitchen'
+  return [
+    ...(isKitchen && parsed.allergens.length > 0
+      ? [{ left: `!! ALLERGEN: ${parsed.allergens.join(', ')}`, emphasis: true, indent: true }]
+      : []),
+    ...describeCustomizations(parsed).map(line => ({
+      left: `${line.label}: ${line.value}`,
+      emphasis: isKitchen && (line.tone === 'removed' || line.tone === 'alert'),
+      indent: true
+    }))
+  ]
+}
+
+function buildKitchenTicket(order: Order): Receipt {
+  return {
+    layout: 'kitchen',
+    heading: `#${order.order_number}`,
+    subheading: `${order.fulfillment_type === 'pickup' ? 'PICKUP' : 'KITCHEN'} - ${format(new Date(order.created_at), 'dd MMM HH:mm')}`,
+    sections: [
+      {
+        lines: order.items.flatMap(item => [
+          { left: `${item.quantity} x ${item.item_name}`, emphasis: true },
+          ...customizationLines(item, 'kitchen')
+        ])
+      },
+      ...(order.order_notes ? [{ title: 'NOTES', lines: [{ left: order.order_notes, emphasis: true }] }] : [])
+    ]
+  }
+}
+
+function buildCustomerReceipt(order: Order): Receipt {
+  return {
+    layout: 'customer',
+    heading: SHOP_NAME,
+    subheading: `Order #${order.order_number} - ${format(new Date(order.created_at), 'dd MMM yyyy HH:mm')}`,
+    sections: [
+      {
+        title: 'Customer',
+        lines: [
+          { left: order.customer_name },
+          { left: order.customer_phone },
+          ...addressLines(order)
+        ]
+      },
+      {
+        title: 'Items',
+        lines: order.items.flatMap(item => [
+          { left: `${item.quantity} x ${item.item_name}`, right: formatMoney(item.total_price) },
+          ...customizationLines(item, 'customer')
+        ])
+      },
+      {
+        lines: [
+          { left: 'Subtotal', right: formatMoney(order.subtotal) },
+          { left: 'Tax', right: formatMoney(order.tax_amount) },
+          { left: 'Delivery Fee', right: formatMoney(order.delivery_fee) },
+          { left: 'TOTAL', right: formatMoney(order.total_amount), emphasis: true },
+          { left: 'Payment', right: order.payment_method }
+        ]
+      },
+      ...(order.order_notes ? [{ title: 'Notes', lines: [{ left: order.order_notes }] }] : [])
+    ],
+    footer: 'Thank you for ordering!'
+  }
+}
+
+export function buildReceipt(order: Order, layout: ReceiptLayout): Receipt {
+  return layout === 'kitchen' ? buildKitchenTicket(order) : buildCustomerReceipt(order)
+}
+
+// ESC/POS command bytes, written as characters so the output can be sent as-is
+const ESC = '\x1b'
+const GS = '\x1d'
+const INIT = `${ESC}@`
+const ALIGN_LEFT = `${ESC}a\x00`
+const ALIGN_CENTER = `${ESC}a\x01`
+const BOLD_ON = `${ESC}E\x01`
+const BOLD_OFF = `${ESC}E\x00`
+const DOUBLE_SIZE = `${GS}!\x11`
+const NORMAL_SIZE = `${GS}!\x00`
+const FEED_AND_CUT = `${ESC}d\x04${GS}V\x00`
+
+function wrap(text: string, width: number): string[] {
+  const lines: string[] = []
+  let current = ''
+  text.split(/\s+/).forEach(word => {
+    if (!current) {
+      current = word
+    } else if (current.length + 1 + word.length <= width) {
+      current += ` ${word}`
+    } else {
+      lines.push(current)
+      current = word
+    }
+  })
+  if (current || lines.length === 0) lines.push(current)
+  // Words longer than a line are hard-split
+  return lines.flatMap(line => line.match(new RegExp(`.{1,${width}}`, 'g')) ?? [''])
+}
+
+function renderLine(line: ReceiptLine, width: number): string {
+  const indent = line.indent ? '  ' : ''
+  if (!line.right) {
+    return wrap(line.left, width - indent.length).map(part => indent + part).join('\n')
+  }
+  const rightWidth = line.right.length + 1
+  const leftParts = wrap(line.left, width - indent.length - rightWidth)
+  const last = indent + leftParts[leftParts.length - 1]
+  return [
+    ...leftParts.slice(0, -1).map(part => indent + part),
+    last + line.right.padStart(width - last.length)
+  ].join('\n')
+}
+
+/**
+ * Renders a receipt as ESC/POS text for thermal printers. `width` is the number
+ * of characters per line: 48 for 80mm paper, 32 for 58mm.
+ */
+export function renderEscPos(receipt: Receipt, width = 48): string {
+  const out: string[] = [INIT, ALIGN_CENTER, DOUBLE_SIZE, receipt.heading, '\n', NORMAL_SIZE, receipt.subheading, '\n', ALIGN_LEFT]
+  const rule = '-'.repeat(width)
+
+  receipt.sections.forEach(section => {
+    out.push(rule, '\n')
+    if (section.title) out.push(BOLD_ON, section.title.toUpperCase(), BOLD_OFF, '\n')
+    section.lines.forEach(line => {
+      if (line.emphasis) out.push(BOLD_ON)
+      // The kitchen reads item lines from a distance
+      if (line.emphasis && receipt.layout === 'kitchen') out.push(DOUBLE_SIZE)
+      out.push(renderLine(line, line.emphasis && receipt.layout === 'kitchen' ? Math.floor(width / 2) : width), '\n')
+      if (line.emphasis) out.push(NORMAL_SIZE, BOLD_OFF)
+    })
+  })
+
+  if (receipt.footer) out.push(rule, '\n', ALIGN_CENTER, receipt.footer, '\n')
+  out.push(FEED_AND_CUT)
+
+  return out.join('')
+}
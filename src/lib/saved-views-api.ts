@@ -0,0 +1,33 @@
+import { requireSupabase } from '@/lib/supabase'
+import { SavedOrderView } from '@/types/orders'
+
+// The signed-in staff member's views; row level security hides everyone else's
+export async function fetchSavedViews(): Promise<SavedOrderView[]> {
+  const { data, error } = await requireSupabase()
+    .from('saved_order_views')
+    .select('*')
+    .order('name')
+
+  if (error) throw error
+
+  return data as SavedOrderView[]
+}
+
+// Saving under an existing name replaces that view
+export async function saveView(name: string, query: string): Promise<SavedOrderView> {
+  const { data, error } = await requireSupabase()
+    .from('saved_order_views')
+    .upsert({ name: name.trim(), query }, { onConflict: 'staff_id,name' })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  return data as SavedOrderView
+}
+
+export async function deleteSavedView(viewId: string) {
+  const { error } = await requireSupabase().from('saved_order_views').delete().eq('id', viewId)
+
+  if (error) throw error
+}
@@ -0,0 +1,29 @@
+import { Database, requireSupabase } from '@/lib/supabase'
+import { OrderTransitionError } from '@/lib/orders-api'
+import { SlaConfig } from '@/lib/sla'
+import { StoreSettings } from '@/types/settings'
+
+// The pricing create_order charges; the new order form only previews it
+export async function fetchStoreSettings(): Promise<StoreSettings> {
+  const { data, error } = await requireSupabase()
+    .from('store_settings')
+    .select('*')
+    .single()
+
+  if (error) throw error
+
+  return data as StoreSettings
+}
+
+// Overdue limits shared by every dashboard and kitchen display
+export async function saveSlaMinutes(config: SlaConfig): Promise<StoreSettings> {
+  const args: Database['public']['Functions']['set_sla_minutes']['Args'] = { p_sla_minutes: { ...config } }
+  const { data, error } = await requireSupabase().rpc('set_sla_minutes', args)
+
+  if (error) {
+    if (error.code === 'P0001') throw new OrderTransitionError(error.message)
+    throw error
+  }
+
+  return data as StoreSettings
+}
@@ -0,0 +1,45 @@
+import { Order, OrderStatus } from '@/types/orders'
+
+// Minutes an order may spend in a status before it is overdue; statuses without a limit never are
+export type SlaConfig = Partial<Record<OrderStatus, number>>
+
+export const DEFAULT_SLA_MINUTES: SlaConfig = {
+  pending: 5,
+  confirmed: 10,
+  preparing: 20,
+  ready: 10,
+  out_for_delivery: 30
+}
+
+export const SLA_STATUSES: OrderStatus[] = ['pending', 'confirmed', 'preparing', 'ready', 'out_for_delivery']
+
+export interface SlaBreach {
+  status: OrderStatus
+  limitMinutes: number
+  minutesInStatus: number
+}
+
+// When the order entered its current status, from history when it is available.
+// Edit log entries repeat the current status and are skipped.
+export function getStatusEnteredAt(order: Order): Date {
+  const entries = order.status_history ?? []
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (entries[i].status === order.order_status && !entries[i].changes) return new Date(entries[i].created_at)
+  }
+  if (order.order_status === 'pending') return new Date(order.created_at)
+  return new Date(order.updated_at)
+}
+
+export function getSlaBreach(order: Order, config: SlaConfig, now: Date = new Date()): SlaBreach | null {
+  const limitMinutes = config[order.order_status]
+  if (limitMinutes === undefined) return null
+
+  const minutesInStatus = Math.floor((now.getTime() - getStatusEnteredAt(order).getTime()) / 60000)
+  if (minutesInStatus < limitMinutes) return null
+
+  return { status: order.order_status, limitMinutes, minutesInStatus }
+}
+
+export function isOverdue(order: Order, config: SlaConfig, now: Date = new Date()): boolean {
+  return getSlaBreach(order, config, now) !== null
+}
@@ -1,14 +1,56 @@
-import { createClient } from '@supabase/supabase-js'
+import { createClient, Session } from '@supabase/supabase-js'
 
 // Get these from your Supabase project settings
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
 const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
 
+export const isSupabaseConfigured = Boolean(supabaseUrl && supabaseKey)
+
+// The middleware cannot see the session in localStorage, so the browser client
+// mirrors the current access token into this cookie
+export const ACCESS_TOKEN_COOKIE = 'boss-pizza-admin-access-token'
+
 // Only create client if environment variables are available
 export const supabase = supabaseUrl && supabaseKey 
-  ? createClient(supabaseUrl, supabaseKey)
+  ? createClient(supabaseUrl, supabaseKey, {
+      auth: {
+        persistSession: typeof window !== 'undefined',
+        autoRefreshToken: typeof window !== 'undefined',
+        storageKey: 'boss-pizza-admin:auth'
+      }
+    })
   : null
 
+export function syncAccessTokenCookie(session: Session | null) {
+  if (typeof document === 'undefined') return
+  const secure = window.location.protocol === 'https:' ? '; secure' : ''
+  document.cookie = session
+    ? `${ACCESS_TOKEN_COOKIE}=${session.access_token}; path=/; max-age=${session.expires_in}; samesite=lax${secure}`
+    : `${ACCESS_TOKEN_COOKIE}=; path=/; max-age=0; samesite=lax${secure}`
+}
+
+// Fires on sign in, sign out and every token refresh
+if (supabase && typeof window !== 'undefined') {
+  supabase.auth.onAuthStateChange((_event, session) => syncAccessTokenCookie(session))
+}
+
+// Client that acts as the user holding `accessToken`, for server code such as the middleware
+export function createSessionClient(accessToken: string) {
+  if (!supabaseUrl || !supabaseKey) return null
+  return createClient(supabaseUrl, supabaseKey, {
+    global: { headers: { Authorization: `Bearer ${accessToken}` } },
+    auth: { persistSession: false, autoRefreshToken: false }
+  })
+}
+
+// For data-access modules: fails loudly instead of silently doing nothing when unconfigured
+export function requireSupabase() {
+  if (!supabase) {
+    throw new Error('Supabase is not configured. Set NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY.')
+  }
+  return supabase
+}
+
 export type Database = {
   public: {
     Tables: {
@@ -30,6 +72,14 @@ export type Database = {
           order_status: string
           payment_status: string
           estimated_delivery_time: string | null
+          priority: string
+          priority_set_by: string | null
+          priority_set_at: string | null
+          escalated_for_status: string | null
+          delivery_run_id: string | null
+          fulfillment_type: string
+          order_source: string
+          refunded_amount: number
           created_at: string
           updated_at: string
         }
@@ -50,6 +100,14 @@ export type Database = {
           order_status?: string
           payment_status?: string
           estimated_delivery_time?: string | null
+          priority?: string
+          priority_set_by?: string | null
+          priority_set_at?: string | null
+          escalated_for_status?: string | null
+          delivery_run_id?: string | null
+          fulfillment_type?: string
+          order_source?: string
+          refunded_amount?: number
           created_at?: string
           updated_at?: string
         }
@@ -70,6 +128,14 @@ export type Database = {
           order_status?: string
           payment_status?: string
           estimated_delivery_time?: string | null
+          priority?: string
+          priority_set_by?: string | null
+          priority_set_at?: string | null
+          escalated_for_status?: string | null
+          delivery_run_id?: string | null
+          fulfillment_type?: string
+          order_source?: string
+          refunded_amount?: number
           created_at?: string
           updated_at?: string
         }
@@ -123,6 +189,8 @@ export type Database = {
           notes: string | null
           created_at: string
           created_by: string | null
+          created_by_id: string | null
+          changes: Record<string, unknown>[] | null
         }
         Insert: {
           id?: string
@@ -131,6 +199,8 @@ export type Database = {
           notes?: string | null
           created_at?: string
           created_by?: string | null
+          created_by_id?: string | null
+          changes?: Record<string, unknown>[] | null
         }
         Update: {
           id?: string
@@ -139,7 +209,408 @@ export type Database = {
           notes?: string | null
           created_at?: string
           created_by?: string | null
+          created_by_id?: string | null
+          changes?: Record<string, unknown>[] | null
+        }
+      }
+      riders: {
+        Row: {
+          id: string
+          name: string
+          phone: string | null
+          is_active: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          phone?: string | null
+          is_active?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          phone?: string | null
+          is_active?: boolean
+          created_at?: string
+        }
+      }
+      staff: {
+        Row: {
+          id: string
+          full_name: string
+          role: string
+          is_active: boolean
+          created_at: string
+        }
+        Insert: {
+          id: string
+          full_name: string
+          role: string
+          is_active?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          full_name?: string
+          role?: string
+          is_active?: boolean
+          created_at?: string
+        }
+      }
+      delivery_runs: {
+        Row: {
+          id: string
+          rider_id: string
+          status: string
+          departed_at: string | null
+          returned_at: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          rider_id: string
+          status?: string
+          departed_at?: string | null
+          returned_at?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          rider_id?: string
+          status?: string
+          departed_at?: string | null
+          returned_at?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+      }
+      catalog_categories: {
+        Row: {
+          id: string
+          name: string
+          sort_order: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          sort_order?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          sort_order?: number
+          created_at?: string
+        }
+      }
+      catalog_items: {
+        Row: {
+          id: string
+          category_id: string
+          name: string
+          description: string | null
+          base_price: number
+          is_available: boolean
+          sort_order: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          category_id: string
+          name: string
+          description?: string | null
+          base_price?: number
+          is_available?: boolean
+          sort_order?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          category_id?: string
+          name?: string
+          description?: string | null
+          base_price?: number
+          is_available?: boolean
+          sort_order?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      catalog_item_sizes: {
+        Row: {
+          id: string
+          item_id: string
+          name: string
+          price: number
+          sort_order: number
+        }
+        Insert: {
+          id?: string
+          item_id: string
+          name: string
+          price: number
+          sort_order?: number
+        }
+        Update: {
+          id?: string
+          item_id?: string
+          name?: string
+          price?: number
+          sort_order?: number
+        }
+      }
+      catalog_item_options: {
+        Row: {
+          id: string
+          item_id: string
+          group_name: string
+          name: string
+          price: number
+          is_available: boolean
+          sort_order: number
+        }
+        Insert: {
+          id?: string
+          item_id: string
+          group_name: string
+          name: string
+          price?: number
+          is_available?: boolean
+          sort_order?: number
+        }
+        Update: {
+          id?: string
+          item_id?: string
+          group_name?: string
+          name?: string
+          price?: number
+          is_available?: boolean
+          sort_order?: number
+        }
+      }
+      order_refunds: {
+        Row: {
+          id: string
+          order_id: string
+          amount: number
+          reason: string
+          created_by: string | null
+          created_at: string
+        }
+        // Written by the record_refund function only
+        Insert: Record<string, never>
+        Update: Record<string, never>
+      }
+      day_closes: {
+        Row: {
+          business_date: string
+          period_start: string
+          period_end: string
+          order_count: number
+          cancelled_count: number
+          gross_sales: number
+          tax_total: number
+          delivery_fee_total: number
+          refund_total: number
+          breakdown: Record<string, unknown>
+          opening_float: number
+          expected_cash: number
+          counted_cash: number
+          discrepancy: number
+          notes: string | null
+          closed_by: string | null
+          closed_at: string
+        }
+        Insert: {
+          business_date: string
+          period_start: string
+          period_end: string
+          order_count: number
+          cancelled_count: number
+          gross_sales: number
+          tax_total: number
+          delivery_fee_total: number
+          refund_total: number
+          breakdown?: Record<string, unknown>
+          opening_float?: number
+          expected_cash: number
+          counted_cash: number
+          notes?: string | null
+          closed_by?: string | null
+          closed_at?: string
+        }
+        // Closed days are never updated
+        Update: Record<string, never>
+      }
+      store_settings: {
+        Row: {
+          id: boolean
+          tax_rate: number
+          delivery_fee: number
+          timezone: string
+          sla_minutes: Record<string, number>
+          updated_by: string | null
+          updated_at: string
+        }
+        // The row is created by its migration
+        Insert: Record<string, never>
+        Update: {
+          tax_rate?: number
+          delivery_fee?: number
+          timezone?: string
+          updated_by?: string | null
+          updated_at?: string
+        }
+      }
+      saved_order_views: {
+        Row: {
+          id: string
+          staff_id: string
+          name: string
+          query: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          staff_id?: string
+          name: string
+          query?: string
+          created_at?: string
+        }
+        Update: {
+          name?: string
+          query?: string
+        }
+      }
+      customer_notes: {
+        Row: {
+          customer_key: string
+          notes: string
+          updated_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          customer_key: string
+          notes: string
+          updated_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          notes?: string
+          updated_by?: string | null
+          updated_at?: string
+        }
+      }
+    }
+    Functions: {
+      current_staff_role: {
+        Args: Record<string, never>
+        Returns: string | null
+      }
+      mark_order_paid: {
+        Args: {
+          p_order_id: string
+        }
+        Returns: Database['public']['Tables']['orders']['Row']
+      }
+      record_refund: {
+        Args: {
+          p_order_id: string
+          p_amount: number
+          p_reason: string
+        }
+        Returns: Database['public']['Tables']['orders']['Row']
+      }
+      update_order_status: {
+        Args: {
+          p_order_id: string
+          p_status: string
+          p_expected_status: string
+          p_notes?: string | null
+          p_expected_updated_at?: string | null
+        }
+        Returns: Database['public']['Tables']['order_status_history']['Row']
+      }
+      close_day: {
+        Args: {
+          p_business_date: string
+          p_opening_float: number
+          p_counted_cash: number
+          p_notes?: string | null
+        }
+        Returns: Database['public']['Tables']['day_closes']['Row']
+      }
+      create_order: {
+        Args: {
+          p_order: Partial<Database['public']['Tables']['orders']['Insert']>
+          p_items: Record<string, unknown>[]
+        }
+        Returns: Database['public']['Tables']['orders']['Row']
+      }
+      save_catalog_item: {
+        Args: {
+          p_item: Database['public']['Tables']['catalog_items']['Update']
+          p_sizes: { name: string; price: number }[]
+          p_options: { group_name: string; name: string; price: number; is_available: boolean }[]
+        }
+        Returns: Database['public']['Tables']['catalog_items']['Row']
+      }
+      edit_order: {
+        Args: {
+          p_order_id: string
+          p_expected_updated_at: string
+          p_items: Record<string, unknown>[]
+          p_order_notes: string | null
+          p_delivery_address: Record<string, unknown>
+        }
+        Returns: Database['public']['Tables']['order_status_history']['Row'] | null
+      }
+      set_sla_minutes: {
+        Args: {
+          p_sla_minutes: Record<string, number>
+        }
+        Returns: Database['public']['Tables']['store_settings']['Row']
+      }
+      escalate_order: {
+        Args: {
+          p_order_id: string
+          p_status: string
+        }
+        Returns: Database['public']['Tables']['orders']['Row']
+      }
+      set_order_priority: {
+        Args: {
+          p_order_id: string
+          p_priority: string
+          p_expected_updated_at?: string | null
+        }
+        Returns: Database['public']['Tables']['orders']['Row']
+      }
+      assign_delivery_run: {
+        Args: {
+          p_rider_id: string
+          p_order_ids: string[]
+        }
+        Returns: Database['public']['Tables']['delivery_runs']['Row']
+      }
+      depart_delivery_run: {
+        Args: {
+          p_run_id: string
+        }
+        Returns: Database['public']['Tables']['delivery_runs']['Row']
+      }
+      return_delivery_run: {
+        Args: {
+          p_run_id: string
         }
+        Returns: Database['public']['Tables']['delivery_runs']['Row']
       }
     }
   }
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ACCESS_TOKEN_COOKIE, createSessionClient, isSupabaseConfigured } from '@/lib/supabase'
+import { canAccessRoute, fetchStaffProfile, getHomeRoute } from '@/lib/auth'
+
+export async function middleware(request: NextRequest) {
+  // Demo mode without a backend has nothing to protect
+  if (!isSupabaseConfigured) return NextResponse.next()
+
+  const { pathname, search } = request.nextUrl
+  const token = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value
+  const client = token ? createSessionClient(token) : null
+
+  let profile = null
+  if (client && token) {
+    const { data } = await client.auth.getUser(token)
+    profile = data.user ? await fetchStaffProfile(client, data.user.id).catch(() => null) : null
+  }
+
+  if (!profile) {
+    const loginUrl = new URL('/login', request.url)
+    loginUrl.searchParams.set('next', `${pathname}${search}`)
+    return NextResponse.redirect(loginUrl)
+  }
+
+  if (!canAccessRoute(pathname, profile.role)) {
+    return NextResponse.redirect(new URL(getHomeRoute(profile.role), request.url))
+  }
+
+  return NextResponse.next()
+}
+
+export const config = {
+  matcher: ['/orders/:path*', '/kitchen/:path*', '/dispatch/:path*', '/menu/:path*', '/analytics/:path*', '/day-close/:path*', '/customers/:path*']
+}
@@ -0,0 +1,16 @@
+import { StaffRole } from '@/types/orders'
+
+export interface StaffProfile {
+  id: string
+  full_name: string
+  role: StaffRole
+  is_active: boolean
+  created_at: string
+}
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  kitchen: 'Kitchen',
+  dispatcher: 'Dispatcher'
+}
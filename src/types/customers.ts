@@ -0,0 +1,37 @@
+import { Order } from '@/types/orders'
+
+export interface CustomerNote {
+  // 'phone:<last 10 digits>' or 'email:<lowercased address>'
+  customer_key: string
+  notes: string
+  updated_by?: string | null
+  updated_at: string
+}
+
+export interface FavouriteItem {
+  name: string
+  quantity: number
+}
+
+// Orders grouped by phone number and email; customers are not stored on their own
+export interface Customer {
+  // The key notes are saved under, from the most recent order
+  key: string
+  // Every phone and email key seen on the customer's orders
+  keys: string[]
+  name: string
+  phone: string
+  email: string
+  company?: string | null
+  // Excludes cancelled orders
+  order_count: number
+  // Totals of the counted orders, less refunds
+  lifetime_spend: number
+  first_order_at: string
+  last_order_at: string
+  favourite_items: FavouriteItem[]
+  // Distinct delivery addresses, most recently used first
+  addresses: Order['delivery_address'][]
+  // Newest first, cancelled orders included
+  orders: Order[]
+}
@@ -0,0 +1,54 @@
+import { OrderRefund } from '@/types/orders'
+
+export interface PaymentBreakdownLine {
+  // Payment method or payment status
+  key: string
+  orders: number
+  amount: number
+}
+
+export interface DayCloseBreakdown {
+  by_payment_method: PaymentBreakdownLine[]
+  by_payment_status: PaymentBreakdownLine[]
+}
+
+// A refund paid out during the day, whichever day its order was placed on
+export interface PeriodRefund extends OrderRefund {
+  // How the order was paid; cash refunds come out of the drawer
+  payment_method: string
+}
+
+// Figures computed from the day's orders and refunds, before cash is counted
+export interface DaySummary {
+  order_count: number
+  cancelled_count: number
+  // Orders neither delivered nor cancelled yet
+  open_count: number
+  gross_sales: number
+  tax_total: number
+  delivery_fee_total: number
+  refund_total: number
+  cash_sales: number
+  breakdown: DayCloseBreakdown
+}
+
+export interface DayClose {
+  business_date: string
+  period_start: string
+  period_end: string
+  order_count: number
+  cancelled_count: number
+  gross_sales: number
+  tax_total: number
+  delivery_fee_total: number
+  refund_total: number
+  breakdown: DayCloseBreakdown
+  opening_float: number
+  expected_cash: number
+  counted_cash: number
+  // Counted minus expected; negative when the drawer is short
+  discrepancy: number
+  notes?: string | null
+  closed_by?: string | null
+  closed_at: string
+}
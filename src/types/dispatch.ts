@@ -0,0 +1,28 @@
+export interface Rider {
+  id: string
+  name: string
+  phone?: string | null
+  is_active: boolean
+  created_at: string
+}
+
+export type DeliveryRunStatus = 
+  | 'assigned'
+  | 'out'
+  | 'returned'
+
+export interface DeliveryRun {
+  id: string
+  rider_id: string
+  status: DeliveryRunStatus
+  departed_at?: string | null
+  returned_at?: string | null
+  created_by?: string | null
+  created_at: string
+}
+
+export const DELIVERY_RUN_STATUS_LABELS: Record<DeliveryRunStatus, string> = {
+  assigned: 'Assigned',
+  out: 'Out',
+  returned: 'Returned'
+}
@@ -0,0 +1,43 @@
+export interface MenuCategory {
+  id: string
+  name: string
+  sort_order: number
+  created_at: string
+}
+
+export interface MenuItemSize {
+  id: string
+  item_id: string
+  name: string
+  price: number
+  sort_order: number
+}
+
+// A topping or other extra, priced on top of the item or size price
+export interface MenuItemOption {
+  id: string
+  item_id: string
+  group_name: string
+  name: string
+  price: number
+  is_available: boolean
+  sort_order: number
+}
+
+export interface MenuItem {
+  id: string
+  category_id: string
+  name: string
+  description?: string | null
+  // Used when the item has no sizes
+  base_price: number
+  is_available: boolean
+  sort_order: number
+  created_at: string
+  updated_at: string
+  sizes: MenuItemSize[]
+  options: MenuItemOption[]
+}
+
+// Order items created from the catalog use this item_type and the catalog item's id
+export const MENU_ITEM_TYPE = 'menu_item'
@@ -0,0 +1,28 @@
+import { OrderPriority, OrderStatus } from '@/types/orders'
+
+interface QueuedChangeBase {
+  id: string
+  order_id: string
+  order_number: string
+  // The order's updated_at as this device last saw it; a newer one on the server means a conflict
+  base_updated_at: string
+  actor: string | null
+  // The staff member who made the change; only their own session sends it
+  staff_id: string | null
+  queued_at: string
+}
+
+export interface QueuedStatusChange extends QueuedChangeBase {
+  kind: 'status'
+  from: OrderStatus
+  status: OrderStatus
+  notes: string | null
+}
+
+export interface QueuedPriorityChange extends QueuedChangeBase {
+  kind: 'priority'
+  priority: OrderPriority
+}
+
+// A change made while offline, kept on the device until it can be sent
+export type QueuedOrderChange = QueuedStatusChange | QueuedPriorityChange
@@ -20,10 +20,21 @@ export interface Order {
   total_amount: number
   order_status: OrderStatus
   payment_status: PaymentStatus
+  // Sum of the refunds recorded against the order
+  refunded_amount: number
   estimated_delivery_time?: string | null
+  priority: OrderPriority
+  priority_set_by?: string | null
+  priority_set_at?: string | null
+  // The status the SLA monitor last flagged the order as late in
+  escalated_for_status?: OrderStatus | null
+  delivery_run_id?: string | null
+  fulfillment_type: FulfillmentType
+  order_source: OrderSource
   created_at: string
   updated_at: string
   items: OrderItem[]
+  status_history?: OrderStatusHistory[]
 }
 
 export interface OrderItem {
@@ -47,6 +58,16 @@ export interface OrderStatusHistory {
   notes?: string | null
   created_at: string
   created_by?: string | null
+  // The staff member whose request wrote the entry; null for the customer site
+  created_by_id?: string | null
+  // Set on entries that log an edit to the order rather than a status change
+  changes?: OrderEditChange[] | null
+}
+
+export interface OrderEditChange {
+  field: string
+  before: string | null
+  after: string | null
 }
 
 export type OrderStatus = 
@@ -64,6 +85,64 @@ export type PaymentStatus =
   | 'failed'
   | 'refunded'
 
+export interface OrderRefund {
+  id: string
+  order_id: string
+  amount: number
+  reason: string
+  created_by?: string | null
+  created_at: string
+}
+
+// A named set of orders-screen filters, stored as the URL query it restores
+export interface SavedOrderView {
+  id: string
+  staff_id: string
+  name: string
+  query: string
+  created_at: string
+}
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  pending: 'Unpaid',
+  paid: 'Paid',
+  failed: 'Payment Failed',
+  refunded: 'Refunded'
+}
+
+export const PAYMENT_STATUS_COLORS: Record<PaymentStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  paid: 'bg-green-100 text-green-800 border-green-200',
+  failed: 'bg-red-100 text-red-800 border-red-200',
+  refunded: 'bg-slate-100 text-slate-800 border-slate-200'
+}
+
+export type FulfillmentType = 'delivery' | 'pickup'
+
+export type OrderSource = 'web' | 'phone' | 'walk_in'
+
+export const FULFILLMENT_TYPE_LABELS: Record<FulfillmentType, string> = {
+  delivery: 'Delivery',
+  pickup: 'Pickup'
+}
+
+export const ORDER_SOURCE_LABELS: Record<OrderSource, string> = {
+  web: 'Website',
+  phone: 'Phone',
+  walk_in: 'Walk-in'
+}
+
+// Offered when staff take an order; the customer site records its own methods
+export const ADMIN_PAYMENT_METHODS = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'card', label: 'Card' }
+]
+
+export type OrderPriority = 
+  | 'normal'
+  | 'high'
+  | 'urgent'
+
 export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
   pending: 'Pending',
   confirmed: 'Confirmed',
@@ -84,6 +163,58 @@ export const ORDER_STATUS_COLORS: Record<OrderStatus, string> = {
   cancelled: 'bg-red-100 text-red-800 border-red-200'
 }
 
+export const ORDER_PRIORITY_LABELS: Record<OrderPriority, string> = {
+  normal: 'Normal',
+  high: 'High',
+  urgent: 'Urgent'
+}
+
+// Higher ranks sort first when ordering by priority
+export const ORDER_PRIORITY_RANK: Record<OrderPriority, number> = {
+  normal: 0,
+  high: 1,
+  urgent: 2
+}
+
+// The flag button on a card cycles through the levels
+export const NEXT_PRIORITY: Record<OrderPriority, OrderPriority> = {
+  normal: 'high',
+  high: 'urgent',
+  urgent: 'normal'
+}
+
+// Roles that may flag orders; the SLA monitor escalates regardless
+const PRIORITY_ROLES: StaffRole[] = ['owner', 'manager']
+
+export function canSetPriority(role?: StaffRole | null): boolean {
+  return !!role && PRIORITY_ROLES.includes(role)
+}
+
+// Matches the role check in the edit_order RPC
+const EDIT_ROLES: StaffRole[] = ['owner', 'manager']
+
+export function canEditOrders(role?: StaffRole | null): boolean {
+  return !!role && EDIT_ROLES.includes(role)
+}
+
+// Match the role checks in the mark_order_paid and record_refund RPCs
+const PAYMENT_ROLES: StaffRole[] = ['owner', 'manager', 'dispatcher']
+const REFUND_ROLES: StaffRole[] = ['owner', 'manager']
+
+export function canTakePayments(role?: StaffRole | null): boolean {
+  return !!role && PAYMENT_ROLES.includes(role)
+}
+
+export function canRecordRefunds(role?: StaffRole | null): boolean {
+  return !!role && REFUND_ROLES.includes(role)
+}
+
+// Amount still refundable on a paid order
+export function getRefundableAmount(order: Order): number {
+  if (order.payment_status !== 'paid') return 0
+  return Math.max(0, Math.round((order.total_amount - (order.refunded_amount ?? 0)) * 100) / 100)
+}
+
 export const NEXT_STATUS: Record<OrderStatus, OrderStatus | null> = {
   pending: 'confirmed',
   confirmed: 'preparing',
@@ -93,3 +224,70 @@ export const NEXT_STATUS: Record<OrderStatus, OrderStatus | null> = {
   delivered: null,
   cancelled: null
 }
+
+export type StaffRole = 'owner' | 'manager' | 'kitchen' | 'dispatcher'
+
+export type TransitionKind = 'advance' | 'revert' | 'cancel'
+
+export interface StatusTransition {
+  from: OrderStatus
+  to: OrderStatus
+  kind: TransitionKind
+  // The reason is stored as the notes of the status history row; mirrored by
+  // transition_requires_reason in the database
+  requiresReason: boolean
+  roles: StaffRole[]
+}
+
+const ACTIVE_ORDER_STATUSES: OrderStatus[] = ['pending', 'confirmed', 'preparing', 'ready', 'out_for_delivery']
+
+export const STATUS_TRANSITIONS: StatusTransition[] = [
+  { from: 'pending', to: 'confirmed', kind: 'advance', requiresReason: false, roles: ['owner', 'manager'] },
+  { from: 'confirmed', to: 'preparing', kind: 'advance', requiresReason: false, roles: ['owner', 'manager', 'kitchen'] },
+  { from: 'preparing', to: 'ready', kind: 'advance', requiresReason: false, roles: ['owner', 'manager', 'kitchen'] },
+  { from: 'ready', to: 'out_for_delivery', kind: 'advance', requiresReason: false, roles: ['owner', 'manager', 'dispatcher'] },
+  { from: 'out_for_delivery', to: 'delivered', kind: 'advance', requiresReason: false, roles: ['owner', 'manager', 'dispatcher'] },
+  // Remakes and returned deliveries step back one stage
+  { from: 'preparing', to: 'confirmed', kind: 'revert', requiresReason: true, roles: ['owner', 'manager', 'kitchen'] },
+  { from: 'ready', to: 'preparing', kind: 'revert', requiresReason: true, roles: ['owner', 'manager', 'kitchen'] },
+  { from: 'out_for_delivery', to: 'ready', kind: 'revert', requiresReason: true, roles: ['owner', 'manager', 'dispatcher'] },
+  ...ACTIVE_ORDER_STATUSES.map((from): StatusTransition => ({
+    from,
+    to: 'cancelled',
+    kind: 'cancel',
+    requiresReason: true,
+    roles: ['owner', 'manager']
+  }))
+]
+
+export function getTransition(from: OrderStatus, to: OrderStatus): StatusTransition | null {
+  return STATUS_TRANSITIONS.find(transition => transition.from === from && transition.to === to) ?? null
+}
+
+// Nothing is offered until the staff member's role is known
+export function getAvailableTransitions(from: OrderStatus, role?: StaffRole | null): StatusTransition[] {
+  return STATUS_TRANSITIONS.filter(transition =>
+    transition.from === from && !!role && transition.roles.includes(role)
+  )
+}
+
+/**
+ * Returns why a status change is not allowed, or null when it is.
+ */
+export function validateTransition(
+  from: OrderStatus,
+  to: OrderStatus,
+  { reason, role }: { reason?: string | null; role?: StaffRole | null } = {}
+): string | null {
+  const transition = getTransition(from, to)
+  if (!transition) {
+    return `Cannot change an order from ${ORDER_STATUS_LABELS[from]} to ${ORDER_STATUS_LABELS[to]}`
+  }
+  if (!role || !transition.roles.includes(role)) {
+    return `Your role cannot change orders from ${ORDER_STATUS_LABELS[from]} to ${ORDER_STATUS_LABELS[to]}`
+  }
+  if (transition.requiresReason && !reason?.trim()) {
+    return 'A reason is required for this change'
+  }
+  return null
+}
@@ -0,0 +1,15 @@
+import { OrderStatus } from '@/types/orders'
+
+// The store's single settings row, shared by every device
+export interface StoreSettings {
+  // Fraction of the subtotal, e.g. 0.16
+  tax_rate: number
+  // Charged on delivery orders; pickup orders carry none
+  delivery_fee: number
+  // IANA time zone admin order numbers are dated in
+  timezone: string
+  // Minutes an order may spend in each status before it is overdue, as SlaConfig
+  sla_minutes: Partial<Record<OrderStatus, number>>
+  updated_by?: string | null
+  updated_at: string
+}
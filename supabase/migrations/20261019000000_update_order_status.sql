@@ -0,0 +1,30 @@
+-- Changes an order's status and records the transition in order_status_history
+-- in a single transaction, so the history can never drift from the order.
+create or replace function public.update_order_status(
+  p_order_id uuid,
+  p_status text,
+  p_notes text default null,
+  p_created_by text default null
+)
+returns public.order_status_history
+language plpgsql
+as $$
+declare
+  v_entry public.order_status_history;
+begin
+  update public.orders
+     set order_status = p_status,
+         updated_at = now()
+   where id = p_order_id;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id using errcode = 'P0002';
+  end if;
+
+  insert into public.order_status_history (order_id, status, notes, created_by, created_at)
+  values (p_order_id, p_status, p_notes, p_created_by, now())
+  returning * into v_entry;
+
+  return v_entry;
+end;
+$$;
@@ -0,0 +1,47 @@
+-- Rejects status changes made against a stale copy of the order, so two devices
+-- cannot both advance (or one cancel while another advances) the same order.
+drop function if exists public.update_order_status(uuid, text, text, text);
+
+create or replace function public.update_order_status(
+  p_order_id uuid,
+  p_status text,
+  p_expected_status text,
+  p_notes text default null,
+  p_created_by text default null
+)
+returns public.order_status_history
+language plpgsql
+as $$
+declare
+  v_entry public.order_status_history;
+  v_current text;
+begin
+  select order_status into v_current
+    from public.orders
+   where id = p_order_id
+     for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id using errcode = 'P0002';
+  end if;
+
+  if v_current <> p_expected_status then
+    raise exception 'Order is already %', v_current using errcode = 'P0001';
+  end if;
+
+  if p_status = 'cancelled' and coalesce(trim(p_notes), '') = '' then
+    raise exception 'A reason is required to cancel an order' using errcode = 'P0001';
+  end if;
+
+  update public.orders
+     set order_status = p_status,
+         updated_at = now()
+   where id = p_order_id;
+
+  insert into public.order_status_history (order_id, status, notes, created_by, created_at)
+  values (p_order_id, p_status, p_notes, p_created_by, now())
+  returning * into v_entry;
+
+  return v_entry;
+end;
+$$;
@@ -0,0 +1,6 @@
+-- Priority flags shared by every device instead of living in one browser's memory
+alter table public.orders
+  add column if not exists priority text not null default 'normal'
+    check (priority in ('normal', 'high', 'urgent')),
+  add column if not exists priority_set_by text,
+  add column if not exists priority_set_at timestamptz;
@@ -0,0 +1,136 @@
+-- Riders and delivery runs. A run batches one or more ready orders for a single
+-- rider and records when the rider left and came back.
+create table if not exists public.riders (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  phone text,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.delivery_runs (
+  id uuid primary key default gen_random_uuid(),
+  rider_id uuid not null references public.riders(id),
+  status text not null default 'assigned' check (status in ('assigned', 'out', 'returned')),
+  departed_at timestamptz,
+  returned_at timestamptz,
+  created_by text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.orders
+  add column if not exists delivery_run_id uuid references public.delivery_runs(id);
+
+alter publication supabase_realtime add table public.riders, public.delivery_runs;
+
+-- Creates a run for the rider and attaches the orders to it. Orders must be ready
+-- and not already on another run that has not come back.
+create or replace function public.assign_delivery_run(
+  p_rider_id uuid,
+  p_order_ids uuid[],
+  p_created_by text default null
+)
+returns public.delivery_runs
+language plpgsql
+as $$
+declare
+  v_run public.delivery_runs;
+begin
+  if exists (
+    select 1
+      from public.orders o
+      left join public.delivery_runs r on r.id = o.delivery_run_id
+     where o.id = any(p_order_ids)
+       and (o.order_status <> 'ready' or (r.id is not null and r.status <> 'returned'))
+  ) then
+    raise exception 'Only ready orders without a rider can be assigned' using errcode = 'P0001';
+  end if;
+
+  insert into public.delivery_runs (rider_id, created_by)
+  values (p_rider_id, p_created_by)
+  returning * into v_run;
+
+  update public.orders
+     set delivery_run_id = v_run.id,
+         updated_at = now()
+   where id = any(p_order_ids);
+
+  return v_run;
+end;
+$$;
+
+-- Marks the rider as gone and moves every order on the run out for delivery
+create or replace function public.depart_delivery_run(
+  p_run_id uuid,
+  p_created_by text default null
+)
+returns public.delivery_runs
+language plpgsql
+as $$
+declare
+  v_run public.delivery_runs;
+begin
+  update public.delivery_runs
+     set status = 'out',
+         departed_at = now()
+   where id = p_run_id
+     and status = 'assigned'
+  returning * into v_run;
+
+  if not found then
+    raise exception 'Run has already left' using errcode = 'P0001';
+  end if;
+
+  insert into public.order_status_history (order_id, status, notes, created_by, created_at)
+  select id, 'out_for_delivery', 'Dispatched', p_created_by, now()
+    from public.orders
+   where delivery_run_id = p_run_id
+     and order_status = 'ready';
+
+  update public.orders
+     set order_status = 'out_for_delivery',
+         updated_at = now()
+   where delivery_run_id = p_run_id
+     and order_status = 'ready';
+
+  return v_run;
+end;
+$$;
+
+-- Records the rider's return and marks the orders still out on the run as delivered
+create or replace function public.return_delivery_run(
+  p_run_id uuid,
+  p_created_by text default null
+)
+returns public.delivery_runs
+language plpgsql
+as $$
+declare
+  v_run public.delivery_runs;
+begin
+  update public.delivery_runs
+     set status = 'returned',
+         returned_at = now()
+   where id = p_run_id
+     and status = 'out'
+  returning * into v_run;
+
+  if not found then
+    raise exception 'Run is not out for delivery' using errcode = 'P0001';
+  end if;
+
+  insert into public.order_status_history (order_id, status, notes, created_by, created_at)
+  select id, 'delivered', 'Rider returned', p_created_by, now()
+    from public.orders
+   where delivery_run_id = p_run_id
+     and order_status = 'out_for_delivery';
+
+  update public.orders
+     set order_status = 'delivered',
+         updated_at = now()
+   where delivery_run_id = p_run_id
+     and order_status = 'out_for_delivery';
+
+  return v_run;
+end;
+$$;
@@ -0,0 +1,189 @@
+-- Staff accounts and roles. Every admin user signs in with Supabase Auth and
+-- needs a row here; the role decides which screens and status changes they get.
+-- Add staff from the dashboard (Authentication > Users), then:
+--   insert into public.staff (id, full_name, role) values ('<user id>', 'Name', 'manager');
+create table if not exists public.staff (
+  id uuid primary key references auth.users(id) on delete cascade,
+  full_name text not null,
+  role text not null check (role in ('owner', 'manager', 'kitchen', 'dispatcher')),
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+-- Role of the signed-in user, or null for anyone who is not active staff
+create or replace function public.current_staff_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.staff where id = auth.uid() and is_active;
+$$;
+
+-- Mirrors STATUS_TRANSITIONS in src/types/orders.ts
+create or replace function public.can_transition_order(p_from text, p_to text, p_role text)
+returns boolean
+language sql
+immutable
+as $$
+  select exists (
+    select 1
+      from (values
+        ('pending', 'confirmed', array['owner', 'manager']),
+        ('confirmed', 'preparing', array['owner', 'manager', 'kitchen']),
+        ('preparing', 'ready', array['owner', 'manager', 'kitchen']),
+        ('ready', 'out_for_delivery', array['owner', 'manager', 'dispatcher']),
+        ('out_for_delivery', 'delivered', array['owner', 'manager', 'dispatcher']),
+        ('preparing', 'confirmed', array['owner', 'manager', 'kitchen']),
+        ('ready', 'preparing', array['owner', 'manager', 'kitchen']),
+        ('out_for_delivery', 'ready', array['owner', 'manager', 'dispatcher']),
+        ('pending', 'cancelled', array['owner', 'manager']),
+        ('confirmed', 'cancelled', array['owner', 'manager']),
+        ('preparing', 'cancelled', array['owner', 'manager']),
+        ('ready', 'cancelled', array['owner', 'manager']),
+        ('out_for_delivery', 'cancelled', array['owner', 'manager'])
+      ) as t(from_status, to_status, roles)
+     where from_status = p_from
+       and to_status = p_to
+       and p_role = any(roles)
+  );
+$$;
+
+-- Status changes now run with the function owner's rights so staff do not need
+-- direct update access to orders; the role check below takes its place.
+create or replace function public.update_order_status(
+  p_order_id uuid,
+  p_status text,
+  p_expected_status text,
+  p_notes text default null,
+  p_created_by text default null
+)
+returns public.order_status_history
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_entry public.order_status_history;
+  v_current text;
+  v_role text := public.current_staff_role();
+begin
+  if v_role is null then
+    raise exception 'Sign in as staff to change orders' using errcode = '42501';
+  end if;
+
+  select order_status into v_current
+    from public.orders
+   where id = p_order_id
+     for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id using errcode = 'P0002';
+  end if;
+
+  if v_current <> p_expected_status then
+    raise exception 'Order is already %', v_current using errcode = 'P0001';
+  end if;
+
+  if not public.can_transition_order(v_current, p_status, v_role) then
+    raise exception 'Your role cannot change orders from % to %', v_current, p_status using errcode = 'P0001';
+  end if;
+
+  if p_status = 'cancelled' and coalesce(trim(p_notes), '') = '' then
+    raise exception 'A reason is required to cancel an order' using errcode = 'P0001';
+  end if;
+
+  update public.orders
+     set order_status = p_status,
+         updated_at = now()
+   where id = p_order_id;
+
+  insert into public.order_status_history (order_id, status, notes, created_by, created_at)
+  values (
+    p_order_id,
+    p_status,
+    p_notes,
+    coalesce(p_created_by, (select full_name from public.staff where id = auth.uid())),
+    now()
+  )
+  returning * into v_entry;
+
+  return v_entry;
+end;
+$$;
+
+-- Dispatch functions touch orders too, so they also run as owner. Runs can only
+-- be written by roles that work the dispatch board.
+alter function public.assign_delivery_run(uuid, uuid[], text) security definer set search_path = public;
+alter function public.depart_delivery_run(uuid, text) security definer set search_path = public;
+alter function public.return_delivery_run(uuid, text) security definer set search_path = public;
+
+create or replace function public.require_dispatch_role()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(public.current_staff_role(), '') not in ('owner', 'manager', 'dispatcher') then
+    raise exception 'Your role cannot manage delivery runs' using errcode = 'P0001';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists delivery_runs_require_dispatch_role on public.delivery_runs;
+create trigger delivery_runs_require_dispatch_role
+  before insert or update on public.delivery_runs
+  for each row execute function public.require_dispatch_role();
+
+-- Row level security: only active staff can read the admin tables. The anon key
+-- alone no longer gives access to anything here; a storefront that places orders
+-- with the anon key needs its own insert policies on orders and order_items.
+alter table public.staff enable row level security;
+alter table public.orders enable row level security;
+alter table public.order_items enable row level security;
+alter table public.order_status_history enable row level security;
+alter table public.riders enable row level security;
+alter table public.delivery_runs enable row level security;
+
+drop policy if exists "Staff read own profile" on public.staff;
+create policy "Staff read own profile" on public.staff
+  for select to authenticated
+  using (id = auth.uid() or public.current_staff_role() in ('owner', 'manager'));
+
+drop policy if exists "Staff read orders" on public.orders;
+create policy "Staff read orders" on public.orders
+  for select to authenticated
+  using (public.current_staff_role() is not null);
+
+-- Priority flags are set directly; status goes through update_order_status
+drop policy if exists "Managers update orders" on public.orders;
+create policy "Managers update orders" on public.orders
+  for update to authenticated
+  using (public.current_staff_role() in ('owner', 'manager'))
+  with check (public.current_staff_role() in ('owner', 'manager'));
+
+drop policy if exists "Staff read order items" on public.order_items;
+create policy "Staff read order items" on public.order_items
+  for select to authenticated
+  using (public.current_staff_role() is not null);
+
+drop policy if exists "Staff read order history" on public.order_status_history;
+create policy "Staff read order history" on public.order_status_history
+  for select to authenticated
+  using (public.current_staff_role() is not null);
+
+drop policy if exists "Staff read riders" on public.riders;
+create policy "Staff read riders" on public.riders
+  for select to authenticated
+  using (public.current_staff_role() is not null);
+
+drop policy if exists "Dispatch adds riders" on public.riders;
+create policy "Dispatch adds riders" on public.riders
+  for insert to authenticated
+  with check (public.current_staff_role() in ('owner', 'manager', 'dispatcher'));
+
+drop policy if exists "Staff read delivery runs" on public.delivery_runs;
+create policy "Staff read delivery runs" on public.delivery_runs
+  for select to authenticated
+  using (public.current_staff_role() is not null);
@@ -0,0 +1,105 @@
+-- Edits made after an order is placed (phoned-in changes). The edit and its log
+-- entry are written together; the log reuses order_status_history with the
+-- order's current status and a `changes` diff.
+alter table public.order_status_history
+  add column if not exists changes jsonb;
+
+create or replace function public.edit_order(
+  p_order_id uuid,
+  p_expected_updated_at timestamptz,
+  p_items jsonb,
+  p_order_notes text,
+  p_delivery_address jsonb,
+  p_changes jsonb,
+  p_created_by text default null
+)
+returns public.order_status_history
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_entry public.order_status_history;
+  v_tax_rate numeric;
+  v_subtotal numeric;
+  v_tax numeric;
+begin
+  if coalesce(public.current_staff_role(), '') not in ('owner', 'manager') then
+    raise exception 'Your role cannot edit orders' using errcode = 'P0001';
+  end if;
+
+  select * into v_order
+    from public.orders
+   where id = p_order_id
+     for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id using errcode = 'P0002';
+  end if;
+
+  if v_order.updated_at <> p_expected_updated_at then
+    raise exception 'Order was changed by someone else. Reopen it and try again' using errcode = 'P0001';
+  end if;
+
+  if v_order.order_status in ('delivered', 'cancelled') then
+    raise exception 'Order is already %', v_order.order_status using errcode = 'P0001';
+  end if;
+
+  if jsonb_array_length(coalesce(p_items, '[]'::jsonb)) = 0 then
+    raise exception 'An order needs at least one item' using errcode = 'P0001';
+  end if;
+
+  -- Items in p_items with an id are kept and updated, the rest are new
+  delete from public.order_items i
+   where i.order_id = p_order_id
+     and not exists (
+       select 1 from jsonb_populate_recordset(null::public.order_items, p_items) r where r.id = i.id
+     );
+
+  update public.order_items i
+     set item_name = r.item_name,
+         quantity = r.quantity,
+         unit_price = r.unit_price,
+         total_price = r.quantity * r.unit_price,
+         customizations = coalesce(r.customizations, '{}'::jsonb)
+    from jsonb_populate_recordset(null::public.order_items, p_items) r
+   where i.id = r.id
+     and i.order_id = p_order_id;
+
+  insert into public.order_items (
+    order_id, item_type, item_id, item_name, item_description, quantity, unit_price, total_price, customizations
+  )
+  select p_order_id, r.item_type, r.item_id, r.item_name, r.item_description, r.quantity, r.unit_price,
+         r.quantity * r.unit_price, coalesce(r.customizations, '{}'::jsonb)
+    from jsonb_populate_recordset(null::public.order_items, p_items) r
+   where r.id is null;
+
+  -- Keep the tax rate the order was placed with
+  v_tax_rate := case when v_order.subtotal > 0 then v_order.tax_amount / v_order.subtotal else 0 end;
+  select coalesce(sum(total_price), 0) into v_subtotal from public.order_items where order_id = p_order_id;
+  v_tax := round(v_subtotal * v_tax_rate, 2);
+
+  update public.orders
+     set order_notes = nullif(trim(p_order_notes), ''),
+         delivery_address = p_delivery_address,
+         subtotal = v_subtotal,
+         tax_amount = v_tax,
+         total_amount = v_subtotal + v_tax + delivery_fee,
+         updated_at = now()
+   where id = p_order_id;
+
+  insert into public.order_status_history (order_id, status, notes, changes, created_by, created_at)
+  values (
+    p_order_id,
+    v_order.order_status,
+    'Order edited',
+    p_changes,
+    coalesce(p_created_by, (select full_name from public.staff where id = auth.uid())),
+    now()
+  )
+  returning * into v_entry;
+
+  return v_entry;
+end;
+$$;
@@ -0,0 +1,88 @@
+-- Orders taken by staff over the phone or at the counter. They are created in
+-- one call so an order never exists without its items.
+alter table public.orders
+  add column if not exists fulfillment_type text not null default 'delivery'
+    check (fulfillment_type in ('delivery', 'pickup')),
+  add column if not exists order_source text not null default 'web'
+    check (order_source in ('web', 'phone', 'walk_in'));
+
+create sequence if not exists public.admin_order_number_seq;
+
+-- p_order carries the customer, address, payment and fulfilment fields; totals
+-- are computed here from the items so they cannot disagree with them
+create or replace function public.create_order(
+  p_order jsonb,
+  p_items jsonb,
+  p_tax_rate numeric,
+  p_created_by text default null
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_input public.orders;
+  v_order public.orders;
+  v_subtotal numeric;
+  v_tax numeric;
+begin
+  if coalesce(public.current_staff_role(), '') not in ('owner', 'manager') then
+    raise exception 'Your role cannot create orders' using errcode = 'P0001';
+  end if;
+
+  if jsonb_array_length(coalesce(p_items, '[]'::jsonb)) = 0 then
+    raise exception 'An order needs at least one item' using errcode = 'P0001';
+  end if;
+
+  v_input := jsonb_populate_record(null::public.orders, p_order);
+
+  select coalesce(sum(r.quantity * r.unit_price), 0) into v_subtotal
+    from jsonb_populate_recordset(null::public.order_items, p_items) r;
+  v_tax := round(v_subtotal * coalesce(p_tax_rate, 0), 2);
+
+  insert into public.orders (
+    order_number, customer_name, customer_email, customer_phone, company, delivery_address,
+    order_notes, payment_method, payment_status, subtotal, tax_amount, delivery_fee, total_amount,
+    order_status, fulfillment_type, order_source
+  )
+  values (
+    -- ADM-<yymmdd>-<n> keeps admin orders apart from the customer site's numbering
+    'ADM-' || to_char(now(), 'YYMMDD') || '-' || lpad(nextval('public.admin_order_number_seq')::text, 4, '0'),
+    v_input.customer_name,
+    coalesce(v_input.customer_email, ''),
+    v_input.customer_phone,
+    v_input.company,
+    coalesce(v_input.delivery_address, '{}'::jsonb),
+    nullif(trim(v_input.order_notes), ''),
+    v_input.payment_method,
+    'pending',
+    v_subtotal,
+    v_tax,
+    coalesce(v_input.delivery_fee, 0),
+    v_subtotal + v_tax + coalesce(v_input.delivery_fee, 0),
+    'pending',
+    v_input.fulfillment_type,
+    v_input.order_source
+  )
+  returning * into v_order;
+
+  insert into public.order_items (
+    order_id, item_type, item_id, item_name, item_description, quantity, unit_price, total_price, customizations
+  )
+  select v_order.id, r.item_type, r.item_id, r.item_name, r.item_description, r.quantity, r.unit_price,
+         r.quantity * r.unit_price, coalesce(r.customizations, '{}'::jsonb)
+    from jsonb_populate_recordset(null::public.order_items, p_items) r;
+
+  insert into public.order_status_history (order_id, status, notes, created_by, created_at)
+  values (
+    v_order.id,
+    'pending',
+    'Order taken by staff',
+    coalesce(p_created_by, (select full_name from public.staff where id = auth.uid())),
+    now()
+  );
+
+  return v_order;
+end;
+$$;
@@ -0,0 +1,139 @@
+-- Menu catalog managed from the admin. Order items point at catalog items through
+-- item_id (item_type = 'menu_item') so their names and prices can be checked.
+-- These are separate from the customer site's own menu tables.
+create table if not exists public.catalog_categories (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.catalog_items (
+  id uuid primary key default gen_random_uuid(),
+  category_id uuid not null references public.catalog_categories(id) on delete restrict,
+  name text not null,
+  description text,
+  -- Price when the item has no sizes
+  base_price numeric(10, 2) not null default 0 check (base_price >= 0),
+  is_available boolean not null default true,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.catalog_item_sizes (
+  id uuid primary key default gen_random_uuid(),
+  item_id uuid not null references public.catalog_items(id) on delete cascade,
+  name text not null,
+  price numeric(10, 2) not null check (price >= 0),
+  sort_order integer not null default 0
+);
+
+-- Toppings and other extras, grouped (e.g. "Toppings", "Crust") and priced on top of the size
+create table if not exists public.catalog_item_options (
+  id uuid primary key default gen_random_uuid(),
+  item_id uuid not null references public.catalog_items(id) on delete cascade,
+  group_name text not null,
+  name text not null,
+  price numeric(10, 2) not null default 0 check (price >= 0),
+  is_available boolean not null default true,
+  sort_order integer not null default 0
+);
+
+alter publication supabase_realtime add table
+  public.catalog_categories, public.catalog_items, public.catalog_item_sizes, public.catalog_item_options;
+
+alter table public.catalog_categories enable row level security;
+alter table public.catalog_items enable row level security;
+alter table public.catalog_item_sizes enable row level security;
+alter table public.catalog_item_options enable row level security;
+
+drop policy if exists "Staff read categories" on public.catalog_categories;
+create policy "Staff read categories" on public.catalog_categories
+  for select to authenticated using (public.current_staff_role() is not null);
+drop policy if exists "Managers manage categories" on public.catalog_categories;
+create policy "Managers manage categories" on public.catalog_categories
+  for all to authenticated
+  using (public.current_staff_role() in ('owner', 'manager'))
+  with check (public.current_staff_role() in ('owner', 'manager'));
+
+drop policy if exists "Staff read catalog items" on public.catalog_items;
+create policy "Staff read catalog items" on public.catalog_items
+  for select to authenticated using (public.current_staff_role() is not null);
+drop policy if exists "Managers manage catalog items" on public.catalog_items;
+create policy "Managers manage catalog items" on public.catalog_items
+  for all to authenticated
+  using (public.current_staff_role() in ('owner', 'manager'))
+  with check (public.current_staff_role() in ('owner', 'manager'));
+
+drop policy if exists "Staff read item sizes" on public.catalog_item_sizes;
+create policy "Staff read item sizes" on public.catalog_item_sizes
+  for select to authenticated using (public.current_staff_role() is not null);
+drop policy if exists "Managers manage item sizes" on public.catalog_item_sizes;
+create policy "Managers manage item sizes" on public.catalog_item_sizes
+  for all to authenticated
+  using (public.current_staff_role() in ('owner', 'manager'))
+  with check (public.current_staff_role() in ('owner', 'manager'));
+
+drop policy if exists "Staff read item options" on public.catalog_item_options;
+create policy "Staff read item options" on public.catalog_item_options
+  for select to authenticated using (public.current_staff_role() is not null);
+drop policy if exists "Managers manage item options" on public.catalog_item_options;
+create policy "Managers manage item options" on public.catalog_item_options
+  for all to authenticated
+  using (public.current_staff_role() in ('owner', 'manager'))
+  with check (public.current_staff_role() in ('owner', 'manager'));
+
+-- Saves an item with its full list of sizes and options in one transaction.
+-- Runs as the caller, so the policies above decide who may save.
+create or replace function public.save_catalog_item(
+  p_item jsonb,
+  p_sizes jsonb,
+  p_options jsonb
+)
+returns public.catalog_items
+language plpgsql
+as $$
+declare
+  v_input public.catalog_items := jsonb_populate_record(null::public.catalog_items, p_item);
+  v_item public.catalog_items;
+begin
+  if v_input.id is null then
+    insert into public.catalog_items (category_id, name, description, base_price, is_available, sort_order)
+    values (v_input.category_id, v_input.name, v_input.description, coalesce(v_input.base_price, 0),
+            coalesce(v_input.is_available, true), coalesce(v_input.sort_order, 0))
+    returning * into v_item;
+  else
+    update public.catalog_items
+       set category_id = v_input.category_id,
+           name = v_input.name,
+           description = v_input.description,
+           base_price = coalesce(v_input.base_price, 0),
+           is_available = coalesce(v_input.is_available, true),
+           sort_order = coalesce(v_input.sort_order, 0),
+           updated_at = now()
+     where id = v_input.id
+    returning * into v_item;
+
+    if not found then
+      raise exception 'Menu item % not found', v_input.id using errcode = 'P0002';
+    end if;
+  end if;
+
+  delete from public.catalog_item_sizes where item_id = v_item.id;
+  insert into public.catalog_item_sizes (item_id, name, price, sort_order)
+  select v_item.id, r.name, r.price, r.position - 1
+    from rows from (jsonb_to_recordset(coalesce(p_sizes, '[]'::jsonb)) as (name text, price numeric))
+         with ordinality as r(name, price, position);
+
+  delete from public.catalog_item_options where item_id = v_item.id;
+  insert into public.catalog_item_options (item_id, group_name, name, price, is_available, sort_order)
+  select v_item.id, r.group_name, r.name, coalesce(r.price, 0), coalesce(r.is_available, true), r.position - 1
+    from rows from (
+           jsonb_to_recordset(coalesce(p_options, '[]'::jsonb))
+             as (group_name text, name text, price numeric, is_available boolean)
+         ) with ordinality as r(group_name, name, price, is_available, position);
+
+  return v_item;
+end;
+$$;
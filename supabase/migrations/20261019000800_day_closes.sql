@@ -0,0 +1,63 @@
+-- End-of-day Z-reports. A row closes the business day: its figures are frozen as
+-- computed at close and the day's orders can no longer change their totals.
+create table if not exists public.day_closes (
+  business_date date primary key,
+  -- The local day as a timestamp range, so the lock below does not depend on time zones
+  period_start timestamptz not null,
+  period_end timestamptz not null,
+  order_count integer not null,
+  cancelled_count integer not null,
+  gross_sales numeric(12, 2) not null,
+  tax_total numeric(12, 2) not null,
+  delivery_fee_total numeric(12, 2) not null,
+  refund_total numeric(12, 2) not null,
+  -- Totals per payment method and payment status, as shown on the report
+  breakdown jsonb not null default '{}'::jsonb,
+  opening_float numeric(12, 2) not null default 0,
+  expected_cash numeric(12, 2) not null,
+  counted_cash numeric(12, 2) not null,
+  discrepancy numeric(12, 2) generated always as (counted_cash - expected_cash) stored,
+  notes text,
+  closed_by text,
+  closed_at timestamptz not null default now(),
+  check (period_end > period_start)
+);
+
+alter table public.day_closes enable row level security;
+
+-- No update or delete policies: a closed day stays closed
+drop policy if exists "Managers read day closes" on public.day_closes;
+create policy "Managers read day closes" on public.day_closes
+  for select to authenticated
+  using (public.current_staff_role() in ('owner', 'manager'));
+
+drop policy if exists "Managers close days" on public.day_closes;
+create policy "Managers close days" on public.day_closes
+  for insert to authenticated
+  with check (public.current_staff_role() in ('owner', 'manager'));
+
+-- Orders from a closed day keep the totals the report was built from. This also
+-- stops edit_order, which rewrites the totals in the same transaction.
+create or replace function public.guard_closed_day_orders()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (new.subtotal, new.tax_amount, new.delivery_fee, new.total_amount)
+       is distinct from (old.subtotal, old.tax_amount, old.delivery_fee, old.total_amount)
+     and exists (
+       select 1
+         from public.day_closes
+        where old.created_at >= period_start
+          and old.created_at < period_end
+     ) then
+    raise exception 'The day this order was placed on is closed' using errcode = 'P0001';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_guard_closed_day on public.orders;
+create trigger orders_guard_closed_day
+  before update on public.orders
+  for each row execute function public.guard_closed_day_orders();
@@ -0,0 +1,146 @@
+-- Payment handling from the admin: marking cash-on-delivery orders paid and
+-- recording full or partial refunds. Each action also writes an edit-log entry
+-- to order_status_history so it shows on the order's timeline.
+alter table public.orders
+  add column if not exists refunded_amount numeric(10, 2) not null default 0;
+
+create table if not exists public.order_refunds (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders(id) on delete cascade,
+  amount numeric(10, 2) not null check (amount > 0),
+  reason text not null,
+  created_by text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists order_refunds_created_at_idx on public.order_refunds (created_at);
+
+alter table public.order_refunds enable row level security;
+
+-- Written only through record_refund
+drop policy if exists "Managers read refunds" on public.order_refunds;
+create policy "Managers read refunds" on public.order_refunds
+  for select to authenticated
+  using (public.current_staff_role() in ('owner', 'manager'));
+
+-- Riders hand cash to the dispatcher, so dispatchers may mark orders paid too
+create or replace function public.mark_order_paid(
+  p_order_id uuid,
+  p_created_by text default null
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_previous text;
+begin
+  if coalesce(public.current_staff_role(), '') not in ('owner', 'manager', 'dispatcher') then
+    raise exception 'Your role cannot take payments' using errcode = 'P0001';
+  end if;
+
+  select payment_status into v_previous
+    from public.orders
+   where id = p_order_id
+     for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id using errcode = 'P0002';
+  end if;
+
+  if v_previous not in ('pending', 'failed') then
+    raise exception 'Order is already %', v_previous using errcode = 'P0001';
+  end if;
+
+  update public.orders
+     set payment_status = 'paid',
+         updated_at = now()
+   where id = p_order_id
+  returning * into v_order;
+
+  insert into public.order_status_history (order_id, status, created_by, created_at, changes)
+  values (
+    p_order_id,
+    v_order.order_status,
+    coalesce(p_created_by, (select full_name from public.staff where id = auth.uid())),
+    now(),
+    jsonb_build_array(jsonb_build_object('field', 'Payment', 'before', v_previous, 'after', 'paid'))
+  );
+
+  return v_order;
+end;
+$$;
+
+create or replace function public.record_refund(
+  p_order_id uuid,
+  p_amount numeric,
+  p_reason text,
+  p_created_by text default null
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_actor text := coalesce(p_created_by, (select full_name from public.staff where id = auth.uid()));
+begin
+  if coalesce(public.current_staff_role(), '') not in ('owner', 'manager') then
+    raise exception 'Your role cannot record refunds' using errcode = 'P0001';
+  end if;
+
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'A reason is required for a refund' using errcode = 'P0001';
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'The refund amount must be more than zero' using errcode = 'P0001';
+  end if;
+
+  select * into v_order
+    from public.orders
+   where id = p_order_id
+     for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id using errcode = 'P0002';
+  end if;
+
+  if v_order.payment_status <> 'paid' then
+    raise exception 'Only paid orders can be refunded' using errcode = 'P0001';
+  end if;
+
+  if p_amount > v_order.total_amount - v_order.refunded_amount then
+    raise exception 'Only Rs % is left to refund', v_order.total_amount - v_order.refunded_amount using errcode = 'P0001';
+  end if;
+
+  insert into public.order_refunds (order_id, amount, reason, created_by)
+  values (p_order_id, p_amount, trim(p_reason), v_actor);
+
+  -- A partial refund leaves the order paid; the last one marks it refunded
+  update public.orders
+     set refunded_amount = refunded_amount + p_amount,
+         payment_status = case when refunded_amount + p_amount >= total_amount then 'refunded' else payment_status end,
+         updated_at = now()
+   where id = p_order_id
+  returning * into v_order;
+
+  insert into public.order_status_history (order_id, status, created_by, created_at, changes)
+  values (
+    p_order_id,
+    v_order.order_status,
+    v_actor,
+    now(),
+    jsonb_build_array(jsonb_build_object(
+      'field', 'Refund',
+      'before', null,
+      'after', 'Rs ' || to_char(p_amount, 'FM999999990.00') || ' (' || trim(p_reason) || ')'
+    ))
+  );
+
+  return v_order;
+end;
+$$;
@@ -0,0 +1,23 @@
+-- Staff notes on customers, e.g. allergies or gate codes. Customers are not a table
+-- of their own: the admin groups orders by phone number and email, and a note is
+-- keyed the same way ('phone:<last 10 digits>' or 'email:<lowercased address>').
+create table if not exists public.customer_notes (
+  customer_key text primary key,
+  notes text not null,
+  updated_by text,
+  updated_at timestamptz not null default now()
+);
+
+alter publication supabase_realtime add table public.customer_notes;
+
+alter table public.customer_notes enable row level security;
+
+-- Every screen that shows an order may show the customer's note
+drop policy if exists "Staff read customer notes" on public.customer_notes;
+create policy "Staff read customer notes" on public.customer_notes
+  for select to authenticated using (public.current_staff_role() is not null);
+drop policy if exists "Managers manage customer notes" on public.customer_notes;
+create policy "Managers manage customer notes" on public.customer_notes
+  for all to authenticated
+  using (public.current_staff_role() in ('owner', 'manager'))
+  with check (public.current_staff_role() in ('owner', 'manager'));
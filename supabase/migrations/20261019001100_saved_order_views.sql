@@ -0,0 +1,18 @@
+-- Named filter views on the orders screen, saved per staff member. `query` is the
+-- URL search string the view restores, e.g. 'status=ready&city=Lahore'.
+create table if not exists public.saved_order_views (
+  id uuid primary key default gen_random_uuid(),
+  staff_id uuid not null default auth.uid() references public.staff(id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  query text not null default '',
+  created_at timestamptz not null default now(),
+  unique (staff_id, name)
+);
+
+alter table public.saved_order_views enable row level security;
+
+drop policy if exists "Staff manage own views" on public.saved_order_views;
+create policy "Staff manage own views" on public.saved_order_views
+  for all to authenticated
+  using (staff_id = auth.uid() and public.current_staff_role() is not null)
+  with check (staff_id = auth.uid() and public.current_staff_role() is not null);
@@ -0,0 +1,100 @@
+-- Priority flags and rider assignments now leave an entry on the order's timeline,
+-- like status changes and edits, so bulk actions from the orders screen can be traced.
+create or replace function public.set_order_priority(
+  p_order_id uuid,
+  p_priority text,
+  p_created_by text default null
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_previous text;
+begin
+  if coalesce(public.current_staff_role(), '') not in ('owner', 'manager') then
+    raise exception 'Your role cannot change priority' using errcode = 'P0001';
+  end if;
+
+  select priority into v_previous
+    from public.orders
+   where id = p_order_id
+     for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id using errcode = 'P0002';
+  end if;
+
+  update public.orders
+     set priority = p_priority,
+         -- Clearing the flag also clears who raised it
+         priority_set_by = case when p_priority = 'normal' then null else p_created_by end,
+         priority_set_at = case when p_priority = 'normal' then null else now() end,
+         updated_at = now()
+   where id = p_order_id
+  returning * into v_order;
+
+  if v_previous is distinct from p_priority then
+    insert into public.order_status_history (order_id, status, created_by, created_at, changes)
+    values (
+      p_order_id,
+      v_order.order_status,
+      p_created_by,
+      now(),
+      jsonb_build_array(jsonb_build_object('field', 'Priority', 'before', v_previous, 'after', p_priority))
+    );
+  end if;
+
+  return v_order;
+end;
+$$;
+
+create or replace function public.assign_delivery_run(
+  p_rider_id uuid,
+  p_order_ids uuid[],
+  p_created_by text default null
+)
+returns public.delivery_runs
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_run public.delivery_runs;
+  v_rider_name text;
+begin
+  if exists (
+    select 1
+      from public.orders o
+      left join public.delivery_runs r on r.id = o.delivery_run_id
+     where o.id = any(p_order_ids)
+       and (o.order_status <> 'ready' or (r.id is not null and r.status <> 'returned'))
+  ) then
+    raise exception 'Only ready orders without a rider can be assigned' using errcode = 'P0001';
+  end if;
+
+  select name into v_rider_name from public.riders where id = p_rider_id;
+
+  insert into public.delivery_runs (rider_id, created_by)
+  values (p_rider_id, p_created_by)
+  returning * into v_run;
+
+  update public.orders
+     set delivery_run_id = v_run.id,
+         updated_at = now()
+   where id = any(p_order_ids);
+
+  insert into public.order_status_history (order_id, status, created_by, created_at, changes)
+  select id,
+         order_status,
+         p_created_by,
+         now(),
+         jsonb_build_array(jsonb_build_object('field', 'Rider', 'before', null, 'after', v_rider_name))
+    from public.orders
+   where id = any(p_order_ids);
+
+  return v_run;
+end;
+$$;
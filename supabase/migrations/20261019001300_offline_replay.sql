@@ -0,0 +1,130 @@
+-- Changes made while a device was offline are replayed later. Both functions take the
+-- order's updated_at as the device last saw it and refuse the change if the order has
+-- moved on since, the same check edit_order makes. Online callers leave it null.
+drop function if exists public.update_order_status(uuid, text, text, text, text);
+
+create or replace function public.update_order_status(
+  p_order_id uuid,
+  p_status text,
+  p_expected_status text,
+  p_notes text default null,
+  p_created_by text default null,
+  p_expected_updated_at timestamptz default null
+)
+returns public.order_status_history
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_entry public.order_status_history;
+  v_current text;
+  v_updated_at timestamptz;
+  v_role text := public.current_staff_role();
+begin
+  if v_role is null then
+    raise exception 'Sign in as staff to change orders' using errcode = '42501';
+  end if;
+
+  select order_status, updated_at into v_current, v_updated_at
+    from public.orders
+   where id = p_order_id
+     for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id using errcode = 'P0002';
+  end if;
+
+  if p_expected_updated_at is not null and v_updated_at <> p_expected_updated_at then
+    raise exception 'Order was changed on another device while this one was offline' using errcode = 'P0001';
+  end if;
+
+  if v_current <> p_expected_status then
+    raise exception 'Order is already %', v_current using errcode = 'P0001';
+  end if;
+
+  if not public.can_transition_order(v_current, p_status, v_role) then
+    raise exception 'Your role cannot change orders from % to %', v_current, p_status using errcode = 'P0001';
+  end if;
+
+  if p_status = 'cancelled' and coalesce(trim(p_notes), '') = '' then
+    raise exception 'A reason is required to cancel an order' using errcode = 'P0001';
+  end if;
+
+  update public.orders
+     set order_status = p_status,
+         updated_at = now()
+   where id = p_order_id;
+
+  insert into public.order_status_history (order_id, status, notes, created_by, created_at)
+  values (
+    p_order_id,
+    p_status,
+    p_notes,
+    coalesce(p_created_by, (select full_name from public.staff where id = auth.uid())),
+    now()
+  )
+  returning * into v_entry;
+
+  return v_entry;
+end;
+$$;
+
+drop function if exists public.set_order_priority(uuid, text, text);
+
+create or replace function public.set_order_priority(
+  p_order_id uuid,
+  p_priority text,
+  p_created_by text default null,
+  p_expected_updated_at timestamptz default null
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_previous text;
+  v_updated_at timestamptz;
+begin
+  if coalesce(public.current_staff_role(), '') not in ('owner', 'manager') then
+    raise exception 'Your role cannot change priority' using errcode = 'P0001';
+  end if;
+
+  select priority, updated_at into v_previous, v_updated_at
+    from public.orders
+   where id = p_order_id
+     for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id using errcode = 'P0002';
+  end if;
+
+  if p_expected_updated_at is not null and v_updated_at <> p_expected_updated_at then
+    raise exception 'Order was changed on another device while this one was offline' using errcode = 'P0001';
+  end if;
+
+  update public.orders
+     set priority = p_priority,
+         -- Clearing the flag also clears who raised it
+         priority_set_by = case when p_priority = 'normal' then null else p_created_by end,
+         priority_set_at = case when p_priority = 'normal' then null else now() end,
+         updated_at = now()
+   where id = p_order_id
+  returning * into v_order;
+
+  if v_previous is distinct from p_priority then
+    insert into public.order_status_history (order_id, status, created_by, created_at, changes)
+    values (
+      p_order_id,
+      v_order.order_status,
+      p_created_by,
+      now(),
+      jsonb_build_array(jsonb_build_object('field', 'Priority', 'before', v_previous, 'after', p_priority))
+    );
+  end if;
+
+  return v_order;
+end;
+$$;
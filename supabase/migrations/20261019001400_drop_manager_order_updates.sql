@@ -0,0 +1,4 @@
+-- Priority flags now go through set_order_priority like every other change to an
+-- order, so managers no longer need direct update access to the orders table. Without
+-- it, each write is checked and logged by one of the RPCs.
+drop policy if exists "Managers update orders" on public.orders;
@@ -0,0 +1,548 @@
+-- The staff member recorded on history rows, runs and refunds used to be passed in by
+-- the client as p_created_by, so any signed-in user could write any name into the
+-- audit trail. The functions now take it from the session instead.
+create or replace function public.current_staff_name()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select full_name from public.staff where id = auth.uid() and is_active;
+$$;
+
+drop function if exists public.update_order_status(uuid, text, text, text, text, timestamptz);
+
+create or replace function public.update_order_status(
+  p_order_id uuid,
+  p_status text,
+  p_expected_status text,
+  p_notes text default null,
+  p_expected_updated_at timestamptz default null
+)
+returns public.order_status_history
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_entry public.order_status_history;
+  v_current text;
+  v_updated_at timestamptz;
+  v_role text := public.current_staff_role();
+begin
+  if v_role is null then
+    raise exception 'Sign in as staff to change orders' using errcode = '42501';
+  end if;
+
+  select order_status, updated_at into v_current, v_updated_at
+    from public.orders
+   where id = p_order_id
+     for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id using errcode = 'P0002';
+  end if;
+
+  if p_expected_updated_at is not null and v_updated_at <> p_expected_updated_at then
+    raise exception 'Order was changed on another device while this one was offline' using errcode = 'P0001';
+  end if;
+
+  if v_current <> p_expected_status then
+    raise exception 'Order is already %', v_current using errcode = 'P0001';
+  end if;
+
+  if not public.can_transition_order(v_current, p_status, v_role) then
+    raise exception 'Your role cannot change orders from % to %', v_current, p_status using errcode = 'P0001';
+  end if;
+
+  if p_status = 'cancelled' and coalesce(trim(p_notes), '') = '' then
+    raise exception 'A reason is required to cancel an order' using errcode = 'P0001';
+  end if;
+
+  update public.orders
+     set order_status = p_status,
+         updated_at = now()
+   where id = p_order_id;
+
+  insert into public.order_status_history (order_id, status, notes, created_by, created_at)
+  values (p_order_id, p_status, p_notes, public.current_staff_name(), now())
+  returning * into v_entry;
+
+  return v_entry;
+end;
+$$;
+
+drop function if exists public.set_order_priority(uuid, text, text, timestamptz);
+
+create or replace function public.set_order_priority(
+  p_order_id uuid,
+  p_priority text,
+  p_expected_updated_at timestamptz default null
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_previous text;
+  v_updated_at timestamptz;
+  v_actor text := public.current_staff_name();
+begin
+  if coalesce(public.current_staff_role(), '') not in ('owner', 'manager') then
+    raise exception 'Your role cannot change priority' using errcode = 'P0001';
+  end if;
+
+  select priority, updated_at into v_previous, v_updated_at
+    from public.orders
+   where id = p_order_id
+     for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id using errcode = 'P0002';
+  end if;
+
+  if p_expected_updated_at is not null and v_updated_at <> p_expected_updated_at then
+    raise exception 'Order was changed on another device while this one was offline' using errcode = 'P0001';
+  end if;
+
+  update public.orders
+     set priority = p_priority,
+         -- Clearing the flag also clears who raised it
+         priority_set_by = case when p_priority = 'normal' then null else v_actor end,
+         priority_set_at = case when p_priority = 'normal' then null else now() end,
+         updated_at = now()
+   where id = p_order_id
+  returning * into v_order;
+
+  if v_previous is distinct from p_priority then
+    insert into public.order_status_history (order_id, status, created_by, created_at, changes)
+    values (
+      p_order_id,
+      v_order.order_status,
+      v_actor,
+      now(),
+      jsonb_build_array(jsonb_build_object('field', 'Priority', 'before', v_previous, 'after', p_priority))
+    );
+  end if;
+
+  return v_order;
+end;
+$$;
+
+drop function if exists public.edit_order(uuid, timestamptz, jsonb, text, jsonb, jsonb, text);
+
+create or replace function public.edit_order(
+  p_order_id uuid,
+  p_expected_updated_at timestamptz,
+  p_items jsonb,
+  p_order_notes text,
+  p_delivery_address jsonb,
+  p_changes jsonb
+)
+returns public.order_status_history
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_entry public.order_status_history;
+  v_tax_rate numeric;
+  v_subtotal numeric;
+  v_tax numeric;
+begin
+  if coalesce(public.current_staff_role(), '') not in ('owner', 'manager') then
+    raise exception 'Your role cannot edit orders' using errcode = 'P0001';
+  end if;
+
+  select * into v_order
+    from public.orders
+   where id = p_order_id
+     for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id using errcode = 'P0002';
+  end if;
+
+  if v_order.updated_at <> p_expected_updated_at then
+    raise exception 'Order was changed by someone else. Reopen it and try again' using errcode = 'P0001';
+  end if;
+
+  if v_order.order_status in ('delivered', 'cancelled') then
+    raise exception 'Order is already %', v_order.order_status using errcode = 'P0001';
+  end if;
+
+  if jsonb_array_length(coalesce(p_items, '[]'::jsonb)) = 0 then
+    raise exception 'An order needs at least one item' using errcode = 'P0001';
+  end if;
+
+  -- Items in p_items with an id are kept and updated, the rest are new
+  delete from public.order_items i
+   where i.order_id = p_order_id
+     and not exists (
+       select 1 from jsonb_populate_recordset(null::public.order_items, p_items) r where r.id = i.id
+     );
+
+  update public.order_items i
+     set item_name = r.item_name,
+         quantity = r.quantity,
+         unit_price = r.unit_price,
+         total_price = r.quantity * r.unit_price,
+         customizations = coalesce(r.customizations, '{}'::jsonb)
+    from jsonb_populate_recordset(null::public.order_items, p_items) r
+   where i.id = r.id
+     and i.order_id = p_order_id;
+
+  insert into public.order_items (
+    order_id, item_type, item_id, item_name, item_description, quantity, unit_price, total_price, customizations
+  )
+  select p_order_id, r.item_type, r.item_id, r.item_name, r.item_description, r.quantity, r.unit_price,
+         r.quantity * r.unit_price, coalesce(r.customizations, '{}'::jsonb)
+    from jsonb_populate_recordset(null::public.order_items, p_items) r
+   where r.id is null;
+
+  -- Keep the tax rate the order was placed with
+  v_tax_rate := case when v_order.subtotal > 0 then v_order.tax_amount / v_order.subtotal else 0 end;
+  select coalesce(sum(total_price), 0) into v_subtotal from public.order_items where order_id = p_order_id;
+  v_tax := round(v_subtotal * v_tax_rate, 2);
+
+  update public.orders
+     set order_notes = nullif(trim(p_order_notes), ''),
+         delivery_address = p_delivery_address,
+         subtotal = v_subtotal,
+         tax_amount = v_tax,
+         total_amount = v_subtotal + v_tax + delivery_fee,
+         updated_at = now()
+   where id = p_order_id;
+
+  insert into public.order_status_history (order_id, status, notes, changes, created_by, created_at)
+  values (p_order_id, v_order.order_status, 'Order edited', p_changes, public.current_staff_name(), now())
+  returning * into v_entry;
+
+  return v_entry;
+end;
+$$;
+
+drop function if exists public.create_order(jsonb, jsonb, numeric, text);
+
+create or replace function public.create_order(
+  p_order jsonb,
+  p_items jsonb,
+  p_tax_rate numeric
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_input public.orders;
+  v_order public.orders;
+  v_subtotal numeric;
+  v_tax numeric;
+begin
+  if coalesce(public.current_staff_role(), '') not in ('owner', 'manager') then
+    raise exception 'Your role cannot create orders' using errcode = 'P0001';
+  end if;
+
+  if jsonb_array_length(coalesce(p_items, '[]'::jsonb)) = 0 then
+    raise exception 'An order needs at least one item' using errcode = 'P0001';
+  end if;
+
+  v_input := jsonb_populate_record(null::public.orders, p_order);
+
+  select coalesce(sum(r.quantity * r.unit_price), 0) into v_subtotal
+    from jsonb_populate_recordset(null::public.order_items, p_items) r;
+  v_tax := round(v_subtotal * coalesce(p_tax_rate, 0), 2);
+
+  insert into public.orders (
+    order_number, customer_name, customer_email, customer_phone, company, delivery_address,
+    order_notes, payment_method, payment_status, subtotal, tax_amount, delivery_fee, total_amount,
+    order_status, fulfillment_type, order_source
+  )
+  values (
+    -- ADM-<yymmdd>-<n> keeps admin orders apart from the customer site's numbering
+    'ADM-' || to_char(now(), 'YYMMDD') || '-' || lpad(nextval('public.admin_order_number_seq')::text, 4, '0'),
+    v_input.customer_name,
+    coalesce(v_input.customer_email, ''),
+    v_input.customer_phone,
+    v_input.company,
+    coalesce(v_input.delivery_address, '{}'::jsonb),
+    nullif(trim(v_input.order_notes), ''),
+    v_input.payment_method,
+    'pending',
+    v_subtotal,
+    v_tax,
+    coalesce(v_input.delivery_fee, 0),
+    v_subtotal + v_tax + coalesce(v_input.delivery_fee, 0),
+    'pending',
+    v_input.fulfillment_type,
+    v_input.order_source
+  )
+  returning * into v_order;
+
+  insert into public.order_items (
+    order_id, item_type, item_id, item_name, item_description, quantity, unit_price, total_price, customizations
+  )
+  select v_order.id, r.item_type, r.item_id, r.item_name, r.item_description, r.quantity, r.unit_price,
+         r.quantity * r.unit_price, coalesce(r.customizations, '{}'::jsonb)
+    from jsonb_populate_recordset(null::public.order_items, p_items) r;
+
+  insert into public.order_status_history (order_id, status, notes, created_by, created_at)
+  values (v_order.id, 'pending', 'Order taken by staff', public.current_staff_name(), now());
+
+  return v_order;
+end;
+$$;
+
+drop function if exists public.mark_order_paid(uuid, text);
+
+create or replace function public.mark_order_paid(p_order_id uuid)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_previous text;
+begin
+  if coalesce(public.current_staff_role(), '') not in ('owner', 'manager', 'dispatcher') then
+    raise exception 'Your role cannot take payments' using errcode = 'P0001';
+  end if;
+
+  select payment_status into v_previous
+    from public.orders
+   where id = p_order_id
+     for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id using errcode = 'P0002';
+  end if;
+
+  if v_previous not in ('pending', 'failed') then
+    raise exception 'Order is already %', v_previous using errcode = 'P0001';
+  end if;
+
+  update public.orders
+     set payment_status = 'paid',
+         updated_at = now()
+   where id = p_order_id
+  returning * into v_order;
+
+  insert into public.order_status_history (order_id, status, created_by, created_at, changes)
+  values (
+    p_order_id,
+    v_order.order_status,
+    public.current_staff_name(),
+    now(),
+    jsonb_build_array(jsonb_build_object('field', 'Payment', 'before', v_previous, 'after', 'paid'))
+  );
+
+  return v_order;
+end;
+$$;
+
+drop function if exists public.record_refund(uuid, numeric, text, text);
+
+create or replace function public.record_refund(
+  p_order_id uuid,
+  p_amount numeric,
+  p_reason text
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_actor text := public.current_staff_name();
+begin
+  if coalesce(public.current_staff_role(), '') not in ('owner', 'manager') then
+    raise exception 'Your role cannot record refunds' using errcode = 'P0001';
+  end if;
+
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'A reason is required for a refund' using errcode = 'P0001';
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'The refund amount must be more than zero' using errcode = 'P0001';
+  end if;
+
+  select * into v_order
+    from public.orders
+   where id = p_order_id
+     for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id using errcode = 'P0002';
+  end if;
+
+  if v_order.payment_status <> 'paid' then
+    raise exception 'Only paid orders can be refunded' using errcode = 'P0001';
+  end if;
+
+  if p_amount > v_order.total_amount - v_order.refunded_amount then
+    raise exception 'Only Rs % is left to refund', v_order.total_amount - v_order.refunded_amount using errcode = 'P0001';
+  end if;
+
+  insert into public.order_refunds (order_id, amount, reason, created_by)
+  values (p_order_id, p_amount, trim(p_reason), v_actor);
+
+  -- A partial refund leaves the order paid; the last one marks it refunded
+  update public.orders
+     set refunded_amount = refunded_amount + p_amount,
+         payment_status = case when refunded_amount + p_amount >= total_amount then 'refunded' else payment_status end,
+         updated_at = now()
+   where id = p_order_id
+  returning * into v_order;
+
+  insert into public.order_status_history (order_id, status, created_by, created_at, changes)
+  values (
+    p_order_id,
+    v_order.order_status,
+    v_actor,
+    now(),
+    jsonb_build_array(jsonb_build_object(
+      'field', 'Refund',
+      'before', null,
+      'after', 'Rs ' || to_char(p_amount, 'FM999999990.00') || ' (' || trim(p_reason) || ')'
+    ))
+  );
+
+  return v_order;
+end;
+$$;
+
+drop function if exists public.assign_delivery_run(uuid, uuid[], text);
+
+create or replace function public.assign_delivery_run(
+  p_rider_id uuid,
+  p_order_ids uuid[]
+)
+returns public.delivery_runs
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_run public.delivery_runs;
+  v_rider_name text;
+  v_actor text := public.current_staff_name();
+begin
+  if exists (
+    select 1
+      from public.orders o
+      left join public.delivery_runs r on r.id = o.delivery_run_id
+     where o.id = any(p_order_ids)
+       and (o.order_status <> 'ready' or (r.id is not null and r.status <> 'returned'))
+  ) then
+    raise exception 'Only ready orders without a rider can be assigned' using errcode = 'P0001';
+  end if;
+
+  select name into v_rider_name from public.riders where id = p_rider_id;
+
+  insert into public.delivery_runs (rider_id, created_by)
+  values (p_rider_id, v_actor)
+  returning * into v_run;
+
+  update public.orders
+     set delivery_run_id = v_run.id,
+         updated_at = now()
+   where id = any(p_order_ids);
+
+  insert into public.order_status_history (order_id, status, created_by, created_at, changes)
+  select id,
+         order_status,
+         v_actor,
+         now(),
+         jsonb_build_array(jsonb_build_object('field', 'Rider', 'before', null, 'after', v_rider_name))
+    from public.orders
+   where id = any(p_order_ids);
+
+  return v_run;
+end;
+$$;
+
+drop function if exists public.depart_delivery_run(uuid, text);
+
+-- Marks the rider as gone and moves every order on the run out for delivery
+create or replace function public.depart_delivery_run(p_run_id uuid)
+returns public.delivery_runs
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_run public.delivery_runs;
+begin
+  update public.delivery_runs
+     set status = 'out',
+         departed_at = now()
+   where id = p_run_id
+     and status = 'assigned'
+  returning * into v_run;
+
+  if not found then
+    raise exception 'Run has already left' using errcode = 'P0001';
+  end if;
+
+  insert into public.order_status_history (order_id, status, notes, created_by, created_at)
+  select id, 'out_for_delivery', 'Dispatched', public.current_staff_name(), now()
+    from public.orders
+   where delivery_run_id = p_run_id
+     and order_status = 'ready';
+
+  update public.orders
+     set order_status = 'out_for_delivery',
+         updated_at = now()
+   where delivery_run_id = p_run_id
+     and order_status = 'ready';
+
+  return v_run;
+end;
+$$;
+
+drop function if exists public.return_delivery_run(uuid, text);
+
+-- Records the rider's return and marks the orders still out on the run as delivered
+create or replace function public.return_delivery_run(p_run_id uuid)
+returns public.delivery_runs
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_run public.delivery_runs;
+begin
+  update public.delivery_runs
+     set status = 'returned',
+         returned_at = now()
+   where id = p_run_id
+     and status = 'out'
+  returning * into v_run;
+
+  if not found then
+    raise exception 'Run is not out for delivery' using errcode = 'P0001';
+  end if;
+
+  insert into public.order_status_history (order_id, status, notes, created_by, created_at)
+  select id, 'delivered', 'Rider returned', public.current_staff_name(), now()
+    from public.orders
+   where delivery_run_id = p_run_id
+     and order_status = 'out_for_delivery';
+
+  update public.orders
+     set order_status = 'delivered',
+         updated_at = now()
+   where delivery_run_id = p_run_id
+     and order_status = 'out_for_delivery';
+
+  return v_run;
+end;
+$$;
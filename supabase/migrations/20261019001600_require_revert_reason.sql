@@ -0,0 +1,78 @@
+-- Stepping an order back (a remake, a returned delivery) needs a reason just like a
+-- cancellation. The client already asked for one; the database now insists on it too.
+
+-- Mirrors requiresReason in STATUS_TRANSITIONS (src/types/orders.ts)
+create or replace function public.transition_requires_reason(p_from text, p_to text)
+returns boolean
+language sql
+immutable
+as $$
+  select p_to = 'cancelled'
+      or (p_from, p_to) in (
+        ('preparing', 'confirmed'),
+        ('ready', 'preparing'),
+        ('out_for_delivery', 'ready')
+      );
+$$;
+
+create or replace function public.update_order_status(
+  p_order_id uuid,
+  p_status text,
+  p_expected_status text,
+  p_notes text default null,
+  p_expected_updated_at timestamptz default null
+)
+returns public.order_status_history
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_entry public.order_status_history;
+  v_current text;
+  v_updated_at timestamptz;
+  v_role text := public.current_staff_role();
+begin
+  if v_role is null then
+    raise exception 'Sign in as staff to change orders' using errcode = '42501';
+  end if;
+
+  select order_status, updated_at into v_current, v_updated_at
+    from public.orders
+   where id = p_order_id
+     for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id using errcode = 'P0002';
+  end if;
+
+  if p_expected_updated_at is not null and v_updated_at <> p_expected_updated_at then
+    raise exception 'Order was changed on another device while this one was offline' using errcode = 'P0001';
+  end if;
+
+  if v_current <> p_expected_status then
+    raise exception 'Order is already %', v_current using errcode = 'P0001';
+  end if;
+
+  if not public.can_transition_order(v_current, p_status, v_role) then
+    raise exception 'Your role cannot change orders from % to %', v_current, p_status using errcode = 'P0001';
+  end if;
+
+  if public.transition_requires_reason(v_current, p_status) and coalesce(trim(p_notes), '') = '' then
+    raise exception 'A reason is required to %',
+      case when p_status = 'cancelled' then 'cancel an order' else 'move an order back' end
+      using errcode = 'P0001';
+  end if;
+
+  update public.orders
+     set order_status = p_status,
+         updated_at = now()
+   where id = p_order_id;
+
+  insert into public.order_status_history (order_id, status, notes, created_by, created_at)
+  values (p_order_id, p_status, p_notes, public.current_staff_name(), now())
+  returning * into v_entry;
+
+  return v_entry;
+end;
+$$;
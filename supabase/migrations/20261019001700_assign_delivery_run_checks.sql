@@ -0,0 +1,74 @@
+-- assign_delivery_run checked the orders without locking them, so two dispatchers
+-- could put the same order on two runs at once. It also accepted an empty list or ids
+-- that match no order, leaving a run with nothing on it.
+create or replace function public.assign_delivery_run(
+  p_rider_id uuid,
+  p_order_ids uuid[]
+)
+returns public.delivery_runs
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_run public.delivery_runs;
+  v_rider_name text;
+  v_actor text := public.current_staff_name();
+  v_order_ids uuid[];
+  v_found integer;
+begin
+  select coalesce(array_agg(distinct id), '{}') into v_order_ids
+    from unnest(p_order_ids) as id
+   where id is not null;
+
+  if cardinality(v_order_ids) = 0 then
+    raise exception 'Pick at least one order for the run' using errcode = 'P0001';
+  end if;
+
+  select name into v_rider_name from public.riders where id = p_rider_id;
+
+  if not found then
+    raise exception 'Rider % not found', p_rider_id using errcode = 'P0002';
+  end if;
+
+  -- Held until the run is written, so a second assignment waits and then sees this one
+  select count(*) into v_found
+    from (
+      select id from public.orders where id = any(v_order_ids) for update
+    ) locked;
+
+  if v_found <> cardinality(v_order_ids) then
+    raise exception 'Some of these orders no longer exist' using errcode = 'P0001';
+  end if;
+
+  if exists (
+    select 1
+      from public.orders o
+      left join public.delivery_runs r on r.id = o.delivery_run_id
+     where o.id = any(v_order_ids)
+       and (o.order_status <> 'ready' or (r.id is not null and r.status <> 'returned'))
+  ) then
+    raise exception 'Only ready orders without a rider can be assigned' using errcode = 'P0001';
+  end if;
+
+  insert into public.delivery_runs (rider_id, created_by)
+  values (p_rider_id, v_actor)
+  returning * into v_run;
+
+  update public.orders
+     set delivery_run_id = v_run.id,
+         updated_at = now()
+   where id = any(v_order_ids);
+
+  insert into public.order_status_history (order_id, status, created_by, created_at, changes)
+  select id,
+         order_status,
+         v_actor,
+         now(),
+         jsonb_build_array(jsonb_build_object('field', 'Rider', 'before', null, 'after', v_rider_name))
+    from public.orders
+   where id = any(v_order_ids);
+
+  return v_run;
+end;
+$$;
@@ -0,0 +1,180 @@
+-- create_order took the tax rate and delivery fee from the client and numbered
+-- orders from one sequence that never restarts, stamped with the server's date.
+-- Pricing now comes from a single settings row and admin orders are numbered per
+-- day in the store's own time zone.
+create table if not exists public.store_settings (
+  -- Always true, so the table holds at most one row
+  id boolean primary key default true check (id),
+  tax_rate numeric(6, 4) not null default 0 check (tax_rate >= 0),
+  delivery_fee numeric(12, 2) not null default 0 check (delivery_fee >= 0),
+  -- IANA name, e.g. Asia/Karachi; decides which day an order number belongs to
+  timezone text not null default 'Asia/Karachi',
+  updated_by text,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.store_settings enable row level security;
+
+drop policy if exists "Staff read store settings" on public.store_settings;
+create policy "Staff read store settings" on public.store_settings
+  for select to authenticated
+  using (public.current_staff_role() is not null);
+
+drop policy if exists "Owners update store settings" on public.store_settings;
+create policy "Owners update store settings" on public.store_settings
+  for update to authenticated
+  using (public.current_staff_role() = 'owner')
+  with check (public.current_staff_role() = 'owner');
+
+-- Seeded from the newest customer-site orders, which is what the new order form
+-- used to copy
+insert into public.store_settings (tax_rate, delivery_fee)
+select coalesce((
+         select round(tax_amount / subtotal, 4)
+           from public.orders
+          where order_source = 'web' and subtotal > 0
+          order by created_at desc
+          limit 1
+       ), 0),
+       coalesce((
+         select delivery_fee
+           from public.orders
+          where order_source = 'web' and subtotal > 0 and fulfillment_type = 'delivery'
+          order by created_at desc
+          limit 1
+       ), 0)
+on conflict (id) do nothing;
+
+-- Last number handed out for each local day; the row lock serialises orders
+-- taken at the same moment
+create table if not exists public.admin_order_numbers (
+  business_date date primary key,
+  last_number integer not null
+);
+
+alter table public.admin_order_numbers enable row level security;
+
+-- Carry on after the numbers the old sequence already handed out
+insert into public.admin_order_numbers (business_date, last_number)
+select to_date(split_part(order_number, '-', 2), 'YYMMDD'), max(split_part(order_number, '-', 3)::integer)
+  from public.orders
+ where order_number ~ '^ADM-\d{6}-\d+$'
+ group by 1
+on conflict (business_date) do update
+  set last_number = greatest(public.admin_order_numbers.last_number, excluded.last_number);
+
+drop function if exists public.create_order(jsonb, jsonb, numeric);
+
+create or replace function public.create_order(
+  p_order jsonb,
+  p_items jsonb
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_input public.orders;
+  v_order public.orders;
+  v_settings public.store_settings;
+  v_business_date date;
+  v_number integer;
+  v_delivery_fee numeric;
+  v_subtotal numeric;
+  v_tax numeric;
+begin
+  if coalesce(public.current_staff_role(), '') not in ('owner', 'manager') then
+    raise exception 'Your role cannot create orders' using errcode = 'P0001';
+  end if;
+
+  if jsonb_array_length(coalesce(p_items, '[]'::jsonb)) = 0 then
+    raise exception 'An order needs at least one item' using errcode = 'P0001';
+  end if;
+
+  -- Mirrors validateItemDrafts, as in edit_order
+  if exists (
+    select 1 from jsonb_populate_recordset(null::public.order_items, p_items) r
+     where coalesce(trim(r.item_name), '') = ''
+  ) then
+    raise exception 'Every item needs a name' using errcode = 'P0001';
+  end if;
+
+  if exists (
+    select 1 from jsonb_populate_recordset(null::public.order_items, p_items) r
+     where r.quantity is null or r.quantity < 1
+  ) then
+    raise exception 'Quantities must be whole numbers of at least 1' using errcode = 'P0001';
+  end if;
+
+  if exists (
+    select 1 from jsonb_populate_recordset(null::public.order_items, p_items) r
+     where r.unit_price is null or r.unit_price < 0
+  ) then
+    raise exception 'Prices cannot be negative' using errcode = 'P0001';
+  end if;
+
+  select * into v_settings from public.store_settings;
+
+  if not found then
+    raise exception 'Store settings are missing' using errcode = 'P0001';
+  end if;
+
+  v_input := jsonb_populate_record(null::public.orders, p_order);
+
+  -- Pickup orders never carry a delivery fee
+  v_delivery_fee := case when v_input.fulfillment_type = 'pickup' then 0 else v_settings.delivery_fee end;
+
+  select coalesce(sum(r.quantity * r.unit_price), 0) into v_subtotal
+    from jsonb_populate_recordset(null::public.order_items, p_items) r;
+  v_tax := round(v_subtotal * v_settings.tax_rate, 2);
+
+  v_business_date := (now() at time zone v_settings.timezone)::date;
+
+  insert into public.admin_order_numbers (business_date, last_number)
+  values (v_business_date, 1)
+  on conflict (business_date) do update
+    set last_number = public.admin_order_numbers.last_number + 1
+  returning last_number into v_number;
+
+  insert into public.orders (
+    order_number, customer_name, customer_email, customer_phone, company, delivery_address,
+    order_notes, payment_method, payment_status, subtotal, tax_amount, delivery_fee, total_amount,
+    order_status, fulfillment_type, order_source
+  )
+  values (
+    -- ADM-<yymmdd>-<n> keeps admin orders apart from the customer site's numbering
+    'ADM-' || to_char(v_business_date, 'YYMMDD') || '-' || lpad(v_number::text, 4, '0'),
+    v_input.customer_name,
+    coalesce(v_input.customer_email, ''),
+    v_input.customer_phone,
+    v_input.company,
+    coalesce(v_input.delivery_address, '{}'::jsonb),
+    nullif(trim(v_input.order_notes), ''),
+    v_input.payment_method,
+    'pending',
+    v_subtotal,
+    v_tax,
+    v_delivery_fee,
+    v_subtotal + v_tax + v_delivery_fee,
+    'pending',
+    v_input.fulfillment_type,
+    v_input.order_source
+  )
+  returning * into v_order;
+
+  insert into public.order_items (
+    order_id, item_type, item_id, item_name, item_description, quantity, unit_price, total_price, customizations
+  )
+  select v_order.id, r.item_type, r.item_id, trim(r.item_name), r.item_description, r.quantity, r.unit_price,
+         r.quantity * r.unit_price, coalesce(r.customizations, '{}'::jsonb)
+    from jsonb_populate_recordset(null::public.order_items, p_items) r;
+
+  insert into public.order_status_history (order_id, status, notes, created_by, created_at)
+  values (v_order.id, 'pending', 'Order taken by staff', public.current_staff_name(), now());
+
+  return v_order;
+end;
+$$;
+
+drop sequence if exists public.admin_order_number_seq;
@@ -0,0 +1,154 @@
+-- A closed day only locked its orders' totals: they could still be cancelled or have
+-- their payment changed, and the report itself was worked out on the client and
+-- inserted as sent. The lock now covers everything the report is built from, and
+-- close_day computes the figures here.
+
+-- Refunds are reported on the day they are paid out, so a closed day's order can
+-- still be refunded. Moving an order along to delivered changes none of the figures.
+create or replace function public.guard_closed_day_orders()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (
+       (new.subtotal, new.tax_amount, new.delivery_fee, new.total_amount, new.payment_method)
+         is distinct from (old.subtotal, old.tax_amount, old.delivery_fee, old.total_amount, old.payment_method)
+       or (new.order_status = 'cancelled') is distinct from (old.order_status = 'cancelled')
+       or (new.payment_status is distinct from old.payment_status
+           and not (old.payment_status = 'paid' and new.payment_status = 'refunded'))
+       or new.refunded_amount < old.refunded_amount
+     )
+     and exists (
+       select 1
+         from public.day_closes
+        where old.created_at >= period_start
+          and old.created_at < period_end
+     ) then
+    raise exception 'The day this order was placed on is closed' using errcode = 'P0001';
+  end if;
+  return new;
+end;
+$$;
+
+-- Days are only closed through close_day
+drop policy if exists "Managers close days" on public.day_closes;
+
+-- Payment method or status lines as stored in day_closes.breakdown, largest first
+create or replace function public.day_close_breakdown(p_start timestamptz, p_end timestamptz, p_by text)
+returns jsonb
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(jsonb_agg(jsonb_build_object('key', key, 'orders', orders, 'amount', amount) order by amount desc), '[]'::jsonb)
+    from (
+      select coalesce(nullif(case p_by when 'payment_method' then payment_method else payment_status end, ''), 'unknown') as key,
+             count(*) as orders,
+             sum(total_amount) as amount
+        from public.orders
+       where created_at >= p_start
+         and created_at < p_end
+         and order_status <> 'cancelled'
+       group by 1
+    ) lines;
+$$;
+
+-- Mirrors summarizeDay in src/lib/day-close.ts, which the page shows as a preview
+create or replace function public.close_day(
+  p_business_date date,
+  p_period_start timestamptz,
+  p_period_end timestamptz,
+  p_opening_float numeric,
+  p_counted_cash numeric,
+  p_notes text default null
+)
+returns public.day_closes
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_close public.day_closes;
+  v_cash_sales numeric;
+  v_cash_refunds numeric;
+begin
+  if coalesce(public.current_staff_role(), '') not in ('owner', 'manager') then
+    raise exception 'Your role cannot close the day' using errcode = 'P0001';
+  end if;
+
+  -- A local day is 23 to 25 hours long around clock changes
+  if p_period_end <= p_period_start or p_period_end - p_period_start > interval '25 hours' then
+    raise exception 'The period to close must be a single day' using errcode = 'P0001';
+  end if;
+
+  if p_period_start > now() then
+    raise exception 'This day has not started yet' using errcode = 'P0001';
+  end if;
+
+  if p_opening_float is null or p_opening_float < 0 or p_counted_cash is null or p_counted_cash < 0 then
+    raise exception 'Cash amounts cannot be negative' using errcode = 'P0001';
+  end if;
+
+  if exists (
+    select 1 from public.day_closes
+     where business_date = p_business_date
+        or (period_start < p_period_end and period_end > p_period_start)
+  ) then
+    raise exception 'This day is already closed' using errcode = 'P0001';
+  end if;
+
+  v_close.business_date := p_business_date;
+  v_close.period_start := p_period_start;
+  v_close.period_end := p_period_end;
+  v_close.opening_float := p_opening_float;
+  v_close.counted_cash := p_counted_cash;
+  v_close.notes := nullif(trim(p_notes), '');
+  v_close.closed_by := public.current_staff_name();
+
+  -- Gross sales leave out cancelled orders; refunds are reported separately
+  select count(*),
+         count(*) filter (where order_status = 'cancelled'),
+         coalesce(sum(total_amount) filter (where order_status <> 'cancelled'), 0),
+         coalesce(sum(tax_amount) filter (where order_status <> 'cancelled'), 0),
+         coalesce(sum(delivery_fee) filter (where order_status <> 'cancelled'), 0),
+         -- Cash taken for the day's orders, including paid orders cancelled later
+         coalesce(sum(total_amount) filter (where payment_method = 'cash' and payment_status in ('paid', 'refunded')), 0)
+    into v_close.order_count, v_close.cancelled_count, v_close.gross_sales, v_close.tax_total,
+         v_close.delivery_fee_total, v_cash_sales
+    from public.orders
+   where created_at >= p_period_start
+     and created_at < p_period_end;
+
+  -- Refunds paid out during the day, whichever day their order was placed on
+  select coalesce(sum(r.amount), 0),
+         coalesce(sum(r.amount) filter (where o.payment_method = 'cash'), 0)
+    into v_close.refund_total, v_cash_refunds
+    from public.order_refunds r
+    join public.orders o on o.id = r.order_id
+   where r.created_at >= p_period_start
+     and r.created_at < p_period_end;
+
+  v_close.breakdown := jsonb_build_object(
+    'by_payment_method', public.day_close_breakdown(p_period_start, p_period_end, 'payment_method'),
+    'by_payment_status', public.day_close_breakdown(p_period_start, p_period_end, 'payment_status')
+  );
+  v_close.expected_cash := p_opening_float + v_cash_sales - v_cash_refunds;
+
+  insert into public.day_closes (
+    business_date, period_start, period_end, order_count, cancelled_count, gross_sales, tax_total,
+    delivery_fee_total, refund_total, breakdown, opening_float, expected_cash, counted_cash, notes, closed_by
+  )
+  values (
+    v_close.business_date, v_close.period_start, v_close.period_end, v_close.order_count, v_close.cancelled_count,
+    v_close.gross_sales, v_close.tax_total, v_close.delivery_fee_total, v_close.refund_total, v_close.breakdown,
+    v_close.opening_float, v_close.expected_cash, v_close.counted_cash, v_close.notes, v_close.closed_by
+  )
+  returning * into v_close;
+
+  return v_close;
+exception
+  -- Someone closed the day between the check above and the insert
+  when unique_violation then
+    raise exception 'This day is already closed' using errcode = 'P0001';
+end;
+$$;
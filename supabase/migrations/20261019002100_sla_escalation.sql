@@ -0,0 +1,106 @@
+-- SLA escalation remembered what it had flagged only in the open page, so a reload or
+-- a second dashboard raised an order again after staff had lowered it. The status it
+-- was escalated for is now kept on the order. The overdue limits move from each
+-- tablet's local storage into store_settings so every screen escalates alike.
+alter table public.orders
+  add column if not exists escalated_for_status text;
+
+-- Minutes an order may spend in each status, keyed by status; a status left out has no limit
+alter table public.store_settings
+  add column if not exists sla_minutes jsonb not null
+    default '{"pending": 5, "confirmed": 10, "preparing": 20, "ready": 10, "out_for_delivery": 30}'::jsonb;
+
+-- Open screens pick up new limits as soon as they are saved
+alter publication supabase_realtime add table public.store_settings;
+
+create or replace function public.set_sla_minutes(p_sla_minutes jsonb)
+returns public.store_settings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_settings public.store_settings;
+begin
+  if coalesce(public.current_staff_role(), '') not in ('owner', 'manager') then
+    raise exception 'Your role cannot change overdue limits' using errcode = 'P0001';
+  end if;
+
+  if jsonb_typeof(p_sla_minutes) <> 'object' or exists (
+    select 1 from jsonb_each(p_sla_minutes)
+     where key not in ('pending', 'confirmed', 'preparing', 'ready', 'out_for_delivery')
+        or jsonb_typeof(value) <> 'number'
+        or (value #>> '{}')::numeric < 1
+        or (value #>> '{}')::numeric <> trunc((value #>> '{}')::numeric)
+  ) then
+    raise exception 'Overdue limits must be whole minutes of at least 1' using errcode = 'P0001';
+  end if;
+
+  update public.store_settings
+     set sla_minutes = p_sla_minutes,
+         updated_by = public.current_staff_name(),
+         updated_at = now()
+  returning * into v_settings;
+
+  return v_settings;
+end;
+$$;
+
+-- Flags an overdue order as urgent once for the status it is late in. Calls for an
+-- order that has since moved on, or that was already escalated, change nothing.
+create or replace function public.escalate_order(
+  p_order_id uuid,
+  p_status text
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_previous text;
+begin
+  if coalesce(public.current_staff_role(), '') not in ('owner', 'manager') then
+    raise exception 'Your role cannot change priority' using errcode = 'P0001';
+  end if;
+
+  select * into v_order
+    from public.orders
+   where id = p_order_id
+     for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id using errcode = 'P0002';
+  end if;
+
+  if v_order.order_status <> p_status or v_order.escalated_for_status is not distinct from p_status then
+    return v_order;
+  end if;
+
+  v_previous := v_order.priority;
+
+  update public.orders
+     set escalated_for_status = p_status,
+         priority = 'urgent',
+         -- A flag staff raised by hand keeps their name
+         priority_set_by = case when priority = 'urgent' then priority_set_by else 'SLA monitor' end,
+         priority_set_at = case when priority = 'urgent' then priority_set_at else now() end,
+         updated_at = now()
+   where id = p_order_id
+  returning * into v_order;
+
+  if v_previous is distinct from 'urgent' then
+    insert into public.order_status_history (order_id, status, created_by, created_at, changes)
+    values (
+      p_order_id,
+      v_order.order_status,
+      'SLA monitor',
+      now(),
+      jsonb_build_array(jsonb_build_object('field', 'Priority', 'before', v_previous, 'after', 'urgent'))
+    );
+  end if;
+
+  return v_order;
+end;
+$$;
@@ -0,0 +1,238 @@
+-- edit_order logged an item whose id belonged to another order (or to no item) as
+-- added, but the update only matches this order's items and the insert only takes
+-- items without an id, so it was never saved and the totals left it out. Such ids
+-- are now refused, so the timeline and the saved items always agree.
+create or replace function public.edit_order(
+  p_order_id uuid,
+  p_expected_updated_at timestamptz,
+  p_items jsonb,
+  p_order_notes text,
+  p_delivery_address jsonb
+)
+returns public.order_status_history
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_entry public.order_status_history;
+  v_item record;
+  v_changes jsonb := '[]'::jsonb;
+  v_tax_rate numeric;
+  v_subtotal numeric;
+  v_tax numeric;
+begin
+  if coalesce(public.current_staff_role(), '') not in ('owner', 'manager') then
+    raise exception 'Your role cannot edit orders' using errcode = 'P0001';
+  end if;
+
+  select * into v_order
+    from public.orders
+   where id = p_order_id
+     for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id using errcode = 'P0002';
+  end if;
+
+  if v_order.updated_at <> p_expected_updated_at then
+    raise exception 'Order was changed by someone else. Reopen it and try again' using errcode = 'P0001';
+  end if;
+
+  if v_order.order_status in ('delivered', 'cancelled') then
+    raise exception 'Order is already %', v_order.order_status using errcode = 'P0001';
+  end if;
+
+  if jsonb_array_length(coalesce(p_items, '[]'::jsonb)) = 0 then
+    raise exception 'An order needs at least one item' using errcode = 'P0001';
+  end if;
+
+  -- Mirrors validateItemDrafts
+  if exists (
+    select 1 from jsonb_populate_recordset(null::public.order_items, p_items) r
+     where coalesce(trim(r.item_name), '') = ''
+  ) then
+    raise exception 'Every item needs a name' using errcode = 'P0001';
+  end if;
+
+  if exists (
+    select 1 from jsonb_populate_recordset(null::public.order_items, p_items) r
+     where r.quantity is null or r.quantity < 1
+  ) then
+    raise exception 'Quantities must be whole numbers of at least 1' using errcode = 'P0001';
+  end if;
+
+  if exists (
+    select 1 from jsonb_populate_recordset(null::public.order_items, p_items) r
+     where r.unit_price is null or r.unit_price < 0
+  ) then
+    raise exception 'Prices cannot be negative' using errcode = 'P0001';
+  end if;
+
+  -- An id is only kept for an item already on this order. Any other would be logged
+  -- as added but matched by neither the update nor the insert below.
+  if exists (
+    select 1 from jsonb_populate_recordset(null::public.order_items, p_items) r
+     where r.id is not null
+       and not exists (select 1 from public.order_items i where i.id = r.id and i.order_id = p_order_id)
+  ) then
+    raise exception 'Some of these items are not on this order. Reopen it and try again' using errcode = 'P0001';
+  end if;
+
+  if exists (
+    select 1 from jsonb_populate_recordset(null::public.order_items, p_items) r
+     where r.id is not null
+     group by r.id
+    having count(*) > 1
+  ) then
+    raise exception 'An item appears twice in this edit. Reopen the order and try again' using errcode = 'P0001';
+  end if;
+
+  -- The diff, built before anything is written: removed items, then each item in the
+  -- order it was sent, then the notes and address
+  select v_changes || coalesce(jsonb_agg(jsonb_build_object(
+           'field', 'Removed item',
+           'before', i.quantity || ' x ' || i.item_name,
+           'after', null
+         ) order by i.created_at), '[]'::jsonb)
+    into v_changes
+    from public.order_items i
+   where i.order_id = p_order_id
+     and not exists (
+       select 1 from jsonb_populate_recordset(null::public.order_items, p_items) r where r.id = i.id
+     );
+
+  for v_item in
+    select trim(r.item_name) as item_name,
+           r.quantity,
+           r.unit_price,
+           coalesce(r.customizations, '{}'::jsonb) as customizations,
+           old.id as old_id,
+           old.item_name as old_item_name,
+           old.quantity as old_quantity,
+           old.unit_price as old_unit_price,
+           coalesce(old.customizations, '{}'::jsonb) as old_customizations
+      from jsonb_array_elements(p_items) with ordinality as e(value, position)
+      cross join lateral jsonb_populate_record(null::public.order_items, e.value) r
+      left join public.order_items old on old.id = r.id and old.order_id = p_order_id
+     order by e.position
+  loop
+    if v_item.old_id is null then
+      v_changes := v_changes || jsonb_build_array(jsonb_build_object(
+        'field', 'Added item', 'before', null, 'after', v_item.quantity || ' x ' || v_item.item_name
+      ));
+      continue;
+    end if;
+
+    if v_item.item_name <> v_item.old_item_name then
+      v_changes := v_changes || jsonb_build_array(jsonb_build_object(
+        'field', 'Item name', 'before', v_item.old_item_name, 'after', v_item.item_name
+      ));
+    end if;
+
+    if v_item.quantity <> v_item.old_quantity then
+      v_changes := v_changes || jsonb_build_array(jsonb_build_object(
+        'field', v_item.old_item_name || ' quantity',
+        'before', v_item.old_quantity::text,
+        'after', v_item.quantity::text
+      ));
+    end if;
+
+    if v_item.unit_price <> v_item.old_unit_price then
+      v_changes := v_changes || jsonb_build_array(jsonb_build_object(
+        'field', v_item.old_item_name || ' price',
+        'before', trim_scale(v_item.old_unit_price)::text,
+        'after', trim_scale(v_item.unit_price)::text
+      ));
+    end if;
+
+    if v_item.customizations <> v_item.old_customizations then
+      v_changes := v_changes || jsonb_build_array(jsonb_build_object(
+        'field', v_item.old_item_name || ' customizations',
+        'before', public.describe_customizations(v_item.old_customizations),
+        'after', public.describe_customizations(v_item.customizations)
+      ));
+    end if;
+  end loop;
+
+  if coalesce(trim(p_order_notes), '') <> coalesce(trim(v_order.order_notes), '') then
+    v_changes := v_changes || jsonb_build_array(jsonb_build_object(
+      'field', 'Notes',
+      'before', nullif(v_order.order_notes, ''),
+      'after', nullif(trim(p_order_notes), '')
+    ));
+  end if;
+
+  select v_changes || coalesce(jsonb_agg(jsonb_build_object(
+           'field', f.label,
+           'before', nullif(f.before, ''),
+           'after', nullif(f.after, '')
+         ) order by f.position), '[]'::jsonb)
+    into v_changes
+    from (
+      select a.label,
+             a.position,
+             coalesce(v_order.delivery_address ->> a.key, '') as before,
+             coalesce(trim(p_delivery_address ->> a.key), '') as after
+        from (values
+          ('street', 'Street', 1),
+          ('city', 'City', 2),
+          ('state', 'State', 3),
+          ('zipCode', 'Zip code', 4),
+          ('country', 'Country', 5)
+        ) as a(key, label, position)
+    ) f
+   where f.before <> f.after;
+
+  -- Nothing to save or to log
+  if jsonb_array_length(v_changes) = 0 then
+    return null;
+  end if;
+
+  -- Items in p_items with an id are kept and updated, the rest are new
+  delete from public.order_items i
+   where i.order_id = p_order_id
+     and not exists (
+       select 1 from jsonb_populate_recordset(null::public.order_items, p_items) r where r.id = i.id
+     );
+
+  update public.order_items i
+     set item_name = trim(r.item_name),
+         quantity = r.quantity,
+         unit_price = r.unit_price,
+         total_price = r.quantity * r.unit_price,
+         customizations = coalesce(r.customizations, '{}'::jsonb)
+    from jsonb_populate_recordset(null::public.order_items, p_items) r
+   where i.id = r.id
+     and i.order_id = p_order_id;
+
+  insert into public.order_items (
+    order_id, item_type, item_id, item_name, item_description, quantity, unit_price, total_price, customizations
+  )
+  select p_order_id, r.item_type, r.item_id, trim(r.item_name), r.item_description, r.quantity, r.unit_price,
+         r.quantity * r.unit_price, coalesce(r.customizations, '{}'::jsonb)
+    from jsonb_populate_recordset(null::public.order_items, p_items) r
+   where r.id is null;
+
+  -- Keep the tax rate the order was placed with
+  v_tax_rate := case when v_order.subtotal > 0 then v_order.tax_amount / v_order.subtotal else 0 end;
+  select coalesce(sum(total_price), 0) into v_subtotal from public.order_items where order_id = p_order_id;
+  v_tax := round(v_subtotal * v_tax_rate, 2);
+
+  update public.orders
+     set order_notes = nullif(trim(p_order_notes), ''),
+         delivery_address = p_delivery_address,
+         subtotal = v_subtotal,
+         tax_amount = v_tax,
+         total_amount = v_subtotal + v_tax + delivery_fee,
+         updated_at = now()
+   where id = p_order_id;
+
+  insert into public.order_status_history (order_id, status, notes, changes, created_by, created_at)
+  values (p_order_id, v_order.order_status, 'Order edited', v_changes, public.current_staff_name(), now())
+  returning * into v_entry;
+
+  return v_entry;
+end;
+$$;
@@ -0,0 +1,110 @@
+-- close_day took the period to close from the client, so the window it locked and
+-- reported on need not be the business date it was filed under. The period is now
+-- the business date's midnight to midnight in store_settings.timezone.
+drop function if exists public.close_day(date, timestamptz, timestamptz, numeric, numeric, text);
+
+-- Mirrors summarizeDay in src/lib/day-close.ts, which the page shows as a preview
+create or replace function public.close_day(
+  p_business_date date,
+  p_opening_float numeric,
+  p_counted_cash numeric,
+  p_notes text default null
+)
+returns public.day_closes
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_close public.day_closes;
+  v_timezone text;
+  v_period_start timestamptz;
+  v_period_end timestamptz;
+  v_cash_sales numeric;
+  v_cash_refunds numeric;
+begin
+  if coalesce(public.current_staff_role(), '') not in ('owner', 'manager') then
+    raise exception 'Your role cannot close the day' using errcode = 'P0001';
+  end if;
+
+  select timezone into v_timezone from public.store_settings;
+
+  if not found then
+    raise exception 'Store settings are missing' using errcode = 'P0001';
+  end if;
+
+  if p_business_date is null or p_business_date > (now() at time zone v_timezone)::date then
+    raise exception 'This day has not started yet' using errcode = 'P0001';
+  end if;
+
+  -- Midnight to midnight in the store's time zone, as create_order dates order numbers
+  v_period_start := p_business_date::timestamp at time zone v_timezone;
+  v_period_end := (p_business_date + 1)::timestamp at time zone v_timezone;
+
+  if p_opening_float is null or p_opening_float < 0 or p_counted_cash is null or p_counted_cash < 0 then
+    raise exception 'Cash amounts cannot be negative' using errcode = 'P0001';
+  end if;
+
+  if exists (
+    select 1 from public.day_closes
+     where business_date = p_business_date
+        or (period_start < v_period_end and period_end > v_period_start)
+  ) then
+    raise exception 'This day is already closed' using errcode = 'P0001';
+  end if;
+
+  v_close.business_date := p_business_date;
+  v_close.period_start := v_period_start;
+  v_close.period_end := v_period_end;
+  v_close.opening_float := p_opening_float;
+  v_close.counted_cash := p_counted_cash;
+  v_close.notes := nullif(trim(p_notes), '');
+  v_close.closed_by := public.current_staff_name();
+
+  -- Gross sales leave out cancelled orders; refunds are reported separately
+  select count(*),
+         count(*) filter (where order_status = 'cancelled'),
+         coalesce(sum(total_amount) filter (where order_status <> 'cancelled'), 0),
+         coalesce(sum(tax_amount) filter (where order_status <> 'cancelled'), 0),
+         coalesce(sum(delivery_fee) filter (where order_status <> 'cancelled'), 0),
+         -- Cash taken for the day's orders, including paid orders cancelled later
+         coalesce(sum(total_amount) filter (where payment_method = 'cash' and payment_status in ('paid', 'refunded')), 0)
+    into v_close.order_count, v_close.cancelled_count, v_close.gross_sales, v_close.tax_total,
+         v_close.delivery_fee_total, v_cash_sales
+    from public.orders
+   where created_at >= v_period_start
+     and created_at < v_period_end;
+
+  -- Refunds paid out during the day, whichever day their order was placed on
+  select coalesce(sum(r.amount), 0),
+         coalesce(sum(r.amount) filter (where o.payment_method = 'cash'), 0)
+    into v_close.refund_total, v_cash_refunds
+    from public.order_refunds r
+    join public.orders o on o.id = r.order_id
+   where r.created_at >= v_period_start
+     and r.created_at < v_period_end;
+
+  v_close.breakdown := jsonb_build_object(
+    'by_payment_method', public.day_close_breakdown(v_period_start, v_period_end, 'payment_method'),
+    'by_payment_status', public.day_close_breakdown(v_period_start, v_period_end, 'payment_status')
+  );
+  v_close.expected_cash := p_opening_float + v_cash_sales - v_cash_refunds;
+
+  insert into public.day_closes (
+    business_date, period_start, period_end, order_count, cancelled_count, gross_sales, tax_total,
+    delivery_fee_total, refund_total, breakdown, opening_float, expected_cash, counted_cash, notes, closed_by
+  )
+  values (
+    v_close.business_date, v_close.period_start, v_close.period_end, v_close.order_count, v_close.cancelled_count,
+    v_close.gross_sales, v_close.tax_total, v_close.delivery_fee_total, v_close.refund_total, v_close.breakdown,
+    v_close.opening_float, v_close.expected_cash, v_close.counted_cash, v_close.notes, v_close.closed_by
+  )
+  returning * into v_close;
+
+  return v_close;
+exception
+  -- Someone closed the day between the check above and the insert
+  when unique_violation then
+    raise exception 'This day is already closed' using errcode = 'P0001';
+end;
+$$;
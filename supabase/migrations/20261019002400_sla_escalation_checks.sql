@@ -0,0 +1,128 @@
+-- escalate_order moved the order's updated_at on, so an edit left open or a change
+-- queued offline failed as a conflict whenever the SLA monitor flagged the order in
+-- the meantime. Only managers could escalate, so the kitchen and dispatch screens
+-- could not run the monitor. escalate_order now leaves updated_at alone and checks
+-- the order is overdue itself, which lets any staff screen call it. set_sla_minutes
+-- cast every value to numeric, so a string like "ten" raised 22P02 instead of the
+-- message meant for it.
+
+create or replace function public.set_sla_minutes(p_sla_minutes jsonb)
+returns public.store_settings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_settings public.store_settings;
+begin
+  if coalesce(public.current_staff_role(), '') not in ('owner', 'manager') then
+    raise exception 'Your role cannot change overdue limits' using errcode = 'P0001';
+  end if;
+
+  if jsonb_typeof(p_sla_minutes) is distinct from 'object' then
+    raise exception 'Overdue limits must be whole minutes of at least 1' using errcode = 'P0001';
+  end if;
+
+  if exists (
+    select 1 from jsonb_each(p_sla_minutes)
+     where key not in ('pending', 'confirmed', 'preparing', 'ready', 'out_for_delivery')
+        -- Only numbers are cast
+        or case
+             when jsonb_typeof(value) = 'number' then
+               (value #>> '{}')::numeric < 1 or (value #>> '{}')::numeric <> trunc((value #>> '{}')::numeric)
+             else true
+           end
+  ) then
+    raise exception 'Overdue limits must be whole minutes of at least 1' using errcode = 'P0001';
+  end if;
+
+  update public.store_settings
+     set sla_minutes = p_sla_minutes,
+         updated_by = public.current_staff_name(),
+         updated_at = now()
+  returning * into v_settings;
+
+  return v_settings;
+end;
+$$;
+
+-- Flags an overdue order as urgent once for the status it is late in. Calls for an
+-- order that has since moved on, was already escalated or is not overdue yet change
+-- nothing.
+create or replace function public.escalate_order(
+  p_order_id uuid,
+  p_status text
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_previous text;
+  v_limit integer;
+  v_entered_at timestamptz;
+begin
+  if public.current_staff_role() is null then
+    raise exception 'Only staff can escalate orders' using errcode = 'P0001';
+  end if;
+
+  select * into v_order
+    from public.orders
+   where id = p_order_id
+     for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id using errcode = 'P0002';
+  end if;
+
+  if v_order.order_status <> p_status or v_order.escalated_for_status is not distinct from p_status then
+    return v_order;
+  end if;
+
+  select (sla_minutes ->> p_status)::integer into v_limit from public.store_settings;
+
+  -- Mirrors getStatusEnteredAt in src/lib/sla.ts; edit log entries repeat the status
+  -- and are skipped
+  select coalesce(
+           max(created_at),
+           case when v_order.order_status = 'pending' then v_order.created_at else v_order.updated_at end
+         )
+    into v_entered_at
+    from public.order_status_history
+   where order_id = p_order_id
+     and status = v_order.order_status
+     and changes is null;
+
+  if v_limit is null or now() < v_entered_at + make_interval(mins => v_limit) then
+    return v_order;
+  end if;
+
+  v_previous := v_order.priority;
+
+  -- updated_at stays as it is, so edits and queued changes made against the order
+  -- still save
+  update public.orders
+     set escalated_for_status = p_status,
+         priority = 'urgent',
+         -- A flag staff raised by hand keeps their name
+         priority_set_by = case when priority = 'urgent' then priority_set_by else 'SLA monitor' end,
+         priority_set_at = case when priority = 'urgent' then priority_set_at else now() end
+   where id = p_order_id
+  returning * into v_order;
+
+  if v_previous is distinct from 'urgent' then
+    insert into public.order_status_history (order_id, status, created_by, created_at, changes)
+    values (
+      p_order_id,
+      v_order.order_status,
+      'SLA monitor',
+      now(),
+      jsonb_build_array(jsonb_build_object('field', 'Priority', 'before', v_previous, 'after', 'urgent'))
+    );
+  end if;
+
+  return v_order;
+end;
+$$;
@@ -0,0 +1,6 @@
+-- Notifications left out the status changes a staff member made by comparing their
+-- name with the one on the history row, so two staff with the same name never heard
+-- about each other's changes. Rows now also record the id of the signed-in staff
+-- member whose request wrote them; the customer site leaves it empty.
+alter table public.order_status_history
+  add column if not exists created_by_id uuid default auth.uid();
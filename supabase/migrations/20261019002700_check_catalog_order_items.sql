@@ -0,0 +1,61 @@
+-- Order items pointing at the catalog were only checked in the browser, so create_order
+-- and edit_order saved items that were off the menu, out of stock or in a size the
+-- item does not come in. Those are now refused whichever way the item is written.
+-- Prices and extras are still only flagged on screen: staff may discount an item, and
+-- extras are recorded under too many keys to match here.
+create or replace function public.check_catalog_order_item()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item public.catalog_items;
+  -- Stored under SIZE_CUSTOMIZATION_KEY in src/lib/menu.ts
+  v_size text := nullif(trim(new.customizations ->> 'size'), '');
+begin
+  if new.item_type is distinct from 'menu_item' then
+    return new;
+  end if;
+
+  select * into v_item from public.catalog_items where id::text = new.item_id::text;
+
+  if not found then
+    raise exception '% is not on the menu', new.item_name using errcode = 'P0001';
+  end if;
+
+  if not v_item.is_available then
+    raise exception '% is marked out of stock', v_item.name using errcode = 'P0001';
+  end if;
+
+  -- An item without sizes is sold at its base price, whatever size is recorded
+  if v_size is not null
+     and exists (select 1 from public.catalog_item_sizes where item_id = v_item.id)
+     and not exists (
+       select 1 from public.catalog_item_sizes
+        where item_id = v_item.id
+          and lower(trim(name)) = lower(v_size)
+     ) then
+    raise exception '% does not come in size %', v_item.name, v_size using errcode = 'P0001';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists order_items_check_catalog_insert on public.order_items;
+create trigger order_items_check_catalog_insert
+  before insert on public.order_items
+  for each row execute function public.check_catalog_order_item();
+
+-- Items already on an order stay editable after they go out of stock, as long as
+-- they are not swapped for another item or size
+drop trigger if exists order_items_check_catalog_update on public.order_items;
+create trigger order_items_check_catalog_update
+  before update on public.order_items
+  for each row
+  when (
+    (new.item_type, new.item_id::text, new.customizations ->> 'size')
+      is distinct from (old.item_type, old.item_id::text, old.customizations ->> 'size')
+  )
+  execute function public.check_catalog_order_item();